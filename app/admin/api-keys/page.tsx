@@ -0,0 +1,234 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { useRouter } from "next/navigation";
+import { adminFetch } from "@/lib/admin-fetch";
+import { cn } from "@/lib/utils";
+import { ApiKey } from "@/types";
+
+const ENDPOINTS = [
+  "/api/v1/players",
+  "/api/v1/players/:id",
+  "/api/v1/players/:id/prices?from&to&interval",
+  "/api/v1/players/:id/performance",
+  "/api/v1/leaderboards/tp?filter|last|month|season|from&to",
+  "/api/v1/leaderboards/volatility?days",
+  "/api/v1/teams",
+];
+
+export default function ApiKeysPage() {
+  const [loading, setLoading] = useState(true);
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState("");
+  const [rateLimit, setRateLimit] = useState("60");
+  const [newKey, setNewKey] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const loadKeys = useCallback(async () => {
+    const response = await adminFetch("/api/admin/api-keys");
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || "Failed to load API keys");
+      return;
+    }
+    setKeys(data.keys);
+  }, []);
+
+  useEffect(() => {
+    async function checkAuth() {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        router.push("/admin/login");
+        return;
+      }
+      await loadKeys();
+      setLoading(false);
+    }
+    checkAuth();
+  }, [router, loadKeys]);
+
+  const submit = async (body: object) => {
+    setSaving(true);
+    setError("");
+    setMessage("");
+    setNewKey("");
+
+    try {
+      const response = await adminFetch("/api/admin/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update API keys");
+      }
+      await loadKeys();
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update API keys");
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const data = await submit({
+      action: "create",
+      name: name.trim(),
+      rate_limit_per_minute: Number(rateLimit),
+    });
+    if (data) {
+      setNewKey(data.key);
+      setName("");
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Anything using it will start getting 401s.`)) return;
+    if (await submit({ action: "revoke", id: key.id })) {
+      setMessage(`Revoked ${key.name}`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <p className="text-gray-500">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-white">API Keys</h1>
+        <p className="text-gray-400 mt-2">Keys for the read-only JSON API</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Create Key</CardTitle>
+          <CardDescription>
+            Send the key as an X-API-Key header or a bearer token. Lists page with ?limit=
+            and the next_cursor of each response as ?cursor=. Add ?format=csv or ?format=xlsx
+            for a file instead of JSON.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name (e.g. notebook bot)"
+              className="w-64 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <input
+                type="number"
+                min={1}
+                value={rateLimit}
+                onChange={(e) => setRateLimit(e.target.value)}
+                className="w-24 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              requests / minute
+            </label>
+            <Button
+              onClick={handleCreate}
+              disabled={saving || !name.trim() || !(Number(rateLimit) >= 1)}
+            >
+              {saving ? "Saving..." : "Create Key"}
+            </Button>
+          </div>
+
+          {newKey && (
+            <div className="p-3 bg-gray-800 border border-yellow-600 rounded-lg">
+              <p className="text-sm text-yellow-400 mb-2">
+                Copy this key now; it won&apos;t be shown again.
+              </p>
+              <code className="text-white break-all">{newKey}</code>
+            </div>
+          )}
+
+          <ul className="text-xs text-gray-500 font-mono space-y-1">
+            {ENDPOINTS.map((endpoint) => (
+              <li key={endpoint}>GET {endpoint}</li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Keys</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && <p className="text-red-500">{error}</p>}
+          {message && <p className="text-green-500">{message}</p>}
+
+          <div className="overflow-x-auto border border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800">
+                <tr>
+                  <th className="px-3 py-2 text-left">Name</th>
+                  <th className="px-3 py-2 text-left">Key</th>
+                  <th className="px-3 py-2 text-right">Limit / min</th>
+                  <th className="px-3 py-2 text-left">Last Used</th>
+                  <th className="px-3 py-2 text-left">By</th>
+                  <th className="px-3 py-2 text-right"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {keys.map((key) => (
+                  <tr key={key.id} className={cn(key.revoked_at && "text-gray-500")}>
+                    <td className="px-3 py-2">
+                      {key.name}
+                      {key.revoked_at && <span className="ml-2 text-xs text-red-400">revoked</span>}
+                    </td>
+                    <td className="px-3 py-2 font-mono">{key.key_prefix}…</td>
+                    <td className="px-3 py-2 text-right">{key.rate_limit_per_minute}</td>
+                    <td className="px-3 py-2">
+                      {key.last_used_at ? new Date(key.last_used_at).toLocaleString() : "Never"}
+                    </td>
+                    <td className="px-3 py-2">{key.created_by || "-"}</td>
+                    <td className="px-3 py-2 text-right">
+                      {!key.revoked_at && (
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          disabled={saving}
+                          onClick={() => handleRevoke(key)}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {keys.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-3 py-6 text-center text-gray-500">
+                      No API keys yet
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <Button variant="secondary" onClick={() => router.push("/admin")}>
+            Back to Admin
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { useRouter } from "next/navigation";
+import { adminFetch } from "@/lib/admin-fetch";
+import { cn } from "@/lib/utils";
+import { CronGap, CronRun, CronRunStatus, PriceHealth } from "@/types";
+
+const WINDOWS = [
+  { hours: 24, label: "24h" },
+  { hours: 72, label: "3d" },
+  { hours: 168, label: "7d" },
+];
+
+const STATUS_COLORS: Record<CronRunStatus, string> = {
+  running: "text-blue-400",
+  success: "text-green-400",
+  partial: "text-yellow-400",
+  failed: "text-red-400",
+};
+
+function duration(run: CronRun): string {
+  if (!run.finished_at) return "-";
+  const seconds = (new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) / 1000;
+  return `${seconds.toFixed(1)}s`;
+}
+
+export default function CronPage() {
+  const [loading, setLoading] = useState(true);
+  const [hours, setHours] = useState(24);
+  const [runs, setRuns] = useState<CronRun[]>([]);
+  const [gaps, setGaps] = useState<CronGap[]>([]);
+  const [health, setHealth] = useState<PriceHealth | null>(null);
+  const [intervalMinutes, setIntervalMinutes] = useState<number | null>(null);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const loadRuns = useCallback(async (windowHours: number) => {
+    const response = await adminFetch(`/api/admin/cron-runs?hours=${windowHours}`);
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || "Failed to load cron runs");
+      return;
+    }
+    setError("");
+    setRuns(data.runs);
+    setGaps(data.gaps);
+    setHealth(data.health);
+    setIntervalMinutes(data.intervalMinutes);
+  }, []);
+
+  useEffect(() => {
+    async function checkAuth() {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        router.push("/admin/login");
+        return;
+      }
+      await loadRuns(hours);
+      setLoading(false);
+    }
+    checkAuth();
+  }, [router, loadRuns, hours]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <p className="text-gray-500">Loading...</p>
+      </div>
+    );
+  }
+
+  const failed = runs.filter((r) => r.status === "failed").length;
+  const missed = gaps.reduce((sum, g) => sum + g.missedRuns, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Price Fetch Runs</h1>
+          <p className="text-gray-400 mt-2">
+            Scheduled every {intervalMinutes} minutes in vercel.json
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {WINDOWS.map((w) => (
+            <Button
+              key={w.hours}
+              variant={hours === w.hours ? "primary" : "secondary"}
+              size="sm"
+              onClick={() => setHours(w.hours)}
+            >
+              {w.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-red-500">{error}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Prices</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p
+              className={cn(
+                "text-3xl font-bold",
+                health?.status === "ok" ? "text-green-400" : "text-red-400"
+              )}
+            >
+              {health?.status === "ok" ? "Fresh" : "Stale"}
+            </p>
+            <p className="text-sm text-gray-400 mt-1">
+              {health?.ageMinutes !== null && health?.ageMinutes !== undefined
+                ? `Last price ${health.ageMinutes} min ago`
+                : "No prices yet"}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Runs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold text-white">{runs.length}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Failed</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={cn("text-3xl font-bold", failed > 0 ? "text-red-400" : "text-white")}>
+              {failed}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Missed Slots</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={cn("text-3xl font-bold", missed > 0 ? "text-yellow-400" : "text-white")}>
+              {missed}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {gaps.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Gaps</CardTitle>
+            <CardDescription>Stretches where the cron did not run at all</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1 text-sm text-gray-300">
+              {gaps.map((gap) => (
+                <li key={gap.from}>
+                  {new Date(gap.from).toLocaleString()} → {new Date(gap.to).toLocaleString()}
+                  <span className="text-yellow-400 ml-2">
+                    {gap.missedRuns} missed run{gap.missedRuns > 1 ? "s" : ""}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Run History</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="overflow-x-auto max-h-[32rem] border border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">Started</th>
+                  <th className="px-3 py-2 text-left">Status</th>
+                  <th className="px-3 py-2 text-right">Duration</th>
+                  <th className="px-3 py-2 text-right">Tokens</th>
+                  <th className="px-3 py-2 text-right">Matched</th>
+                  <th className="px-3 py-2 text-right">Prices</th>
+                  <th className="px-3 py-2 text-right">Unmatched</th>
+                  <th className="px-3 py-2 text-left">Error</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {runs.map((run) => (
+                  <tr key={run.id}>
+                    <td className="px-3 py-2">{new Date(run.started_at).toLocaleString()}</td>
+                    <td className={cn("px-3 py-2", STATUS_COLORS[run.status])}>{run.status}</td>
+                    <td className="px-3 py-2 text-right">{duration(run)}</td>
+                    <td className="px-3 py-2 text-right">{run.tokens_fetched ?? "-"}</td>
+                    <td className="px-3 py-2 text-right">{run.players_matched ?? "-"}</td>
+                    <td className="px-3 py-2 text-right">{run.prices_inserted ?? "-"}</td>
+                    <td
+                      className="px-3 py-2 text-right"
+                      title={run.unmatched_tokens.join("\n")}
+                    >
+                      {run.unmatched_tokens.length}
+                    </td>
+                    <td className="px-3 py-2 text-red-400 max-w-xs truncate" title={run.error || ""}>
+                      {run.error || ""}
+                    </td>
+                  </tr>
+                ))}
+                {runs.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-3 py-6 text-center text-gray-500">
+                      No runs in this window
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <Button variant="secondary" onClick={() => router.push("/admin")}>
+            Back to Admin
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { useRouter } from "next/navigation";
+import { adminFetch } from "@/lib/admin-fetch";
+import { normalizeName } from "@/lib/utils";
+import { IdentityReviewItem } from "@/types";
+
+interface PlayerOption {
+  id: string;
+  display_name: string;
+  team_name: string | null;
+}
+
+function ReviewRow({
+  item,
+  players,
+  onResolve,
+}: {
+  item: IdentityReviewItem;
+  players: PlayerOption[];
+  onResolve: (reviewId: string, playerId: string | null) => Promise<void>;
+}) {
+  const [search, setSearch] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const query = normalizeName(search);
+  const matches = query
+    ? players.filter((p) => normalizeName(p.display_name).includes(query)).slice(0, 8)
+    : [];
+
+  const resolve = async (playerId: string | null) => {
+    setBusy(true);
+    await onResolve(item.id, playerId);
+    setBusy(false);
+  };
+
+  return (
+    <div className="border border-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-white font-medium">{item.alias}</p>
+          <p className="text-xs text-gray-500">
+            From {item.source} on {new Date(item.created_at).toLocaleDateString()}
+            {item.context &&
+              Object.entries(item.context)
+                .filter(([, value]) => value)
+                .map(([key, value]) => ` · ${key}: ${value}`)
+                .join("")}
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" disabled={busy} onClick={() => resolve(null)}>
+          Dismiss
+        </Button>
+      </div>
+
+      {item.candidates.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {item.candidates.map((candidate) => (
+            <Button
+              key={candidate.player_id}
+              variant="secondary"
+              size="sm"
+              disabled={busy}
+              onClick={() => resolve(candidate.player_id)}
+              title={candidate.reason}
+            >
+              {candidate.display_name} ({Math.round(candidate.score * 100)}%)
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search all players..."
+          className="w-full px-3 py-1.5 text-sm bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {matches.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {matches.map((player) => (
+              <Button
+                key={player.id}
+                variant="ghost"
+                size="sm"
+                disabled={busy}
+                onClick={() => resolve(player.id)}
+              >
+                {player.display_name}
+                {player.team_name && <span className="text-gray-500"> · {player.team_name}</span>}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function IdentityReviewPage() {
+  const [loading, setLoading] = useState(true);
+  const [reviews, setReviews] = useState<IdentityReviewItem[]>([]);
+  const [players, setPlayers] = useState<PlayerOption[]>([]);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const loadReviews = useCallback(async () => {
+    const response = await adminFetch("/api/admin/identity");
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || "Failed to load review queue");
+      return;
+    }
+    setReviews(data.reviews);
+    setPlayers(data.players);
+  }, []);
+
+  useEffect(() => {
+    async function checkAuth() {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        router.push("/admin/login");
+        return;
+      }
+      await loadReviews();
+      setLoading(false);
+    }
+    checkAuth();
+  }, [router, loadReviews]);
+
+  const handleResolve = async (reviewId: string, playerId: string | null) => {
+    setError("");
+    const response = await adminFetch("/api/admin/identity", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ reviewId, playerId }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data.error || "Failed to update review item");
+      return;
+    }
+
+    setReviews((current) => current.filter((r) => r.id !== reviewId));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <p className="text-gray-500">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-white">Player Identity Review</h1>
+        <p className="text-gray-400 mt-2">
+          Names from uploads, scripts and price feeds that could not be matched confidently
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending ({reviews.length})</CardTitle>
+          <CardDescription>
+            Linking a name records it as an alias, so the same name from the same source
+            resolves automatically from then on.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && <p className="text-red-500">{error}</p>}
+
+          {reviews.map((item) => (
+            <ReviewRow key={item.id} item={item} players={players} onResolve={handleResolve} />
+          ))}
+
+          {reviews.length === 0 && (
+            <p className="text-gray-500 text-center py-6">Nothing waiting for review</p>
+          )}
+
+          <Button variant="secondary" onClick={() => router.push("/admin")}>
+            Back to Admin
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { useRouter } from "next/navigation";
+import { adminFetch } from "@/lib/admin-fetch";
+import { cn } from "@/lib/utils";
+import { ImportBatch, ImportRollbackResult } from "@/types";
+
+export default function ImportsPage() {
+  const [loading, setLoading] = useState(true);
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const loadBatches = useCallback(async () => {
+    const response = await adminFetch("/api/admin/import-batches");
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || "Failed to load imports");
+      return;
+    }
+    setBatches(data.batches);
+  }, []);
+
+  useEffect(() => {
+    async function checkAuth() {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        router.push("/admin/login");
+        return;
+      }
+      await loadBatches();
+      setLoading(false);
+    }
+    checkAuth();
+  }, [router, loadBatches]);
+
+  const handleRollback = async (batch: ImportBatch) => {
+    const label = batch.file_name || batch.source;
+    if (!confirm(`Roll back "${label}" from ${new Date(batch.created_at).toLocaleString()}?`)) {
+      return;
+    }
+
+    setRollingBack(batch.id);
+    setError("");
+    setMessage("");
+
+    try {
+      const response = await adminFetch("/api/admin/import-batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ batchId: batch.id }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Rollback failed");
+      }
+
+      const result: ImportRollbackResult = data.result;
+      setMessage(
+        `Rolled back ${label}: ${result.performance_restored} rows restored, ` +
+          `${result.performance_deleted} rows and ${result.players_deleted} players deleted` +
+          (result.players_kept > 0
+            ? ` (${result.players_kept} created players kept, other imports use them)`
+            : "")
+      );
+      await loadBatches();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Rollback failed");
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <p className="text-gray-500">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-white">Import History</h1>
+        <p className="text-gray-400 mt-2">
+          Uploads and script imports, newest first
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Imports</CardTitle>
+          <CardDescription>
+            Rolling back restores the previous values of rows an import overwrote and
+            deletes the rows and players it created. Imports that touched the same rows
+            have to be rolled back newest first.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && <p className="text-red-500">{error}</p>}
+          {message && <p className="text-green-500">{message}</p>}
+
+          <div className="overflow-x-auto border border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800">
+                <tr>
+                  <th className="px-3 py-2 text-left">When</th>
+                  <th className="px-3 py-2 text-left">Source</th>
+                  <th className="px-3 py-2 text-left">File</th>
+                  <th className="px-3 py-2 text-left">By</th>
+                  <th className="px-3 py-2 text-right">New rows</th>
+                  <th className="px-3 py-2 text-right">Changed rows</th>
+                  <th className="px-3 py-2 text-right">Players</th>
+                  <th className="px-3 py-2 text-right"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {batches.map((batch) => {
+                  const rolledBack = batch.status === "rolled_back";
+                  return (
+                    <tr key={batch.id} className={cn(rolledBack && "text-gray-500")}>
+                      <td className="px-3 py-2">{new Date(batch.created_at).toLocaleString()}</td>
+                      <td className="px-3 py-2">{batch.source}</td>
+                      <td className="px-3 py-2">{batch.file_name || "-"}</td>
+                      <td className="px-3 py-2">{batch.created_by || "-"}</td>
+                      <td className="px-3 py-2 text-right">{batch.performance_inserted}</td>
+                      <td className="px-3 py-2 text-right">{batch.performance_updated}</td>
+                      <td className="px-3 py-2 text-right">
+                        {batch.players_created > 0 && `+${batch.players_created}`}
+                        {batch.players_created > 0 && batch.players_updated > 0 && " / "}
+                        {batch.players_updated > 0 && `~${batch.players_updated}`}
+                        {batch.players_created + batch.players_updated === 0 && "-"}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {rolledBack ? (
+                          <span title={`by ${batch.rolled_back_by}`}>
+                            Rolled back {new Date(batch.rolled_back_at!).toLocaleDateString()}
+                          </span>
+                        ) : (
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            disabled={rollingBack !== null}
+                            onClick={() => handleRollback(batch)}
+                          >
+                            {rollingBack === batch.id ? "Rolling back..." : "Rollback"}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {batches.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-3 py-6 text-center text-gray-500">
+                      No imports yet
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <Button variant="secondary" onClick={() => router.push("/admin")}>
+            Back to Admin
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -27,7 +27,9 @@ export default function AdminLoginPage() {
       setError(error.message);
       setLoading(false);
     } else {
-      router.push("/admin");
+      // Pages that need a session (e.g. /portfolio) send users here with ?next=
+      const next = new URLSearchParams(window.location.search).get("next");
+      router.push(next?.startsWith("/") && !next.startsWith("//") ? next : "/admin");
     }
   };
 
@@ -2,14 +2,17 @@
 
 import { useEffect, useState } from "react";
 import { supabase } from "@/lib/supabase";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
+import { PendingTokensTable } from "@/components/tables/PendingTokensTable";
+import { adminFetch } from "@/lib/admin-fetch";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 
 export default function AdminPage() {
   const [user, setUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [rebuilding, setRebuilding] = useState(false);
   const [stats, setStats] = useState({
     playerCount: 0,
     priceCount: 0,
@@ -79,6 +82,19 @@ export default function AdminPage() {
     }
   };
 
+  const rebuildPlayerStats = async () => {
+    setRebuilding(true);
+    try {
+      const response = await adminFetch("/api/admin/player-stats", { method: "POST" });
+      const data = await response.json();
+      alert(data.error || `Rebuilt ${data.rows} player stats rows`);
+    } catch (error) {
+      alert("Failed to rebuild player stats");
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[50vh]">
@@ -156,13 +172,44 @@ export default function AdminPage() {
             <Link href="/admin/upload">
               <Button>Upload CSV Data</Button>
             </Link>
+            <Link href="/admin/cron">
+              <Button variant="secondary">Cron Runs</Button>
+            </Link>
+            <Link href="/admin/imports">
+              <Button variant="secondary">Import History</Button>
+            </Link>
+            <Link href="/admin/identity">
+              <Button variant="secondary">Review Player Names</Button>
+            </Link>
+            <Link href="/admin/scoring-rules">
+              <Button variant="secondary">Scoring Rules</Button>
+            </Link>
+            <Link href="/admin/api-keys">
+              <Button variant="secondary">API Keys</Button>
+            </Link>
             <Button variant="secondary" onClick={triggerPriceFetch}>
               Trigger Price Fetch
             </Button>
+            <Button variant="secondary" onClick={rebuildPlayerStats} disabled={rebuilding}>
+              {rebuilding ? "Rebuilding..." : "Rebuild Player Stats"}
+            </Button>
           </div>
         </CardContent>
       </Card>
 
+      {/* Newly listed tokens */}
+      <Card>
+        <CardHeader>
+          <CardTitle>New Tokens</CardTitle>
+          <CardDescription>
+            Tokens on Tenero that the price fetch couldn&apos;t link to a player
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PendingTokensTable />
+        </CardContent>
+      </Card>
+
       {/* Quick Info */}
       <Card>
         <CardHeader>
@@ -172,7 +219,8 @@ export default function AdminPage() {
           <div>
             <h4 className="font-medium text-white">Cron Schedule</h4>
             <p className="text-gray-400">
-              Prices are fetched every 15 minutes via Vercel Cron
+              Prices are fetched every 15 minutes via Vercel Cron. Uptime monitors can
+              poll /api/health, which returns 503 once prices go stale.
             </p>
           </div>
           <div>
@@ -0,0 +1,212 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Select } from "@/components/ui/Select";
+import { useRouter } from "next/navigation";
+import { adminFetch } from "@/lib/admin-fetch";
+import { POSITIONS } from "@/lib/positions";
+import { cn } from "@/lib/utils";
+import { ScoringRule } from "@/types";
+
+const POSITION_OPTIONS = POSITIONS.map((p) => ({ value: p, label: p }));
+
+export default function ScoringRulesPage() {
+  const [loading, setLoading] = useState(true);
+  const [rules, setRules] = useState<ScoringRule[]>([]);
+  const [position, setPosition] = useState(POSITIONS[0]);
+  const [threshold, setThreshold] = useState("5");
+  const [effectiveFrom, setEffectiveFrom] = useState(() => new Date().toISOString().slice(0, 10));
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const loadRules = useCallback(async () => {
+    const response = await adminFetch("/api/admin/scoring-rules");
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || "Failed to load scoring rules");
+      return;
+    }
+    setRules(data.rules);
+  }, []);
+
+  useEffect(() => {
+    async function checkAuth() {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        router.push("/admin/login");
+        return;
+      }
+      await loadRules();
+      setLoading(false);
+    }
+    checkAuth();
+  }, [router, loadRules]);
+
+  const submit = async (body: object, success: string) => {
+    setSaving(true);
+    setError("");
+    setMessage("");
+
+    try {
+      const response = await adminFetch("/api/admin/scoring-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save scoring rule");
+      }
+      setMessage(success);
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save scoring rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = () =>
+    submit(
+      {
+        action: "add",
+        rule: { position, rank_threshold: Number(threshold), effective_from: effectiveFrom },
+      },
+      `${position}: top ${threshold} earn TP from ${effectiveFrom}`
+    );
+
+  const handleDelete = (rule: ScoringRule) => {
+    if (!confirm(`Delete the ${rule.position} rule from ${rule.effective_from}?`)) return;
+    submit(
+      { action: "delete", id: rule.id },
+      `Deleted the ${rule.position} rule from ${rule.effective_from}`
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <p className="text-gray-500">Loading...</p>
+      </div>
+    );
+  }
+
+  // Rules come newest first per position, so the first one that has started is in force
+  const today = new Date().toISOString().slice(0, 10);
+  const inForce = new Set(
+    POSITIONS.map((p) => rules.find((r) => r.position === p && r.effective_from <= today)?.id)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-white">Scoring Rules</h1>
+        <p className="text-gray-400 mt-2">
+          The finishing rank each position needs to earn TP
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Rule</CardTitle>
+          <CardDescription>
+            A rule applies to games from its effective date until the position&apos;s next
+            rule. Saving recounts TP finishes for every player.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-3">
+            <Select value={position} onChange={setPosition} options={POSITION_OPTIONS} />
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Top
+              <input
+                type="number"
+                min={1}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                className="w-20 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              from
+              <input
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <Button onClick={handleAdd} disabled={saving || !threshold || !effectiveFrom}>
+              {saving ? "Saving..." : "Add Rule"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && <p className="text-red-500">{error}</p>}
+          {message && <p className="text-green-500">{message}</p>}
+
+          <div className="overflow-x-auto border border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800">
+                <tr>
+                  <th className="px-3 py-2 text-left">Position</th>
+                  <th className="px-3 py-2 text-right">Top</th>
+                  <th className="px-3 py-2 text-left">Effective From</th>
+                  <th className="px-3 py-2 text-left">By</th>
+                  <th className="px-3 py-2 text-right"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {rules.map((rule) => (
+                  <tr key={rule.id} className={cn(!inForce.has(rule.id) && "text-gray-500")}>
+                    <td className="px-3 py-2">
+                      {rule.position}
+                      {inForce.has(rule.id) && (
+                        <span className="ml-2 text-xs text-green-400">in force</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">{rule.rank_threshold}</td>
+                    <td className="px-3 py-2">{rule.effective_from}</td>
+                    <td className="px-3 py-2">{rule.created_by || "-"}</td>
+                    <td className="px-3 py-2 text-right">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() => handleDelete(rule)}
+                      >
+                        Delete
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                {rules.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-6 text-center text-gray-500">
+                      No scoring rules; no games earn TP finishes
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <Button variant="secondary" onClick={() => router.push("/admin")}>
+            Back to Admin
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,25 +5,21 @@ import { supabase } from "@/lib/supabase";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
 import { useRouter } from "next/navigation";
-
-interface ParsedRow {
-  display_name: string;
-  team_name: string;
-  position: string;
-  match_date: string;
-  raw_score: number | null;
-  ranking: number | null;
-  reward: number | null;
-}
+import Link from "next/link";
+import { adminFetch } from "@/lib/admin-fetch";
+import { ImportDiffTable } from "@/components/tables/ImportDiffTable";
+import { PerformanceImportDiff, PerformanceImportReport } from "@/types";
 
 export default function UploadPage() {
   const [user, setUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [previewing, setPreviewing] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [file, setFile] = useState<File | null>(null);
-  const [preview, setPreview] = useState<ParsedRow[]>([]);
+  const [createPlayers, setCreatePlayers] = useState(true);
+  const [diff, setDiff] = useState<PerformanceImportDiff | null>(null);
+  const [report, setReport] = useState<PerformanceImportReport | null>(null);
   const [error, setError] = useState("");
-  const [success, setSuccess] = useState("");
   const router = useRouter();
 
   useEffect(() => {
@@ -39,84 +35,41 @@ export default function UploadPage() {
     checkAuth();
   }, [router]);
 
-  const parseCSV = (text: string): ParsedRow[] => {
-    const lines = text.trim().split("\n");
-    const headers = lines[0].split(",").map((h) => h.trim());
-
-    // Find column indices
-    const displayNameIdx = headers.findIndex((h) =>
-      h.toLowerCase().includes("display") || h.toLowerCase().includes("name")
-    );
-    const teamIdx = headers.findIndex((h) => h.toLowerCase().includes("team"));
-    const positionIdx = headers.findIndex((h) => h.toLowerCase().includes("position"));
-
-    // Find date columns (format: M/D/YYYY)
-    const datePattern = /^\d{1,2}\/\d{1,2}\/\d{4}$/;
-    const dateColumns = headers
-      .map((h, i) => ({ header: h, index: i }))
-      .filter((col) => datePattern.test(col.header));
-
-    const rows: ParsedRow[] = [];
-    let currentPlayer: { name: string; team: string; position: string } | null = null;
-    let currentMetric: string | null = null;
-
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(",").map((v) => v.trim());
-
-      // Check if this is a player row (has name in first column)
-      if (values[displayNameIdx] && values[displayNameIdx] !== "") {
-        currentPlayer = {
-          name: values[displayNameIdx],
-          team: values[teamIdx] || "",
-          position: values[positionIdx] || "",
-        };
-      }
-
-      // Check for metric type (Raw Score, Ranking, Reward)
-      const metricCol = values.find((v) =>
-        ["raw score", "ranking", "reward"].includes(v.toLowerCase())
-      );
-      if (metricCol) {
-        currentMetric = metricCol.toLowerCase();
-      }
-
-      // Parse values for each date column
-      if (currentPlayer && currentMetric) {
-        dateColumns.forEach((dateCol) => {
-          const value = values[dateCol.index];
-          if (value && value !== "") {
-            const numValue = parseFloat(value.replace(/,/g, ""));
-            if (!isNaN(numValue)) {
-              // Find or create row for this player/date
-              let row = rows.find(
-                (r) =>
-                  r.display_name === currentPlayer!.name &&
-                  r.match_date === dateCol.header
-              );
+  const postImport = async (
+    selectedFile: File,
+    mode: "preview" | "commit",
+    fingerprint?: string
+  ) => {
+    const formData = new FormData();
+    formData.append("file", selectedFile);
+    formData.append("createPlayers", String(createPlayers));
+    formData.append("mode", mode);
+    if (fingerprint) formData.append("fingerprint", fingerprint);
+
+    const response = await adminFetch("/api/admin/performance-import", {
+      method: "POST",
+      body: formData,
+    });
+    return { response, data: await response.json() };
+  };
 
-              if (!row) {
-                row = {
-                  display_name: currentPlayer!.name,
-                  team_name: currentPlayer!.team,
-                  position: currentPlayer!.position,
-                  match_date: dateCol.header,
-                  raw_score: null,
-                  ranking: null,
-                  reward: null,
-                };
-                rows.push(row);
-              }
+  const handlePreview = async (selectedFile: File) => {
+    setPreviewing(true);
+    setError("");
+    setDiff(null);
+    setReport(null);
 
-              if (currentMetric === "raw score") row.raw_score = numValue;
-              if (currentMetric === "ranking") row.ranking = numValue;
-              if (currentMetric === "reward") row.reward = numValue;
-            }
-          }
-        });
+    try {
+      const { response, data } = await postImport(selectedFile, "preview");
+      if (!response.ok) {
+        throw new Error(data.error || "Preview failed");
       }
+      setDiff(data.diff);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Preview failed");
+    } finally {
+      setPreviewing(false);
     }
-
-    return rows;
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -124,100 +77,30 @@ export default function UploadPage() {
     if (!selectedFile) return;
 
     setFile(selectedFile);
-    setError("");
-    setSuccess("");
-
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const text = event.target?.result as string;
-        const parsed = parseCSV(text);
-        setPreview(parsed.slice(0, 20)); // Show first 20 rows
-      } catch (err) {
-        setError("Failed to parse CSV file");
-      }
-    };
-    reader.readAsText(selectedFile);
+    handlePreview(selectedFile);
   };
 
-  const handleUpload = async () => {
-    if (!file) return;
+  const handleConfirm = async () => {
+    if (!file || !diff) return;
 
     setUploading(true);
     setError("");
-    setSuccess("");
 
     try {
-      const reader = new FileReader();
-      reader.onload = async (event) => {
-        const text = event.target?.result as string;
-        const parsed = parseCSV(text);
-
-        // Get unique players
-        const uniquePlayers = [...new Set(parsed.map((r) => r.display_name))];
-
-        // Ensure players exist in database
-        for (const playerName of uniquePlayers) {
-          const playerData = parsed.find((r) => r.display_name === playerName);
-
-          const { data: existingPlayer } = await supabase
-            .from("players")
-            .select("id")
-            .eq("display_name", playerName)
-            .single();
-
-          if (!existingPlayer) {
-            await supabase.from("players").insert({
-              display_name: playerName,
-              team_name: playerData?.team_name || null,
-              position: playerData?.position || null,
-            });
-          }
-        }
-
-        // Get all player IDs
-        const { data: players } = await supabase
-          .from("players")
-          .select("id, display_name");
+      const { response, data } = await postImport(file, "commit", diff.fingerprint);
 
-        const playerMap = new Map(players?.map((p) => [p.display_name, p.id]));
-
-        // Insert performance data
-        const performanceRecords = parsed
-          .filter((r) => r.raw_score !== null || r.ranking !== null || r.reward !== null)
-          .map((r) => {
-            // Convert date format M/D/YYYY to YYYY-MM-DD
-            const [month, day, year] = r.match_date.split("/");
-            const isoDate = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-
-            return {
-              player_id: playerMap.get(r.display_name),
-              match_date: isoDate,
-              raw_score: r.raw_score,
-              ranking: r.ranking,
-              reward: r.reward,
-            };
-          })
-          .filter((r) => r.player_id);
-
-        // Upsert performance records
-        const { error: insertError } = await supabase
-          .from("performance")
-          .upsert(performanceRecords, {
-            onConflict: "player_id,match_date",
-          });
-
-        if (insertError) {
-          throw insertError;
-        }
+      if (response.status === 409) {
+        // Stored rows moved underneath us: show the fresh diff for another review
+        setDiff(data.diff);
+        throw new Error(data.error);
+      }
+      if (!response.ok) {
+        throw new Error(data.error || "Upload failed");
+      }
 
-        setSuccess(
-          `Successfully imported ${performanceRecords.length} performance records for ${uniquePlayers.length} players`
-        );
-        setFile(null);
-        setPreview([]);
-      };
-      reader.readAsText(file);
+      setReport(data.report);
+      setDiff(null);
+      setFile(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Upload failed");
     } finally {
@@ -225,6 +108,11 @@ export default function UploadPage() {
     }
   };
 
+  const issues = report ? [...report.unmatchedRows, ...report.skippedRows] : [];
+  const pendingChanges = diff
+    ? diff.rows.filter((r) => r.kind !== "unchanged").length + diff.newPlayers.length
+    : 0;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[50vh]">
@@ -238,23 +126,24 @@ export default function UploadPage() {
       <div>
         <h1 className="text-3xl font-bold text-white">Upload Data</h1>
         <p className="text-gray-400 mt-2">
-          Import performance data from CSV files
+          Import performance data from CSV or XLSX files
         </p>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>CSV Upload</CardTitle>
+          <CardTitle>CSV / XLSX Upload</CardTitle>
           <CardDescription>
-            Upload a CSV file with player performance data. The file should have
+            Upload a CSV or XLSX file with player performance data. The file should have
             columns for player name, team, position, and dates with scores,
-            rankings, and rewards.
+            rankings, and rewards. Changes are previewed against stored data and only
+            applied, in a single transaction, once you confirm.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <input
             type="file"
-            accept=".csv"
+            accept=".csv,.xlsx"
             onChange={handleFileChange}
             className="block w-full text-sm text-gray-400
               file:mr-4 file:py-2 file:px-4
@@ -265,46 +154,78 @@ export default function UploadPage() {
               file:cursor-pointer cursor-pointer"
           />
 
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="checkbox"
+              checked={createPlayers}
+              onChange={(e) => {
+                setCreatePlayers(e.target.checked);
+                setDiff(null);
+              }}
+            />
+            Create players that are not in the database yet
+          </label>
+
           {error && <p className="text-red-500">{error}</p>}
-          {success && <p className="text-green-500">{success}</p>}
 
-          {preview.length > 0 && (
-            <div>
-              <h4 className="font-medium text-white mb-2">
-                Preview (first 20 rows)
-              </h4>
-              <div className="overflow-x-auto max-h-64 border border-gray-700 rounded-lg">
-                <table className="w-full text-sm">
-                  <thead className="bg-gray-800 sticky top-0">
-                    <tr>
-                      <th className="px-3 py-2 text-left">Player</th>
-                      <th className="px-3 py-2 text-left">Date</th>
-                      <th className="px-3 py-2 text-right">Score</th>
-                      <th className="px-3 py-2 text-right">Rank</th>
-                      <th className="px-3 py-2 text-right">Reward</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-gray-800">
-                    {preview.map((row, i) => (
-                      <tr key={i}>
-                        <td className="px-3 py-2">{row.display_name}</td>
-                        <td className="px-3 py-2">{row.match_date}</td>
-                        <td className="px-3 py-2 text-right">{row.raw_score ?? "-"}</td>
-                        <td className="px-3 py-2 text-right">{row.ranking ?? "-"}</td>
-                        <td className="px-3 py-2 text-right">
-                          {row.reward ? `$${row.reward.toLocaleString()}` : "-"}
-                        </td>
+          {previewing && <p className="text-gray-400">Comparing file with stored data...</p>}
+
+          {diff && <ImportDiffTable diff={diff} />}
+
+          {report && (
+            <div className="space-y-4">
+              <p className="text-green-500">
+                Imported {report.inserted} new and {report.updated} updated performance
+                records ({report.skipped} skipped, {report.unmatched} unmatched)
+              </p>
+
+              {report.batchId && (
+                <p className="text-sm text-gray-400">
+                  Recorded as an import batch; it can be rolled back from{" "}
+                  <Link href="/admin/imports" className="text-blue-400 hover:underline">
+                    Import History
+                  </Link>
+                  .
+                </p>
+              )}
+
+              {report.createdPlayers.length > 0 && (
+                <p className="text-sm text-gray-400">
+                  Created players: {report.createdPlayers.join(", ")}
+                </p>
+              )}
+
+              {issues.length > 0 && (
+                <div className="overflow-x-auto max-h-64 border border-gray-700 rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-800 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Player</th>
+                        <th className="px-3 py-2 text-left">Date</th>
+                        <th className="px-3 py-2 text-left">Reason</th>
                       </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+                    </thead>
+                    <tbody className="divide-y divide-gray-800">
+                      {issues.map((row, i) => (
+                        <tr key={i}>
+                          <td className="px-3 py-2">{row.display_name}</td>
+                          <td className="px-3 py-2">{row.match_date ?? "-"}</td>
+                          <td className="px-3 py-2 text-gray-400">{row.reason}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </div>
           )}
 
           <div className="flex gap-4">
-            <Button onClick={handleUpload} disabled={!file || uploading}>
-              {uploading ? "Uploading..." : "Upload Data"}
+            {file && !diff && !previewing && (
+              <Button onClick={() => handlePreview(file)}>Preview Changes</Button>
+            )}
+            <Button onClick={handleConfirm} disabled={!diff || pendingChanges === 0 || uploading}>
+              {uploading ? "Importing..." : `Confirm Import${diff ? ` (${pendingChanges} changes)` : ""}`}
             </Button>
             <Button
               variant="secondary"
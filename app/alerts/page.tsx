@@ -0,0 +1,449 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { getSupabase, supabase } from "@/lib/supabase";
+import { getLatestPrices, getPlayers } from "@/lib/data";
+import {
+  ALERT_KINDS,
+  NOTIFICATION_CHANNELS,
+  addAlertRule,
+  addToWatchlist,
+  deleteAlertRule,
+  describeAlertRule,
+  getAlertRules,
+  getWatchlist,
+  removeFromWatchlist,
+  setAlertRuleActive,
+} from "@/lib/alerts";
+import {
+  getNotificationSettings,
+  getNotifications,
+  saveNotificationSettings,
+} from "@/lib/notifications";
+import { cn, formatPrice } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Select } from "@/components/ui/Select";
+import {
+  AlertKind,
+  AlertRule,
+  LatestPrice,
+  NotificationChannelName,
+  Player,
+  UserNotification,
+  WatchlistItem,
+} from "@/types";
+
+const inputClass =
+  "px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+/** What the threshold input means for each kind; tp_earned has none */
+const THRESHOLD_LABELS: Partial<Record<AlertKind, string>> = {
+  price_cross: "Level ($)",
+  price_move: "Move (%)",
+  holder_change: "Holders",
+  top_rank: "Top N",
+};
+
+const WINDOWED_KINDS: AlertKind[] = ["price_move", "holder_change"];
+
+export default function AlertsPage() {
+  const [loading, setLoading] = useState(true);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [watchlist, setWatchlist] = useState<WatchlistItem[]>([]);
+  const [prices, setPrices] = useState<Map<string, LatestPrice>>(new Map());
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [watchPlayerId, setWatchPlayerId] = useState("");
+  const [rulePlayerId, setRulePlayerId] = useState("");
+  const [kind, setKind] = useState<AlertKind>("price_cross");
+  const [threshold, setThreshold] = useState("");
+  const [windowHours, setWindowHours] = useState("24");
+  const [channels, setChannels] = useState<NotificationChannelName[]>(["in_app"]);
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [email, setEmail] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const loadAlerts = useCallback(async () => {
+    const client = getSupabase();
+    const [allPlayers, items, allRules, recent] = await Promise.all([
+      getPlayers(client),
+      getWatchlist(client),
+      getAlertRules(client),
+      getNotifications(client, 50),
+    ]);
+
+    setPlayers(allPlayers);
+    setWatchlist(items);
+    setRules(allRules);
+    setNotifications(recent);
+    setPrices(await getLatestPrices(client, items.map((i) => i.player_id)));
+  }, []);
+
+  useEffect(() => {
+    async function checkAuth() {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        router.push("/admin/login?next=/alerts");
+        return;
+      }
+      try {
+        await loadAlerts();
+        const settings = await getNotificationSettings(getSupabase());
+        setWebhookUrl(settings.webhook_url || "");
+        setEmail(settings.email || user.email || "");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load alerts");
+      }
+      setLoading(false);
+    }
+    checkAuth();
+  }, [router, loadAlerts]);
+
+  const playerOptions = useMemo(
+    () => players.map((p) => ({ value: p.id, label: p.display_name })),
+    [players]
+  );
+  const playerNames = useMemo(() => new Map(players.map((p) => [p.id, p.display_name])), [players]);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setSaving(true);
+    setError("");
+    setMessage("");
+
+    try {
+      await action();
+      setMessage(success);
+      await loadAlerts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddRule = () =>
+    run(
+      () =>
+        addAlertRule(getSupabase(), {
+          player_id: rulePlayerId,
+          kind,
+          threshold: kind === "tp_earned" ? null : Number(threshold),
+          window_minutes: WINDOWED_KINDS.includes(kind)
+            ? Math.round(Number(windowHours) * 60)
+            : null,
+          channels,
+        }),
+      "Alert added"
+    );
+
+  const handleSaveSettings = () =>
+    run(
+      () =>
+        saveNotificationSettings(getSupabase(), {
+          webhook_url: webhookUrl.trim() || null,
+          email: email.trim() || null,
+        }),
+      "Delivery settings saved"
+    );
+
+  const toggleChannel = (channel: NotificationChannelName) =>
+    setChannels(
+      channels.includes(channel) ? channels.filter((c) => c !== channel) : [...channels, channel]
+    );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <p className="text-gray-500">Loading...</p>
+      </div>
+    );
+  }
+
+  const thresholdLabel = THRESHOLD_LABELS[kind];
+  const canAddRule =
+    rulePlayerId &&
+    channels.length > 0 &&
+    (!thresholdLabel || (threshold !== "" && Number(threshold) > 0)) &&
+    (!WINDOWED_KINDS.includes(kind) || Number(windowHours) > 0);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-white">Alerts</h1>
+        <p className="text-gray-400 mt-2">
+          Watch players and get notified when prices, holders, TP or rankings move. Alerts are
+          checked after every price fetch.
+        </p>
+      </div>
+
+      {error && <p className="text-red-500">{error}</p>}
+      {message && <p className="text-green-500">{message}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Watchlist</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Select
+              value={watchPlayerId}
+              onChange={setWatchPlayerId}
+              options={playerOptions}
+              placeholder="Select player..."
+            />
+            <Button
+              onClick={() =>
+                run(() => addToWatchlist(getSupabase(), watchPlayerId), "Added to watchlist")
+              }
+              disabled={saving || !watchPlayerId}
+            >
+              Watch
+            </Button>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800">
+                <tr>
+                  <th className="px-3 py-2 text-left">Player</th>
+                  <th className="px-3 py-2 text-right">Price</th>
+                  <th className="px-3 py-2 text-right">Alerts</th>
+                  <th className="px-3 py-2 text-right"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {watchlist.map((item) => (
+                  <tr key={item.player_id}>
+                    <td className="px-3 py-2">{playerNames.get(item.player_id) || "-"}</td>
+                    <td className="px-3 py-2 text-right">
+                      {formatPrice(prices.get(item.player_id)?.price ?? null)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {rules.filter((r) => r.player_id === item.player_id).length}
+                    </td>
+                    <td className="px-3 py-2 text-right space-x-2">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => setRulePlayerId(item.player_id)}
+                      >
+                        Add Alert
+                      </Button>
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() =>
+                          run(
+                            () => removeFromWatchlist(getSupabase(), item.player_id),
+                            "Removed from watchlist"
+                          )
+                        }
+                      >
+                        Remove
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                {watchlist.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-3 py-6 text-center text-gray-500">
+                      No players watched yet
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Alert</CardTitle>
+          <CardDescription>
+            Crossings and rank changes fire once per crossing. Price and holder moves are
+            measured over the window (up to a week) and fire at most once per window.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <Select
+              value={rulePlayerId}
+              onChange={setRulePlayerId}
+              options={playerOptions}
+              placeholder="Select player..."
+            />
+            <Select value={kind} onChange={(v) => setKind(v as AlertKind)} options={ALERT_KINDS} />
+            {thresholdLabel && (
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                placeholder={thresholdLabel}
+                className={cn(inputClass, "w-32")}
+              />
+            )}
+            {WINDOWED_KINDS.includes(kind) && (
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                within
+                <input
+                  type="number"
+                  min={0.25}
+                  max={168}
+                  step="any"
+                  value={windowHours}
+                  onChange={(e) => setWindowHours(e.target.value)}
+                  className={cn(inputClass, "w-24")}
+                />
+                hours
+              </label>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            {NOTIFICATION_CHANNELS.map((c) => (
+              <label key={c.value} className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={channels.includes(c.value)}
+                  onChange={() => toggleChannel(c.value)}
+                />
+                {c.label}
+              </label>
+            ))}
+            <Button onClick={handleAddRule} disabled={saving || !canAddRule}>
+              {saving ? "Saving..." : "Add Alert"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Alerts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto border border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800">
+                <tr>
+                  <th className="px-3 py-2 text-left">Player</th>
+                  <th className="px-3 py-2 text-left">Alert</th>
+                  <th className="px-3 py-2 text-left">Channels</th>
+                  <th className="px-3 py-2 text-left">Last Fired</th>
+                  <th className="px-3 py-2 text-right"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {rules.map((rule) => (
+                  <tr key={rule.id} className={cn(!rule.active && "text-gray-500")}>
+                    <td className="px-3 py-2">{playerNames.get(rule.player_id) || "-"}</td>
+                    <td className="px-3 py-2">{describeAlertRule(rule)}</td>
+                    <td className="px-3 py-2">{rule.channels.join(", ")}</td>
+                    <td className="px-3 py-2">
+                      {rule.last_fired_at ? new Date(rule.last_fired_at).toLocaleString() : "-"}
+                    </td>
+                    <td className="px-3 py-2 text-right space-x-2">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() =>
+                          run(
+                            () => setAlertRuleActive(getSupabase(), rule.id, !rule.active),
+                            rule.active ? "Alert paused" : "Alert resumed"
+                          )
+                        }
+                      >
+                        {rule.active ? "Pause" : "Resume"}
+                      </Button>
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() =>
+                          run(() => deleteAlertRule(getSupabase(), rule.id), "Alert deleted")
+                        }
+                      >
+                        Delete
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                {rules.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-6 text-center text-gray-500">
+                      No alerts yet
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delivery</CardTitle>
+          <CardDescription>
+            Where webhook and email alerts go. Alerts are sent within five minutes, and failed
+            deliveries are retried twice more five minutes apart.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="url"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              placeholder="Webhook URL"
+              className={cn(inputClass, "w-96 max-w-full")}
+            />
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              className={cn(inputClass, "w-64")}
+            />
+            <Button onClick={handleSaveSettings} disabled={saving}>
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Notifications</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ul className="divide-y divide-gray-800">
+            {notifications.map((n) => (
+              <li key={n.id} className="py-3">
+                <div className="flex justify-between gap-4">
+                  <p className="text-white">{n.title}</p>
+                  <p className="text-xs text-gray-500 whitespace-nowrap">
+                    {new Date(n.created_at).toLocaleString()}
+                  </p>
+                </div>
+                <p className="text-sm text-gray-400">{n.body}</p>
+              </li>
+            ))}
+            {notifications.length === 0 && (
+              <li className="py-6 text-center text-gray-500">No notifications yet</li>
+            )}
+          </ul>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
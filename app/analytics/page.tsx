@@ -1,112 +1,31 @@
 import { getSupabase } from "@/lib/supabase";
+import { getMonthlyUniqueEarners, getPlayers, getPositionScoreStats } from "@/lib/data";
+import { POSITIONS } from "@/lib/positions";
+import { currentTPThresholds, getScoringRules } from "@/lib/scoring-rules";
+import {
+  getWindowStats,
+  parseTimeWindow,
+  resolveTimeWindow,
+  timeWindowParams,
+  TimeWindowParams,
+} from "@/lib/time-window";
+import { getConsistencyData, getPositionStats } from "@/lib/analytics";
+import { fitFairValueModels } from "@/lib/fair-value-model";
+import { MonthlyEarners, Player, PlayerWindowStats } from "@/types";
 import { PositionTPStats } from "@/components/charts/PositionTPStats";
 import { ConsistencyChart } from "@/components/charts/ConsistencyChart";
 import { UniqueEarnersChart } from "@/components/charts/UniqueEarnersChart";
 import { TopTPPlayersChart } from "@/components/charts/TopTPPlayersChart";
 import { TPvsPriceSection } from "@/components/charts/TPvsPriceSection";
-import Link from "next/link";
+import { ExportButtons } from "@/components/ui/ExportButtons";
+import { TimeWindowPicker } from "@/components/ui/TimeWindowPicker";
 
 export const revalidate = 300; // Cache for 5 minutes
 
-type TimeFilter = "1m" | "3m" | "all";
-
-const TIME_FILTERS: { value: TimeFilter; label: string }[] = [
-  { value: "1m", label: "Last Month" },
-  { value: "3m", label: "Last 3 Months" },
-  { value: "all", label: "All Time" },
-];
-
-function getDateRange(filter: TimeFilter): Date | null {
-  if (filter === "all") return null;
-
-  const now = new Date();
-  if (filter === "1m") {
-    return new Date(now.getFullYear(), now.getMonth() - 1, now.getDate());
-  }
-  if (filter === "3m") {
-    return new Date(now.getFullYear(), now.getMonth() - 3, now.getDate());
-  }
-  return null;
-}
-
-const POSITION_COLORS: Record<string, string> = {
-  Forward: "#22C55E",
-  Midfielder: "#3B82F6",
-  Defender: "#F97316",
-  Goalkeeper: "#A855F7",
-};
-
-// TP scoring thresholds by position
-const TP_THRESHOLDS: Record<string, number> = {
-  Forward: 5,
-  Midfielder: 5,
-  Defender: 5,
-  Goalkeeper: 3,
-};
-
-interface PerformanceRecord {
-  player_id: string;
-  reward: number | null;
-  ranking: number | null;
-  raw_score: number | null;
-  match_date: string;
-}
-
-async function getTPvsPriceData(filter: TimeFilter) {
-  const supabase = getSupabase();
-  const startDate = getDateRange(filter);
-
-  const { data: players } = await supabase
-    .from("players")
-    .select(`id, display_name, position`)
-    .not("position", "is", null)
-    .order("display_name");
-
-  if (!players) return {};
-
-  // Get latest prices separately (ordered by fetched_at desc)
-  const playerIds = players.map((p) => p.id);
-  const { data: prices } = await supabase
-    .from("prices")
-    .select("player_id, price_usd")
-    .in("player_id", playerIds)
-    .order("fetched_at", { ascending: false });
-
-  // Map to get latest price per player (first occurrence = most recent)
-  const latestPriceByPlayer: Record<string, number> = {};
-  prices?.forEach((p) => {
-    if (!latestPriceByPlayer[p.player_id]) {
-      latestPriceByPlayer[p.player_id] = p.price_usd;
-    }
-  });
-
-  const totalTPByPlayer: Record<string, number> = {};
-  let offset = 0;
-  const pageSize = 1000;
-
-  while (true) {
-    let query = supabase
-      .from("performance")
-      .select("player_id, reward, match_date")
-      .range(offset, offset + pageSize - 1);
-
-    if (startDate) {
-      query = query.gte("match_date", startDate.toISOString().split("T")[0]);
-    }
-
-    const { data: rewards } = await query;
-    if (!rewards || rewards.length === 0) break;
-
-    rewards.forEach((r) => {
-      if (r.reward) {
-        totalTPByPlayer[r.player_id] = (totalTPByPlayer[r.player_id] || 0) + r.reward;
-      }
-    });
-
-    if (rewards.length < pageSize) break;
-    offset += pageSize;
-  }
-
+function getTPvsPriceData(
+  players: Player[],
+  stats: Map<string, PlayerWindowStats>
+) {
   const dataByPosition: Record<string, { name: string; price: number; totalTP: number }[]> = {
     Forward: [],
     Midfielder: [],
@@ -118,262 +37,63 @@ async function getTPvsPriceData(filter: TimeFilter) {
     const position = player.position;
     if (!position || !dataByPosition[position]) return;
 
-    const latestPrice = latestPriceByPlayer[player.id];
-    if (!latestPrice || latestPrice <= 0) return;
-
-    const totalTP = totalTPByPlayer[player.id] || 0;
+    const s = stats.get(player.id);
+    if (!s?.latestPrice || s.latestPrice <= 0) return;
 
     dataByPosition[position].push({
       name: player.display_name,
-      price: latestPrice,
-      totalTP: totalTP,
+      price: s.latestPrice,
+      totalTP: s.totalTP,
     });
   });
 
   return dataByPosition;
 }
 
-interface PositionStats {
-  position: string;
-  avgScore: number;
-  highestScore: number;
-  highestScorePlayer: string;
-  lowestScore: number;
-  lowestScorePlayer: string;
-  tpThreshold: number;
-}
-
-async function getPositionStats(filter: TimeFilter): Promise<PositionStats[]> {
-  const supabase = getSupabase();
-  const startDate = getDateRange(filter);
-
-  // Get players with positions
-  const { data: players } = await supabase
-    .from("players")
-    .select("id, display_name, position")
-    .not("position", "is", null);
-
-  if (!players) return [];
-
-  const playerMap = new Map(players.map((p) => [p.id, p]));
-
-  // Get performance data - only where ranking qualifies for TP
-  // Track all individual game scores with player names for finding true high/low
-  const positionData: Record<string, { gameScores: { name: string; score: number }[] }> = {
-    Forward: { gameScores: [] },
-    Midfielder: { gameScores: [] },
-    Defender: { gameScores: [] },
-    Goalkeeper: { gameScores: [] },
-  };
-
-  let offset = 0;
-  const pageSize = 1000;
-
-  while (true) {
-    let query = supabase
-      .from("performance")
-      .select("player_id, raw_score, ranking")
-      .not("raw_score", "is", null)
-      .range(offset, offset + pageSize - 1);
-
-    if (startDate) {
-      query = query.gte("match_date", startDate.toISOString().split("T")[0]);
-    }
-
-    const { data: performances } = await query;
-    if (!performances || performances.length === 0) break;
-
-    performances.forEach((perf) => {
-      const player = playerMap.get(perf.player_id);
-      if (!player || !player.position || !perf.raw_score) return;
-
-      const position = player.position;
-      const threshold = TP_THRESHOLDS[position];
-
-      // Only include if ranking qualifies for TP
-      if (perf.ranking && perf.ranking <= threshold) {
-        // Track every individual game score
-        positionData[position].gameScores.push({
-          name: player.display_name,
-          score: perf.raw_score,
-        });
-      }
-    });
-
-    if (performances.length < pageSize) break;
-    offset += pageSize;
+// "rank 1-5 for Forward, Midfielder and Defender, 1-3 for Goalkeeper"
+function describeThresholds(thresholds: Record<string, number | null>): string {
+  const byThreshold = new Map<number, string[]>();
+  for (const position of POSITIONS) {
+    const threshold = thresholds[position];
+    if (threshold === null) continue;
+    byThreshold.set(threshold, [...(byThreshold.get(threshold) || []), position]);
   }
 
-  return Object.entries(positionData).map(([position, data]) => {
-    const scores = data.gameScores.map((g) => g.score);
-    const avgScore = scores.length > 0
-      ? scores.reduce((a, b) => a + b, 0) / scores.length
-      : 0;
-
-    // Sort by score to find actual highest and lowest individual games
-    const sorted = [...data.gameScores].sort((a, b) => b.score - a.score);
-    const highest = sorted[0] || { name: "-", score: 0 };
-    const lowest = sorted[sorted.length - 1] || { name: "-", score: 0 };
-
-    return {
-      position,
-      avgScore,
-      highestScore: highest.score,
-      highestScorePlayer: highest.name,
-      lowestScore: lowest.score,
-      lowestScorePlayer: lowest.name,
-      tpThreshold: TP_THRESHOLDS[position],
-    };
+  const parts = [...byThreshold.entries()].map(([threshold, positions]) => {
+    const names =
+      positions.length > 1
+        ? `${positions.slice(0, -1).join(", ")} and ${positions[positions.length - 1]}`
+        : positions[0];
+    return `1-${threshold} for ${names}`;
   });
-}
-
-interface PlayerConsistency {
-  id: string;
-  name: string;
-  position: string;
-  avgScore: number;
-  stdDev: number;
-  gamesPlayed: number;
-}
-
-async function getConsistencyData(filter: TimeFilter): Promise<PlayerConsistency[]> {
-  const supabase = getSupabase();
-  const startDate = getDateRange(filter);
-
-  const { data: players } = await supabase
-    .from("players")
-    .select("id, display_name, position")
-    .not("position", "is", null);
-
-  if (!players) return [];
-
-  const playerScores: Record<string, number[]> = {};
-
-  let offset = 0;
-  const pageSize = 1000;
-
-  while (true) {
-    let query = supabase
-      .from("performance")
-      .select("player_id, raw_score")
-      .not("raw_score", "is", null)
-      .range(offset, offset + pageSize - 1);
-
-    if (startDate) {
-      query = query.gte("match_date", startDate.toISOString().split("T")[0]);
-    }
-
-    const { data: performances } = await query;
-    if (!performances || performances.length === 0) break;
-
-    performances.forEach((perf) => {
-      if (perf.raw_score !== null) {
-        if (!playerScores[perf.player_id]) {
-          playerScores[perf.player_id] = [];
-        }
-        playerScores[perf.player_id].push(perf.raw_score);
-      }
-    });
-
-    if (performances.length < pageSize) break;
-    offset += pageSize;
-  }
-
-  return players
-    .map((player) => {
-      const scores = playerScores[player.id] || [];
-      if (scores.length < 3) return null; // Need at least 3 games for meaningful std dev
-
-      const avgScore = scores.reduce((a, b) => a + b, 0) / scores.length;
-      const squaredDiffs = scores.map((s) => Math.pow(s - avgScore, 2));
-      const variance = squaredDiffs.reduce((a, b) => a + b, 0) / scores.length;
-      const stdDev = Math.sqrt(variance);
-
-      return {
-        id: player.id,
-        name: player.display_name,
-        position: player.position,
-        avgScore,
-        stdDev,
-        gamesPlayed: scores.length,
-      };
-    })
-    .filter((p): p is PlayerConsistency => p !== null);
+  return parts.length > 0 ? `rank ${parts.join(", ")}` : "no scoring rules";
 }
 
 interface MonthlyUniqueEarners {
   month: string;
+  tournaments: number;
   byPosition: Record<string, number>;
 }
 
-async function getUniqueEarnersData(filter: TimeFilter): Promise<MonthlyUniqueEarners[]> {
-  const supabase = getSupabase();
-  const startDate = getDateRange(filter);
-
-  const { data: players } = await supabase
-    .from("players")
-    .select("id, position")
-    .not("position", "is", null);
-
-  if (!players) return [];
-
-  const playerPositions = new Map(players.map((p) => [p.id, p.position]));
+function getUniqueEarnersData(earners: MonthlyEarners[]): MonthlyUniqueEarners[] {
+  const byMonth = new Map<string, MonthlyUniqueEarners>();
 
-  // Track unique player IDs per month per position
-  const monthlyData: Record<string, Record<string, Set<string>>> = {};
-
-  let offset = 0;
-  const pageSize = 1000;
-
-  while (true) {
-    let query = supabase
-      .from("performance")
-      .select("player_id, reward, match_date")
-      .not("reward", "is", null)
-      .gt("reward", 0)
-      .range(offset, offset + pageSize - 1);
-
-    if (startDate) {
-      query = query.gte("match_date", startDate.toISOString().split("T")[0]);
+  for (const e of earners) {
+    let entry = byMonth.get(e.month);
+    if (!entry) {
+      entry = {
+        month: e.month,
+        tournaments: e.tournaments,
+        byPosition: { Forward: 0, Midfielder: 0, Defender: 0, Goalkeeper: 0 },
+      };
+      byMonth.set(e.month, entry);
+    }
+    if (e.position in entry.byPosition) {
+      entry.byPosition[e.position] = e.earners;
     }
-
-    const { data: performances } = await query;
-    if (!performances || performances.length === 0) break;
-
-    performances.forEach((perf) => {
-      const position = playerPositions.get(perf.player_id);
-      if (!position || !perf.match_date) return;
-
-      const month = perf.match_date.substring(0, 7); // "2024-01" format
-
-      if (!monthlyData[month]) {
-        monthlyData[month] = {
-          Forward: new Set(),
-          Midfielder: new Set(),
-          Defender: new Set(),
-          Goalkeeper: new Set(),
-        };
-      }
-
-      // Add player to the set for this position/month (sets handle uniqueness)
-      monthlyData[month][position].add(perf.player_id);
-    });
-
-    if (performances.length < pageSize) break;
-    offset += pageSize;
   }
 
-  return Object.entries(monthlyData)
-    .map(([month, positionSets]) => ({
-      month,
-      byPosition: {
-        Forward: positionSets.Forward.size,
-        Midfielder: positionSets.Midfielder.size,
-        Defender: positionSets.Defender.size,
-        Goalkeeper: positionSets.Goalkeeper.size,
-      },
-    }))
-    .sort((a, b) => a.month.localeCompare(b.month));
+  return [...byMonth.values()].sort((a, b) => a.month.localeCompare(b.month));
 }
 
 interface TopTPPlayer {
@@ -382,88 +102,50 @@ interface TopTPPlayer {
   tpFinishes: number;
 }
 
-async function getTopTPPlayers(filter: TimeFilter): Promise<TopTPPlayer[]> {
-  const supabase = getSupabase();
-  const startDate = getDateRange(filter);
-
-  // Get players with positions
-  const { data: players } = await supabase
-    .from("players")
-    .select("id, display_name, position")
-    .not("position", "is", null);
-
-  if (!players) return [];
-
-  const playerMap = new Map(players.map((p) => [p.id, { name: p.display_name, position: p.position }]));
-
-  // Count TP finishes per player (rank 1-5 for field, 1-3 for GK)
-  const tpCounts: Record<string, number> = {};
-
-  let offset = 0;
-  const pageSize = 1000;
-
-  while (true) {
-    let query = supabase
-      .from("performance")
-      .select("player_id, ranking")
-      .not("ranking", "is", null)
-      .range(offset, offset + pageSize - 1);
-
-    if (startDate) {
-      query = query.gte("match_date", startDate.toISOString().split("T")[0]);
-    }
-
-    const { data: performances } = await query;
-    if (!performances || performances.length === 0) break;
-
-    performances.forEach((perf) => {
-      const player = playerMap.get(perf.player_id);
-      if (!player || !perf.ranking) return;
-
-      const threshold = TP_THRESHOLDS[player.position] || 5;
-
-      // Only count if ranking qualifies for TP
-      if (perf.ranking <= threshold) {
-        tpCounts[perf.player_id] = (tpCounts[perf.player_id] || 0) + 1;
-      }
-    });
-
-    if (performances.length < pageSize) break;
-    offset += pageSize;
-  }
-
-  // Convert to array and sort by count
-  const result: TopTPPlayer[] = Object.entries(tpCounts)
-    .map(([playerId, count]) => {
-      const player = playerMap.get(playerId);
-      return {
-        name: player?.name || "Unknown",
-        position: player?.position || "Unknown",
-        tpFinishes: count,
-      };
-    })
+function getTopTPPlayers(
+  players: Player[],
+  stats: Map<string, PlayerWindowStats>
+): TopTPPlayer[] {
+  return players
+    .map((player) => ({
+      name: player.display_name,
+      position: player.position || "Unknown",
+      tpFinishes: stats.get(player.id)?.tpFinishes || 0,
+    }))
+    .filter((p) => p.tpFinishes > 0)
     .sort((a, b) => b.tpFinishes - a.tpFinishes)
     .slice(0, 20); // Top 20
-
-  return result;
 }
 
 export default async function AnalyticsPage({
   searchParams,
 }: {
-  searchParams: Promise<{ filter?: string }>;
+  searchParams: Promise<TimeWindowParams>;
 }) {
-  const params = await searchParams;
-  const filter = (params.filter as TimeFilter) || "all";
-
-  const [dataByPosition, positionStats, consistencyData, uniqueEarnersData, topTPPlayers] = await Promise.all([
-    getTPvsPriceData(filter),
-    getPositionStats(filter),
-    getConsistencyData(filter),
-    getUniqueEarnersData(filter),
-    getTopTPPlayers(filter),
+  const window = parseTimeWindow(await searchParams);
+  const supabase = getSupabase();
+  const bounds = await resolveTimeWindow(supabase, window);
+
+  const [players, stats, scoreStats, earners, scoringRules] = await Promise.all([
+    getPlayers(supabase),
+    getWindowStats(supabase, window, bounds),
+    getPositionScoreStats(supabase, bounds),
+    getMonthlyUniqueEarners(supabase, bounds),
+    getScoringRules(supabase),
   ]);
 
+  // Games count under the rule in force on their date; the text shows today's
+  const thresholds = currentTPThresholds(scoringRules);
+  const thresholdText = describeThresholds(thresholds);
+
+  const dataByPosition = getTPvsPriceData(players, stats);
+  const fairValueModels = fitFairValueModels(players, stats);
+  const positionStats = getPositionStats(scoreStats, thresholds);
+  const consistencyData = getConsistencyData(players, stats);
+  const uniqueEarnersData = getUniqueEarnersData(earners);
+  const topTPPlayers = getTopTPPlayers(players, stats);
+  const exportParams = timeWindowParams(window);
+
   return (
     <div className="min-h-screen bg-black text-white">
       <div className="container mx-auto px-4 py-8">
@@ -472,28 +154,17 @@ export default async function AnalyticsPage({
           <p className="text-gray-400">Performance and price analytics across all players</p>
         </div>
 
-        {/* Time Filter Buttons */}
-        <div className="flex gap-2 mb-8">
-          {TIME_FILTERS.map((tf) => (
-            <Link
-              key={tf.value}
-              href={`/analytics?filter=${tf.value}`}
-              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                filter === tf.value
-                  ? "bg-blue-600 text-white"
-                  : "bg-gray-800 text-gray-300 hover:bg-gray-700"
-              }`}
-            >
-              {tf.label}
-            </Link>
-          ))}
-        </div>
+        {/* Time Window */}
+        <TimeWindowPicker window={window} className="mb-8" />
 
         {/* Position Score Stats */}
         <section className="mb-12">
-          <h2 className="text-xl font-semibold mb-4">Position Score Stats</h2>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h2 className="text-xl font-semibold">Position Score Stats</h2>
+            <ExportButtons dataset="position-stats" params={exportParams} />
+          </div>
           <p className="text-gray-400 text-sm mb-4">
-            Average, highest, and lowest raw scores when players earn TP (rank 1-5 for field players, 1-3 for goalkeepers)
+            Average, highest, and lowest raw scores when players earn TP ({thresholdText})
           </p>
           <PositionTPStats data={positionStats} />
         </section>
@@ -502,7 +173,7 @@ export default async function AnalyticsPage({
         <section className="mb-12">
           <h2 className="text-xl font-semibold mb-4">Top TP Earners</h2>
           <p className="text-gray-400 text-sm mb-4">
-            Players with the most TP-earning finishes (rank 1-5 for field players, 1-3 for goalkeepers)
+            Players with the most TP-earning finishes ({thresholdText})
           </p>
           <TopTPPlayersChart data={topTPPlayers} height={600} />
         </section>
@@ -511,14 +182,17 @@ export default async function AnalyticsPage({
         <section className="mb-12">
           <h2 className="text-xl font-semibold mb-4">Unique TP Earners by Position</h2>
           <p className="text-gray-400 text-sm mb-4">
-            Number of distinct players who earned TP each month. More earners = more competitive field.
+            Number of distinct players who earned TP in each month&apos;s tournaments. More earners = more competitive field.
           </p>
           <UniqueEarnersChart data={uniqueEarnersData} height={400} />
         </section>
 
         {/* Performance Consistency */}
         <section className="mb-12">
-          <h2 className="text-xl font-semibold mb-4">Performance Consistency</h2>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h2 className="text-xl font-semibold">Performance Consistency</h2>
+            <ExportButtons dataset="consistency" params={exportParams} />
+          </div>
           <p className="text-gray-400 text-sm mb-4">
             Average raw score vs score volatility (standard deviation). Bottom-right = consistent high performers.
           </p>
@@ -526,7 +200,7 @@ export default async function AnalyticsPage({
         </section>
 
         {/* TP vs Price Charts with Search */}
-        <TPvsPriceSection dataByPosition={dataByPosition} />
+        <TPvsPriceSection dataByPosition={dataByPosition} models={fairValueModels} />
       </div>
     </div>
   );
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/supabase";
+import { getAdminUser } from "@/lib/admin-auth";
+import { createApiKey, listApiKeys, revokeApiKey } from "@/lib/api-keys";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const user = await getAdminUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const keys = await listApiKeys(getServiceSupabase());
+    return NextResponse.json({ keys });
+  } catch (error) {
+    console.error("API keys error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Manage /api/v1 keys:
+ *   { action: "create", name, rate_limit_per_minute } (the key is only returned here)
+ *   { action: "revoke", id }
+ */
+export async function POST(request: NextRequest) {
+  const user = await getAdminUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const supabase = getServiceSupabase();
+
+  try {
+    if (body.action === "create") {
+      const name = typeof body.name === "string" ? body.name.trim() : "";
+      if (!name) {
+        return NextResponse.json({ error: "Name is required" }, { status: 400 });
+      }
+      const rateLimit = body.rate_limit_per_minute;
+      if (!Number.isInteger(rateLimit) || rateLimit < 1) {
+        return NextResponse.json(
+          { error: "Rate limit must be a positive whole number" },
+          { status: 400 }
+        );
+      }
+
+      const { apiKey, key } = await createApiKey(supabase, name, rateLimit, user.email ?? user.id);
+      return NextResponse.json({ success: true, apiKey, key });
+    }
+
+    if (body.action === "revoke" && typeof body.id === "string") {
+      await revokeApiKey(supabase, body.id);
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (error) {
+    console.error("API keys error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
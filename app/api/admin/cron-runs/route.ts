@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/supabase";
+import { getAdminUser } from "@/lib/admin-auth";
+import {
+  FETCH_PRICES_INTERVAL_MINUTES,
+  FETCH_PRICES_JOB,
+  findCronGaps,
+  getPriceHealth,
+  listCronRuns,
+} from "@/lib/cron-runs";
+
+export const dynamic = "force-dynamic";
+
+const MAX_WINDOW_HOURS = 24 * 7;
+
+export async function GET(request: NextRequest) {
+  const user = await getAdminUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const hours = Math.min(
+    Number(request.nextUrl.searchParams.get("hours")) || 24,
+    MAX_WINDOW_HOURS
+  );
+
+  try {
+    const supabase = getServiceSupabase();
+    const now = new Date();
+    const since = new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+    const [runs, health] = await Promise.all([
+      listCronRuns(supabase, FETCH_PRICES_JOB, since),
+      getPriceHealth(supabase, now),
+    ]);
+
+    return NextResponse.json({
+      runs,
+      gaps: findCronGaps(runs, FETCH_PRICES_INTERVAL_MINUTES, since, now),
+      health,
+      intervalMinutes: FETCH_PRICES_INTERVAL_MINUTES,
+      hours,
+    });
+  } catch (error) {
+    console.error("Cron run error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/supabase";
+import { getAdminUser } from "@/lib/admin-auth";
+import { getPendingIdentityReviews, resolveIdentityReview } from "@/lib/identity";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const user = await getAdminUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = getServiceSupabase();
+    const [reviews, { data: players, error }] = await Promise.all([
+      getPendingIdentityReviews(supabase),
+      supabase.from("players").select("id, display_name, team_name").order("display_name"),
+    ]);
+
+    if (error) {
+      throw new Error(`Failed to fetch players: ${error.message}`);
+    }
+
+    return NextResponse.json({ reviews, players: players || [] });
+  } catch (error) {
+    console.error("Identity review error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Link a queued name to a player ({ reviewId, playerId }) or dismiss it
+ * ({ reviewId, playerId: null }).
+ */
+export async function POST(request: NextRequest) {
+  const user = await getAdminUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.reviewId !== "string") {
+    return NextResponse.json({ error: "Missing reviewId" }, { status: 400 });
+  }
+
+  const playerId = typeof body.playerId === "string" ? body.playerId : null;
+
+  try {
+    await resolveIdentityReview(getServiceSupabase(), body.reviewId, playerId);
+
+    console.log(
+      `Identity review ${body.reviewId} ${playerId ? `linked to ${playerId}` : "dismissed"} by ${user.email}`
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Identity review error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/supabase";
+import { getAdminUser } from "@/lib/admin-auth";
+import {
+  ImportRollbackError,
+  listImportBatches,
+  rollbackImportBatch,
+} from "@/lib/import-batches";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const user = await getAdminUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const batches = await listImportBatches(getServiceSupabase());
+    return NextResponse.json({ batches });
+  } catch (error) {
+    console.error("Import batch error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Roll back one batch ({ batchId }).
+ */
+export async function POST(request: NextRequest) {
+  const user = await getAdminUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.batchId !== "string") {
+    return NextResponse.json({ error: "Missing batchId" }, { status: 400 });
+  }
+
+  try {
+    const result = await rollbackImportBatch(
+      getServiceSupabase(),
+      body.batchId,
+      user.email ?? user.id
+    );
+
+    console.log(`Import batch ${body.batchId} rolled back by ${user.email}`, result);
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    if (error instanceof ImportRollbackError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error("Import rollback error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/supabase";
+import { getAdminUser } from "@/lib/admin-auth";
+import {
+  createPlayerFromPendingToken,
+  getPendingTokens,
+  ignorePendingToken,
+  linkPendingToken,
+} from "@/lib/pending-tokens";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const user = await getAdminUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = getServiceSupabase();
+    const [tokens, { data: players, error }] = await Promise.all([
+      getPendingTokens(supabase),
+      supabase
+        .from("players")
+        .select("id, display_name, team_name")
+        .is("token_address", null)
+        .order("display_name"),
+    ]);
+
+    if (error) {
+      throw new Error(`Failed to fetch players: ${error.message}`);
+    }
+
+    return NextResponse.json({ tokens, players: players || [] });
+  } catch (error) {
+    console.error("Pending token error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Resolve a pending token:
+ *   { id, action: "link", playerId }
+ *   { id, action: "create", player: { display_name, team_name, position } }
+ *   { id, action: "ignore" }
+ */
+export async function POST(request: NextRequest) {
+  const user = await getAdminUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.id !== "string") {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  const supabase = getServiceSupabase();
+  const resolvedBy = user.email ?? user.id;
+
+  try {
+    if (body.action === "link" && typeof body.playerId === "string") {
+      await linkPendingToken(supabase, body.id, body.playerId, resolvedBy);
+      return NextResponse.json({ success: true, playerId: body.playerId });
+    }
+
+    if (body.action === "create" && typeof body.player?.display_name === "string") {
+      const displayName = body.player.display_name.trim();
+      if (!displayName) {
+        return NextResponse.json({ error: "Display name is required" }, { status: 400 });
+      }
+
+      const playerId = await createPlayerFromPendingToken(
+        supabase,
+        body.id,
+        {
+          display_name: displayName,
+          team_name: body.player.team_name?.trim() || null,
+          position: body.player.position || null,
+        },
+        resolvedBy
+      );
+      return NextResponse.json({ success: true, playerId });
+    }
+
+    if (body.action === "ignore") {
+      await ignorePendingToken(supabase, body.id, resolvedBy);
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (error) {
+    console.error("Pending token error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/supabase";
+import { getAdminUser } from "@/lib/admin-auth";
+import {
+  applyPerformanceImport,
+  diffPerformanceImport,
+  parsePerformanceSheet,
+  PerformanceImportError,
+  readSheetRows,
+} from "@/lib/performance-import";
+
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  const user = await getAdminUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const formData = await request.formData();
+  const file = formData.get("file");
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Missing file" }, { status: 400 });
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return NextResponse.json({ error: "File is larger than 5MB" }, { status: 400 });
+  }
+
+  const createPlayers = formData.get("createPlayers") !== "false";
+  // "preview" returns the diff only; "commit" applies it once the admin has
+  // confirmed, provided the data still matches the reviewed preview
+  const mode = formData.get("mode") === "commit" ? "commit" : "preview";
+  const fingerprint = formData.get("fingerprint");
+
+  try {
+    const sheet = readSheetRows(Buffer.from(await file.arrayBuffer()));
+    const parsed = parsePerformanceSheet(sheet);
+
+    if (parsed.rows.length === 0) {
+      return NextResponse.json(
+        { error: "No performance rows found in file", skippedRows: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServiceSupabase();
+    const diff = await diffPerformanceImport(supabase, parsed, {
+      createPlayers,
+      source: "upload",
+    });
+
+    if (mode === "preview") {
+      return NextResponse.json({ success: true, diff });
+    }
+
+    if (fingerprint !== diff.fingerprint) {
+      return NextResponse.json(
+        { error: "Stored data changed since the preview was generated. Review the new preview.", diff },
+        { status: 409 }
+      );
+    }
+
+    const report = await applyPerformanceImport(supabase, diff, {
+      source: "upload",
+      fileName: file.name,
+      createdBy: user.email ?? user.id,
+    });
+
+    console.log(
+      `Performance import ${report.batchId} by ${user.email}: ${report.inserted} inserted, ${report.updated} updated, ${report.skipped} skipped, ${report.unmatched} unmatched`
+    );
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    if (error instanceof PerformanceImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Performance import error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
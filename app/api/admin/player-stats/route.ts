@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/supabase";
+import { getAdminUser } from "@/lib/admin-auth";
+import { rebuildPlayerStats } from "@/lib/data";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+// Rebuild player_stats from scratch
+export async function POST(request: NextRequest) {
+  const user = await getAdminUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const rows = await rebuildPlayerStats(getServiceSupabase());
+    return NextResponse.json({ success: true, rows });
+  } catch (error) {
+    console.error("Player stats rebuild error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
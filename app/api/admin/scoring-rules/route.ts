@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/supabase";
+import { getAdminUser } from "@/lib/admin-auth";
+import { refreshPlayerStats } from "@/lib/data";
+import { POSITIONS } from "@/lib/positions";
+import { addScoringRule, deleteScoringRule, getScoringRules } from "@/lib/scoring-rules";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const user = await getAdminUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const rules = await getScoringRules(getServiceSupabase());
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Scoring rules error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Change the scoring rules, then refresh player_stats so TP finishes are
+ * counted under the new rules:
+ *   { action: "add", rule: { position, rank_threshold, effective_from } }
+ *   { action: "delete", id }
+ */
+export async function POST(request: NextRequest) {
+  const user = await getAdminUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const supabase = getServiceSupabase();
+
+  try {
+    if (body.action === "add") {
+      const { position, rank_threshold, effective_from } = body.rule ?? {};
+      if (!POSITIONS.includes(position)) {
+        return NextResponse.json({ error: "Unknown position" }, { status: 400 });
+      }
+      if (!Number.isInteger(rank_threshold) || rank_threshold < 1) {
+        return NextResponse.json(
+          { error: "Rank threshold must be a positive whole number" },
+          { status: 400 }
+        );
+      }
+      if (typeof effective_from !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(effective_from)) {
+        return NextResponse.json({ error: "Effective date must be YYYY-MM-DD" }, { status: 400 });
+      }
+
+      const rule = await addScoringRule(
+        supabase,
+        { position, rank_threshold, effective_from },
+        user.email ?? user.id
+      );
+      await refreshPlayerStats(supabase);
+      return NextResponse.json({ success: true, rule });
+    }
+
+    if (body.action === "delete" && typeof body.id === "string") {
+      await deleteScoringRule(supabase, body.id);
+      await refreshPlayerStats(supabase);
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (error) {
+    console.error("Scoring rules error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
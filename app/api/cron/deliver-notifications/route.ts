@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/supabase";
+import { isCronRequest } from "@/lib/auth";
+import { DELIVER_NOTIFICATIONS_JOB, finishCronRun, startCronRun } from "@/lib/cron-runs";
+import { defaultNotificationChannels, deliverPendingNotifications } from "@/lib/notification-channels";
+
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+
+/** Time spent delivering, leaving the rest of maxDuration to record the run */
+const DELIVERY_BUDGET_MS = 50_000;
+
+/** Send the webhook and email deliveries the price cron's alerts queued */
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const deadline = Date.now() + DELIVERY_BUDGET_MS;
+  const supabase = getServiceSupabase();
+  const runId = await startCronRun(supabase, DELIVER_NOTIFICATIONS_JOB);
+
+  try {
+    const sent = await deliverPendingNotifications(
+      supabase,
+      defaultNotificationChannels(),
+      deadline
+    );
+    await finishCronRun(supabase, runId, { status: "success" });
+
+    return NextResponse.json({
+      success: true,
+      notificationsSent: sent,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Failed to deliver notifications:", error);
+    await finishCronRun(supabase, runId, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,42 +1,56 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServiceSupabase } from "@/lib/supabase";
 import { fetchAllTeneroTokens } from "@/lib/tenero";
+import { loadIdentityIndex, resolvePlayerIdentity } from "@/lib/identity";
+import { markPendingTokensLinked, recordPendingTokens } from "@/lib/pending-tokens";
+import { FETCH_PRICES_JOB, finishCronRun, startCronRun } from "@/lib/cron-runs";
+import { setPlayerStatus } from "@/lib/player-status";
+import { refreshPlayerStats } from "@/lib/data";
+import { evaluateAlerts } from "@/lib/alerts";
+import { isCronRequest } from "@/lib/auth";
 
 export const maxDuration = 60;
 export const dynamic = "force-dynamic";
 
 export async function GET(request: NextRequest) {
-  // Verify cron secret (Vercel sends this header for cron jobs)
-  const authHeader = request.headers.get("authorization");
-  const cronSecret = process.env.CRON_SECRET;
-
-  // Allow requests from Vercel cron or with valid secret
-  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
-    // Check if this is a Vercel cron request
-    const isVercelCron = request.headers.get("x-vercel-cron") === "true";
-    if (!isVercelCron) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  try {
-    const supabase = getServiceSupabase();
+  const supabase = getServiceSupabase();
+  const runId = await startCronRun(supabase, FETCH_PRICES_JOB);
+  let tokensFetched = 0;
 
+  try {
     // Fetch all tokens from Tenero
     console.log("Fetching tokens from Tenero...");
-    const tokens = await fetchAllTeneroTokens();
+    const fetched = await fetchAllTeneroTokens();
+    const { tokens } = fetched;
+    tokensFetched = tokens.length;
     console.log(`Fetched ${tokens.length} tokens`);
 
+    if (fetched.invalid.length > 0) {
+      console.warn(`Skipped ${fetched.invalid.length} invalid tokens:`, fetched.invalid);
+    }
+    // A page that kept failing still leaves us the earlier pages' prices
+    if (!fetched.complete) {
+      console.error(`Tenero fetch incomplete at cursor ${fetched.cursor}: ${fetched.error}`);
+      if (tokens.length === 0) {
+        throw new Error(fetched.error || "Tenero fetch failed");
+      }
+    }
+
     // Get all players with token addresses
     const { data: players, error: playersError } = await supabase
       .from("players")
-      .select("id, display_name, token_address");
+      .select("id, display_name, token_address, status");
 
     if (playersError) {
       throw new Error(`Failed to fetch players: ${playersError.message}`);
     }
 
     if (!players || players.length === 0) {
+      await finishCronRun(supabase, runId, { status: "success", tokens_fetched: tokensFetched });
       return NextResponse.json({
         success: true,
         message: "No players to update",
@@ -44,6 +58,74 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    // Link tokens that no player claims yet when the token name resolves
+    // exactly (or through a known alias). Anything less certain is recorded
+    // as a pending token with its suggested matches for an admin to confirm.
+    const linkedAddresses = new Set(
+      players.filter((p) => p.token_address).map((p) => p.token_address.toLowerCase())
+    );
+    const unlinkedTokens = tokens.filter((t) => !linkedAddresses.has(t.address.toLowerCase()));
+    let linked = 0;
+
+    if (unlinkedTokens.length > 0) {
+      const index = await loadIdentityIndex(supabase);
+      const pending = [];
+      const autoLinked = [];
+
+      for (const token of unlinkedTokens) {
+        const resolution = resolvePlayerIdentity(index, token.name, "tenero");
+        const player =
+          resolution.status === "matched"
+            ? players.find((p) => p.id === resolution.playerId)
+            : undefined;
+
+        const confident = resolution.status === "matched" && resolution.method !== "fuzzy";
+
+        if (confident && player && !player.token_address) {
+          const { error } = await supabase
+            .from("players")
+            .update({ token_address: token.address, token_symbol: token.symbol })
+            .eq("id", player.id);
+
+          if (error) {
+            console.error(`Failed to link ${token.name}: ${error.message}`);
+            continue;
+          }
+
+          player.token_address = token.address;
+          autoLinked.push({ address: token.address, playerId: player.id });
+          linked++;
+          continue;
+        }
+
+        pending.push({
+          token,
+          candidates:
+            resolution.status === "ambiguous"
+              ? resolution.candidates
+              : resolution.status === "matched" && player
+                ? [
+                    {
+                      player_id: player.id,
+                      display_name: player.display_name,
+                      score: resolution.confidence,
+                      reason: player.token_address
+                        ? "Player already has a token"
+                        : "Fuzzy name match",
+                    },
+                  ]
+                : [],
+        });
+      }
+
+      // A bookkeeping failure shouldn't cost us this run's prices
+      await Promise.all([
+        recordPendingTokens(supabase, pending),
+        markPendingTokensLinked(supabase, autoLinked),
+      ]).catch((error) => console.error("Failed to update pending tokens:", error));
+      console.log(`Linked ${linked} tokens by name, ${pending.length} pending review`);
+    }
+
     // Match tokens to players and insert prices
     const pricesToInsert = [];
 
@@ -60,6 +142,11 @@ export async function GET(request: NextRequest) {
           price_usd: token.price_usd,
           marketcap_usd: token.marketcap_usd,
           holder_count: token.holder_count,
+          liquidity_usd: token.total_liquidity_usd,
+          volume_24h_usd: token.volume_24h_usd,
+          buy_count_24h: token.buy_count_24h,
+          sell_count_24h: token.sell_count_24h,
+          circulating_supply: token.circulating_supply,
         });
       }
     }
@@ -76,14 +163,97 @@ export async function GET(request: NextRequest) {
 
     console.log(`Inserted ${pricesToInsert.length} price records`);
 
+    // Raw ticks are already rolled up into candles; trim them to the retention window
+    const { error: cleanupError } = await supabase.rpc("cleanup_old_prices");
+    if (cleanupError) {
+      console.error(`Failed to clean up old prices: ${cleanupError.message}`);
+    }
+
+    // Only a complete listing can tell us a token is gone
+    let delisted: string[] = [];
+    let relisted: string[] = [];
+    if (fetched.complete && tokens.length > 0) {
+      const listed = new Set(tokens.map((t) => t.address.toLowerCase()));
+      const withToken = players.filter((p) => p.token_address);
+
+      try {
+        delisted = await setPlayerStatus(
+          supabase,
+          withToken
+            .filter((p) => p.status !== "delisted" && p.status !== "excluded-sport")
+            .filter((p) => !listed.has(p.token_address.toLowerCase()))
+            .map((p) => p.id),
+          "delisted",
+          "Token no longer listed on Tenero"
+        );
+        relisted = await setPlayerStatus(
+          supabase,
+          withToken
+            .filter((p) => p.status === "delisted")
+            .filter((p) => listed.has(p.token_address.toLowerCase()))
+            .map((p) => p.id),
+          "active",
+          "Token listed on Tenero again"
+        );
+      } catch (error) {
+        console.error("Failed to update player statuses:", error);
+      }
+
+      if (delisted.length > 0 || relisted.length > 0) {
+        console.log(`Delisted ${delisted.length} players, relisted ${relisted.length}`);
+      }
+    }
+
+    // Prices and statuses changed, and the 1m/3m windows move with the date
+    try {
+      await refreshPlayerStats(supabase);
+    } catch (error) {
+      console.error("Failed to refresh player stats:", error);
+    }
+
+    // Alerts read the prices and stats just written; a failure here
+    // shouldn't fail the run. Fair values are refit and notifications
+    // delivered by their own crons, so they don't eat into this one
+    let alertsFired = 0;
+    try {
+      alertsFired = (await evaluateAlerts(supabase)).fired;
+    } catch (error) {
+      console.error("Failed to evaluate alerts:", error);
+    }
+
+    const claimedAddresses = new Set(
+      players.filter((p) => p.token_address).map((p) => p.token_address.toLowerCase())
+    );
+    await finishCronRun(supabase, runId, {
+      status: fetched.complete ? "success" : "partial",
+      tokens_fetched: tokensFetched,
+      players_matched: pricesToInsert.length,
+      prices_inserted: pricesToInsert.length,
+      unmatched_tokens: tokens
+        .filter((t) => !claimedAddresses.has(t.address.toLowerCase()))
+        .map((t) => t.address),
+      error: fetched.error,
+    });
+
     return NextResponse.json({
       success: true,
       message: `Updated prices for ${pricesToInsert.length} players`,
       count: pricesToInsert.length,
+      linked,
+      delisted: delisted.length,
+      relisted: relisted.length,
+      alertsFired,
+      complete: fetched.complete,
+      invalid: fetched.invalid.length,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
     console.error("Price fetch error:", error);
+    await finishCronRun(supabase, runId, {
+      status: "failed",
+      tokens_fetched: tokensFetched,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
     return NextResponse.json(
       {
         success: false,
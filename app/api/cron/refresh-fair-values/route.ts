@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/supabase";
+import { isCronRequest } from "@/lib/auth";
+import { finishCronRun, REFRESH_FAIR_VALUES_JOB, startCronRun } from "@/lib/cron-runs";
+import { refreshFairValues } from "@/lib/fair-value";
+
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+
+/** Refit the day's fair values on the player stats the price cron keeps fresh */
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = getServiceSupabase();
+  const runId = await startCronRun(supabase, REFRESH_FAIR_VALUES_JOB);
+
+  try {
+    const written = await refreshFairValues(supabase);
+    await finishCronRun(supabase, runId, { status: "success" });
+
+    return NextResponse.json({
+      success: true,
+      fairValues: written,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Failed to refresh fair values:", error);
+    await finishCronRun(supabase, runId, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
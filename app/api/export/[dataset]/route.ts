@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabase } from "@/lib/supabase";
+import { ApiError } from "@/lib/api-v1";
+import { downloadHeaders, EXPORT_FORMATS, parseExportFormat, serializeRows } from "@/lib/export";
+import { isExportDataset, loadExportDataset } from "@/lib/export-datasets";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Download a page's dataset as ?format=csv|xlsx|json (default csv). Window
+ * datasets take the page's window params; player-prices and
+ * player-performance take ?player=.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ dataset: string }> }
+) {
+  const { dataset } = await params;
+  if (!isExportDataset(dataset)) {
+    return NextResponse.json({ error: "Unknown dataset" }, { status: 404 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const format = parseExportFormat(searchParams.get("format") ?? "csv");
+  if (!format) {
+    return NextResponse.json(
+      { error: `format must be one of ${EXPORT_FORMATS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rows = await loadExportDataset(getSupabase(), dataset, searchParams);
+
+    const player = searchParams.get("player");
+    const date = new Date().toISOString().slice(0, 10);
+    const name = [dataset, player, date].filter(Boolean).join("-");
+
+    const file = serializeRows(rows, format, name);
+    return new NextResponse(file.body, { headers: downloadHeaders(file) });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Export error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
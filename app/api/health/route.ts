@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/supabase";
+import { FETCH_PRICES_JOB, getPriceHealth } from "@/lib/cron-runs";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Uptime check: 200 while prices are fresh, 503 once they go stale so an
+ * external monitor can alert on it.
+ */
+export async function GET() {
+  try {
+    const supabase = getServiceSupabase();
+    const [prices, { data: lastRun }] = await Promise.all([
+      getPriceHealth(supabase),
+      supabase
+        .from("cron_runs")
+        .select("status, started_at, finished_at")
+        .eq("job", FETCH_PRICES_JOB)
+        .order("started_at", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    return NextResponse.json(
+      { ...prices, lastRun: lastRun || null, timestamp: new Date().toISOString() },
+      { status: prices.status === "ok" ? 200 : 503 }
+    );
+  } catch (error) {
+    console.error("Health check error:", error);
+    return NextResponse.json(
+      {
+        status: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/supabase";
+import { getAuthenticatedUser } from "@/lib/auth";
+import { importWallet } from "@/lib/portfolio";
+import { defaultBalanceProvider, isWalletAddress } from "@/lib/wallet-balances";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * Sync the signed-in user's portfolio with a wallet's token balances:
+ *   { address }
+ * Re-importing a wallet only records what changed since the last import.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getAuthenticatedUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const address = typeof body.address === "string" ? body.address.trim() : "";
+  if (!isWalletAddress(address)) {
+    return NextResponse.json({ error: "Not a wallet address" }, { status: 400 });
+  }
+
+  try {
+    const report = await importWallet(
+      getServiceSupabase(),
+      user.id,
+      address,
+      defaultBalanceProvider()
+    );
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Wallet import error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { getSupabase } from "@/lib/supabase";
+import { getPlayers } from "@/lib/data";
+import { apiRoute, pageByOffset } from "@/lib/api-v1";
+import { getTPLeaderboard } from "@/lib/leaderboards";
+import {
+  getWindowStats,
+  parseTimeWindow,
+  resolveTimeWindow,
+  timeWindowParams,
+} from "@/lib/time-window";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Listed players by TP earned in a window, given with the same params as
+ * the /leaderboards page (?filter=1m, ?last=10, ?month=2025-01, ...).
+ */
+export const GET = apiRoute(async (request) => {
+  const params = request.nextUrl.searchParams;
+  const window = parseTimeWindow(Object.fromEntries(params));
+  const supabase = getSupabase();
+  const bounds = await resolveTimeWindow(supabase, window);
+
+  const [players, windowStats] = await Promise.all([
+    getPlayers(supabase),
+    getWindowStats(supabase, window, bounds),
+  ]);
+
+  return {
+    window: timeWindowParams(window),
+    ...pageByOffset(getTPLeaderboard(players, windowStats), params),
+  };
+});
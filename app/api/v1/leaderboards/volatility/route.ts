@@ -0,0 +1,27 @@
+import { getSupabase } from "@/lib/supabase";
+import { getPlayers, getPriceVolatility } from "@/lib/data";
+import { ApiError, apiRoute, pageByOffset } from "@/lib/api-v1";
+import { getVolatilityRankings } from "@/lib/leaderboards";
+import { HOURLY_CANDLE_RETENTION_DAYS } from "@/lib/price-history";
+
+export const dynamic = "force-dynamic";
+
+/** Listed players by hourly price volatility over ?days= (default 30) */
+export const GET = apiRoute(async (request) => {
+  const params = request.nextUrl.searchParams;
+  const days = Number(params.get("days") ?? 30);
+  if (!Number.isInteger(days) || days < 1 || days > HOURLY_CANDLE_RETENTION_DAYS) {
+    throw new ApiError(
+      `days must be a whole number from 1 to ${HOURLY_CANDLE_RETENTION_DAYS}`,
+      400
+    );
+  }
+
+  const supabase = getSupabase();
+  const [players, volatility] = await Promise.all([
+    getPlayers(supabase),
+    getPriceVolatility(supabase, days),
+  ]);
+
+  return { days, ...pageByOffset(getVolatilityRankings(players, volatility), params) };
+});
@@ -0,0 +1,38 @@
+import { getSupabase } from "@/lib/supabase";
+import { ApiError, apiRoute, decodeCursor, isUuid, pageSize, toPage } from "@/lib/api-v1";
+import { Performance } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+/** A player's games, oldest first */
+export const GET = apiRoute<{ id: string }>(async (request, { id }) => {
+  if (!isUuid(id)) {
+    throw new ApiError("Player not found", 404);
+  }
+
+  const params = request.nextUrl.searchParams;
+  const limit = pageSize(params);
+  const cursor = decodeCursor(params, 2);
+
+  let query = getSupabase()
+    .from("performance")
+    .select("id, player_id, tournament_id, match_date, raw_score, ranking, reward")
+    .eq("player_id", id)
+    .order("match_date")
+    .order("id")
+    .limit(limit + 1);
+  if (cursor) {
+    const [date, lastId] = cursor;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !isUuid(lastId)) {
+      throw new ApiError("Invalid cursor", 400);
+    }
+    query = query.or(`match_date.gt.${date},and(match_date.eq.${date},id.gt.${lastId})`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch performance: ${error.message}`);
+  }
+
+  return toPage<Performance>(data || [], limit, (p) => [p.match_date, p.id]);
+});
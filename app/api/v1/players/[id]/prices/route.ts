@@ -0,0 +1,98 @@
+import { getSupabase } from "@/lib/supabase";
+import { ApiError, apiRoute, decodeCursor, isUuid, pageSize, toPage } from "@/lib/api-v1";
+import { priceResolutionFor } from "@/lib/price-history";
+import { Price, PriceCandle, PriceResolution } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const INTERVALS: PriceResolution[] = ["raw", "hourly", "daily"];
+
+const CANDLE_TABLES = {
+  hourly: "price_candles_hourly",
+  daily: "price_candles_daily",
+};
+
+/** Timestamps as PostgREST returns them, safe to put back in a filter */
+const TIMESTAMP_PATTERN = /^[0-9T:.+\-Z ]+$/;
+
+function timeParam(params: URLSearchParams, name: string): string | null {
+  const value = params.get(name);
+  if (!value) return null;
+
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new ApiError(`${name} must be a date or ISO timestamp`, 400);
+  }
+  return new Date(time).toISOString();
+}
+
+/**
+ * A player's prices, oldest first: raw ticks (kept for a week) or hourly
+ * or daily candles. Without ?interval= the finest one covering ?from= is
+ * used, as on the price charts.
+ */
+export const GET = apiRoute<{ id: string }>(async (request, { id }) => {
+  if (!isUuid(id)) {
+    throw new ApiError("Player not found", 404);
+  }
+
+  const params = request.nextUrl.searchParams;
+  const limit = pageSize(params);
+  const from = timeParam(params, "from");
+  const to = timeParam(params, "to");
+  const interval = (params.get("interval") ||
+    priceResolutionFor(from ? new Date(from) : null)) as PriceResolution;
+  if (!INTERVALS.includes(interval)) {
+    throw new ApiError(`interval must be one of ${INTERVALS.join(", ")}`, 400);
+  }
+
+  const supabase = getSupabase();
+
+  if (interval === "raw") {
+    const cursor = decodeCursor(params, 2);
+    let query = supabase
+      .from("prices")
+      .select("*")
+      .eq("player_id", id)
+      .order("fetched_at")
+      .order("id")
+      .limit(limit + 1);
+    if (from) query = query.gte("fetched_at", from);
+    if (to) query = query.lte("fetched_at", to);
+    if (cursor) {
+      const [time, lastId] = cursor;
+      if (!TIMESTAMP_PATTERN.test(time) || !isUuid(lastId)) {
+        throw new ApiError("Invalid cursor", 400);
+      }
+      query = query.or(`fetched_at.gt.${time},and(fetched_at.eq.${time},id.gt.${lastId})`);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to fetch prices: ${error.message}`);
+    }
+    return { interval, ...toPage<Price>(data || [], limit, (p) => [p.fetched_at, p.id]) };
+  }
+
+  const cursor = decodeCursor(params, 1);
+  let query = supabase
+    .from(CANDLE_TABLES[interval])
+    .select("*")
+    .eq("player_id", id)
+    .order("bucket")
+    .limit(limit + 1);
+  if (from) query = query.gte("bucket", from);
+  if (to) query = query.lte("bucket", to);
+  if (cursor) {
+    if (!TIMESTAMP_PATTERN.test(cursor[0])) {
+      throw new ApiError("Invalid cursor", 400);
+    }
+    query = query.gt("bucket", cursor[0]);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch prices: ${error.message}`);
+  }
+  return { interval, ...toPage<PriceCandle>(data || [], limit, (c) => [c.bucket]) };
+});
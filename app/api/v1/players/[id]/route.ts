@@ -0,0 +1,14 @@
+import { getSupabase } from "@/lib/supabase";
+import { getPlayer } from "@/lib/data";
+import { ApiError, apiRoute, isUuid } from "@/lib/api-v1";
+
+export const dynamic = "force-dynamic";
+
+export const GET = apiRoute<{ id: string }>(async (_request, { id }) => {
+  const player = isUuid(id) ? await getPlayer(getSupabase(), id) : null;
+  if (!player) {
+    throw new ApiError("Player not found", 404);
+  }
+
+  return { data: player };
+});
@@ -0,0 +1,32 @@
+import { getSupabase } from "@/lib/supabase";
+import { apiRoute, decodeCursor, pageSize, toPage } from "@/lib/api-v1";
+import { HISTORICAL_PLAYER_STATUSES, LISTED_PLAYER_STATUSES } from "@/lib/player-status";
+import { Player } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+/** Listed players by id; ?status=all adds delisted ones */
+export const GET = apiRoute(async (request) => {
+  const params = request.nextUrl.searchParams;
+  const limit = pageSize(params);
+  const cursor = decodeCursor(params, 1);
+  const statuses =
+    params.get("status") === "all" ? HISTORICAL_PLAYER_STATUSES : LISTED_PLAYER_STATUSES;
+
+  let query = getSupabase()
+    .from("players")
+    .select("*")
+    .in("status", statuses)
+    .order("id")
+    .limit(limit + 1);
+  if (cursor) {
+    query = query.gt("id", cursor[0]);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch players: ${error.message}`);
+  }
+
+  return toPage<Player>(data || [], limit, (p) => [p.id]);
+});
@@ -0,0 +1,30 @@
+import { getSupabase } from "@/lib/supabase";
+import { getPlayers } from "@/lib/data";
+import { apiRoute, pageByOffset } from "@/lib/api-v1";
+import { getTeamData } from "@/lib/leaderboards";
+import {
+  getWindowStats,
+  parseTimeWindow,
+  resolveTimeWindow,
+  timeWindowParams,
+} from "@/lib/time-window";
+
+export const dynamic = "force-dynamic";
+
+/** Team totals by TP in a window, with the /teams page's window params */
+export const GET = apiRoute(async (request) => {
+  const params = request.nextUrl.searchParams;
+  const window = parseTimeWindow(Object.fromEntries(params));
+  const supabase = getSupabase();
+  const bounds = await resolveTimeWindow(supabase, window);
+
+  const [players, windowStats] = await Promise.all([
+    getPlayers(supabase),
+    getWindowStats(supabase, window, bounds),
+  ]);
+
+  return {
+    window: timeWindowParams(window),
+    ...pageByOffset(getTeamData(players, windowStats), params),
+  };
+});
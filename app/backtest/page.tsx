@@ -0,0 +1,322 @@
+"use client";
+
+import { useState } from "react";
+import { getSupabase } from "@/lib/supabase";
+import { BACKTEST_METRICS, getBacktestData, runBacktest } from "@/lib/backtest";
+import { POSITIONS } from "@/lib/positions";
+import { cn, formatLargeNumber } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Select } from "@/components/ui/Select";
+import { ComparisonChart } from "@/components/charts/ComparisonChart";
+import { BacktestMetric, BacktestResult, BacktestStrategy, RebalanceCadence } from "@/types";
+
+// ComparisonChart has five line colours
+const MAX_STRATEGIES = 5;
+
+const POSITION_OPTIONS = [
+  { value: "", label: "All positions" },
+  ...POSITIONS.map((p) => ({ value: p, label: p })),
+];
+
+const REBALANCE_OPTIONS: { value: RebalanceCadence; label: string }[] = [
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "never", label: "Buy and hold" },
+];
+
+const PRESETS: BacktestStrategy[] = [
+  {
+    name: "Top 10 TP per $",
+    metric: "tpPer100",
+    count: 10,
+    position: null,
+    lookbackDays: 30,
+    rebalance: "monthly",
+    budget: 1000,
+    transactionCost: 0.01,
+  },
+  {
+    name: "Top Goalkeeper by TP rate",
+    metric: "tpRate",
+    count: 1,
+    position: "Goalkeeper",
+    lookbackDays: 90,
+    rebalance: "monthly",
+    budget: 1000,
+    transactionCost: 0.01,
+  },
+];
+
+const inputClass =
+  "px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function StrategyEditor({
+  strategy,
+  onChange,
+  onRemove,
+}: {
+  strategy: BacktestStrategy;
+  onChange: (strategy: BacktestStrategy) => void;
+  onRemove: () => void;
+}) {
+  const set = (changes: Partial<BacktestStrategy>) => onChange({ ...strategy, ...changes });
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 p-3 border border-gray-700 rounded-lg">
+      <input
+        type="text"
+        value={strategy.name}
+        onChange={(e) => set({ name: e.target.value })}
+        className={cn(inputClass, "w-56")}
+      />
+      <label className="flex items-center gap-2 text-sm text-gray-400">
+        Top
+        <input
+          type="number"
+          min={1}
+          value={strategy.count}
+          onChange={(e) => set({ count: Number(e.target.value) })}
+          className={cn(inputClass, "w-20")}
+        />
+      </label>
+      <Select
+        value={strategy.position ?? ""}
+        onChange={(v) => set({ position: v || null })}
+        options={POSITION_OPTIONS}
+      />
+      <label className="flex items-center gap-2 text-sm text-gray-400">
+        by
+        <Select
+          value={strategy.metric}
+          onChange={(v) => set({ metric: v as BacktestMetric })}
+          options={BACKTEST_METRICS}
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-400">
+        over the last
+        <input
+          type="number"
+          min={1}
+          value={strategy.lookbackDays}
+          onChange={(e) => set({ lookbackDays: Number(e.target.value) })}
+          className={cn(inputClass, "w-20")}
+        />
+        days
+      </label>
+      <Select
+        value={strategy.rebalance}
+        onChange={(v) => set({ rebalance: v as RebalanceCadence })}
+        options={REBALANCE_OPTIONS}
+      />
+      <label className="flex items-center gap-2 text-sm text-gray-400">
+        Budget $
+        <input
+          type="number"
+          min={1}
+          value={strategy.budget}
+          onChange={(e) => set({ budget: Number(e.target.value) })}
+          className={cn(inputClass, "w-28")}
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-400">
+        Cost
+        <input
+          type="number"
+          min={0}
+          step="0.1"
+          value={strategy.transactionCost * 100}
+          onChange={(e) => set({ transactionCost: Number(e.target.value) / 100 })}
+          className={cn(inputClass, "w-20")}
+        />
+        %
+      </label>
+      <Button variant="secondary" size="sm" onClick={onRemove}>
+        Remove
+      </Button>
+    </div>
+  );
+}
+
+export default function BacktestPage() {
+  const [strategies, setStrategies] = useState<BacktestStrategy[]>(PRESETS);
+  const [from, setFrom] = useState(() => daysAgo(180));
+  const [to, setTo] = useState(() => daysAgo(1));
+  const [results, setResults] = useState<BacktestResult[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState("");
+
+  const updateStrategy = (index: number, strategy: BacktestStrategy) =>
+    setStrategies(strategies.map((s, i) => (i === index ? strategy : s)));
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError("");
+
+    try {
+      const lookback = Math.max(...strategies.map((s) => s.lookbackDays));
+      const data = await getBacktestData(getSupabase(), from, to, lookback);
+      setResults(strategies.map((s) => runBacktest(data, s, from, to)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to run backtest");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const canRun =
+    strategies.length > 0 &&
+    from < to &&
+    strategies.every((s) => s.count >= 1 && s.lookbackDays >= 1 && s.budget > 0);
+
+  // Strategies can share a name, so chart lines are keyed by position in the list
+  const labels = results.map((r, i) => `${i + 1}. ${r.strategy.name}`);
+  const chartData = (results[0]?.points || []).map((point, day) => ({
+    date: point.date,
+    ...Object.fromEntries(results.map((r, i) => [labels[i], r.points[day].equity])),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-white">Backtest</h1>
+        <p className="text-gray-400 mt-2">
+          Replay selection rules against historical prices and performance
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Strategies</CardTitle>
+          <CardDescription>
+            Each rebalance splits the portfolio equally across the top players, ranked only on
+            games played before that day and trading at its daily close.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {strategies.map((strategy, i) => (
+            <StrategyEditor
+              key={i}
+              strategy={strategy}
+              onChange={(s) => updateStrategy(i, s)}
+              onRemove={() => setStrategies(strategies.filter((_, j) => j !== i))}
+            />
+          ))}
+
+          <div className="flex flex-wrap items-center gap-3">
+            <Button
+              variant="secondary"
+              disabled={strategies.length >= MAX_STRATEGIES}
+              onClick={() =>
+                setStrategies([...strategies, { ...PRESETS[0], name: `Strategy ${strategies.length + 1}` }])
+              }
+            >
+              Add Strategy
+            </Button>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              From
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              to
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <Button onClick={handleRun} disabled={running || !canRun}>
+              {running ? "Running..." : "Run"}
+            </Button>
+          </div>
+
+          {error && <p className="text-red-500">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {results.length > 0 && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Equity</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ComparisonChart
+                data={chartData}
+                playerNames={labels}
+                formatValue={formatLargeNumber}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Results</CardTitle>
+              <CardDescription>
+                Turnover is the value traded over the average equity. TP uses each player&apos;s
+                current active shares.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto border border-gray-700 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-800">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Strategy</th>
+                      <th className="px-3 py-2 text-right">Final Equity</th>
+                      <th className="px-3 py-2 text-right">Return</th>
+                      <th className="px-3 py-2 text-right">TP Earned</th>
+                      <th className="px-3 py-2 text-right">Max Drawdown</th>
+                      <th className="px-3 py-2 text-right">Turnover</th>
+                      <th className="px-3 py-2 text-right">Costs</th>
+                      <th className="px-3 py-2 text-right">Rebalances</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-800">
+                    {results.map((r, i) => (
+                      <tr key={labels[i]}>
+                        <td className="px-3 py-2">{labels[i]}</td>
+                        <td className="px-3 py-2 text-right">{formatLargeNumber(r.finalEquity)}</td>
+                        <td
+                          className={cn(
+                            "px-3 py-2 text-right",
+                            r.totalReturn >= 0 ? "text-green-400" : "text-red-400"
+                          )}
+                        >
+                          {formatPercent(r.totalReturn)}
+                        </td>
+                        <td className="px-3 py-2 text-right text-yellow-400">
+                          {r.tpEarned.toFixed(2)}
+                        </td>
+                        <td className="px-3 py-2 text-right text-red-400">
+                          {formatPercent(r.maxDrawdown)}
+                        </td>
+                        <td className="px-3 py-2 text-right">{r.turnover.toFixed(2)}x</td>
+                        <td className="px-3 py-2 text-right">{formatLargeNumber(r.costs)}</td>
+                        <td className="px-3 py-2 text-right">{r.rebalances}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
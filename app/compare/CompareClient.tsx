@@ -4,6 +4,11 @@ import { useState, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { ResponsiveLine } from "@nivo/line";
 import { ResponsiveBar } from "@nivo/bar";
+import { ComparablePlayersTable } from "@/components/tables/ComparablePlayersTable";
+import { TimeWindowPicker } from "@/components/ui/TimeWindowPicker";
+import { timeWindowHref } from "@/lib/time-window";
+import { tpPer100 } from "@/lib/utils";
+import { PlayerFeatures, SimilarPlayer, TimeWindow } from "@/types";
 import type { PlayerStats } from "./page";
 
 interface Player {
@@ -13,26 +18,35 @@ interface Player {
   position: string;
 }
 
-interface TimeFilter {
-  value: string;
-  label: string;
-}
-
 interface CompareClientProps {
   allPlayers: Player[];
-  player1Stats: PlayerStats | null;
-  player2Stats: PlayerStats | null;
-  selectedP1?: string;
-  selectedP2?: string;
-  currentFilter: string;
-  timeFilters: TimeFilter[];
+  playerStats: PlayerStats[];
+  selectedIds: string[];
+  maxPlayers: number;
+  comparable: { target: PlayerFeatures | null; similar: SimilarPlayer[] } | null;
+  window: TimeWindow;
 }
 
-const COLORS = {
-  player1: "#3B82F6", // Blue
-  player2: "#22C55E", // Green
+// One per slot, in selection order
+const COLORS = ["#3B82F6", "#22C55E", "#F59E0B", "#EF4444", "#8B5CF6", "#EC4899"];
+
+const EMPTY_COLOR = "#374151";
+
+const CHART_THEME = {
+  background: "transparent",
+  text: { fill: "#9CA3AF" },
+  axis: {
+    ticks: { text: { fill: "#9CA3AF" } },
+    legend: { text: { fill: "#9CA3AF" } },
+  },
+  grid: { line: { stroke: "#374151", strokeDasharray: "3 3" } },
+  crosshair: { line: { stroke: "#9CA3AF", strokeWidth: 1 } },
 };
 
+function colorOf(index: number): string {
+  return COLORS[index % COLORS.length];
+}
+
 function formatTP(value: number): string {
   if (value >= 1000000) return `${(value / 1000000).toFixed(2)}M`;
   if (value >= 1000) return `${(value / 1000).toFixed(1)}K`;
@@ -50,55 +64,50 @@ function formatMarketCap(value: number): string {
   return `$${value.toFixed(0)}`;
 }
 
+function EmptyChart({ text }: { text: string }) {
+  return <div className="flex items-center justify-center h-64 text-gray-500">{text}</div>;
+}
+
 function PlayerSelector({
   players,
-  selectedId,
+  selectedIds,
   onSelect,
-  label,
   color,
+  disabled,
 }: {
   players: Player[];
-  selectedId?: string;
+  selectedIds: string[];
   onSelect: (id: string) => void;
-  label: string;
   color: string;
+  disabled: boolean;
 }) {
   const [search, setSearch] = useState("");
   const [isOpen, setIsOpen] = useState(false);
 
   const filteredPlayers = useMemo(() => {
-    if (!search) return players;
+    const available = players.filter((p) => !selectedIds.includes(p.id));
+    if (!search) return available;
     const lower = search.toLowerCase();
-    return players.filter(
+    return available.filter(
       (p) =>
         p.name.toLowerCase().includes(lower) ||
         p.team.toLowerCase().includes(lower)
     );
-  }, [players, search]);
-
-  const selectedPlayer = players.find((p) => p.id === selectedId);
+  }, [players, selectedIds, search]);
 
   return (
     <div className="relative">
-      <label className="block text-sm font-medium text-gray-400 mb-2">{label}</label>
       <div
-        className="bg-gray-800 border-2 rounded-lg p-3 cursor-pointer hover:border-gray-600 transition-colors"
-        style={{ borderColor: selectedPlayer ? color : "#374151" }}
-        onClick={() => setIsOpen(!isOpen)}
+        className={`bg-gray-800 border-2 border-dashed rounded-lg p-3 transition-colors ${
+          disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer hover:border-gray-600"
+        }`}
+        style={{ borderColor: disabled ? EMPTY_COLOR : color }}
+        onClick={() => !disabled && setIsOpen(!isOpen)}
       >
-        {selectedPlayer ? (
-          <div>
-            <p className="text-white font-medium">{selectedPlayer.name}</p>
-            <p className="text-gray-400 text-sm">
-              {selectedPlayer.team} • {selectedPlayer.position}
-            </p>
-          </div>
-        ) : (
-          <p className="text-gray-500">Click to select a player...</p>
-        )}
+        <p className="text-gray-400">{disabled ? "Comparison is full" : "+ Add a player..."}</p>
       </div>
 
-      {isOpen && (
+      {isOpen && !disabled && (
         <div className="absolute z-50 top-full left-0 right-0 mt-2 bg-gray-800 border border-gray-700 rounded-lg shadow-xl max-h-80 overflow-hidden">
           <div className="p-2 border-b border-gray-700">
             <input
@@ -114,9 +123,7 @@ function PlayerSelector({
             {filteredPlayers.map((player) => (
               <div
                 key={player.id}
-                className={`px-4 py-2 cursor-pointer hover:bg-gray-700 transition-colors ${
-                  player.id === selectedId ? "bg-gray-700" : ""
-                }`}
+                className="px-4 py-2 cursor-pointer hover:bg-gray-700 transition-colors"
                 onClick={() => {
                   onSelect(player.id);
                   setIsOpen(false);
@@ -139,45 +146,29 @@ function PlayerSelector({
   );
 }
 
-function RankingDistributionChart({
-  player1,
-  player2,
-}: {
-  player1: PlayerStats | null;
-  player2: PlayerStats | null;
-}) {
+function RankingDistributionChart({ players }: { players: PlayerStats[] }) {
   const chartData = useMemo(() => {
     const ranks = ["1", "2", "3", "4", "5", "6+"];
     return ranks.map((rank) => ({
       rank,
-      [player1?.name || "Player 1"]: player1?.rankingDistribution[rank] || 0,
-      [player2?.name || "Player 2"]: player2?.rankingDistribution[rank] || 0,
+      ...Object.fromEntries(players.map((p) => [p.name, p.rankingDistribution[rank] || 0])),
     }));
-  }, [player1, player2]);
-
-  const keys = [
-    player1?.name || "Player 1",
-    player2?.name || "Player 2",
-  ].filter((_, i) => (i === 0 ? player1 : player2));
+  }, [players]);
 
-  if (!player1 && !player2) {
-    return (
-      <div className="flex items-center justify-center h-64 text-gray-500">
-        Select players to compare ranking distribution
-      </div>
-    );
+  if (players.length === 0) {
+    return <EmptyChart text="Select players to compare ranking distribution" />;
   }
 
   return (
     <div style={{ height: 300 }}>
       <ResponsiveBar
         data={chartData}
-        keys={keys}
+        keys={players.map((p) => p.name)}
         indexBy="rank"
         margin={{ top: 20, right: 20, bottom: 50, left: 60 }}
         padding={0.3}
         groupMode="grouped"
-        colors={[COLORS.player1, COLORS.player2]}
+        colors={players.map((_, i) => colorOf(i))}
         axisBottom={{
           tickSize: 5,
           tickPadding: 5,
@@ -192,15 +183,7 @@ function RankingDistributionChart({
           legendPosition: "middle",
           legendOffset: -50,
         }}
-        theme={{
-          background: "transparent",
-          text: { fill: "#9CA3AF" },
-          axis: {
-            ticks: { text: { fill: "#9CA3AF" } },
-            legend: { text: { fill: "#9CA3AF" } },
-          },
-          grid: { line: { stroke: "#374151", strokeDasharray: "3 3" } },
-        }}
+        theme={CHART_THEME}
         tooltip={({ id, value, indexValue }) => (
           <div className="bg-gray-800 border border-gray-700 rounded-lg p-2 shadow-lg">
             <p className="text-white font-medium text-sm">{String(id)}</p>
@@ -214,55 +197,30 @@ function RankingDistributionChart({
   );
 }
 
-function RecentFormChart({
-  player1,
-  player2,
-}: {
-  player1: PlayerStats | null;
-  player2: PlayerStats | null;
-}) {
+function RecentFormChart({ players }: { players: PlayerStats[] }) {
   const DNP_VALUE = 30; // Value used to plot DNPs at the bottom
 
-  const chartData = useMemo(() => {
-    const lines = [];
-
-    if (player1 && player1.recentGames.length > 0) {
-      lines.push({
-        id: player1.name,
-        color: COLORS.player1,
-        data: player1.recentGames.map((g, i) => ({
-          x: i + 1,
-          y: g.ranking !== null ? g.ranking : DNP_VALUE,
-          date: g.date,
-          score: g.score,
-          isDNP: g.ranking === null,
-        })),
-      });
-    }
-
-    if (player2 && player2.recentGames.length > 0) {
-      lines.push({
-        id: player2.name,
-        color: COLORS.player2,
-        data: player2.recentGames.map((g, i) => ({
-          x: i + 1,
-          y: g.ranking !== null ? g.ranking : DNP_VALUE,
-          date: g.date,
-          score: g.score,
-          isDNP: g.ranking === null,
-        })),
-      });
-    }
-
-    return lines;
-  }, [player1, player2]);
+  const chartData = useMemo(
+    () =>
+      players
+        .map((player, index) => ({
+          id: player.name,
+          color: colorOf(index),
+          data: player.recentGames.map((g, i) => ({
+            x: i + 1,
+            y: g.ranking !== null ? g.ranking : DNP_VALUE,
+            date: g.date,
+            tournament: g.tournament,
+            score: g.score,
+            isDNP: g.ranking === null,
+          })),
+        }))
+        .filter((line) => line.data.length > 0),
+    [players]
+  );
 
   if (chartData.length === 0) {
-    return (
-      <div className="flex items-center justify-center h-64 text-gray-500">
-        Select players to compare recent form
-      </div>
-    );
+    return <EmptyChart text="Select players to compare recent form" />;
   }
 
   return (
@@ -296,22 +254,21 @@ function RecentFormChart({
           tickValues: [1, 5, 10, 15, 20, 25, DNP_VALUE],
           format: (v) => (v === DNP_VALUE ? "DNP" : String(v)),
         }}
-        theme={{
-          background: "transparent",
-          text: { fill: "#9CA3AF" },
-          axis: {
-            ticks: { text: { fill: "#9CA3AF" } },
-            legend: { text: { fill: "#9CA3AF" } },
-          },
-          grid: { line: { stroke: "#374151", strokeDasharray: "3 3" } },
-          crosshair: { line: { stroke: "#9CA3AF", strokeWidth: 1 } },
-        }}
+        theme={CHART_THEME}
         useMesh={true}
         tooltip={({ point }) => {
-          const data = point.data as { x: number; y: number; date?: string; score?: number; isDNP?: boolean };
+          const data = point.data as {
+            x: number;
+            y: number;
+            date?: string;
+            tournament?: string;
+            score?: number;
+            isDNP?: boolean;
+          };
           return (
             <div className="bg-gray-800 border border-gray-700 rounded-lg p-2 shadow-lg">
               <p className="text-white font-medium text-sm">{point.seriesId}</p>
+              <p className="text-gray-500 text-xs">{data.tournament}</p>
               <p className="text-gray-400 text-sm">
                 {data.date}: {data.isDNP ? "DNP" : `Rank ${data.y}`}
                 {!data.isDNP && data.score && ` (Score: ${data.score})`}
@@ -324,57 +281,32 @@ function RecentFormChart({
   );
 }
 
-function TPComparisonChart({
-  player1,
-  player2,
+/** One line per player over time, e.g. cumulative TP or price */
+function PlayerLinesChart({
+  players,
+  seriesOf,
+  formatValue,
+  emptyText,
 }: {
-  player1: PlayerStats | null;
-  player2: PlayerStats | null;
+  players: PlayerStats[];
+  seriesOf: (player: PlayerStats) => { date: string; value: number }[];
+  formatValue: (value: number) => string;
+  emptyText: string;
 }) {
-  const chartData = useMemo(() => {
-    const lines = [];
-
-    // Each player only includes months where they have data (connects the dots)
-    // Use Date objects for x values so time scale works properly
-    if (player1 && player1.tpHistory.length > 0) {
-      const sortedData = [...player1.tpHistory].sort((a, b) => {
-        return new Date(a.month + "-01").getTime() - new Date(b.month + "-01").getTime();
-      });
-      lines.push({
-        id: player1.name,
-        color: COLORS.player1,
-        data: sortedData.map((p) => ({
-          x: new Date(p.month + "-01"),
-          y: p.tp,
-          month: p.month,
-        })),
-      });
-    }
-
-    if (player2 && player2.tpHistory.length > 0) {
-      const sortedData = [...player2.tpHistory].sort((a, b) => {
-        return new Date(a.month + "-01").getTime() - new Date(b.month + "-01").getTime();
-      });
-      lines.push({
-        id: player2.name,
-        color: COLORS.player2,
-        data: sortedData.map((p) => ({
-          x: new Date(p.month + "-01"),
-          y: p.tp,
-          month: p.month,
-        })),
-      });
-    }
-
-    return lines;
-  }, [player1, player2]);
+  const chartData = useMemo(
+    () =>
+      players
+        .map((player, index) => ({
+          id: player.name,
+          color: colorOf(index),
+          data: seriesOf(player).map((p) => ({ x: new Date(p.date), y: p.value })),
+        }))
+        .filter((line) => line.data.length > 0),
+    [players, seriesOf]
+  );
 
   if (chartData.length === 0) {
-    return (
-      <div className="flex items-center justify-center h-64 text-gray-500">
-        Select players to compare TP history
-      </div>
-    );
+    return <EmptyChart text={emptyText} />;
   }
 
   return (
@@ -383,81 +315,69 @@ function TPComparisonChart({
         data={chartData}
         margin={{ top: 20, right: 20, bottom: 50, left: 70 }}
         xScale={{ type: "time", format: "native", useUTC: false }}
-        xFormat="time:%Y-%m"
-        yScale={{ type: "linear", min: 0, max: "auto" }}
-        curve="monotoneX"
+        xFormat="time:%Y-%m-%d"
+        yScale={{ type: "linear", min: "auto", max: "auto" }}
         colors={chartData.map((d) => d.color)}
         lineWidth={2}
-        pointSize={6}
-        pointBorderWidth={2}
-        pointBorderColor={{ from: "serieColor" }}
-        pointColor="#1F2937"
+        enablePoints={false}
         enableGridX={false}
         axisBottom={{
           tickSize: 5,
           tickPadding: 5,
           tickRotation: -45,
-          format: "%Y-%m",
+          format: "%Y-%m-%d",
+          tickValues: 6,
         }}
         axisLeft={{
           tickSize: 5,
           tickPadding: 5,
-          format: (v) => formatTP(Number(v)),
-        }}
-        theme={{
-          background: "transparent",
-          text: { fill: "#9CA3AF" },
-          axis: { ticks: { text: { fill: "#9CA3AF" } } },
-          grid: { line: { stroke: "#374151", strokeDasharray: "3 3" } },
-          crosshair: { line: { stroke: "#9CA3AF", strokeWidth: 1 } },
+          format: (v) => formatValue(Number(v)),
         }}
+        theme={CHART_THEME}
         useMesh={true}
-        tooltip={({ point }) => {
-          const data = point.data as { x: Date; y: number; month?: string };
-          return (
-            <div className="bg-gray-800 border border-gray-700 rounded-lg p-2 shadow-lg">
-              <p className="text-white font-medium text-sm">{point.seriesId}</p>
-              <p className="text-gray-400 text-sm">
-                {data.month || point.data.xFormatted}: {formatTP(data.y)} TP
-              </p>
-            </div>
-          );
-        }}
+        tooltip={({ point }) => (
+          <div className="bg-gray-800 border border-gray-700 rounded-lg p-2 shadow-lg">
+            <p className="text-white font-medium text-sm">{point.seriesId}</p>
+            <p className="text-gray-400 text-sm">
+              {point.data.xFormatted}: {formatValue(Number(point.data.y))}
+            </p>
+          </div>
+        )}
       />
     </div>
   );
 }
 
-function ROICalculator({
-  player1,
-  player2,
-}: {
-  player1: PlayerStats | null;
-  player2: PlayerStats | null;
-}) {
+const cumulativeTPOf = (player: PlayerStats) =>
+  player.cumulativeTP.map((p) => ({ date: p.date, value: p.tp }));
+
+const priceOf = (player: PlayerStats) =>
+  player.priceHistory.map((p) => ({ date: p.date, value: p.price }));
+
+function ROICalculator({ players }: { players: PlayerStats[] }) {
   const [investment, setInvestment] = useState(100);
 
-  const calculateROI = (player: PlayerStats | null) => {
-    if (!player || player.currentPrice <= 0) return null;
+  const calculateROI = (player: PlayerStats) => {
+    if (player.currentPrice <= 0) return null;
 
     const tokensOwned = investment / player.currentPrice;
-    // TP per $100 = (totalTP / activeShares) * (100 / price)
-    const tpPerDollar = player.activeShares > 0
-      ? (player.totalTP / player.activeShares) * (investment / player.currentPrice)
-      : 0;
+    // TP per $100 of tokens, scaled to the amount invested
+    const tpPerInvestment =
+      ((tpPer100(player.totalTP, player.activeShares * player.currentPrice) ?? 0) * investment) /
+      100;
 
     return {
       tokensOwned,
       totalTP: player.totalTP,
       tpRate: player.tpRate,
-      tpPerDollar,
+      tpPerInvestment,
       gamesPlayed: player.gamesPlayed,
       activeShares: player.activeShares,
     };
   };
 
-  const roi1 = calculateROI(player1);
-  const roi2 = calculateROI(player2);
+  const rois = players.map(calculateROI);
+  const bestTPPerInvestment = Math.max(0, ...rois.map((roi) => roi?.tpPerInvestment ?? 0));
 
   return (
     <div className="bg-gray-900 rounded-lg p-6">
@@ -479,79 +399,73 @@ function ROICalculator({
         Based on current price and all-time performance
       </p>
 
-      <div className="grid md:grid-cols-2 gap-6">
-        {/* Player 1 ROI */}
-        <div
-          className="bg-gray-800 rounded-lg p-4 border-t-4"
-          style={{ borderTopColor: player1 ? COLORS.player1 : "#374151" }}
-        >
-          <p className="text-gray-400 text-sm mb-2">{player1?.name || "Player 1"}</p>
-          {roi1 ? (
-            <div className="space-y-3">
-              <div>
-                <p className="text-gray-500 text-xs">Shares @ {formatPrice(player1!.currentPrice)}</p>
-                <p className="text-xl font-bold text-white">{roi1.tokensOwned.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
-              </div>
-              <div>
-                <p className="text-gray-500 text-xs">Career TP Earned</p>
-                <p className="text-lg font-semibold text-green-400">{formatTP(roi1.totalTP)}</p>
-              </div>
-              <div>
-                <p className="text-gray-500 text-xs">TP Rate ({roi1.gamesPlayed} games)</p>
-                <p className="text-lg font-semibold text-blue-400">{roi1.tpRate.toFixed(1)}%</p>
-              </div>
-              <div className="pt-2 border-t border-gray-700">
-                <p className="text-gray-500 text-xs">TP per ${investment}</p>
-                <p className="text-lg font-bold text-yellow-400">{formatTP(roi1.tpPerDollar)}</p>
-              </div>
-            </div>
-          ) : (
-            <p className="text-gray-500">Select a player</p>
-          )}
-        </div>
-
-        {/* Player 2 ROI */}
-        <div
-          className="bg-gray-800 rounded-lg p-4 border-t-4"
-          style={{ borderTopColor: player2 ? COLORS.player2 : "#374151" }}
-        >
-          <p className="text-gray-400 text-sm mb-2">{player2?.name || "Player 2"}</p>
-          {roi2 ? (
-            <div className="space-y-3">
-              <div>
-                <p className="text-gray-500 text-xs">Shares @ {formatPrice(player2!.currentPrice)}</p>
-                <p className="text-xl font-bold text-white">{roi2.tokensOwned.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
-              </div>
-              <div>
-                <p className="text-gray-500 text-xs">Career TP Earned</p>
-                <p className="text-lg font-semibold text-green-400">{formatTP(roi2.totalTP)}</p>
-              </div>
-              <div>
-                <p className="text-gray-500 text-xs">TP Rate ({roi2.gamesPlayed} games)</p>
-                <p className="text-lg font-semibold text-blue-400">{roi2.tpRate.toFixed(1)}%</p>
-              </div>
-              <div className="pt-2 border-t border-gray-700">
-                <p className="text-gray-500 text-xs">TP per ${investment}</p>
-                <p className="text-lg font-bold text-yellow-400">{formatTP(roi2.tpPerDollar)}</p>
+      {players.length === 0 ? (
+        <p className="text-gray-500">Select players to compare</p>
+      ) : (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {players.map((player, index) => {
+            const roi = rois[index];
+            return (
+              <div
+                key={player.id}
+                className="bg-gray-800 rounded-lg p-4 border-t-4"
+                style={{ borderTopColor: colorOf(index) }}
+              >
+                <p className="text-gray-400 text-sm mb-2">{player.name}</p>
+                {roi ? (
+                  <div className="space-y-3">
+                    <div>
+                      <p className="text-gray-500 text-xs">
+                        Shares @ {formatPrice(player.currentPrice)}
+                      </p>
+                      <p className="text-xl font-bold text-white">
+                        {roi.tokensOwned.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500 text-xs">Career TP Earned</p>
+                      <p className="text-lg font-semibold text-green-400">{formatTP(roi.totalTP)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500 text-xs">TP Rate ({roi.gamesPlayed} games)</p>
+                      <p className="text-lg font-semibold text-blue-400">{roi.tpRate.toFixed(1)}%</p>
+                    </div>
+                    <div className="pt-2 border-t border-gray-700">
+                      <p className="text-gray-500 text-xs">TP per ${investment}</p>
+                      <p className="text-lg font-bold text-yellow-400">
+                        {formatTP(roi.tpPerInvestment)}
+                        {players.length > 1 &&
+                          roi.tpPerInvestment > 0 &&
+                          roi.tpPerInvestment === bestTPPerInvestment && (
+                            <span className="ml-2 text-xs font-medium text-gray-400">best</span>
+                          )}
+                      </p>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-gray-500">No price yet</p>
+                )}
               </div>
-            </div>
-          ) : (
-            <p className="text-gray-500">Select a player</p>
-          )}
+            );
+          })}
         </div>
-      </div>
+      )}
     </div>
   );
 }
 
-function StatComparison({
-  player1,
-  player2,
-}: {
-  player1: PlayerStats | null;
-  player2: PlayerStats | null;
-}) {
-  const stats = [
+type ComparedStat =
+  | "currentPrice"
+  | "marketCap"
+  | "totalTP"
+  | "gamesPlayed"
+  | "tournamentRate"
+  | "tpRate"
+  | "avgScore"
+  | "avgTP";
+
+function StatComparison({ players }: { players: PlayerStats[] }) {
+  const stats: { label: string; key: ComparedStat; format: (v: number) => string }[] = [
     { label: "Current Price", key: "currentPrice", format: formatPrice },
     { label: "Market Cap", key: "marketCap", format: formatMarketCap },
     { label: "Total TP", key: "totalTP", format: formatTP },
@@ -562,49 +476,51 @@ function StatComparison({
     { label: "Avg TP", key: "avgTP", format: formatTP },
   ];
 
+  if (players.length === 0) {
+    return <EmptyChart text="Select players to compare stats" />;
+  }
+
   return (
-    <div className="bg-gray-900 rounded-lg overflow-hidden">
+    <div className="bg-gray-900 rounded-lg overflow-x-auto">
       <table className="w-full">
         <thead className="bg-gray-800">
           <tr>
             <th className="px-4 py-3 text-left text-sm font-semibold text-gray-300">Stat</th>
-            <th className="px-4 py-3 text-center text-sm font-semibold" style={{ color: COLORS.player1 }}>
-              {player1?.name || "Player 1"}
-            </th>
-            <th className="px-4 py-3 text-center text-sm font-semibold" style={{ color: COLORS.player2 }}>
-              {player2?.name || "Player 2"}
-            </th>
+            {players.map((player, index) => (
+              <th
+                key={player.id}
+                className="px-4 py-3 text-center text-sm font-semibold"
+                style={{ color: colorOf(index) }}
+              >
+                {player.name}
+              </th>
+            ))}
           </tr>
         </thead>
         <tbody className="divide-y divide-gray-800">
           {stats.map((stat) => {
-            const val1 = player1 ? (player1 as any)[stat.key] : null;
-            const val2 = player2 ? (player2 as any)[stat.key] : null;
-
-            // Determine winner (higher is better for all these stats)
-            let winner: "p1" | "p2" | null = null;
-            if (val1 !== null && val2 !== null) {
-              if (val1 > val2) winner = "p1";
-              else if (val2 > val1) winner = "p2";
-            }
+            const values = players.map((p) => p[stat.key]);
+            // Higher is better for all these stats; no highlight when everyone ties
+            const best = Math.max(...values);
+            const highlight = players.length > 1 && values.some((v) => v !== best);
 
             return (
               <tr key={stat.key} className="hover:bg-gray-800/50">
                 <td className="px-4 py-3 text-sm text-gray-400">{stat.label}</td>
-                <td
-                  className={`px-4 py-3 text-sm text-center font-mono ${
-                    winner === "p1" ? "text-blue-400 font-semibold" : "text-gray-300"
-                  }`}
-                >
-                  {val1 !== null ? stat.format(val1) : "-"}
-                </td>
-                <td
-                  className={`px-4 py-3 text-sm text-center font-mono ${
-                    winner === "p2" ? "text-green-400 font-semibold" : "text-gray-300"
-                  }`}
-                >
-                  {val2 !== null ? stat.format(val2) : "-"}
-                </td>
+                {players.map((player, index) => {
+                  const isBest = highlight && values[index] === best;
+                  return (
+                    <td
+                      key={player.id}
+                      className={`px-4 py-3 text-sm text-center font-mono ${
+                        isBest ? "font-semibold" : "text-gray-300"
+                      }`}
+                      style={isBest ? { color: colorOf(index) } : undefined}
+                    >
+                      {stat.format(values[index])}
+                    </td>
+                  );
+                })}
               </tr>
             );
           })}
@@ -616,88 +532,79 @@ function StatComparison({
 
 export function CompareClient({
   allPlayers,
-  player1Stats,
-  player2Stats,
-  selectedP1,
-  selectedP2,
-  currentFilter,
-  timeFilters,
+  playerStats,
+  selectedIds,
+  maxPlayers,
+  comparable,
+  window,
 }: CompareClientProps) {
   const router = useRouter();
 
-  const handleSelectPlayer = (slot: 1 | 2, playerId: string) => {
-    const params = new URLSearchParams();
-    if (slot === 1) {
-      params.set("p1", playerId);
-      if (selectedP2) params.set("p2", selectedP2);
-    } else {
-      if (selectedP1) params.set("p1", selectedP1);
-      params.set("p2", playerId);
-    }
-    if (currentFilter !== "all") params.set("filter", currentFilter);
-    router.push(`/compare?${params.toString()}`);
+  const selectPlayers = (ids: string[]) => {
+    router.push(
+      timeWindowHref("/compare", window, { ids: ids.length > 0 ? ids.join(",") : undefined })
+    );
   };
 
-  const handleFilterChange = (filter: string) => {
-    const params = new URLSearchParams();
-    if (selectedP1) params.set("p1", selectedP1);
-    if (selectedP2) params.set("p2", selectedP2);
-    if (filter !== "all") params.set("filter", filter);
-    router.push(`/compare?${params.toString()}`);
-  };
+  const selectedPlayers = selectedIds
+    .map((id) => allPlayers.find((p) => p.id === id))
+    .filter((p): p is Player => p !== undefined);
 
   return (
     <div className="min-h-screen bg-black text-white">
       <div className="container mx-auto px-4 py-8">
         <div className="mb-8">
           <h1 className="text-3xl font-bold mb-2">Compare Players</h1>
-          <p className="text-gray-400">Head-to-head comparison of two players</p>
+          <p className="text-gray-400">
+            Side-by-side comparison of up to {maxPlayers} players. Share the URL to share the
+            comparison.
+          </p>
         </div>
 
         {/* Time Filters */}
-        <div className="flex gap-2 mb-6">
-          {timeFilters.map((tf) => (
-            <button
-              key={tf.value}
-              onClick={() => handleFilterChange(tf.value)}
-              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
-                currentFilter === tf.value
-                  ? "bg-blue-600 text-white"
-                  : "bg-gray-800 text-gray-300 hover:bg-gray-700"
-              }`}
+        <TimeWindowPicker window={window} className="mb-6" />
+
+        {/* Player Selection */}
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
+          {selectedPlayers.map((player, index) => (
+            <div
+              key={player.id}
+              className="flex items-start justify-between bg-gray-800 border-2 rounded-lg p-3"
+              style={{ borderColor: colorOf(index) }}
             >
-              {tf.label}
-            </button>
+              <div>
+                <p className="text-white font-medium">{player.name}</p>
+                <p className="text-gray-400 text-sm">
+                  {player.team} • {player.position}
+                </p>
+              </div>
+              <button
+                onClick={() => selectPlayers(selectedIds.filter((id) => id !== player.id))}
+                className="text-gray-500 hover:text-white"
+                aria-label={`Remove ${player.name}`}
+              >
+                ✕
+              </button>
+            </div>
           ))}
-        </div>
-
-        {/* Player Selectors */}
-        <div className="grid md:grid-cols-2 gap-6 mb-8">
-          <PlayerSelector
-            players={allPlayers}
-            selectedId={selectedP1}
-            onSelect={(id) => handleSelectPlayer(1, id)}
-            label="Player 1"
-            color={COLORS.player1}
-          />
           <PlayerSelector
             players={allPlayers}
-            selectedId={selectedP2}
-            onSelect={(id) => handleSelectPlayer(2, id)}
-            label="Player 2"
-            color={COLORS.player2}
+            selectedIds={selectedIds}
+            onSelect={(id) => selectPlayers([...selectedIds, id])}
+            color={colorOf(selectedPlayers.length)}
+            disabled={selectedIds.length >= maxPlayers}
           />
         </div>
 
         {/* ROI Calculator */}
         <section className="mb-8">
-          <ROICalculator player1={player1Stats} player2={player2Stats} />
+          <ROICalculator players={playerStats} />
         </section>
 
         {/* Stats Comparison Table */}
         <section className="mb-8">
           <h2 className="text-xl font-semibold mb-4">Stats Comparison</h2>
-          <StatComparison player1={player1Stats} player2={player2Stats} />
+          <StatComparison players={playerStats} />
         </section>
 
         {/* Charts */}
@@ -707,7 +614,7 @@ export function CompareClient({
             <h2 className="text-xl font-semibold mb-4">Ranking Distribution</h2>
             <p className="text-gray-400 text-sm mb-4">How often each player finishes at each rank</p>
             <div className="bg-gray-900 rounded-lg p-4">
-              <RankingDistributionChart player1={player1Stats} player2={player2Stats} />
+              <RankingDistributionChart players={playerStats} />
             </div>
           </section>
 
@@ -716,34 +623,64 @@ export function CompareClient({
             <h2 className="text-xl font-semibold mb-4">Recent Form (Last 10 Games)</h2>
             <p className="text-gray-400 text-sm mb-4">Performance in most recent matches</p>
             <div className="bg-gray-900 rounded-lg p-4">
-              <RecentFormChart player1={player1Stats} player2={player2Stats} />
+              <RecentFormChart players={playerStats} />
             </div>
           </section>
         </div>
 
-        {/* TP Chart */}
-        <section className="mb-8">
-          <h2 className="text-xl font-semibold mb-4">Monthly TP Earned</h2>
-          <div className="bg-gray-900 rounded-lg p-4">
-            <TPComparisonChart player1={player1Stats} player2={player2Stats} />
-          </div>
-        </section>
+        <div className="grid lg:grid-cols-2 gap-8 mb-8">
+          {/* Cumulative TP */}
+          <section>
+            <h2 className="text-xl font-semibold mb-4">Cumulative TP</h2>
+            <div className="bg-gray-900 rounded-lg p-4">
+              <PlayerLinesChart
+                players={playerStats}
+                seriesOf={cumulativeTPOf}
+                formatValue={formatTP}
+                emptyText="Select players to compare TP earned"
+              />
+            </div>
+          </section>
+
+          {/* Price */}
+          <section>
+            <h2 className="text-xl font-semibold mb-4">Price</h2>
+            <div className="bg-gray-900 rounded-lg p-4">
+              <PlayerLinesChart
+                players={playerStats}
+                seriesOf={priceOf}
+                formatValue={formatPrice}
+                emptyText="Select players to compare prices"
+              />
+            </div>
+          </section>
+        </div>
+
+        {/* Comparable Players */}
+        {comparable && (
+          <section className="mb-8">
+            <h2 className="text-xl font-semibold mb-4">Comparable Players</h2>
+            <div className="bg-gray-900 rounded-lg p-4">
+              <ComparablePlayersTable
+                target={comparable.target}
+                players={comparable.similar}
+                compareWith={selectedIds}
+                window={window}
+                canCompare={selectedIds.length < maxPlayers}
+              />
+            </div>
+          </section>
+        )}
 
         {/* Legend */}
-        {(player1Stats || player2Stats) && (
-          <div className="flex justify-center gap-8 mt-6">
-            {player1Stats && (
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-4 rounded" style={{ backgroundColor: COLORS.player1 }} />
-                <span className="text-gray-300">{player1Stats.name}</span>
+        {playerStats.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-8 mt-6">
+            {playerStats.map((player, index) => (
+              <div key={player.id} className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded" style={{ backgroundColor: colorOf(index) }} />
+                <span className="text-gray-300">{player.name}</span>
               </div>
-            )}
-            {player2Stats && (
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-4 rounded" style={{ backgroundColor: COLORS.player2 }} />
-                <span className="text-gray-300">{player2Stats.name}</span>
-              </div>
-            )}
+            ))}
           </div>
         )}
       </div>
@@ -1,27 +1,20 @@
 import { getSupabase } from "@/lib/supabase";
+import { getPerformance, getPlayer, getPlayers, getTournaments } from "@/lib/data";
+import { getPriceSeries } from "@/lib/price-history";
+import { getComparablePlayers } from "@/lib/similarity";
+import {
+  getWindowStats,
+  parseTimeWindow,
+  resolveTimeWindow,
+  TimeWindowParams,
+} from "@/lib/time-window";
+import { TimeWindow, Tournament, WindowBounds } from "@/types";
 import { CompareClient } from "./CompareClient";
 
 export const revalidate = 300; // Cache for 5 minutes
 
-type TimeFilter = "1m" | "3m" | "all";
-
-const TIME_FILTERS: { value: TimeFilter; label: string }[] = [
-  { value: "1m", label: "Last Month" },
-  { value: "3m", label: "Last 3 Months" },
-  { value: "all", label: "All Time" },
-];
-
-function getDateRange(filter: TimeFilter): Date | null {
-  if (filter === "all") return null;
-  const now = new Date();
-  if (filter === "1m") {
-    return new Date(now.getFullYear(), now.getMonth() - 1, now.getDate());
-  }
-  if (filter === "3m") {
-    return new Date(now.getFullYear(), now.getMonth() - 3, now.getDate());
-  }
-  return null;
-}
+const MAX_COMPARE_PLAYERS = 6;
+const COMPARABLE_PLAYERS = 5;
 
 interface Player {
   id: string;
@@ -45,132 +38,53 @@ export interface PlayerStats {
   avgTP: number;
   tournamentRate: number; // % of tournaments played
   activeShares: number;
-  tpHistory: { month: string; tp: number }[];
+  cumulativeTP: { date: string; tp: number }[]; // running total after each TP game
+  priceHistory: { date: string; price: number }[];
   rankingDistribution: Record<string, number>; // "1" -> count, "2" -> count, etc.
-  recentGames: { date: string; score: number; ranking: number | null }[];
-}
-
-async function getAllPlayers(): Promise<Player[]> {
-  const supabase = getSupabase();
-
-  const { data: players } = await supabase
-    .from("players")
-    .select("id, display_name, team_name, position")
-    .not("position", "is", null)
-    .order("display_name");
-
-  if (!players) return [];
-
-  return players.map((p) => ({
-    id: p.id,
-    name: p.display_name,
-    team: p.team_name || "Unknown",
-    position: p.position || "Unknown",
-  }));
-}
-
-// Get the last 10 unique match dates from all performances
-async function getRecentMatchDates(filter: TimeFilter): Promise<string[]> {
-  const supabase = getSupabase();
-  const startDate = getDateRange(filter);
-
-  let query = supabase
-    .from("performance")
-    .select("match_date")
-    .order("match_date", { ascending: false });
-
-  if (startDate) {
-    query = query.gte("match_date", startDate.toISOString().split("T")[0]);
-  }
-
-  const { data } = await query;
-
-  if (!data) return [];
-
-  // Get unique dates
-  const uniqueDates = [...new Set(data.map((d) => d.match_date))];
-  return uniqueDates.slice(0, 10);
+  recentGames: { date: string; tournament: string; score: number; ranking: number | null }[];
 }
 
-// Get total count of tournaments (unique match dates) within filter
-async function getTotalTournamentCount(filter: TimeFilter): Promise<number> {
+async function getComparisonStats(
+  playerId: string,
+  recentTournaments: Tournament[],
+  totalTournaments: number,
+  window: TimeWindow,
+  bounds: WindowBounds
+): Promise<PlayerStats | null> {
   const supabase = getSupabase();
-  const startDate = getDateRange(filter);
-
-  let query = supabase
-    .from("performance")
-    .select("match_date");
-
-  if (startDate) {
-    query = query.gte("match_date", startDate.toISOString().split("T")[0]);
-  }
 
-  const { data } = await query;
-
-  if (!data) return 0;
-
-  const uniqueDates = new Set(data.map((d) => d.match_date));
-  return uniqueDates.size;
-}
-
-async function getPlayerStats(playerId: string, recentMatchDates: string[], totalTournaments: number, filter: TimeFilter): Promise<PlayerStats | null> {
-  const supabase = getSupabase();
-  const startDate = getDateRange(filter);
-
-  // Get player info
-  const { data: player } = await supabase
-    .from("players")
-    .select("id, display_name, team_name, position, active_shares, circulating_shares")
-    .eq("id", playerId)
-    .single();
+  const [player, windowStats, performances, prices] = await Promise.all([
+    getPlayer(supabase, playerId),
+    getWindowStats(supabase, window, bounds, [playerId]),
+    getPerformance(supabase, bounds, playerId),
+    getPriceSeries(supabase, playerId, bounds.since ? new Date(bounds.since) : null),
+  ]);
 
   if (!player) return null;
 
-  // Get latest price
-  const { data: latestPrice } = await supabase
-    .from("prices")
-    .select("price_usd")
-    .eq("player_id", playerId)
-    .order("fetched_at", { ascending: false })
-    .limit(1)
-    .single();
-
-  const currentPrice = latestPrice?.price_usd || 0;
-  // Calculate market cap as price × circulating_shares (for display)
-  const marketCap = currentPrice * (player.circulating_shares || 0);
-
-  // Get performance data with time filter
-  let perfQuery = supabase
-    .from("performance")
-    .select("match_date, reward, raw_score, ranking")
-    .eq("player_id", playerId)
-    .order("match_date", { ascending: true });
-
-  if (startDate) {
-    perfQuery = perfQuery.gte("match_date", startDate.toISOString().split("T")[0]);
-  }
-
-  const { data: performances } = await perfQuery;
-
-  let totalTP = 0;
-  let gamesPlayed = 0;
-  let tpGames = 0;
-  let totalScore = 0;
-  const monthlyTP: Record<string, number> = {};
+  const stats = windowStats.get(playerId);
+  const currentPrice = stats?.latestPrice || 0;
+  const marketCap = stats?.marketCap || 0;
+  const totalTP = stats?.totalTP || 0;
+  const gamesPlayed = stats?.gamesPlayed || 0;
+  const tpGames = stats?.tpGames || 0;
+  const cumulativeTP: { date: string; tp: number }[] = [];
+  let runningTP = 0;
   const rankingDistribution: Record<string, number> = {};
 
-  // Create a map of this player's performances by date
-  const perfByDate = new Map<string, { score: number; ranking: number }>();
+  // Create a map of this player's performances by tournament
+  const perfByTournament = new Map<string, { score: number; ranking: number | null }>();
 
-  (performances || []).forEach((p) => {
-    gamesPlayed++;
-    if (p.raw_score) totalScore += p.raw_score;
+  // Performances come oldest first
+  performances.forEach((p) => {
     if (p.reward && p.reward > 0) {
-      totalTP += p.reward;
-      tpGames++;
-
-      const month = p.match_date.substring(0, 7);
-      monthlyTP[month] = (monthlyTP[month] || 0) + p.reward;
+      runningTP += p.reward;
+      const last = cumulativeTP[cumulativeTP.length - 1];
+      if (last?.date === p.match_date) {
+        last.tp = runningTP;
+      } else {
+        cumulativeTP.push({ date: p.match_date, tp: runningTP });
+      }
     }
 
     // Track ranking distribution
@@ -180,29 +94,32 @@ async function getPlayerStats(playerId: string, recentMatchDates: string[], tota
     }
 
     // Store for recent games lookup
-    perfByDate.set(p.match_date, {
+    perfByTournament.set(p.tournament_id, {
       score: p.raw_score || 0,
       ranking: p.ranking,
     });
   });
 
-  const tpHistory = Object.entries(monthlyTP)
-    .map(([month, tp]) => ({ month, tp }))
-    .sort((a, b) => a.month.localeCompare(b.month));
+  // The series starts at the window's start; cut it at the window's end too
+  const priceHistory = prices.points
+    .filter((p) => !bounds.until || p.date.slice(0, 10) <= bounds.until)
+    .map((p) => ({ date: p.date, price: p.price }));
 
-  // Build recent games from the global match dates (includes DNPs)
-  const recentGames = recentMatchDates.map((date) => {
-    const perf = perfByDate.get(date);
+  // Build recent games from the global tournament list (includes DNPs)
+  const recentGames = recentTournaments.map((t) => {
+    const perf = perfByTournament.get(t.id);
     if (perf) {
       return {
-        date,
+        date: t.tournament_date,
+        tournament: t.name,
         score: perf.score,
         ranking: perf.ranking,
       };
     } else {
-      // DNP - no record for this date
+      // DNP - no record for this tournament
       return {
-        date,
+        date: t.tournament_date,
+        tournament: t.name,
         score: 0,
         ranking: null,
       };
@@ -220,49 +137,75 @@ async function getPlayerStats(playerId: string, recentMatchDates: string[], tota
     gamesPlayed,
     tpGames,
     tpRate: gamesPlayed > 0 ? (tpGames / gamesPlayed) * 100 : 0,
-    avgScore: gamesPlayed > 0 ? totalScore / gamesPlayed : 0,
+    avgScore: stats?.avgScore || 0,
     avgTP: tpGames > 0 ? totalTP / tpGames : 0,
     tournamentRate: totalTournaments > 0 ? (gamesPlayed / totalTournaments) * 100 : 0,
     activeShares: player.active_shares || 0,
-    tpHistory,
+    cumulativeTP,
+    priceHistory,
     rankingDistribution,
     recentGames,
   };
 }
 
+/**
+ * The selected players from ?ids=a,b,c, in order, without repeats or ids
+ * we don't list. Old ?p1=&p2= links still work.
+ */
+function selectedIds(
+  params: { ids?: string; p1?: string; p2?: string },
+  players: Player[]
+): string[] {
+  const known = new Set(players.map((p) => p.id));
+  const ids = [...(params.ids?.split(",") ?? []), params.p1, params.p2]
+    .map((id) => id?.trim())
+    .filter((id): id is string => !!id && known.has(id));
+  return [...new Set(ids)].slice(0, MAX_COMPARE_PLAYERS);
+}
+
 export default async function ComparePage({
   searchParams,
 }: {
-  searchParams: Promise<{ p1?: string; p2?: string; filter?: string }>;
+  searchParams: Promise<TimeWindowParams & { ids?: string; p1?: string; p2?: string }>;
 }) {
   const params = await searchParams;
-  const filter = (params.filter as TimeFilter) || "all";
+  const window = parseTimeWindow(params);
+  const supabase = getSupabase();
+  const bounds = await resolveTimeWindow(supabase, window);
 
-  const [allPlayers, recentMatchDates, totalTournaments] = await Promise.all([
-    getAllPlayers(),
-    getRecentMatchDates(filter),
-    getTotalTournamentCount(filter),
+  const [players, tournaments] = await Promise.all([
+    getPlayers(supabase),
+    getTournaments(supabase, bounds.since, bounds.until),
   ]);
 
-  let player1Stats: PlayerStats | null = null;
-  let player2Stats: PlayerStats | null = null;
-
-  if (params.p1) {
-    player1Stats = await getPlayerStats(params.p1, recentMatchDates, totalTournaments, filter);
-  }
-  if (params.p2) {
-    player2Stats = await getPlayerStats(params.p2, recentMatchDates, totalTournaments, filter);
-  }
+  const allPlayers: Player[] = players.map((p) => ({
+    id: p.id,
+    name: p.display_name,
+    team: p.team_name || "Unknown",
+    position: p.position || "Unknown",
+  }));
+  const recentTournaments = tournaments.slice(0, 10);
+  const totalTournaments = tournaments.length;
+
+  const ids = selectedIds(params, allPlayers);
+  const [playerStats, comparable] = await Promise.all([
+    Promise.all(
+      ids.map((id) =>
+        getComparisonStats(id, recentTournaments, totalTournaments, window, bounds)
+      )
+    ),
+    // Players like the first one picked, leaving out the rest of the selection
+    ids.length > 0 ? getComparablePlayers(supabase, ids[0], COMPARABLE_PLAYERS, ids) : null,
+  ]);
 
   return (
     <CompareClient
       allPlayers={allPlayers}
-      player1Stats={player1Stats}
-      player2Stats={player2Stats}
-      selectedP1={params.p1}
-      selectedP2={params.p2}
-      currentFilter={filter}
-      timeFilters={TIME_FILTERS}
+      playerStats={playerStats.filter((s): s is PlayerStats => s !== null)}
+      selectedIds={ids}
+      maxPlayers={MAX_COMPARE_PLAYERS}
+      comparable={comparable}
+      window={window}
     />
   );
 }
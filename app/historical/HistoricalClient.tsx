@@ -3,6 +3,9 @@
 import { useState, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { ResponsiveLine } from "@nivo/line";
+import { TimeWindowPicker } from "@/components/ui/TimeWindowPicker";
+import { timeWindowHref } from "@/lib/time-window";
+import { TimeWindow } from "@/types";
 
 interface Player {
   id: string;
@@ -16,6 +19,7 @@ interface PerformanceRecord {
   raw_score: number | null;
   ranking: number | null;
   reward: number | null;
+  tp_threshold: number | null;
 }
 
 interface PlayerHistoricalData {
@@ -43,6 +47,7 @@ interface HistoricalClientProps {
   allPlayers: Player[];
   playerData: PlayerHistoricalData | null;
   selectedPlayerId?: string;
+  window: TimeWindow;
 }
 
 function formatTP(value: number): string {
@@ -282,6 +287,7 @@ function RankingChart({ data, position }: { data: PerformanceRecord[]; position:
         x: new Date(d.match_date),
         y: transformRank(d.ranking!),
         originalRank: d.ranking,
+        tpThreshold: d.tp_threshold,
       })),
     },
   ];
@@ -295,18 +301,16 @@ function RankingChart({ data, position }: { data: PerformanceRecord[]; position:
   if (maxRanking > 27) displayTicks.push(30);
   const tickValues = displayTicks.map(transformRank);
 
-  // Custom layer to render colored points - green for top ranks based on position
-  // GK: 1-3 green, MID/DEF/FWD: 1-5 green
-  const greenThreshold = isGoalkeeper ? 3 : 5;
-
+  // Custom layer to render colored points - green for finishes that earned
+  // TP under the scoring rule in force on the match date
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const customPointsLayer = (props: any) => {
     const { points } = props;
     return (
       <g>
         {points.map((point: any, index: number) => {
-          const originalRank = point.data.originalRank;
-          const isGreen = originalRank <= greenThreshold;
+          const { originalRank, tpThreshold } = point.data;
+          const isGreen = tpThreshold !== null && originalRank <= tpThreshold;
           const strokeColor = isGreen ? "#22C55E" : "#3B82F6"; // green for top ranks, blue otherwise
 
           return (
@@ -522,11 +526,12 @@ export function HistoricalClient({
   allPlayers,
   playerData,
   selectedPlayerId,
+  window,
 }: HistoricalClientProps) {
   const router = useRouter();
 
   const handleSelectPlayer = (playerId: string) => {
-    router.push(`/historical?player=${playerId}`);
+    router.push(timeWindowHref("/historical", window, { player: playerId }));
   };
 
   return (
@@ -549,6 +554,8 @@ export function HistoricalClient({
           />
         </div>
 
+        <TimeWindowPicker window={window} className="mb-8" />
+
         {playerData ? (
           <>
             {/* Stats Overview */}
@@ -1,4 +1,15 @@
 import { getSupabase } from "@/lib/supabase";
+import { HISTORICAL_PLAYER_STATUSES } from "@/lib/player-status";
+import { getPerformance, getPlayer, getPlayers } from "@/lib/data";
+import { getPriceSeries } from "@/lib/price-history";
+import { getScoringRules, tpThresholdOn } from "@/lib/scoring-rules";
+import {
+  getWindowStats,
+  parseTimeWindow,
+  resolveTimeWindow,
+  TimeWindowParams,
+} from "@/lib/time-window";
+import { TimeWindow, WindowBounds } from "@/types";
 import { HistoricalClient } from "./HistoricalClient";
 
 export const revalidate = 300; // Cache for 5 minutes
@@ -15,6 +26,7 @@ interface PerformanceRecord {
   raw_score: number | null;
   ranking: number | null;
   reward: number | null;
+  tp_threshold: number | null; // from the scoring rule in force on match_date
 }
 
 interface PlayerHistoricalData {
@@ -39,44 +51,43 @@ interface PlayerHistoricalData {
 }
 
 async function getAllPlayers(): Promise<Player[]> {
-  const supabase = getSupabase();
-
-  const { data: players } = await supabase
-    .from("players")
-    .select("id, display_name, team_name, position")
-    .not("position", "is", null)
-    .order("display_name");
-
-  if (!players) return [];
+  const players = await getPlayers(getSupabase(), HISTORICAL_PLAYER_STATUSES);
 
   return players.map((p) => ({
     id: p.id,
-    name: p.display_name,
+    name: p.status === "delisted" ? `${p.display_name} (delisted)` : p.display_name,
     team: p.team_name || "Unknown",
     position: p.position || "Unknown",
   }));
 }
 
-async function getPlayerHistoricalData(playerId: string): Promise<PlayerHistoricalData | null> {
+async function getPlayerHistoricalData(
+  playerId: string,
+  window: TimeWindow,
+  bounds: WindowBounds
+): Promise<PlayerHistoricalData | null> {
   const supabase = getSupabase();
 
-  // Get player info
-  const { data: player } = await supabase
-    .from("players")
-    .select("id, display_name, team_name, position")
-    .eq("id", playerId)
-    .single();
+  const [player, performanceRows, windowStats, scoringRules] = await Promise.all([
+    getPlayer(supabase, playerId),
+    getPerformance(supabase, bounds, playerId),
+    getWindowStats(supabase, window, bounds, [playerId]),
+    getScoringRules(supabase),
+  ]);
 
   if (!player) return null;
 
-  // Get all performance data for this player
-  const { data: performances } = await supabase
-    .from("performance")
-    .select("match_date, raw_score, ranking, reward")
-    .eq("player_id", playerId)
-    .order("match_date", { ascending: true });
+  const performances: PerformanceRecord[] = performanceRows.map((p) => ({
+    match_date: p.match_date,
+    raw_score: p.raw_score,
+    ranking: p.ranking,
+    reward: p.reward,
+    tp_threshold: player.position
+      ? tpThresholdOn(scoringRules, player.position, p.match_date)
+      : null,
+  }));
 
-  if (!performances || performances.length === 0) {
+  if (performances.length === 0) {
     return {
       id: player.id,
       name: player.display_name,
@@ -99,12 +110,8 @@ async function getPlayerHistoricalData(playerId: string): Promise<PlayerHistoric
     };
   }
 
-  // Get price history
-  const { data: prices } = await supabase
-    .from("prices")
-    .select("price_usd, fetched_at")
-    .eq("player_id", playerId)
-    .order("fetched_at", { ascending: true });
+  // Price history (daily candles) inside the window
+  const { points: pricePoints } = await getPriceSeries(supabase, playerId, null);
 
   // Calculate cumulative TP over time
   let runningTotal = 0;
@@ -115,30 +122,23 @@ async function getPlayerHistoricalData(playerId: string): Promise<PlayerHistoric
       return { date: p.match_date, total: runningTotal };
     });
 
-  // Process price history - get one price per day
-  const priceByDay: Record<string, number> = {};
-  (prices || []).forEach((p) => {
-    const day = p.fetched_at.split("T")[0];
-    priceByDay[day] = p.price_usd; // Last price of the day wins
-  });
-  const priceHistory = Object.entries(priceByDay)
-    .map(([date, price]) => ({ date, price }))
-    .sort((a, b) => a.date.localeCompare(b.date));
+  const priceHistory = pricePoints
+    .map((p) => ({ date: p.date.split("T")[0], price: p.price }))
+    .filter((p) => !bounds.since || p.date >= bounds.since)
+    .filter((p) => !bounds.until || p.date <= bounds.until);
 
   // Calculate stats
-  const scores = performances.filter((p) => p.raw_score !== null).map((p) => p.raw_score!);
-  const rankings = performances.filter((p) => p.ranking !== null).map((p) => p.ranking!);
-  const tpGames = performances.filter((p) => p.reward && p.reward > 0).length;
-  const totalTP = performances.reduce((sum, p) => sum + (p.reward || 0), 0);
+  const totals = windowStats.get(playerId);
+  const gamesPlayed = totals?.gamesPlayed || 0;
 
   const stats = {
-    totalGames: performances.length,
-    totalTP,
-    avgScore: scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0,
-    avgRanking: rankings.length > 0 ? rankings.reduce((a, b) => a + b, 0) / rankings.length : 0,
-    bestRanking: rankings.length > 0 ? Math.min(...rankings) : 0,
-    tpRate: performances.length > 0 ? (tpGames / performances.length) * 100 : 0,
-    tpGames,
+    totalGames: gamesPlayed,
+    totalTP: totals?.totalTP || 0,
+    avgScore: totals?.avgScore || 0,
+    avgRanking: totals?.avgRanking || 0,
+    bestRanking: totals?.bestRanking || 0,
+    tpRate: gamesPlayed > 0 ? ((totals?.tpGames || 0) / gamesPlayed) * 100 : 0,
+    tpGames: totals?.tpGames || 0,
     firstGame: performances[0].match_date,
     lastGame: performances[performances.length - 1].match_date,
   };
@@ -158,14 +158,16 @@ async function getPlayerHistoricalData(playerId: string): Promise<PlayerHistoric
 export default async function HistoricalPage({
   searchParams,
 }: {
-  searchParams: Promise<{ player?: string }>;
+  searchParams: Promise<TimeWindowParams & { player?: string }>;
 }) {
   const params = await searchParams;
+  const window = parseTimeWindow(params);
   const allPlayers = await getAllPlayers();
 
   let playerData: PlayerHistoricalData | null = null;
   if (params.player) {
-    playerData = await getPlayerHistoricalData(params.player);
+    const bounds = await resolveTimeWindow(getSupabase(), window);
+    playerData = await getPlayerHistoricalData(params.player, window, bounds);
   }
 
   return (
@@ -173,6 +175,7 @@ export default async function HistoricalPage({
       allPlayers={allPlayers}
       playerData={playerData}
       selectedPlayerId={params.player}
+      window={window}
     />
   );
 }
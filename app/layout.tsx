@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import "./globals.css";
+import { NotificationBell } from "@/components/ui/NotificationBell";
 
 export const metadata: Metadata = {
   title: "Sneak's FDF Analytics",
@@ -20,7 +21,7 @@ export default function RootLayout({
               <a href="/" className="text-xl font-bold text-white">
                 Sneak's FDF Analytics
               </a>
-              <div className="flex gap-6">
+              <div className="flex items-center gap-6">
                 <a href="/players" className="text-gray-300 hover:text-white transition-colors">
                   Players
                 </a>
@@ -39,6 +40,16 @@ export default function RootLayout({
                 <a href="/historical" className="text-gray-300 hover:text-white transition-colors">
                   Historical
                 </a>
+                <a href="/portfolio" className="text-gray-300 hover:text-white transition-colors">
+                  Portfolio
+                </a>
+                <a href="/backtest" className="text-gray-300 hover:text-white transition-colors">
+                  Backtest
+                </a>
+                <a href="/alerts" className="text-gray-300 hover:text-white transition-colors">
+                  Alerts
+                </a>
+                <NotificationBell />
               </div>
             </div>
           </div>
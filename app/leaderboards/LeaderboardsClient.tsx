@@ -2,40 +2,30 @@
 
 import { useState } from "react";
 import Link from "next/link";
+import { ExportButtons } from "@/components/ui/ExportButtons";
+import { TimeWindowPicker } from "@/components/ui/TimeWindowPicker";
+import { getUndervaluedPlayers } from "@/lib/leaderboards";
+import { timeWindowParams } from "@/lib/time-window";
+import {
+  PlayerFairValue,
+  PlayerTPData,
+  PlayerVolatility,
+  TimeWindow,
+  UndervaluedRanking,
+} from "@/types";
 
-type TimeFilter = "1m" | "3m" | "all";
-
-const TIME_FILTERS: { value: TimeFilter; label: string }[] = [
-  { value: "1m", label: "Last Month" },
-  { value: "3m", label: "Last 3 Months" },
-  { value: "all", label: "All Time" },
-];
-
-interface PlayerTPData {
-  id: string;
-  name: string;
-  team: string;
-  position: string;
-  totalTP: number;
-  gamesPlayed: number;
-  tpGames: number;
-  price: number;
-  activeShares: number;
-}
-
-interface PlayerVolatility {
-  id: string;
-  name: string;
-  team: string;
-  position: string;
-  price: number;
-  volatility: number;
-  priceChange: number;
-}
+const EXPORT_DATASETS = {
+  tp: "tp-leaderboard",
+  volatility: "volatility",
+  value: "undervalued",
+} as const;
 
 interface LeaderboardsClientProps {
-  tpData: Record<TimeFilter, PlayerTPData[]>;
+  tpLeaderboard: PlayerTPData[];
   volatilityRankings: PlayerVolatility[];
+  /** By player id, for the window */
+  fairValues: Record<string, PlayerFairValue>;
+  window: TimeWindow;
 }
 
 function formatTP(value: number): string {
@@ -49,22 +39,24 @@ function formatPrice(value: number): string {
   return `$${value.toFixed(3)}`;
 }
 
-function getUndervaluedPlayers(leaderboard: PlayerTPData[]): (PlayerTPData & { tpPerDollar: number })[] {
-  return leaderboard
-    .filter((p) => p.price > 0 && p.activeShares > 0)
-    .map((p) => ({
-      ...p,
-      tpPerDollar: (p.totalTP / p.activeShares) * (100 / p.price),
-    }))
-    .sort((a, b) => b.tpPerDollar - a.tpPerDollar);
+function formatResidual(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(0)}%`;
 }
 
-export function LeaderboardsClient({ tpData, volatilityRankings }: LeaderboardsClientProps) {
+export function LeaderboardsClient({
+  tpLeaderboard,
+  volatilityRankings,
+  fairValues,
+  window,
+}: LeaderboardsClientProps) {
   const [tab, setTab] = useState<"tp" | "volatility" | "value">("tp");
-  const [filter, setFilter] = useState<TimeFilter>("all");
+  const [valueRanking, setValueRanking] = useState<UndervaluedRanking>("tp-per-100");
 
-  const tpLeaderboard = tpData[filter];
-  const undervaluedPlayers = getUndervaluedPlayers(tpLeaderboard);
+  const undervaluedPlayers = getUndervaluedPlayers(
+    tpLeaderboard,
+    new Map(Object.entries(fairValues)),
+    valueRanking
+  );
 
   return (
     <div className="min-h-screen bg-black text-white">
@@ -97,23 +89,45 @@ export function LeaderboardsClient({ tpData, volatilityRankings }: LeaderboardsC
 
         {/* Time Filters (for TP and Value tabs) */}
         {(tab === "tp" || tab === "value") && (
-          <div className="flex gap-2 mb-6">
-            {TIME_FILTERS.map((tf) => (
-              <button
-                key={tf.value}
-                onClick={() => setFilter(tf.value)}
-                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
-                  filter === tf.value
-                    ? "bg-green-600 text-white"
-                    : "bg-gray-800 text-gray-300 hover:bg-gray-700"
-                }`}
-              >
-                {tf.label}
-              </button>
-            ))}
-          </div>
+          <TimeWindowPicker window={window} className="mb-6" />
         )}
 
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          {tab === "value" ? (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-gray-500">Rank by</span>
+              {[
+                { value: "tp-per-100" as const, label: "TP per $100" },
+                { value: "fair-value" as const, label: "Below fair value" },
+              ].map((r) => (
+                <button
+                  key={r.value}
+                  onClick={() => setValueRanking(r.value)}
+                  className={`px-3 py-1 rounded-lg transition-colors ${
+                    valueRanking === r.value
+                      ? "bg-blue-600 text-white"
+                      : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                  }`}
+                >
+                  {r.label}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div />
+          )}
+          <ExportButtons
+            dataset={EXPORT_DATASETS[tab]}
+            params={
+              tab === "volatility"
+                ? { days: "30" }
+                : tab === "value"
+                ? { ...timeWindowParams(window), by: valueRanking }
+                : timeWindowParams(window)
+            }
+          />
+        </div>
+
         {/* TP Leaderboard */}
         {tab === "tp" && (
           <div className="bg-gray-900 rounded-lg overflow-hidden">
@@ -256,6 +270,8 @@ export function LeaderboardsClient({ tpData, volatilityRankings }: LeaderboardsC
                   <th className="px-4 py-3 text-right text-sm font-semibold text-gray-300">Total TP</th>
                   <th className="px-4 py-3 text-right text-sm font-semibold text-gray-300">Price</th>
                   <th className="px-4 py-3 text-right text-sm font-semibold text-gray-300">TP per $100</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-300">Fair Price</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-300">vs Fair</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-800">
@@ -280,7 +296,21 @@ export function LeaderboardsClient({ tpData, volatilityRankings }: LeaderboardsC
                       {formatPrice(player.price)}
                     </td>
                     <td className="px-4 py-3 text-sm text-right font-mono text-blue-400">
-                      {formatTP(player.tpPerDollar)}
+                      {formatTP(player.tpPer100)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right font-mono text-gray-300">
+                      {player.fairPrice !== null ? formatPrice(player.fairPrice) : "-"}
+                    </td>
+                    <td
+                      className={`px-4 py-3 text-sm text-right font-mono ${
+                        player.residual === null
+                          ? "text-gray-500"
+                          : player.residual <= 0
+                          ? "text-green-400"
+                          : "text-red-400"
+                      }`}
+                    >
+                      {player.residual !== null ? formatResidual(player.residual) : "-"}
                     </td>
                   </tr>
                 ))}
@@ -1,8 +1,15 @@
-import { supabase } from "@/lib/supabase";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { getSupabase, supabase } from "@/lib/supabase";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/Card";
 import { PriceChart } from "@/components/charts/PriceChart";
+import { LiquidityChart } from "@/components/charts/LiquidityChart";
+import { FairValueChart } from "@/components/charts/FairValueChart";
 import { PerformanceTable } from "@/components/tables/PerformanceTable";
+import { ComparablePlayersTable } from "@/components/tables/ComparablePlayersTable";
+import { ExportButtons } from "@/components/ui/ExportButtons";
 import { formatPrice, formatLargeNumber } from "@/lib/utils";
+import { getPriceSeries } from "@/lib/price-history";
+import { getComparablePlayers } from "@/lib/similarity";
+import { getFairValueHistory } from "@/lib/fair-value";
 import { notFound } from "next/navigation";
 
 interface PlayerPageProps {
@@ -18,17 +25,20 @@ async function getPlayerData(id: string) {
 
   if (!player) return null;
 
-  // Get price history (last 30 days)
-  const thirtyDaysAgo = new Date(
-    Date.now() - 30 * 24 * 60 * 60 * 1000
-  ).toISOString();
+  // Get price history (last 30 days, hourly candles)
+  const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+  const { resolution, points } = await getPriceSeries(getSupabase(), id, thirtyDaysAgo);
 
-  const { data: prices } = await supabase
+  // Latest snapshot for the stat cards
+  const { data: latestPrice } = await supabase
     .from("prices")
-    .select("price_usd, marketcap_usd, holder_count, fetched_at")
+    .select(
+      "price_usd, marketcap_usd, holder_count, liquidity_usd, volume_24h_usd, buy_count_24h, sell_count_24h, fetched_at"
+    )
     .eq("player_id", id)
-    .gte("fetched_at", thirtyDaysAgo)
-    .order("fetched_at", { ascending: true });
+    .order("fetched_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
 
   // Get performance data
   const { data: performances } = await supabase
@@ -37,7 +47,6 @@ async function getPlayerData(id: string) {
     .eq("player_id", id)
     .order("match_date", { ascending: false });
 
-  const latestPrice = prices?.[prices.length - 1];
   // Calculate market cap as price × circulating_shares
   const marketcap = latestPrice?.price_usd && player.circulating_shares
     ? latestPrice.price_usd * player.circulating_shares
@@ -45,16 +54,23 @@ async function getPlayerData(id: string) {
 
   return {
     player,
-    prices: prices || [],
+    resolution,
+    points,
     performances: performances || [],
     latestPrice: latestPrice?.price_usd || null,
     latestMarketcap: marketcap,
     holderCount: latestPrice?.holder_count || null,
+    liquidity: latestPrice?.liquidity_usd ?? null,
+    volume24h: latestPrice?.volume_24h_usd ?? null,
+    buys24h: latestPrice?.buy_count_24h ?? null,
+    sells24h: latestPrice?.sell_count_24h ?? null,
   };
 }
 
 export const revalidate = 300; // Cache for 5 minutes
 
+const COMPARABLE_PLAYERS = 5;
+
 export default async function PlayerDetailPage({ params }: PlayerPageProps) {
   const { id } = await params;
   const data = await getPlayerData(id);
@@ -63,13 +79,25 @@ export default async function PlayerDetailPage({ params }: PlayerPageProps) {
     notFound();
   }
 
-  const { player, prices, performances, latestPrice, latestMarketcap, holderCount } =
-    data;
+  const [comparable, fairValues] = await Promise.all([
+    getComparablePlayers(getSupabase(), id, COMPARABLE_PLAYERS),
+    getFairValueHistory(getSupabase(), id),
+  ]);
+  const fairValue = fairValues.length > 0 ? fairValues[fairValues.length - 1] : null;
 
-  const priceChartData = prices.map((p) => ({
-    date: p.fetched_at,
-    price: p.price_usd,
-  }));
+  const {
+    player,
+    resolution,
+    points,
+    performances,
+    latestPrice,
+    latestMarketcap,
+    holderCount,
+    liquidity,
+    volume24h,
+    buys24h,
+    sells24h,
+  } = data;
 
   return (
     <div className="space-y-6">
@@ -90,6 +118,29 @@ export default async function PlayerDetailPage({ params }: PlayerPageProps) {
               <span className="font-mono">${player.token_symbol}</span>
             </>
           )}
+          {fairValue && (
+            <span
+              className={`px-2 rounded-full text-sm ${
+                fairValue.residual <= 0
+                  ? "bg-green-900/50 text-green-400"
+                  : "bg-red-900/50 text-red-400"
+              }`}
+              title={`Fair price ${formatPrice(fairValue.fairPrice)} on ${fairValue.date}`}
+            >
+              {Math.abs(fairValue.residual).toFixed(0)}%{" "}
+              {fairValue.residual <= 0 ? "undervalued" : "overvalued"}
+            </span>
+          )}
+          {player.status !== "active" && (
+            <>
+              <span>-</span>
+              <span className="text-yellow-400">
+                {player.status}
+                {player.status_effective_at &&
+                  ` since ${new Date(player.status_effective_at).toLocaleDateString()}`}
+              </span>
+            </>
+          )}
         </div>
       </div>
 
@@ -129,20 +180,91 @@ export default async function PlayerDetailPage({ params }: PlayerPageProps) {
         </Card>
       </div>
 
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Liquidity</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold text-white">
+              {formatLargeNumber(liquidity)}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>24h Volume</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold text-white">
+              {formatLargeNumber(volume24h)}
+            </p>
+            {buys24h !== null && sells24h !== null && (
+              <p className="text-sm text-gray-400 mt-1">
+                <span className="text-green-500">{buys24h.toLocaleString()} buys</span>
+                {" / "}
+                <span className="text-red-500">{sells24h.toLocaleString()} sells</span>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Price Chart */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-wrap items-center justify-between gap-4">
           <CardTitle>Price History (30 days)</CardTitle>
+          <ExportButtons dataset="player-prices" params={{ player: player.id }} />
         </CardHeader>
         <CardContent>
-          <PriceChart data={priceChartData} height={350} />
+          <PriceChart data={points} resolution={resolution} height={350} />
         </CardContent>
       </Card>
 
-      {/* Performance History */}
+      {/* Liquidity Chart */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Liquidity &amp; Volume (30 days)</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <LiquidityChart data={points} height={300} />
+        </CardContent>
+      </Card>
+
+      {/* Fair Value History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Price vs Fair Value</CardTitle>
+          <CardDescription>
+            How far the price sits above or below the fair price for the player&apos;s all-time
+            TP, from the daily fit across their position
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <FairValueChart data={fairValues} />
+        </CardContent>
+      </Card>
+
+      {/* Comparable Players */}
       <Card>
         <CardHeader>
+          <CardTitle>Comparable Players</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ComparablePlayersTable
+            target={comparable.target}
+            players={comparable.similar}
+            compareWith={[player.id]}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Performance History */}
+      <Card>
+        <CardHeader className="flex flex-wrap items-center justify-between gap-4">
           <CardTitle>Performance History</CardTitle>
+          <ExportButtons dataset="player-performance" params={{ player: player.id }} />
         </CardHeader>
         <CardContent>
           <PerformanceTable performances={performances} />
@@ -1,53 +1,26 @@
-import { supabase } from "@/lib/supabase";
+import { getSupabase } from "@/lib/supabase";
+import { getLatestPrices, getPlayers, getPlayerStats, getPricesAt } from "@/lib/data";
+import { getFairValues } from "@/lib/fair-value-model";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import { PlayerTable } from "@/components/tables/PlayerTable";
 import { PlayerWithLatestPrice } from "@/types";
 
 async function getPlayersWithPrices(): Promise<PlayerWithLatestPrice[]> {
-  const { data: players } = await supabase
-    .from("players")
-    .select("*")
-    .order("display_name");
+  const supabase = getSupabase();
+  const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
 
-  if (!players || players.length === 0) return [];
-
-  const playerIds = players.map((p) => p.id);
-
-  // Get latest prices for each player (no time filter)
-  const { data: latestPrices } = await supabase
-    .from("prices")
-    .select("player_id, price_usd, fetched_at")
-    .in("player_id", playerIds)
-    .order("fetched_at", { ascending: false });
-
-  // Get prices from ~24 hours ago for change calculation
-  const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-  const { data: oldPrices } = await supabase
-    .from("prices")
-    .select("player_id, price_usd")
-    .in("player_id", playerIds)
-    .lte("fetched_at", oneDayAgo)
-    .order("fetched_at", { ascending: false });
-
-  // Map latest prices by player (first occurrence = most recent)
-  const latestByPlayer = new Map<string, number>();
-  latestPrices?.forEach((p) => {
-    if (!latestByPlayer.has(p.player_id)) {
-      latestByPlayer.set(p.player_id, p.price_usd);
-    }
-  });
-
-  // Map old prices by player
-  const oldByPlayer = new Map<string, number>();
-  oldPrices?.forEach((p) => {
-    if (!oldByPlayer.has(p.player_id)) {
-      oldByPlayer.set(p.player_id, p.price_usd);
-    }
-  });
+  const [players, latestPrices, oldPrices, allTimeStats] = await Promise.all([
+    getPlayers(supabase),
+    getLatestPrices(supabase),
+    getPricesAt(supabase, oneDayAgo),
+    getPlayerStats(supabase, "all"),
+  ]);
+  const fairValues = getFairValues(players, allTimeStats);
 
   return players.map((player) => {
-    const latestPrice = latestByPlayer.get(player.id);
-    const oldPrice = oldByPlayer.get(player.id);
+    const latest = latestPrices.get(player.id);
+    const latestPrice = latest?.price;
+    const oldPrice = oldPrices.get(player.id);
     let priceChange = null;
 
     if (latestPrice && oldPrice && oldPrice > 0) {
@@ -63,7 +36,10 @@ async function getPlayersWithPrices(): Promise<PlayerWithLatestPrice[]> {
       ...player,
       latest_price: latestPrice || null,
       latest_marketcap: marketcap,
+      latest_liquidity: latest?.liquidity ?? null,
+      latest_volume_24h: latest?.volume24h ?? null,
       price_change_24h: priceChange,
+      fair_value_residual: fairValues.get(player.id)?.residual ?? null,
     };
   });
 }
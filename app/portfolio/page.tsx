@@ -0,0 +1,563 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { getSupabase, supabase } from "@/lib/supabase";
+import { adminFetch } from "@/lib/admin-fetch";
+import { getLatestPrices, getPerformance, getPlayers } from "@/lib/data";
+import { HISTORICAL_PLAYER_STATUSES } from "@/lib/player-status";
+import {
+  addPortfolioTransaction,
+  buildPortfolio,
+  deletePortfolioTransaction,
+  getPortfolioTransactions,
+  getPortfolioWallets,
+} from "@/lib/portfolio";
+import { POSITION_COLORS } from "@/lib/positions";
+import { cn, formatLargeNumber, formatPrice } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Select } from "@/components/ui/Select";
+import {
+  PerformanceRecord,
+  Player,
+  PortfolioAllocation,
+  PortfolioSummary,
+  PortfolioTransaction,
+  PortfolioWallet,
+  TradeSide,
+  WalletImportReport,
+} from "@/types";
+
+const SIDE_OPTIONS = [
+  { value: "buy", label: "Buy" },
+  { value: "sell", label: "Sell" },
+];
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+function formatPnl(value: number): string {
+  const sign = value > 0 ? "+" : value < 0 ? "-" : "";
+  return `${sign}${formatLargeNumber(Math.abs(value))}`;
+}
+
+function pnlColor(value: number): string {
+  return value > 0 ? "text-green-400" : value < 0 ? "text-red-400" : "text-white";
+}
+
+function AllocationList({
+  allocations,
+  colors = {},
+}: {
+  allocations: PortfolioAllocation[];
+  colors?: Record<string, string>;
+}) {
+  if (allocations.length === 0) {
+    return <p className="text-gray-500 text-sm">No open holdings</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {allocations.map((a) => (
+        <li key={a.label}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-gray-300">{a.label}</span>
+            <span className="text-gray-400">
+              {formatLargeNumber(a.value)} ({(a.share * 100).toFixed(1)}%)
+            </span>
+          </div>
+          <div className="h-2 bg-gray-800 rounded">
+            <div
+              className="h-2 rounded"
+              style={{ width: `${a.share * 100}%`, backgroundColor: colors[a.label] || "#3B82F6" }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function PortfolioPage() {
+  const [loading, setLoading] = useState(true);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [transactions, setTransactions] = useState<PortfolioTransaction[]>([]);
+  const [summary, setSummary] = useState<PortfolioSummary | null>(null);
+  const [wallets, setWallets] = useState<PortfolioWallet[]>([]);
+  const [walletAddress, setWalletAddress] = useState("");
+  const [importReport, setImportReport] = useState<WalletImportReport | null>(null);
+  const [playerId, setPlayerId] = useState("");
+  const [side, setSide] = useState<TradeSide>("buy");
+  const [quantity, setQuantity] = useState("");
+  const [price, setPrice] = useState("");
+  const [tradedOn, setTradedOn] = useState(() => new Date().toISOString().slice(0, 10));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const router = useRouter();
+
+  const loadPortfolio = useCallback(async () => {
+    const client = getSupabase();
+    const [allPlayers, trades, savedWallets] = await Promise.all([
+      getPlayers(client, HISTORICAL_PLAYER_STATUSES),
+      getPortfolioTransactions(client),
+      getPortfolioWallets(client),
+    ]);
+
+    const playerIds = [...new Set(trades.map((t) => t.player_id))];
+    const firstTrade = new Map<string, string>();
+    for (const t of trades) {
+      if (!firstTrade.has(t.player_id)) firstTrade.set(t.player_id, t.traded_on);
+    }
+
+    const [prices, performanceRows] = await Promise.all([
+      getLatestPrices(client, playerIds),
+      Promise.all(
+        playerIds.map((id) =>
+          getPerformance(
+            client,
+            { since: firstTrade.get(id) ?? null, until: null, sinceListing: false },
+            id
+          )
+        )
+      ),
+    ]);
+
+    const performances = new Map<string, PerformanceRecord[]>(
+      playerIds.map((id, i) => [id, performanceRows[i]])
+    );
+
+    setPlayers(allPlayers);
+    setTransactions(trades);
+    setWallets(savedWallets);
+    setSummary(
+      buildPortfolio(trades, new Map(allPlayers.map((p) => [p.id, p])), prices, performances)
+    );
+  }, []);
+
+  useEffect(() => {
+    async function checkAuth() {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        router.push("/admin/login?next=/portfolio");
+        return;
+      }
+      try {
+        await loadPortfolio();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load portfolio");
+      }
+      setLoading(false);
+    }
+    checkAuth();
+  }, [router, loadPortfolio]);
+
+  const playerOptions = useMemo(
+    () => players.map((p) => ({ value: p.id, label: p.display_name })),
+    [players]
+  );
+  const playerNames = useMemo(() => new Map(players.map((p) => [p.id, p.display_name])), [players]);
+
+  const handleAdd = async () => {
+    setSaving(true);
+    setError("");
+
+    try {
+      await addPortfolioTransaction(getSupabase(), {
+        player_id: playerId,
+        side,
+        quantity: Number(quantity),
+        price_usd: Number(price),
+        traded_on: tradedOn,
+      });
+      setQuantity("");
+      setPrice("");
+      await loadPortfolio();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to record trade");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async (address: string) => {
+    setSaving(true);
+    setError("");
+    setImportReport(null);
+
+    try {
+      const response = await adminFetch("/api/portfolio/wallets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ address }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to import wallet");
+      }
+      setImportReport(data.report);
+      setWalletAddress("");
+      await loadPortfolio();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import wallet");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (trade: PortfolioTransaction) => {
+    if (!confirm(`Delete this ${trade.side} from ${trade.traded_on}?`)) return;
+
+    setSaving(true);
+    setError("");
+    try {
+      await deletePortfolioTransaction(getSupabase(), trade.id);
+      await loadPortfolio();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete trade");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <p className="text-gray-500">Loading...</p>
+      </div>
+    );
+  }
+
+  const canAdd = playerId && Number(quantity) > 0 && price !== "" && Number(price) >= 0 && tradedOn;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-white">Portfolio</h1>
+        <p className="text-gray-400 mt-2">
+          Your token trades valued at the latest prices, with the TP your holdings earned
+        </p>
+      </div>
+
+      {error && <p className="text-red-500">{error}</p>}
+
+      {summary && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Value</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold text-white">{formatLargeNumber(summary.marketValue)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Cost Basis</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold text-white">{formatLargeNumber(summary.costBasis)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Unrealized P&amp;L</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className={cn("text-2xl font-bold", pnlColor(summary.unrealizedPnl))}>
+                {formatPnl(summary.unrealizedPnl)}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Realized P&amp;L</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className={cn("text-2xl font-bold", pnlColor(summary.realizedPnl))}>
+                {formatPnl(summary.realizedPnl)}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>TP Earned</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold text-yellow-400">{summary.tpEarned.toFixed(2)}</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Record Trade</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-3">
+            <Select
+              value={playerId}
+              onChange={setPlayerId}
+              options={playerOptions}
+              placeholder="Select player..."
+            />
+            <Select value={side} onChange={(v) => setSide(v as TradeSide)} options={SIDE_OPTIONS} />
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              placeholder="Quantity"
+              className="w-32 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder="Price (USD)"
+              className="w-32 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="date"
+              value={tradedOn}
+              onChange={(e) => setTradedOn(e.target.value)}
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <Button onClick={handleAdd} disabled={saving || !canAdd}>
+              {saving ? "Saving..." : "Add"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Wallets</CardTitle>
+          <CardDescription>
+            Importing a wallet records a buy or sell at today&apos;s price for every player token
+            whose balance changed since its last import. Manual trades are left alone.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              value={walletAddress}
+              onChange={(e) => setWalletAddress(e.target.value)}
+              placeholder="0x..."
+              className="w-96 max-w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <Button
+              onClick={() => handleImport(walletAddress.trim())}
+              disabled={saving || !walletAddress.trim()}
+            >
+              {saving ? "Importing..." : "Import"}
+            </Button>
+          </div>
+
+          {importReport && (
+            <div className="text-sm space-y-2">
+              <p className="text-green-500">
+                {shortAddress(importReport.wallet)}: {importReport.matched} player tokens,{" "}
+                {importReport.adjustments} trades recorded
+              </p>
+              {importReport.unknownTokens.length > 0 && (
+                <div>
+                  <p className="text-yellow-400">
+                    {importReport.unknownTokens.length} tokens don&apos;t match any player:
+                  </p>
+                  <ul className="text-gray-400 font-mono text-xs mt-1 space-y-1">
+                    {importReport.unknownTokens.map((t) => (
+                      <li key={t.tokenAddress}>
+                        {t.symbol || "?"} {t.tokenAddress} (
+                        {t.quantity.toLocaleString(undefined, { maximumFractionDigits: 2 })})
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {importReport.unpricedPlayers.length > 0 && (
+                <p className="text-yellow-400">
+                  No price yet for {importReport.unpricedPlayers.map((p) => p.name).join(", ")}; their
+                  positions will be recorded on a later import.
+                </p>
+              )}
+            </div>
+          )}
+
+          {wallets.length > 0 && (
+            <ul className="divide-y divide-gray-800 border border-gray-700 rounded-lg text-sm">
+              {wallets.map((w) => (
+                <li key={w.address} className="flex items-center justify-between px-3 py-2">
+                  <span>
+                    <span className="font-mono">{shortAddress(w.address)}</span>
+                    {w.label && <span className="text-gray-400 ml-2">{w.label}</span>}
+                    <span className="text-gray-500 ml-2 text-xs">
+                      {w.last_imported_at
+                        ? `imported ${new Date(w.last_imported_at).toLocaleString()}`
+                        : "never imported"}
+                    </span>
+                  </span>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={saving}
+                    onClick={() => handleImport(w.address)}
+                  >
+                    Re-import
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {summary && summary.holdings.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Holdings</CardTitle>
+            <CardDescription>
+              Average cost basis. TP earned is each game&apos;s reward per active share times
+              the tokens held on the match date.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto border border-gray-700 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-800">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Player</th>
+                    <th className="px-3 py-2 text-right">Tokens</th>
+                    <th className="px-3 py-2 text-right">Avg Cost</th>
+                    <th className="px-3 py-2 text-right">Price</th>
+                    <th className="px-3 py-2 text-right">Value</th>
+                    <th className="px-3 py-2 text-right">Unrealized</th>
+                    <th className="px-3 py-2 text-right">Realized</th>
+                    <th className="px-3 py-2 text-right">TP Earned</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                  {summary.holdings.map((h) => (
+                    <tr key={h.playerId} className={cn(h.quantity === 0 && "text-gray-500")}>
+                      <td className="px-3 py-2">
+                        {h.name}
+                        <span className="text-gray-500 ml-2 text-xs">{h.position || ""}</span>
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {h.quantity.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {h.quantity > 0 ? formatPrice(h.costBasis / h.quantity) : "-"}
+                      </td>
+                      <td className="px-3 py-2 text-right">{formatPrice(h.currentPrice)}</td>
+                      <td className="px-3 py-2 text-right">{formatLargeNumber(h.marketValue)}</td>
+                      <td className={cn("px-3 py-2 text-right", pnlColor(h.unrealizedPnl))}>
+                        {formatPnl(h.unrealizedPnl)}
+                      </td>
+                      <td className={cn("px-3 py-2 text-right", pnlColor(h.realizedPnl))}>
+                        {formatPnl(h.realizedPnl)}
+                      </td>
+                      <td className="px-3 py-2 text-right text-yellow-400">{h.tpEarned.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {summary && (
+        <div className="grid md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>By Position</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AllocationList allocations={summary.byPosition} colors={POSITION_COLORS} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>By Team</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AllocationList allocations={summary.byTeam} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Trades</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto border border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800">
+                <tr>
+                  <th className="px-3 py-2 text-left">Date</th>
+                  <th className="px-3 py-2 text-left">Player</th>
+                  <th className="px-3 py-2 text-left">Side</th>
+                  <th className="px-3 py-2 text-right">Quantity</th>
+                  <th className="px-3 py-2 text-right">Price</th>
+                  <th className="px-3 py-2 text-left">Source</th>
+                  <th className="px-3 py-2 text-right"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {[...transactions].reverse().map((t) => (
+                  <tr key={t.id}>
+                    <td className="px-3 py-2">{t.traded_on}</td>
+                    <td className="px-3 py-2">{playerNames.get(t.player_id) || "-"}</td>
+                    <td
+                      className={cn(
+                        "px-3 py-2",
+                        t.side === "buy" ? "text-green-400" : "text-red-400"
+                      )}
+                    >
+                      {t.side}
+                    </td>
+                    <td className="px-3 py-2 text-right">{Number(t.quantity).toLocaleString()}</td>
+                    <td className="px-3 py-2 text-right">{formatPrice(Number(t.price_usd))}</td>
+                    <td className="px-3 py-2 text-gray-400">
+                      {t.wallet_address ? (
+                        <span className="font-mono">{shortAddress(t.wallet_address)}</span>
+                      ) : (
+                        "manual"
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() => handleDelete(t)}
+                      >
+                        Delete
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                {transactions.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-6 text-center text-gray-500">
+                      No trades yet
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
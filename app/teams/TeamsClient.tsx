@@ -1,16 +1,11 @@
 "use client";
 
-import { useState } from "react";
 import { MarketCapByPosition } from "@/components/charts/MarketCapByPosition";
 import { TeamLeaderboardChart } from "@/components/charts/TeamLeaderboardChart";
-
-type TimeFilter = "1m" | "3m" | "all";
-
-const TIME_FILTERS: { value: TimeFilter; label: string }[] = [
-  { value: "1m", label: "Last Month" },
-  { value: "3m", label: "Last 3 Months" },
-  { value: "all", label: "All Time" },
-];
+import { ExportButtons } from "@/components/ui/ExportButtons";
+import { TimeWindowPicker } from "@/components/ui/TimeWindowPicker";
+import { timeWindowParams } from "@/lib/time-window";
+import { TeamData, TimeWindow } from "@/types";
 
 interface PositionMarketCap {
   position: string;
@@ -18,18 +13,10 @@ interface PositionMarketCap {
   playerCount: number;
 }
 
-interface TeamData {
-  team: string;
-  totalTP: number;
-  totalMarketCap: number;
-  totalCirculatingShares: number;
-  playerCount: number;
-  tpPerDollar: number;
-}
-
 interface TeamsClientProps {
   marketCapByPosition: PositionMarketCap[];
-  teamData: Record<TimeFilter, TeamData[]>;
+  teamData: TeamData[];
+  window: TimeWindow;
 }
 
 function formatTP(value: number): string {
@@ -44,11 +31,8 @@ function formatMarketCap(value: number): string {
   return `$${value.toFixed(0)}`;
 }
 
-export function TeamsClient({ marketCapByPosition, teamData }: TeamsClientProps) {
-  const [filter, setFilter] = useState<TimeFilter>("all");
-
-  const currentTeamData = teamData[filter];
-  const teamsByValue = [...currentTeamData].sort((a, b) => b.tpPerDollar - a.tpPerDollar);
+export function TeamsClient({ marketCapByPosition, teamData, window }: TeamsClientProps) {
+  const teamsByValue = [...teamData].sort((a, b) => b.tpPer100 - a.tpPer100);
 
   return (
     <div className="min-h-screen bg-black text-white">
@@ -65,31 +49,23 @@ export function TeamsClient({ marketCapByPosition, teamData }: TeamsClientProps)
         </div>
 
         {/* Time Filters */}
-        <div className="flex gap-2 mb-6">
-          {TIME_FILTERS.map((tf) => (
-            <button
-              key={tf.value}
-              onClick={() => setFilter(tf.value)}
-              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
-                filter === tf.value
-                  ? "bg-blue-600 text-white"
-                  : "bg-gray-800 text-gray-300 hover:bg-gray-700"
-              }`}
-            >
-              {tf.label}
-            </button>
-          ))}
-        </div>
+        <TimeWindowPicker window={window} className="mb-6" />
+
+        <ExportButtons
+          dataset="teams"
+          params={timeWindowParams(window)}
+          className="justify-end mb-4"
+        />
 
         {/* Team Charts */}
         <div className="grid lg:grid-cols-2 gap-8 mb-12">
           <div>
             <h2 className="text-xl font-semibold mb-4">Team TP Leaderboard</h2>
-            <TeamLeaderboardChart data={currentTeamData.slice(0, 15)} metric="totalTP" />
+            <TeamLeaderboardChart data={teamData.slice(0, 15)} metric="totalTP" />
           </div>
           <div>
             <h2 className="text-xl font-semibold mb-4">Team TP Efficiency</h2>
-            <TeamLeaderboardChart data={teamsByValue.slice(0, 15)} metric="tpPerDollar" />
+            <TeamLeaderboardChart data={teamsByValue.slice(0, 15)} metric="tpPer100" />
           </div>
         </div>
 
@@ -111,7 +87,7 @@ export function TeamsClient({ marketCapByPosition, teamData }: TeamsClientProps)
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-800">
-                {currentTeamData.slice(0, 20).map((team, index) => (
+                {teamData.slice(0, 20).map((team, index) => (
                   <tr key={team.team} className="hover:bg-gray-800/50">
                     <td className="px-4 py-2 text-sm text-gray-500">{index + 1}</td>
                     <td className="px-4 py-2 text-sm font-medium">{team.team}</td>
@@ -140,7 +116,7 @@ export function TeamsClient({ marketCapByPosition, teamData }: TeamsClientProps)
                   <th className="px-4 py-2 text-left text-xs font-semibold text-gray-400">Team</th>
                   <th className="px-4 py-2 text-right text-xs font-semibold text-gray-400">Total TP</th>
                   <th className="px-4 py-2 text-right text-xs font-semibold text-gray-400">Market Cap</th>
-                  <th className="px-4 py-2 text-right text-xs font-semibold text-gray-400">Efficiency</th>
+                  <th className="px-4 py-2 text-right text-xs font-semibold text-gray-400">TP per $100</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-800">
@@ -155,7 +131,7 @@ export function TeamsClient({ marketCapByPosition, teamData }: TeamsClientProps)
                       {formatMarketCap(team.totalMarketCap)}
                     </td>
                     <td className="px-4 py-2 text-sm text-right font-mono text-blue-400">
-                      {formatTP(team.tpPerDollar)}
+                      {formatTP(team.tpPer100)}
                     </td>
                   </tr>
                 ))}
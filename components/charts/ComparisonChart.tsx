@@ -21,6 +21,7 @@ interface ComparisonChartProps {
   data: ComparisonDataPoint[];
   playerNames: string[];
   height?: number;
+  formatValue?: (value: number) => string;
 }
 
 const COLORS = ["#3B82F6", "#10B981", "#F59E0B", "#EF4444", "#8B5CF6"];
@@ -29,6 +30,7 @@ export function ComparisonChart({
   data,
   playerNames,
   height = 400,
+  formatValue = formatPrice,
 }: ComparisonChartProps) {
   if (!data || data.length === 0) {
     return (
@@ -59,7 +61,7 @@ export function ComparisonChart({
         <YAxis
           stroke="#9CA3AF"
           fontSize={12}
-          tickFormatter={(value) => formatPrice(value)}
+          tickFormatter={(value) => formatValue(value)}
           domain={["auto", "auto"]}
         />
         <Tooltip
@@ -69,7 +71,7 @@ export function ComparisonChart({
             borderRadius: "8px",
           }}
           labelStyle={{ color: "#9CA3AF" }}
-          formatter={(value: number, name: string) => [formatPrice(value), name]}
+          formatter={(value: number, name: string) => [formatValue(value), name]}
           labelFormatter={(label) =>
             new Date(label).toLocaleDateString("en-US", {
               month: "long",
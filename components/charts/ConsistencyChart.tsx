@@ -1,6 +1,7 @@
 "use client";
 
 import { ResponsiveScatterPlot } from "@nivo/scatterplot";
+import { POSITION_COLORS } from "@/lib/positions";
 
 interface PlayerConsistency {
   id: string;
@@ -16,13 +17,6 @@ interface ConsistencyChartProps {
   height?: number;
 }
 
-const POSITION_COLORS: Record<string, string> = {
-  Forward: "#22C55E",
-  Midfielder: "#3B82F6",
-  Defender: "#F97316",
-  Goalkeeper: "#A855F7",
-};
-
 export function ConsistencyChart({ data, height = 500 }: ConsistencyChartProps) {
   // Group data by position
   const chartData = Object.entries(POSITION_COLORS).map(([position, color]) => ({
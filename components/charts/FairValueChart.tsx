@@ -0,0 +1,92 @@
+"use client";
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { formatPrice } from "@/lib/utils";
+import { FairValuePoint } from "@/types";
+
+interface FairValueChartProps {
+  data: FairValuePoint[];
+  height?: number;
+}
+
+function formatResidual(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(0)}%`;
+}
+
+/** Daily residual against fair value; below the zero line is undervalued */
+export function FairValueChart({ data, height = 250 }: FairValueChartProps) {
+  if (!data || data.length === 0) {
+    return (
+      <div
+        className="flex items-center justify-center text-gray-500"
+        style={{ height }}
+      >
+        No fair value history yet
+      </div>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={data} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+        <XAxis
+          dataKey="date"
+          stroke="#9CA3AF"
+          fontSize={12}
+          tickFormatter={(value) =>
+            new Date(value).toLocaleDateString("en-US", {
+              month: "short",
+              day: "numeric",
+            })
+          }
+        />
+        <YAxis
+          stroke="#9CA3AF"
+          fontSize={12}
+          tickFormatter={formatResidual}
+          domain={["auto", "auto"]}
+        />
+        <ReferenceLine y={0} stroke="#9CA3AF" strokeDasharray="4 4" />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: "#1F2937",
+            border: "1px solid #374151",
+            borderRadius: "8px",
+          }}
+          labelStyle={{ color: "#9CA3AF" }}
+          formatter={(value: number, _name, item) => [
+            `${formatResidual(value)} (${formatPrice(item.payload.price)} vs ${formatPrice(
+              item.payload.fairPrice
+            )} fair)`,
+            "vs Fair Value",
+          ]}
+          labelFormatter={(label) =>
+            new Date(label).toLocaleDateString("en-US", {
+              month: "long",
+              day: "numeric",
+              year: "numeric",
+            })
+          }
+        />
+        <Line
+          type="monotone"
+          dataKey="residual"
+          stroke="#F59E0B"
+          strokeWidth={2}
+          dot={false}
+          activeDot={{ r: 4, fill: "#F59E0B" }}
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import {
+  ComposedChart,
+  Line,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { formatLargeNumber } from "@/lib/utils";
+
+interface LiquidityDataPoint {
+  date: string;
+  liquidity: number | null;
+  volume: number | null;
+}
+
+interface LiquidityChartProps {
+  data: LiquidityDataPoint[];
+  height?: number;
+}
+
+export function LiquidityChart({ data, height = 300 }: LiquidityChartProps) {
+  const points = data.filter((d) => d.liquidity !== null || d.volume !== null);
+
+  if (points.length === 0) {
+    return (
+      <div
+        className="flex items-center justify-center text-gray-500"
+        style={{ height }}
+      >
+        No liquidity data available
+      </div>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <ComposedChart data={points} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+        <XAxis
+          dataKey="date"
+          stroke="#9CA3AF"
+          fontSize={12}
+          tickFormatter={(value) =>
+            new Date(value).toLocaleDateString("en-US", {
+              month: "short",
+              day: "numeric",
+            })
+          }
+        />
+        <YAxis
+          yAxisId="liquidity"
+          stroke="#9CA3AF"
+          fontSize={12}
+          tickFormatter={(value) => formatLargeNumber(value)}
+        />
+        <YAxis
+          yAxisId="volume"
+          orientation="right"
+          stroke="#9CA3AF"
+          fontSize={12}
+          tickFormatter={(value) => formatLargeNumber(value)}
+        />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: "#1F2937",
+            border: "1px solid #374151",
+            borderRadius: "8px",
+          }}
+          labelStyle={{ color: "#9CA3AF" }}
+          formatter={(value: number, name: string) => [formatLargeNumber(value), name]}
+          labelFormatter={(label) =>
+            new Date(label).toLocaleString("en-US", {
+              month: "long",
+              day: "numeric",
+              hour: "numeric",
+              minute: "2-digit",
+            })
+          }
+        />
+        <Legend />
+        <Bar
+          yAxisId="volume"
+          dataKey="volume"
+          name="24h Volume"
+          fill="#6366F1"
+          opacity={0.5}
+        />
+        <Line
+          yAxisId="liquidity"
+          type="monotone"
+          dataKey="liquidity"
+          name="Liquidity"
+          stroke="#10B981"
+          strokeWidth={2}
+          dot={false}
+          connectNulls
+        />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
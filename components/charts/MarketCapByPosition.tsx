@@ -1,6 +1,7 @@
 "use client";
 
 import { ResponsivePie } from "@nivo/pie";
+import { POSITION_COLORS } from "@/lib/positions";
 
 interface PositionMarketCap {
   position: string;
@@ -12,13 +13,6 @@ interface MarketCapByPositionProps {
   data: PositionMarketCap[];
 }
 
-const POSITION_COLORS: Record<string, string> = {
-  Forward: "#22C55E",
-  Midfielder: "#3B82F6",
-  Defender: "#F97316",
-  Goalkeeper: "#A855F7",
-};
-
 function formatMarketCap(value: number): string {
   if (value >= 1000000) return `$${(value / 1000000).toFixed(2)}M`;
   if (value >= 1000) return `$${(value / 1000).toFixed(1)}K`;
@@ -1,6 +1,7 @@
 "use client";
 
 import { ResponsiveLine } from "@nivo/line";
+import { POSITION_COLORS, POSITIONS } from "@/lib/positions";
 
 interface MonthlyTP {
   month: string; // "2024-01" format
@@ -13,13 +14,6 @@ interface MonthlyTPTrendsProps {
   height?: number;
 }
 
-const POSITION_COLORS: Record<string, string> = {
-  Forward: "#22C55E",
-  Midfielder: "#3B82F6",
-  Defender: "#F97316",
-  Goalkeeper: "#A855F7",
-};
-
 function formatTP(value: number): string {
   if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
   if (value >= 1000) return `${(value / 1000).toFixed(0)}K`;
@@ -42,8 +36,7 @@ export function MonthlyTPTrends({ data, height = 400 }: MonthlyTPTrendsProps) {
   }
 
   // Transform data for Nivo line chart - one line per position
-  const positions = ["Forward", "Midfielder", "Defender", "Goalkeeper"];
-  const chartData = positions.map((position) => ({
+  const chartData = POSITIONS.map((position) => ({
     id: position,
     color: POSITION_COLORS[position],
     data: data.map((d) => ({
@@ -1,5 +1,7 @@
 "use client";
 
+import { POSITION_COLORS } from "@/lib/positions";
+
 interface PositionStats {
   position: string;
   avgScore: number;
@@ -7,20 +9,13 @@ interface PositionStats {
   highestScorePlayer: string;
   lowestScore: number;
   lowestScorePlayer: string;
-  tpThreshold: number; // rank 1-5 for field, 1-3 for GK
+  tpThreshold: number; // from the scoring rule in force today
 }
 
 interface PositionTPStatsProps {
   data: PositionStats[];
 }
 
-const POSITION_COLORS: Record<string, string> = {
-  Forward: "#22C55E",
-  Midfielder: "#3B82F6",
-  Defender: "#F97316",
-  Goalkeeper: "#A855F7",
-};
-
 function formatScore(value: number): string {
   return value.toFixed(0);
 }
@@ -10,6 +10,7 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { formatPrice } from "@/lib/utils";
+import { PriceResolution } from "@/types";
 
 interface PriceDataPoint {
   date: string;
@@ -18,10 +19,12 @@ interface PriceDataPoint {
 
 interface PriceChartProps {
   data: PriceDataPoint[];
+  /** Resolution of the points; intraday series show the time in the tooltip */
+  resolution?: PriceResolution;
   height?: number;
 }
 
-export function PriceChart({ data, height = 300 }: PriceChartProps) {
+export function PriceChart({ data, resolution = "daily", height = 300 }: PriceChartProps) {
   if (!data || data.length === 0) {
     return (
       <div
@@ -63,11 +66,18 @@ export function PriceChart({ data, height = 300 }: PriceChartProps) {
           labelStyle={{ color: "#9CA3AF" }}
           formatter={(value: number) => [formatPrice(value), "Price"]}
           labelFormatter={(label) =>
-            new Date(label).toLocaleDateString("en-US", {
-              month: "long",
-              day: "numeric",
-              year: "numeric",
-            })
+            resolution === "daily"
+              ? new Date(label).toLocaleDateString("en-US", {
+                  month: "long",
+                  day: "numeric",
+                  year: "numeric",
+                })
+              : new Date(label).toLocaleString("en-US", {
+                  month: "long",
+                  day: "numeric",
+                  hour: "numeric",
+                  minute: "2-digit",
+                })
           }
         />
         <Line
@@ -2,6 +2,8 @@
 
 import { useMemo } from "react";
 import { ResponsiveScatterPlot } from "@nivo/scatterplot";
+import { fairPrice } from "@/lib/fair-value-model";
+import { FairValueModel } from "@/types";
 
 interface PlayerDataPoint {
   name: string;
@@ -15,55 +17,32 @@ interface TPvsPriceChartProps {
   color: string;
   height?: number;
   highlightedPlayer?: string;
+  /** The position's fair-value fit, drawn as the trend line */
+  model?: FairValueModel | null;
 }
 
-// Calculate power regression: y = a * x^b
-function calculatePowerRegression(points: { x: number; y: number }[]) {
-  const validData = points.filter((d) => d.x > 0 && d.y > 0);
-  if (validData.length < 2) return null;
+// Trend line from the position's fair-value fit (price = a * TP^b), drawn
+// through the TP range of the points
+const TrendLineLayer = ({ xScale, yScale, nodes, color, model }: any) => {
+  if (!model || !nodes || nodes.length < 2) return null;
 
-  const n = validData.length;
-  let sumLogX = 0, sumLogY = 0, sumLogXY = 0, sumLogX2 = 0;
+  const tpValues = nodes.map((n: any) => n.data.y).filter((y: number) => y > 0);
+  if (tpValues.length < 2) return null;
+  const minY = Math.min(...tpValues);
+  const maxY = Math.max(...tpValues);
+  const [minX, maxX] = xScale.domain();
 
-  validData.forEach((d) => {
-    const logX = Math.log(d.x);
-    const logY = Math.log(d.y);
-    sumLogX += logX;
-    sumLogY += logY;
-    sumLogXY += logX * logY;
-    sumLogX2 += logX * logX;
-  });
-
-  const b = (n * sumLogXY - sumLogX * sumLogY) / (n * sumLogX2 - sumLogX * sumLogX);
-  const logA = (sumLogY - b * sumLogX) / n;
-  const a = Math.exp(logA);
-
-  return { a, b };
-}
-
-// Custom layer to render the trend line
-const TrendLineLayer = ({ xScale, yScale, nodes, color }: any) => {
-  if (!nodes || nodes.length < 2) return null;
-
-  const points = nodes.map((n: any) => ({ x: n.data.x, y: n.data.y }));
-
-  const regression = calculatePowerRegression(points);
-  if (!regression) return null;
-
-  const xValues = points.map((p: any) => p.x).filter((x: number) => x > 0);
-  const minX = Math.min(...xValues);
-  const maxX = Math.max(...xValues);
-
-  // Generate trend line path (log-spaced for smooth curve on log scale)
+  // Log-spaced so the curve is smooth on the log price axis
   const pathPoints = [];
   for (let i = 0; i <= 100; i++) {
     const t = i / 100;
-    const x = minX * Math.pow(maxX / minX, t);
-    const y = regression.a * Math.pow(x, regression.b);
+    const y = minY * Math.pow(maxY / minY, t);
+    const x = fairPrice(model, y);
+    if (x < minX || x > maxX) continue;
     const screenX = xScale(x);
     const screenY = yScale(y);
     if (isFinite(screenX) && isFinite(screenY)) {
-      pathPoints.push(`${i === 0 ? 'M' : 'L'} ${screenX} ${screenY}`);
+      pathPoints.push(`${pathPoints.length === 0 ? 'M' : 'L'} ${screenX} ${screenY}`);
     }
   }
 
@@ -115,6 +94,7 @@ export function TPvsPriceChart({
   color,
   height = 400,
   highlightedPlayer,
+  model,
 }: TPvsPriceChartProps) {
   const { chartData, minX, maxX, maxY, xTickValues } = useMemo(() => {
     if (!data || data.length === 0) {
@@ -246,7 +226,7 @@ export function TPvsPriceChart({
           layers={[
             "grid",
             "axes",
-            (props: any) => <TrendLineLayer {...props} color={color} />,
+            (props: any) => <TrendLineLayer {...props} color={color} model={model} />,
             // Custom nodes layer for highlighting
             ({ nodes }: any) => (
               <g>
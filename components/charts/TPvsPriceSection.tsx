@@ -2,6 +2,8 @@
 
 import { useState, useMemo } from "react";
 import { TPvsPriceChart } from "./TPvsPriceChart";
+import { POSITION_COLORS, POSITIONS } from "@/lib/positions";
+import { FairValueModel } from "@/types";
 
 interface PlayerDataPoint {
   name: string;
@@ -11,16 +13,11 @@ interface PlayerDataPoint {
 
 interface TPvsPriceSectionProps {
   dataByPosition: Record<string, PlayerDataPoint[]>;
+  /** Fair-value fits for the same window, one per position */
+  models: FairValueModel[];
 }
 
-const POSITION_COLORS: Record<string, string> = {
-  Forward: "#22C55E",
-  Midfielder: "#3B82F6",
-  Defender: "#F97316",
-  Goalkeeper: "#A855F7",
-};
-
-export function TPvsPriceSection({ dataByPosition }: TPvsPriceSectionProps) {
+export function TPvsPriceSection({ dataByPosition, models }: TPvsPriceSectionProps) {
   const [searchTerm, setSearchTerm] = useState("");
   const [showSuggestions, setShowSuggestions] = useState(false);
 
@@ -58,7 +55,8 @@ export function TPvsPriceSection({ dataByPosition }: TPvsPriceSectionProps) {
     <section className="mb-12">
       <h2 className="text-xl font-semibold mb-4">TP Won vs Price by Position</h2>
       <p className="text-gray-400 text-sm mb-4">
-        Total TP earned compared to current token price. Search for a player to highlight them in gold.
+        Total TP earned compared to current token price; the line is the position&apos;s fair
+        price for each TP total. Search for a player to highlight them in gold.
       </p>
 
       {/* Search Bar */}
@@ -123,7 +121,7 @@ export function TPvsPriceSection({ dataByPosition }: TPvsPriceSectionProps) {
 
       {/* Charts */}
       <div className="flex flex-col gap-8">
-        {(["Forward", "Midfielder", "Defender", "Goalkeeper"] as const).map((position) => (
+        {POSITIONS.map((position) => (
           <TPvsPriceChart
             key={position}
             data={dataByPosition[position] || []}
@@ -131,6 +129,7 @@ export function TPvsPriceSection({ dataByPosition }: TPvsPriceSectionProps) {
             color={POSITION_COLORS[position]}
             height={500}
             highlightedPlayer={searchTerm}
+            model={models.find((m) => m.position === position) ?? null}
           />
         ))}
       </div>
@@ -8,16 +8,16 @@ interface TeamData {
   totalMarketCap: number;
   totalCirculatingShares: number;
   playerCount: number;
-  tpPerDollar: number;
+  tpPer100: number;
 }
 
 interface TeamLeaderboardChartProps {
   data: TeamData[];
-  metric: "totalTP" | "tpPerDollar";
+  metric: "totalTP" | "tpPer100";
 }
 
-function formatValue(value: number, metric: "totalTP" | "tpPerDollar"): string {
-  if (metric === "tpPerDollar") {
+function formatValue(value: number, metric: "totalTP" | "tpPer100"): string {
+  if (metric === "tpPer100") {
     if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
     if (value >= 1000) return `${(value / 1000).toFixed(0)}K`;
     return value.toFixed(0);
@@ -35,7 +35,7 @@ export function TeamLeaderboardChart({ data, metric }: TeamLeaderboardChartProps
     totalTP: d.totalTP,
     totalMarketCap: d.totalMarketCap,
     playerCount: d.playerCount,
-    tpPerDollar: d.tpPerDollar,
+    tpPer100: d.tpPer100,
   })).reverse(); // Reverse for horizontal bar (top at top)
 
   const color = metric === "totalTP" ? "#22C55E" : "#3B82F6";
@@ -87,7 +87,7 @@ export function TeamLeaderboardChart({ data, metric }: TeamLeaderboardChartProps
               Market Cap: <span className="text-white">${((data as any).totalMarketCap / 1000000).toFixed(2)}M</span>
             </p>
             <p className="text-gray-400 text-sm">
-              Efficiency: <span className="text-blue-400">{formatValue((data as any).tpPerDollar, "tpPerDollar")}</span>
+              TP per $100: <span className="text-blue-400">{formatValue((data as any).tpPer100, "tpPer100")}</span>
             </p>
             <p className="text-gray-400 text-sm">
               Players: <span className="text-white">{(data as any).playerCount}</span>
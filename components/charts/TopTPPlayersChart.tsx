@@ -1,6 +1,7 @@
 "use client";
 
 import { ResponsiveBar } from "@nivo/bar";
+import { POSITION_COLORS } from "@/lib/positions";
 
 interface TopTPPlayer {
   name: string;
@@ -13,13 +14,6 @@ interface TopTPPlayersChartProps {
   height?: number;
 }
 
-const POSITION_COLORS: Record<string, string> = {
-  Forward: "#22C55E",
-  Midfielder: "#3B82F6",
-  Defender: "#F97316",
-  Goalkeeper: "#A855F7",
-};
-
 export function TopTPPlayersChart({ data, height = 500 }: TopTPPlayersChartProps) {
   if (!data || data.length === 0) {
     return (
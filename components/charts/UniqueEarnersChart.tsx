@@ -1,9 +1,11 @@
 "use client";
 
 import { ResponsiveLine } from "@nivo/line";
+import { POSITION_COLORS, POSITIONS } from "@/lib/positions";
 
 interface MonthlyUniqueEarners {
   month: string; // "2024-01" format
+  tournaments: number;
   byPosition: Record<string, number>;
 }
 
@@ -12,13 +14,6 @@ interface UniqueEarnersChartProps {
   height?: number;
 }
 
-const POSITION_COLORS: Record<string, string> = {
-  Forward: "#22C55E",
-  Midfielder: "#3B82F6",
-  Defender: "#F97316",
-  Goalkeeper: "#A855F7",
-};
-
 function formatMonth(monthStr: string): string {
   const [year, month] = monthStr.split("-");
   const date = new Date(parseInt(year), parseInt(month) - 1);
@@ -35,13 +30,13 @@ export function UniqueEarnersChart({ data, height = 400 }: UniqueEarnersChartPro
   }
 
   // Transform data for Nivo line chart - one line per position
-  const positions = ["Forward", "Midfielder", "Defender", "Goalkeeper"];
-  const chartData = positions.map((position) => ({
+  const chartData = POSITIONS.map((position) => ({
     id: position,
     color: POSITION_COLORS[position],
     data: data.map((d) => ({
       x: formatMonth(d.month),
       y: d.byPosition[position] || 0,
+      tournaments: d.tournaments,
     })),
   }));
 
@@ -101,6 +96,9 @@ export function UniqueEarnersChart({ data, height = 400 }: UniqueEarnersChartPro
             <p className="text-gray-400 text-sm">
               {point.data.xFormatted}: <span className="text-white">{point.data.y} players</span>
             </p>
+            <p className="text-gray-500 text-xs">
+              {point.data.tournaments} tournament{point.data.tournaments === 1 ? "" : "s"}
+            </p>
           </div>
         )}
         legends={[
@@ -0,0 +1,146 @@
+"use client";
+
+import Link from "next/link";
+import { timeWindowHref } from "@/lib/time-window";
+import { formatPrice } from "@/lib/utils";
+import { PlayerFeatures, SimilarPlayer, TimeWindow } from "@/types";
+
+interface ComparablePlayersTableProps {
+  target: PlayerFeatures | null;
+  players: SimilarPlayer[];
+  /** Players already being compared; each row's link adds its player to them */
+  compareWith: string[];
+  window?: TimeWindow;
+  canCompare?: boolean;
+}
+
+/** A difference, green when it's in the player's favour */
+function Delta({ value, format, higherIsBetter }: {
+  value: number;
+  format: (v: number) => string;
+  higherIsBetter: boolean;
+}) {
+  if (Math.abs(value) < 1e-9) {
+    return <span className="text-gray-500">=</span>;
+  }
+  const better = value > 0 === higherIsBetter;
+  return (
+    <span className={better ? "text-green-400" : "text-red-400"}>
+      {value > 0 ? "+" : ""}
+      {format(value)}
+    </span>
+  );
+}
+
+const percent = (v: number) => `${v.toFixed(0)}%`;
+const points = (v: number) => v.toFixed(1);
+
+export function ComparablePlayersTable({
+  target,
+  players,
+  compareWith,
+  window,
+  canCompare = true,
+}: ComparablePlayersTableProps) {
+  if (!target) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        Not enough games yet to find comparable players
+      </div>
+    );
+  }
+  if (players.length === 0) {
+    return <div className="text-center py-8 text-gray-500">No comparable players found</div>;
+  }
+
+  const compareHref = (id: string) => {
+    const ids = [...compareWith, id].join(",");
+    return window ? timeWindowHref("/compare", window, { ids }) : `/compare?ids=${ids}`;
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <p className="text-gray-400 text-sm mb-4">
+        Nearest to {target.name} by score, consistency, TP rate, rankings, price and TP per
+        $100. Differences are against {target.name}.
+      </p>
+      <table className="w-full">
+        <thead className="border-b border-gray-800">
+          <tr>
+            <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Player</th>
+            <th className="px-4 py-3 text-right text-sm font-medium text-gray-400">Match</th>
+            <th className="px-4 py-3 text-right text-sm font-medium text-gray-400">Price</th>
+            <th className="px-4 py-3 text-right text-sm font-medium text-gray-400">Avg Score</th>
+            <th className="px-4 py-3 text-right text-sm font-medium text-gray-400">TP Rate</th>
+            <th className="px-4 py-3 text-right text-sm font-medium text-gray-400">Avg Rank</th>
+            <th className="px-4 py-3 text-right text-sm font-medium text-gray-400">TP per $100</th>
+            <th className="px-4 py-3"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-800">
+          {players.map((player) => (
+            <tr key={player.id} className="hover:bg-gray-800/50 transition-colors">
+              <td className="px-4 py-3">
+                <Link href={`/players/${player.id}`} className="text-white hover:text-blue-400">
+                  {player.name}
+                </Link>
+                <p className="text-xs text-gray-500">
+                  {player.team} • {player.position}
+                </p>
+              </td>
+              <td className="px-4 py-3 text-right font-mono text-gray-300">
+                {(100 / (1 + player.distance)).toFixed(0)}%
+              </td>
+              <td className="px-4 py-3 text-right font-mono text-sm">
+                <p className="text-gray-300">{formatPrice(player.price)}</p>
+                <Delta
+                  value={(player.price / target.price - 1) * 100}
+                  format={percent}
+                  higherIsBetter={false}
+                />
+              </td>
+              <td className="px-4 py-3 text-right font-mono text-sm">
+                <p className="text-gray-300">{player.avgScore.toFixed(1)}</p>
+                <Delta
+                  value={player.avgScore - target.avgScore}
+                  format={points}
+                  higherIsBetter
+                />
+              </td>
+              <td className="px-4 py-3 text-right font-mono text-sm">
+                <p className="text-gray-300">{player.tpRate.toFixed(0)}%</p>
+                <Delta value={player.tpRate - target.tpRate} format={points} higherIsBetter />
+              </td>
+              <td className="px-4 py-3 text-right font-mono text-sm">
+                <p className="text-gray-300">{player.avgRanking.toFixed(1)}</p>
+                <Delta
+                  value={player.avgRanking - target.avgRanking}
+                  format={points}
+                  higherIsBetter={false}
+                />
+              </td>
+              <td className="px-4 py-3 text-right font-mono text-sm">
+                <p className="text-gray-300">{player.tpPer100.toFixed(1)}</p>
+                <Delta
+                  value={player.tpPer100 - target.tpPer100}
+                  format={points}
+                  higherIsBetter
+                />
+              </td>
+              <td className="px-4 py-3 text-right">
+                {canCompare && (
+                  <Link
+                    href={compareHref(player.id)}
+                    className="text-sm text-blue-400 hover:underline whitespace-nowrap"
+                  >
+                    Compare
+                  </Link>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useState } from "react";
+import { PerformanceDiffRow, PerformanceField, PerformanceImportDiff } from "@/types";
+import { cn } from "@/lib/utils";
+
+interface ImportDiffTableProps {
+  diff: PerformanceImportDiff;
+}
+
+type DiffTab = "update" | "insert" | "players" | "issues";
+
+const FIELDS: { key: PerformanceField; label: string }[] = [
+  { key: "raw_score", label: "Score" },
+  { key: "ranking", label: "Rank" },
+  { key: "reward", label: "Reward" },
+];
+
+function formatValue(field: PerformanceField, value: number | null): string {
+  if (value === null) return "-";
+  if (field === "reward") return `$${value.toLocaleString()}`;
+  return String(value);
+}
+
+function ValueCell({ row, field }: { row: PerformanceDiffRow; field: PerformanceField }) {
+  const changed = row.changedFields.includes(field);
+  const after = formatValue(field, row.after[field]);
+
+  if (!row.before || !changed) {
+    return (
+      <td className={cn("px-3 py-2 text-right", changed ? "text-green-400" : "text-gray-400")}>
+        {after}
+      </td>
+    );
+  }
+
+  return (
+    <td className="px-3 py-2 text-right">
+      <span className="text-red-400 line-through mr-2">
+        {formatValue(field, row.before[field])}
+      </span>
+      <span className="text-green-400">{after}</span>
+    </td>
+  );
+}
+
+export function ImportDiffTable({ diff }: ImportDiffTableProps) {
+  const updates = diff.rows.filter((r) => r.kind === "update");
+  const inserts = diff.rows.filter((r) => r.kind === "insert");
+  const unchangedCount = diff.rows.length - updates.length - inserts.length;
+  const issues = [...diff.unmatchedRows, ...diff.skippedRows];
+
+  const [tab, setTab] = useState<DiffTab>(updates.length > 0 ? "update" : "insert");
+
+  const tabs: { value: DiffTab; label: string; count: number }[] = [
+    { value: "update", label: "Changed", count: updates.length },
+    { value: "insert", label: "New rows", count: inserts.length },
+    {
+      value: "players",
+      label: "Players",
+      count: diff.missingPlayers.length + diff.ambiguousPlayers.length,
+    },
+    { value: "issues", label: "Skipped", count: issues.length },
+  ];
+
+  const rows = tab === "update" ? updates : inserts;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div className="bg-gray-800 rounded-lg p-3">
+          <p className="text-gray-400">New rows</p>
+          <p className="text-xl font-bold text-green-400">{inserts.length}</p>
+        </div>
+        <div className="bg-gray-800 rounded-lg p-3">
+          <p className="text-gray-400">Changed rows</p>
+          <p className="text-xl font-bold text-yellow-400">{updates.length}</p>
+        </div>
+        <div className="bg-gray-800 rounded-lg p-3">
+          <p className="text-gray-400">Unchanged rows</p>
+          <p className="text-xl font-bold text-gray-300">{unchangedCount}</p>
+        </div>
+        <div className="bg-gray-800 rounded-lg p-3">
+          <p className="text-gray-400">New match dates</p>
+          <p className="text-xl font-bold text-blue-400">{diff.newMatchDates.length}</p>
+        </div>
+      </div>
+
+      {diff.newMatchDates.length > 0 && (
+        <p className="text-sm text-gray-400">
+          New match dates: {diff.newMatchDates.join(", ")}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        {tabs.map((t) => (
+          <button
+            key={t.value}
+            onClick={() => setTab(t.value)}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+              tab === t.value
+                ? "bg-blue-600 text-white"
+                : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+            }`}
+          >
+            {t.label} ({t.count})
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto max-h-96 border border-gray-700 rounded-lg">
+        {(tab === "update" || tab === "insert") && (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-800 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left">Player</th>
+                <th className="px-3 py-2 text-left">Date</th>
+                {FIELDS.map((f) => (
+                  <th key={f.key} className="px-3 py-2 text-right">{f.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {rows.map((row) => (
+                <tr key={`${row.display_name}|${row.match_date}`}>
+                  <td className="px-3 py-2">
+                    {row.display_name}
+                    {row.match ? (
+                      <span className="ml-2 text-xs text-gray-500">
+                        {row.match.display_name !== row.display_name &&
+                          `→ ${row.match.display_name} `}
+                        ({row.match.method})
+                      </span>
+                    ) : (
+                      <span className="ml-2 text-xs text-blue-400">new player</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">{row.match_date}</td>
+                  {FIELDS.map((f) => (
+                    <ValueCell key={f.key} row={row} field={f.key} />
+                  ))}
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-3 py-6 text-center text-gray-500">
+                    No rows
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+
+        {tab === "players" && (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-800 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left">Player</th>
+                <th className="px-3 py-2 text-left">Team</th>
+                <th className="px-3 py-2 text-left">Position</th>
+                <th className="px-3 py-2 text-left">Action</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {diff.missingPlayers.map((name) => {
+                const created = diff.newPlayers.find((p) => p.display_name === name);
+                return (
+                  <tr key={name}>
+                    <td className="px-3 py-2">{name}</td>
+                    <td className="px-3 py-2 text-gray-400">{created?.team_name || "-"}</td>
+                    <td className="px-3 py-2 text-gray-400">{created?.position || "-"}</td>
+                    <td className={cn("px-3 py-2", created ? "text-blue-400" : "text-red-400")}>
+                      {created ? "Will be created" : "Not in database, queued for review"}
+                    </td>
+                  </tr>
+                );
+              })}
+              {diff.ambiguousPlayers.map((player) => (
+                <tr key={player.display_name}>
+                  <td className="px-3 py-2">{player.display_name}</td>
+                  <td className="px-3 py-2 text-gray-400">{player.team_name || "-"}</td>
+                  <td className="px-3 py-2 text-gray-400">{player.position || "-"}</td>
+                  <td className="px-3 py-2 text-yellow-400">
+                    Ambiguous ({player.candidates.map((c) => c.display_name).join(", ")}),
+                    queued for review
+                  </td>
+                </tr>
+              ))}
+              {diff.missingPlayers.length + diff.ambiguousPlayers.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-3 py-6 text-center text-gray-500">
+                    Every player in the file already exists
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+
+        {tab === "issues" && (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-800 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left">Player</th>
+                <th className="px-3 py-2 text-left">Date</th>
+                <th className="px-3 py-2 text-left">Reason</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {issues.map((row, i) => (
+                <tr key={i}>
+                  <td className="px-3 py-2">{row.display_name}</td>
+                  <td className="px-3 py-2">{row.match_date ?? "-"}</td>
+                  <td className="px-3 py-2 text-gray-400">{row.reason}</td>
+                </tr>
+              ))}
+              {issues.length === 0 && (
+                <tr>
+                  <td colSpan={3} className="px-3 py-6 text-center text-gray-500">
+                    Nothing skipped
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
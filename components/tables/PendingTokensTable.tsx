@@ -0,0 +1,240 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Select } from "@/components/ui/Select";
+import { adminFetch } from "@/lib/admin-fetch";
+import { POSITIONS } from "@/lib/positions";
+import { formatPrice, normalizeName } from "@/lib/utils";
+import { PendingToken } from "@/types";
+
+interface PlayerOption {
+  id: string;
+  display_name: string;
+  team_name: string | null;
+}
+
+const POSITION_OPTIONS = POSITIONS.map((p) => ({
+  value: p,
+  label: p,
+}));
+
+type PendingAction =
+  | { action: "link"; playerId: string }
+  | {
+      action: "create";
+      player: { display_name: string; team_name: string; position: string };
+    }
+  | { action: "ignore" };
+
+function PendingTokenRow({
+  token,
+  players,
+  onResolve,
+}: {
+  token: PendingToken;
+  players: PlayerOption[];
+  onResolve: (id: string, action: PendingAction) => Promise<void>;
+}) {
+  const [search, setSearch] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [displayName, setDisplayName] = useState(token.token_name);
+  const [teamName, setTeamName] = useState("");
+  const [position, setPosition] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const query = normalizeName(search);
+  const matches = query
+    ? players.filter((p) => normalizeName(p.display_name).includes(query)).slice(0, 8)
+    : [];
+
+  const resolve = async (action: PendingAction) => {
+    setBusy(true);
+    await onResolve(token.id, action);
+    setBusy(false);
+  };
+
+  return (
+    <div className="border border-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-white font-medium">
+            {token.token_name}
+            <span className="text-gray-500 font-normal"> · {token.token_symbol}</span>
+          </p>
+          <p className="text-xs text-gray-500">
+            {formatPrice(token.last_price_usd)} · first seen{" "}
+            {new Date(token.first_seen_at).toLocaleDateString()}
+            <span className="font-mono"> · {token.token_address}</span>
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={busy}
+            onClick={() => setCreating(!creating)}
+          >
+            {creating ? "Cancel" : "New Player"}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={busy}
+            onClick={() => resolve({ action: "ignore" })}
+          >
+            Ignore
+          </Button>
+        </div>
+      </div>
+
+      {creating ? (
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder="Display name"
+            className="px-3 py-1.5 text-sm bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={teamName}
+            onChange={(e) => setTeamName(e.target.value)}
+            placeholder="Team"
+            className="px-3 py-1.5 text-sm bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <Select
+            value={position}
+            onChange={setPosition}
+            options={POSITION_OPTIONS}
+            placeholder="Position"
+            className="py-1.5 text-sm"
+          />
+          <Button
+            size="sm"
+            disabled={busy || !displayName.trim()}
+            onClick={() =>
+              resolve({
+                action: "create",
+                player: { display_name: displayName, team_name: teamName, position },
+              })
+            }
+          >
+            Create
+          </Button>
+        </div>
+      ) : (
+        <>
+          {token.candidates.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {token.candidates.map((candidate) => (
+                <Button
+                  key={candidate.player_id}
+                  variant="secondary"
+                  size="sm"
+                  disabled={busy}
+                  onClick={() => resolve({ action: "link", playerId: candidate.player_id })}
+                  title={candidate.reason}
+                >
+                  {candidate.display_name} ({Math.round(candidate.score * 100)}%)
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search players without a token..."
+              className="w-full px-3 py-1.5 text-sm bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {matches.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {matches.map((player) => (
+                  <Button
+                    key={player.id}
+                    variant="ghost"
+                    size="sm"
+                    disabled={busy}
+                    onClick={() => resolve({ action: "link", playerId: player.id })}
+                  >
+                    {player.display_name}
+                    {player.team_name && (
+                      <span className="text-gray-500"> · {player.team_name}</span>
+                    )}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Tokens the price cron found on Tenero but couldn't link to a player.
+ */
+export function PendingTokensTable() {
+  const [tokens, setTokens] = useState<PendingToken[]>([]);
+  const [players, setPlayers] = useState<PlayerOption[]>([]);
+  const [error, setError] = useState("");
+
+  const loadTokens = useCallback(async () => {
+    const response = await adminFetch("/api/admin/pending-tokens");
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || "Failed to load new tokens");
+      return;
+    }
+    setTokens(data.tokens);
+    setPlayers(data.players);
+  }, []);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const handleResolve = async (id: string, action: PendingAction) => {
+    setError("");
+    const response = await adminFetch("/api/admin/pending-tokens", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id, ...action }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      setError(data.error || "Failed to update token");
+      return;
+    }
+
+    setTokens((current) => current.filter((t) => t.id !== id));
+    if (action.action === "link") {
+      setPlayers((current) => current.filter((p) => p.id !== action.playerId));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-red-500">{error}</p>}
+
+      {tokens.map((token) => (
+        <PendingTokenRow
+          key={token.id}
+          token={token}
+          players={players}
+          onResolve={handleResolve}
+        />
+      ))}
+
+      {tokens.length === 0 && (
+        <p className="text-gray-500 text-center py-6">No unlinked tokens</p>
+      )}
+    </div>
+  );
+}
@@ -8,7 +8,16 @@ interface PlayerTableProps {
   players: PlayerWithLatestPrice[];
 }
 
-type SortKey = "display_name" | "team_name" | "position" | "latest_price" | "latest_marketcap" | "price_change_24h";
+type SortKey =
+  | "display_name"
+  | "team_name"
+  | "position"
+  | "latest_price"
+  | "latest_marketcap"
+  | "latest_liquidity"
+  | "latest_volume_24h"
+  | "price_change_24h"
+  | "fair_value_residual";
 type SortOrder = "asc" | "desc";
 
 export function PlayerTable({ players }: PlayerTableProps) {
@@ -64,7 +73,10 @@ export function PlayerTable({ players }: PlayerTableProps) {
             <SortHeader label="Position" sortKeyName="position" />
             <SortHeader label="Price" sortKeyName="latest_price" />
             <SortHeader label="Market Cap" sortKeyName="latest_marketcap" />
+            <SortHeader label="Liquidity" sortKeyName="latest_liquidity" />
+            <SortHeader label="24h Volume" sortKeyName="latest_volume_24h" />
             <SortHeader label="24h Change" sortKeyName="price_change_24h" />
+            <SortHeader label="vs Fair Value" sortKeyName="fair_value_residual" />
           </tr>
         </thead>
         <tbody className="divide-y divide-gray-800">
@@ -85,6 +97,12 @@ export function PlayerTable({ players }: PlayerTableProps) {
               <td className="px-4 py-3 font-mono text-gray-300">
                 {formatLargeNumber(player.latest_marketcap)}
               </td>
+              <td className="px-4 py-3 font-mono text-gray-300">
+                {formatLargeNumber(player.latest_liquidity)}
+              </td>
+              <td className="px-4 py-3 font-mono text-gray-300">
+                {formatLargeNumber(player.latest_volume_24h)}
+              </td>
               <td className="px-4 py-3">
                 <span
                   className={
@@ -98,6 +116,19 @@ export function PlayerTable({ players }: PlayerTableProps) {
                   {formatPercentChange(player.price_change_24h)}
                 </span>
               </td>
+              <td className="px-4 py-3">
+                <span
+                  className={
+                    player.fair_value_residual === null
+                      ? "text-gray-500"
+                      : player.fair_value_residual <= 0
+                      ? "text-green-500"
+                      : "text-red-500"
+                  }
+                >
+                  {formatPercentChange(player.fair_value_residual)}
+                </span>
+              </td>
             </tr>
           ))}
         </tbody>
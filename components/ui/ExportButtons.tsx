@@ -0,0 +1,37 @@
+import { cn } from "@/lib/utils";
+import { ExportDataset, ExportFormat } from "@/types";
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "XLSX" },
+  { value: "json", label: "JSON" },
+];
+
+interface ExportButtonsProps {
+  dataset: ExportDataset;
+  /** Window params, ?player= and so on, passed through to /api/export */
+  params?: Record<string, string>;
+  className?: string;
+}
+
+/** Download links for a dataset in each export format */
+export function ExportButtons({ dataset, params = {}, className }: ExportButtonsProps) {
+  return (
+    <div className={cn("flex items-center gap-2 text-sm", className)}>
+      <span className="text-gray-500">Download</span>
+      {FORMATS.map((format) => {
+        const qs = new URLSearchParams({ ...params, format: format.value });
+        return (
+          <a
+            key={format.value}
+            href={`/api/export/${dataset}?${qs}`}
+            download
+            className="px-2 py-1 rounded bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+          >
+            {format.label}
+          </a>
+        );
+      })}
+    </div>
+  );
+}
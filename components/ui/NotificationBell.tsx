@@ -0,0 +1,108 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { getSupabase, supabase } from "@/lib/supabase";
+import { getNotifications, markNotificationsRead } from "@/lib/notifications";
+import { cn } from "@/lib/utils";
+import { UserNotification } from "@/types";
+
+const POLL_MS = 60 * 1000;
+
+/** Nav bell for the signed-in user's alerts; renders nothing when signed out */
+export function NotificationBell() {
+  const [signedIn, setSignedIn] = useState(false);
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setNotifications(await getNotifications(getSupabase()));
+    } catch (err) {
+      console.error("Failed to load notifications:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (!user) return;
+      setSignedIn(true);
+      load();
+      timer = setInterval(load, POLL_MS);
+    });
+
+    return () => clearInterval(timer);
+  }, [load]);
+
+  if (!signedIn) return null;
+
+  const unread = notifications.filter((n) => !n.read_at);
+
+  const handleMarkRead = async () => {
+    try {
+      await markNotificationsRead(getSupabase(), unread.map((n) => n.id));
+      await load();
+    } catch (err) {
+      console.error("Failed to mark notifications read:", err);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative text-gray-300 hover:text-white transition-colors"
+        aria-label="Notifications"
+      >
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            d="M15 17h5l-1.4-1.4A2 2 0 0118 14.2V11a6 6 0 10-12 0v3.2c0 .5-.2 1-.6 1.4L4 17h5m6 0a3 3 0 11-6 0"
+          />
+        </svg>
+        {unread.length > 0 && (
+          <span className="absolute -top-2 -right-2 min-w-[1rem] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+            {unread.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-3 w-80 bg-gray-900 border border-gray-700 rounded-lg shadow-lg">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-800">
+            <a href="/alerts" className="text-sm font-semibold text-white hover:underline">
+              Alerts
+            </a>
+            {unread.length > 0 && (
+              <button onClick={handleMarkRead} className="text-xs text-blue-400 hover:underline">
+                Mark all read
+              </button>
+            )}
+          </div>
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-800">
+            {notifications.map((n) => (
+              <li key={n.id} className={cn("px-4 py-3", n.read_at && "opacity-60")}>
+                <p className="text-sm text-white">{n.title}</p>
+                <p className="text-xs text-gray-400 mt-1">{n.body}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {new Date(n.created_at).toLocaleString()}
+                </p>
+              </li>
+            ))}
+            {notifications.length === 0 && (
+              <li className="px-4 py-6 text-center text-sm text-gray-500">No notifications yet</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Select } from "@/components/ui/Select";
+import { TIME_FILTERS } from "@/lib/data";
+import {
+  describeTimeWindow,
+  sameTimeWindow,
+  TIME_WINDOW_PARAM_KEYS,
+  timeWindowParams,
+  timeWindowPresets,
+} from "@/lib/time-window";
+import { cn } from "@/lib/utils";
+import { TimeWindow } from "@/types";
+
+interface TimeWindowPickerProps {
+  window: TimeWindow;
+  className?: string;
+}
+
+function windowKey(window: TimeWindow): string {
+  return new URLSearchParams(timeWindowParams(window)).toString();
+}
+
+/**
+ * 1m/3m/all buttons plus tournament, month, season, listing and custom date
+ * windows. Choosing one rewrites the window params in the URL and keeps the
+ * rest (selected players and so on).
+ */
+export function TimeWindowPicker({ window, className }: TimeWindowPickerProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [from, setFrom] = useState(window.kind === "range" ? window.from ?? "" : "");
+  const [to, setTo] = useState(window.kind === "range" ? window.to ?? "" : "");
+
+  const presets = timeWindowPresets();
+  const selectedPreset = presets.find((p) => sameTimeWindow(p, window));
+
+  const navigate = (next: TimeWindow) => {
+    const params = new URLSearchParams(searchParams.toString());
+    TIME_WINDOW_PARAM_KEYS.forEach((key) => params.delete(key));
+    for (const [key, value] of Object.entries(timeWindowParams(next))) {
+      params.set(key, value);
+    }
+    const qs = params.toString();
+    router.push(qs ? `${pathname}?${qs}` : pathname);
+  };
+
+  const applyRange = () => {
+    if (!from && !to) return;
+    navigate({ kind: "range", from: from || null, to: to || null });
+  };
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      {TIME_FILTERS.map((tf) => {
+        const active = window.kind === "preset" && window.filter === tf.value;
+        return (
+          <button
+            key={tf.value}
+            onClick={() => navigate({ kind: "preset", filter: tf.value })}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+              active ? "bg-blue-600 text-white" : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+            }`}
+          >
+            {tf.label}
+          </button>
+        );
+      })}
+
+      <Select
+        value={selectedPreset ? windowKey(selectedPreset) : ""}
+        onChange={(key) => {
+          const next = presets.find((p) => windowKey(p) === key);
+          if (next) navigate(next);
+        }}
+        options={presets.map((p) => ({ value: windowKey(p), label: describeTimeWindow(p) }))}
+        placeholder="More ranges..."
+        className="py-1.5 text-sm"
+      />
+
+      <div className="flex items-center gap-2">
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className="bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-sm text-white"
+          aria-label="From date"
+        />
+        <span className="text-gray-500 text-sm">to</span>
+        <input
+          type="date"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className="bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-sm text-white"
+          aria-label="To date"
+        />
+        <button
+          onClick={applyRange}
+          disabled={!from && !to}
+          className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+            window.kind === "range"
+              ? "bg-blue-600 text-white"
+              : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+          } disabled:opacity-50`}
+        >
+          Apply
+        </button>
+      </div>
+
+      {window.kind !== "preset" && (
+        <span className="text-sm text-gray-400">Showing: {describeTimeWindow(window)}</span>
+      )}
+    </div>
+  );
+}
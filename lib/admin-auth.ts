@@ -0,0 +1,11 @@
+import type { User } from "@supabase/supabase-js";
+import { getAuthenticatedUser } from "@/lib/auth";
+
+/**
+ * Resolve the signed-in admin behind an API request. Accounts are created
+ * in Supabase (the app has no sign-up), so every signed-in user is an
+ * admin. Routes for a user's own data use getAuthenticatedUser instead.
+ */
+export async function getAdminUser(request: Request): Promise<User | null> {
+  return getAuthenticatedUser(request);
+}
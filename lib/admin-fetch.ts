@@ -0,0 +1,17 @@
+import { supabase } from "@/lib/supabase";
+
+/**
+ * fetch() wrapper for admin API routes that attaches the current session token
+ */
+export async function adminFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const headers = new Headers(init.headers);
+  if (session) {
+    headers.set("Authorization", `Bearer ${session.access_token}`);
+  }
+
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,396 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchAllPages, getLatestPrices, getPlayers, getPlayerStats } from "@/lib/data";
+import { HISTORICAL_PLAYER_STATUSES } from "@/lib/player-status";
+import { RAW_PRICE_RETENTION_DAYS } from "@/lib/price-history";
+import { formatPrice } from "@/lib/utils";
+import { AlertKind, AlertRule, NotificationChannelName, WatchlistItem } from "@/types";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** top_rank rules rank players on the 1m TP leaderboard */
+const TOP_RANK_WINDOW = "1m";
+
+export const ALERT_KINDS: { value: AlertKind; label: string }[] = [
+  { value: "price_cross", label: "Price crosses level" },
+  { value: "price_move", label: "Price moves by %" },
+  { value: "holder_change", label: "Holder count changes by" },
+  { value: "tp_earned", label: "Earns TP" },
+  { value: "top_rank", label: "Enters top N (1m TP)" },
+];
+
+export const NOTIFICATION_CHANNELS: { value: NotificationChannelName; label: string }[] = [
+  { value: "in_app", label: "In-app" },
+  { value: "webhook", label: "Webhook" },
+  { value: "email", label: "Email" },
+];
+
+export async function getWatchlist(supabase: SupabaseClient): Promise<WatchlistItem[]> {
+  const { data, error } = await supabase
+    .from("watchlist_items")
+    .select("player_id, created_at")
+    .order("created_at");
+
+  if (error) {
+    throw new Error(`Failed to fetch watchlist: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function addToWatchlist(supabase: SupabaseClient, playerId: string): Promise<void> {
+  const { error } = await supabase
+    .from("watchlist_items")
+    .upsert({ player_id: playerId }, { onConflict: "user_id,player_id", ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to add to watchlist: ${error.message}`);
+  }
+}
+
+export async function removeFromWatchlist(
+  supabase: SupabaseClient,
+  playerId: string
+): Promise<void> {
+  const { error } = await supabase.from("watchlist_items").delete().eq("player_id", playerId);
+
+  if (error) {
+    throw new Error(`Failed to remove from watchlist: ${error.message}`);
+  }
+}
+
+export async function getAlertRules(supabase: SupabaseClient): Promise<AlertRule[]> {
+  const { data, error } = await supabase
+    .from("alert_rules")
+    .select(
+      "id, player_id, kind, threshold, window_minutes, channels, active, state, last_fired_at, created_at"
+    )
+    .order("created_at");
+
+  if (error) {
+    throw new Error(`Failed to fetch alert rules: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function addAlertRule(
+  supabase: SupabaseClient,
+  rule: Pick<AlertRule, "player_id" | "kind" | "threshold" | "window_minutes" | "channels">
+): Promise<void> {
+  const { error } = await supabase.from("alert_rules").insert(rule);
+
+  if (error) {
+    throw new Error(`Failed to add alert: ${error.message}`);
+  }
+}
+
+export async function setAlertRuleActive(
+  supabase: SupabaseClient,
+  id: string,
+  active: boolean
+): Promise<void> {
+  const { error } = await supabase.from("alert_rules").update({ active }).eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to update alert: ${error.message}`);
+  }
+}
+
+export async function deleteAlertRule(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from("alert_rules").delete().eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to delete alert: ${error.message}`);
+  }
+}
+
+function formatWindow(minutes: number | null): string {
+  if (!minutes) return "";
+  if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+export function describeAlertRule(
+  rule: Pick<AlertRule, "kind" | "threshold" | "window_minutes">
+): string {
+  const threshold = Number(rule.threshold);
+  switch (rule.kind) {
+    case "price_cross":
+      return `Price crosses ${formatPrice(threshold)}`;
+    case "price_move":
+      return `Price moves ${threshold}% within ${formatWindow(rule.window_minutes)}`;
+    case "holder_change":
+      return `Holders change by ${threshold} within ${formatWindow(rule.window_minutes)}`;
+    case "tp_earned":
+      return "Earns TP";
+    case "top_rank":
+      return `Enters the top ${threshold} on the 1m TP leaderboard`;
+  }
+}
+
+interface Tick {
+  player_id: string;
+  price_usd: number;
+  holder_count: number | null;
+  fetched_at: string;
+}
+
+interface Fired {
+  title: string;
+  body: string;
+}
+
+/**
+ * Check every active rule against the latest data and queue a
+ * notification for each one that fires, with an outbox row for each of
+ * its channels other than in_app. Runs with the service role after each
+ * price fetch; deliverPendingNotifications (lib/notification-channels.ts)
+ * sends them.
+ *
+ * Crossings, games and rank changes are measured against the state the
+ * previous evaluation stored, so they fire once. A new price_cross or
+ * top_rank rule only records where things stand on its first evaluation;
+ * a new tp_earned rule counts games from the day it was made. Windowed
+ * rules wait out their window before firing again.
+ */
+export async function evaluateAlerts(
+  supabase: SupabaseClient,
+  now = new Date()
+): Promise<{ evaluated: number; fired: number }> {
+  const rules = await fetchAllPages<AlertRule & { user_id: string }>("alert rules", (from, to) =>
+    supabase.from("alert_rules").select("*").eq("active", true).order("id").range(from, to)
+  );
+  if (rules.length === 0) return { evaluated: 0, fired: 0 };
+
+  const playerIds = [...new Set(rules.map((r) => r.player_id))];
+  const players = new Map(
+    (await getPlayers(supabase, HISTORICAL_PLAYER_STATUSES)).map((p) => [p.id, p])
+  );
+  const latestPrices = await getLatestPrices(supabase, playerIds);
+
+  // Raw ticks for the windowed rules, which can't look back past retention
+  const windowed = rules.filter((r) => r.kind === "price_move" || r.kind === "holder_change");
+  const longestWindow = Math.min(
+    Math.max(0, ...windowed.map((r) => r.window_minutes || 0)) * MINUTE_MS,
+    RAW_PRICE_RETENTION_DAYS * DAY_MS
+  );
+  const ticks = new Map<string, Tick[]>();
+  if (windowed.length > 0) {
+    const rows = await fetchAllPages<Tick>("prices", (from, to) =>
+      supabase
+        .from("prices")
+        .select("player_id, price_usd, holder_count, fetched_at")
+        .in("player_id", [...new Set(windowed.map((r) => r.player_id))])
+        .gte("fetched_at", new Date(now.getTime() - longestWindow).toISOString())
+        .order("fetched_at")
+        .order("id")
+        .range(from, to)
+    );
+    for (const tick of rows) {
+      if (!ticks.has(tick.player_id)) ticks.set(tick.player_id, []);
+      ticks.get(tick.player_id)!.push(tick);
+    }
+  }
+
+  // Rewarded games since the oldest date a tp_earned rule has seen
+  const tpRules = rules.filter((r) => r.kind === "tp_earned");
+  const tpSince = tpRules
+    .map((r) => r.state?.matchDate ?? r.created_at.slice(0, 10))
+    .sort()[0];
+  const games = new Map<string, { match_date: string; reward: number }[]>();
+  if (tpRules.length > 0) {
+    const rows = await fetchAllPages<{ player_id: string; match_date: string; reward: number }>(
+      "performance",
+      (from, to) =>
+        supabase
+          .from("performance")
+          .select("player_id, match_date, reward")
+          .in("player_id", [...new Set(tpRules.map((r) => r.player_id))])
+          .gt("reward", 0)
+          .gte("match_date", tpSince)
+          .order("match_date")
+          .order("id")
+          .range(from, to)
+    );
+    for (const game of rows) {
+      if (!games.has(game.player_id)) games.set(game.player_id, []);
+      games.get(game.player_id)!.push(game);
+    }
+  }
+
+  // Current 1m TP leaderboard rank of each listed player with TP
+  const ranks = new Map<string, number>();
+  if (rules.some((r) => r.kind === "top_rank")) {
+    const listed = new Set((await getPlayers(supabase)).map((p) => p.id));
+    const stats = await getPlayerStats(supabase, TOP_RANK_WINDOW);
+    [...stats.entries()]
+      .filter(([id, s]) => listed.has(id) && s.totalTP > 0)
+      .sort((a, b) => b[1].totalTP - a[1].totalTP)
+      .forEach(([id], i) => ranks.set(id, i + 1));
+  }
+
+  let fired = 0;
+  for (const rule of rules) {
+    const player = players.get(rule.player_id);
+    const name = player?.display_name ?? "Unknown player";
+    const threshold = Number(rule.threshold);
+    let state = rule.state;
+    let alert: Fired | null = null;
+
+    const windowStart = new Date(now.getTime() - (rule.window_minutes || 0) * MINUTE_MS);
+    const cooledDown = !rule.last_fired_at || new Date(rule.last_fired_at) <= windowStart;
+
+    if (rule.kind === "price_cross") {
+      const price = latestPrices.get(rule.player_id)?.price;
+      if (price === undefined) continue;
+      const previous = rule.state?.price;
+      const crossedUp = previous !== undefined && previous < threshold && price >= threshold;
+      const crossedDown = previous !== undefined && previous > threshold && price <= threshold;
+      if (previous !== undefined && (crossedUp || crossedDown)) {
+        alert = {
+          title: `${name} crossed ${crossedUp ? "above" : "below"} ${formatPrice(threshold)}`,
+          body: `${name} moved from ${formatPrice(previous)} to ${formatPrice(price)}.`,
+        };
+      }
+      state = { price };
+    } else if (rule.kind === "price_move" || rule.kind === "holder_change") {
+      const series = (ticks.get(rule.player_id) || []).filter(
+        (t) => new Date(t.fetched_at) >= windowStart
+      );
+      if (series.length < 2 || !cooledDown) continue;
+      const first = series[0];
+      const last = series[series.length - 1];
+      const window = formatWindow(rule.window_minutes);
+
+      if (rule.kind === "price_move" && first.price_usd > 0) {
+        const change = ((last.price_usd - first.price_usd) / first.price_usd) * 100;
+        if (Math.abs(change) >= threshold) {
+          alert = {
+            title: `${name} ${change > 0 ? "up" : "down"} ${Math.abs(change).toFixed(1)}% in ${window}`,
+            body: `${name} moved from ${formatPrice(first.price_usd)} to ${formatPrice(last.price_usd)}.`,
+          };
+        }
+      } else if (
+        rule.kind === "holder_change" &&
+        first.holder_count !== null &&
+        last.holder_count !== null
+      ) {
+        const change = last.holder_count - first.holder_count;
+        if (Math.abs(change) >= threshold) {
+          alert = {
+            title: `${name} ${change > 0 ? "gained" : "lost"} ${Math.abs(change)} holders in ${window}`,
+            body: `${name} went from ${first.holder_count} to ${last.holder_count} holders.`,
+          };
+        }
+      }
+    } else if (rule.kind === "tp_earned") {
+      const seen = rule.state?.matchDate;
+      const after = seen ?? rule.created_at.slice(0, 10);
+      const newGames = (games.get(rule.player_id) || []).filter((g) =>
+        seen ? g.match_date > after : g.match_date >= after
+      );
+      if (newGames.length > 0) {
+        const total = newGames.reduce((sum, g) => sum + Number(g.reward), 0);
+        const latest = newGames[newGames.length - 1].match_date;
+        alert = {
+          title: `${name} earned ${total.toLocaleString()} TP`,
+          body: `${name} earned TP in ${newGames.length} game${
+            newGames.length === 1 ? "" : "s"
+          }, most recently on ${latest}.`,
+        };
+        state = { matchDate: latest };
+      } else if (!seen) {
+        state = { matchDate: after };
+      }
+    } else if (rule.kind === "top_rank") {
+      const rank = ranks.get(rule.player_id) ?? null;
+      const previous = rule.state ? (rule.state.rank ?? null) : undefined;
+      if (
+        previous !== undefined &&
+        rank !== null &&
+        rank <= threshold &&
+        (previous === null || previous > threshold)
+      ) {
+        alert = {
+          title: `${name} entered the top ${threshold}`,
+          body: `${name} is now #${rank} on the 1m TP leaderboard.`,
+        };
+      }
+      state = { rank };
+    }
+
+    if (alert) {
+      try {
+        await queueNotification(supabase, rule, alert, now);
+      } catch (err) {
+        // Keep the rule's old state so it fires again on the next run
+        console.error(
+          `Failed to notify for alert rule ${rule.id}: ${err instanceof Error ? err.message : err}`
+        );
+        continue;
+      }
+      fired++;
+    }
+
+    if (alert || JSON.stringify(state) !== JSON.stringify(rule.state)) {
+      const { error } = await supabase
+        .from("alert_rules")
+        .update({
+          state,
+          ...(alert ? { last_fired_at: now.toISOString() } : {}),
+        })
+        .eq("id", rule.id);
+      if (error) {
+        console.error(`Failed to update alert rule ${rule.id}: ${error.message}`);
+      }
+    }
+  }
+
+  return { evaluated: rules.length, fired };
+}
+
+async function queueNotification(
+  supabase: SupabaseClient,
+  rule: AlertRule & { user_id: string },
+  alert: Fired,
+  now: Date
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .insert({
+      user_id: rule.user_id,
+      rule_id: rule.id,
+      player_id: rule.player_id,
+      title: alert.title,
+      body: alert.body,
+      created_at: now.toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to queue notification: ${error?.message}`);
+  }
+
+  const deliveries = rule.channels
+    .filter((channel) => channel !== "in_app")
+    .map((channel) => ({ notification_id: data.id, channel }));
+  if (deliveries.length === 0) return;
+
+  const { error: deliveryError } = await supabase
+    .from("notification_deliveries")
+    .insert(deliveries);
+  if (deliveryError) {
+    // The rule fires again next run, so don't leave this copy in the bell
+    const { error: cleanupError } = await supabase
+      .from("notifications")
+      .delete()
+      .eq("id", data.id);
+    if (cleanupError) {
+      console.error(`Failed to remove notification ${data.id}: ${cleanupError.message}`);
+    }
+    throw new Error(`Failed to queue deliveries: ${deliveryError.message}`);
+  }
+}
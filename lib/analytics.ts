@@ -0,0 +1,52 @@
+import { POSITIONS } from "@/lib/positions";
+import {
+  Player,
+  PlayerConsistency,
+  PlayerWindowStats,
+  PositionScoreStats,
+  PositionStats,
+} from "@/types";
+
+/** A row per position with a TP threshold, zeroed where nobody scored */
+export function getPositionStats(
+  scoreStats: PositionScoreStats[],
+  thresholds: Record<string, number | null>
+): PositionStats[] {
+  return POSITIONS.flatMap((position) => {
+    const tpThreshold = thresholds[position];
+    if (tpThreshold === null) return [];
+    const row = scoreStats.find((s) => s.position === position);
+
+    return {
+      position,
+      avgScore: row?.avgScore || 0,
+      highestScore: row?.highestScore || 0,
+      highestScorePlayer: row?.highestScorePlayer || "-",
+      lowestScore: row?.lowestScore || 0,
+      lowestScorePlayer: row?.lowestScorePlayer || "-",
+      tpThreshold,
+    };
+  });
+}
+
+export function getConsistencyData(
+  players: Player[],
+  stats: Map<string, PlayerWindowStats>
+): PlayerConsistency[] {
+  return players
+    .map((player) => {
+      const s = stats.get(player.id);
+      // Need at least 3 games for meaningful std dev
+      if (!s || s.scoredGames < 3 || s.avgScore === null || s.scoreStddev === null) return null;
+
+      return {
+        id: player.id,
+        name: player.display_name,
+        position: player.position || "Unknown",
+        avgScore: s.avgScore,
+        stdDev: s.scoreStddev,
+        gamesPlayed: s.scoredGames,
+      };
+    })
+    .filter((p): p is PlayerConsistency => p !== null);
+}
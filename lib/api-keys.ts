@@ -0,0 +1,98 @@
+import { createHash, randomBytes } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ApiKey } from "@/types";
+
+const KEY_PREFIX = "sfk_";
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export async function listApiKeys(supabase: SupabaseClient): Promise<ApiKey[]> {
+  const { data, error } = await supabase
+    .from("api_keys")
+    .select(
+      "id, name, key_prefix, rate_limit_per_minute, created_by, created_at, last_used_at, revoked_at"
+    )
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch API keys: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/** Create a key. The returned key is not stored and can't be shown again. */
+export async function createApiKey(
+  supabase: SupabaseClient,
+  name: string,
+  rateLimitPerMinute: number,
+  createdBy: string
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = KEY_PREFIX + randomBytes(24).toString("base64url");
+
+  const { data, error } = await supabase
+    .from("api_keys")
+    .insert({
+      name,
+      key_prefix: key.slice(0, KEY_PREFIX.length + 6),
+      key_hash: hashApiKey(key),
+      rate_limit_per_minute: rateLimitPerMinute,
+      created_by: createdBy,
+    })
+    .select(
+      "id, name, key_prefix, rate_limit_per_minute, created_by, created_at, last_used_at, revoked_at"
+    )
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create API key: ${error.message}`);
+  }
+
+  return { apiKey: data, key };
+}
+
+export async function revokeApiKey(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase
+    .from("api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("revoked_at", null);
+
+  if (error) {
+    throw new Error(`Failed to revoke API key: ${error.message}`);
+  }
+}
+
+export interface ApiRequestQuota {
+  limit: number;
+  remaining: number;
+  resetsAt: string;
+  allowed: boolean;
+}
+
+/**
+ * Count a request against `key` (consume_api_request() in schema.sql).
+ * Null for an unknown or revoked key.
+ */
+export async function consumeApiRequest(
+  supabase: SupabaseClient,
+  key: string
+): Promise<ApiRequestQuota | null> {
+  const { data, error } = await supabase
+    .rpc("consume_api_request", { p_key_hash: hashApiKey(key) })
+    .maybeSingle<{ request_limit: number; request_count: number; resets_at: string }>();
+
+  if (error) {
+    throw new Error(`Failed to check API key: ${error.message}`);
+  }
+  if (!data) return null;
+
+  return {
+    limit: data.request_limit,
+    remaining: Math.max(0, data.request_limit - data.request_count),
+    resetsAt: data.resets_at,
+    allowed: data.request_count <= data.request_limit,
+  };
+}
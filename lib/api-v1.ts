@@ -0,0 +1,203 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceSupabase } from "@/lib/supabase";
+import { consumeApiRequest } from "@/lib/api-keys";
+import {
+  downloadHeaders,
+  EXPORT_FORMATS,
+  ExportRow,
+  parseExportFormat,
+  serializeRows,
+} from "@/lib/export";
+import { ApiPage } from "@/types";
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Thrown by /api/v1 handlers to answer with a 4xx and a message */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+  }
+}
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/** The keyset values after which the next page starts */
+export function encodeCursor(values: string[]): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+export function decodeCursor(params: URLSearchParams, length: number): string[] | null {
+  const cursor = params.get("cursor");
+  if (!cursor) return null;
+
+  try {
+    const values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      Array.isArray(values) &&
+      values.length === length &&
+      values.every((v) => typeof v === "string")
+    ) {
+      return values;
+    }
+  } catch {
+    // fall through
+  }
+  throw new ApiError("Invalid cursor", 400);
+}
+
+/** ?limit=, 1 to MAX_PAGE_SIZE */
+export function pageSize(params: URLSearchParams): number {
+  const limit = params.get("limit");
+  if (limit === null) return DEFAULT_PAGE_SIZE;
+
+  const n = Number(limit);
+  if (!Number.isInteger(n) || n < 1 || n > MAX_PAGE_SIZE) {
+    throw new ApiError(`limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`, 400);
+  }
+  return n;
+}
+
+/**
+ * Cut a page from rows queried with limit + 1, so the extra row tells us
+ * there is another page. `cursorOf` gives the keyset values of a row.
+ */
+export function toPage<T>(rows: T[], limit: number, cursorOf: (row: T) => string[]): ApiPage<T> {
+  const data = rows.slice(0, limit);
+  return {
+    data,
+    next_cursor: rows.length > limit ? encodeCursor(cursorOf(data[data.length - 1])) : null,
+  };
+}
+
+/** Page through a list computed in full, such as a leaderboard */
+export function pageByOffset<T>(rows: T[], params: URLSearchParams): ApiPage<T> {
+  const limit = pageSize(params);
+  const [after] = decodeCursor(params, 1) ?? ["0"];
+  const offset = Number(after);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new ApiError("Invalid cursor", 400);
+  }
+
+  const end = offset + limit;
+  return {
+    data: rows.slice(offset, end),
+    next_cursor: end < rows.length ? encodeCursor([String(end)]) : null,
+  };
+}
+
+function apiKeyFrom(request: NextRequest): string | null {
+  const header = request.headers.get("x-api-key");
+  if (header) return header.trim();
+
+  const auth = request.headers.get("authorization");
+  return auth?.startsWith("Bearer ") ? auth.slice(7).trim() : null;
+}
+
+/**
+ * The response body: the handler's result as JSON, or with ?format=csv or
+ * xlsx its `data` rows as a file, the next cursor moving to a header.
+ */
+function responseBody(
+  request: NextRequest,
+  result: unknown
+): { body: string | Uint8Array<ArrayBuffer>; headers: Record<string, string> } {
+  const param = request.nextUrl.searchParams.get("format");
+  const format = param === null ? "json" : parseExportFormat(param);
+  if (!format) {
+    throw new ApiError(`format must be one of ${EXPORT_FORMATS.join(", ")}`, 400);
+  }
+  if (format === "json") {
+    return { body: JSON.stringify(result), headers: { "Content-Type": "application/json" } };
+  }
+
+  const { data, next_cursor } = result as { data?: unknown; next_cursor?: string | null };
+  const rows = (Array.isArray(data) ? data : [data ?? result]) as ExportRow[];
+  const name = request.nextUrl.pathname.replace(/^\/api\/v1\//, "").replace(/\//g, "-");
+  const file = serializeRows(rows, format, name);
+
+  const headers = downloadHeaders(file);
+  if (next_cursor) headers["X-Next-Cursor"] = next_cursor;
+  return { body: file.body, headers };
+}
+
+function etagMatches(request: NextRequest, etag: string): boolean {
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch === "*" || ifNoneMatch.split(",").some((tag) => tag.trim() === etag);
+}
+
+/**
+ * Wrap an /api/v1 handler: require an API key (X-API-Key or a bearer
+ * token), count the request against the key's per-minute limit, and send
+ * the handler's result (as JSON, or CSV/XLSX with ?format=) with an ETag so
+ * unchanged responses come back as 304s.
+ */
+export function apiRoute<P = Record<string, never>>(
+  handler: (request: NextRequest, params: P) => Promise<unknown>
+) {
+  return async (request: NextRequest, context: { params: Promise<P> }) => {
+    const key = apiKeyFrom(request);
+    if (!key) {
+      return NextResponse.json({ error: "Missing API key" }, { status: 401 });
+    }
+
+    let quota;
+    try {
+      quota = await consumeApiRequest(getServiceSupabase(), key);
+    } catch (error) {
+      console.error("API error:", error);
+      return NextResponse.json({ error: "Internal error" }, { status: 500 });
+    }
+    if (!quota) {
+      return NextResponse.json({ error: "Invalid API key" }, { status: 401 });
+    }
+
+    const resetSeconds = Math.ceil(new Date(quota.resetsAt).getTime() / 1000);
+    const rateHeaders: Record<string, string> = {
+      "X-RateLimit-Limit": String(quota.limit),
+      "X-RateLimit-Remaining": String(quota.remaining),
+      "X-RateLimit-Reset": String(resetSeconds),
+    };
+
+    if (!quota.allowed) {
+      const retryAfter = Math.max(1, resetSeconds - Math.floor(Date.now() / 1000));
+      return NextResponse.json(
+        { error: "Rate limit exceeded" },
+        { status: 429, headers: { ...rateHeaders, "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    try {
+      const result = await handler(request, await context.params);
+      const { body, headers: bodyHeaders } = responseBody(request, result);
+      const etag = `W/"${createHash("sha1").update(body).digest("base64url")}"`;
+      const headers = { ...rateHeaders, ETag: etag, "Cache-Control": "no-cache" };
+
+      if (etagMatches(request, etag)) {
+        return new NextResponse(null, { status: 304, headers });
+      }
+      return new NextResponse(body, { headers: { ...headers, ...bodyHeaders } });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.status, headers: rateHeaders }
+        );
+      }
+      console.error("API error:", error);
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Unknown error" },
+        { status: 500, headers: rateHeaders }
+      );
+    }
+  };
+}
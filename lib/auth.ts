@@ -0,0 +1,31 @@
+import type { User } from "@supabase/supabase-js";
+import { getServiceSupabase } from "@/lib/supabase";
+
+/**
+ * Resolve the signed-in user behind an API request, or null.
+ * Pages forward their Supabase session token as a bearer token.
+ */
+export async function getAuthenticatedUser(request: Request): Promise<User | null> {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : null;
+  if (!token) return null;
+
+  const { data, error } = await getServiceSupabase().auth.getUser(token);
+  if (error || !data.user) return null;
+
+  return data.user;
+}
+
+/**
+ * Whether a request may run a cron job: Vercel's own cron call, or any
+ * caller with CRON_SECRET as its bearer token. Open when no secret is set.
+ */
+export function isCronRequest(request: Request): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true;
+
+  return (
+    request.headers.get("authorization") === `Bearer ${cronSecret}` ||
+    request.headers.get("x-vercel-cron") === "true"
+  );
+}
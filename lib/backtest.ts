@@ -0,0 +1,289 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchAllPages, getPerformance, getPlayers, getTournaments } from "@/lib/data";
+import { HISTORICAL_PLAYER_STATUSES } from "@/lib/player-status";
+import { tpPer100 } from "@/lib/utils";
+import {
+  BacktestData,
+  BacktestGame,
+  BacktestMetric,
+  BacktestPoint,
+  BacktestResult,
+  BacktestStrategy,
+  Player,
+} from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A player can only be bought with a close from the last week */
+const STALE_PRICE_DAYS = 7;
+
+export const BACKTEST_METRICS: { value: BacktestMetric; label: string }[] = [
+  { value: "tpPer100", label: "TP per $100" },
+  { value: "tpRate", label: "TP rate" },
+  { value: "totalTP", label: "Total TP" },
+];
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(date).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Daily closes and games needed to backtest `from`..`to` (YYYY-MM-DD) with
+ * metrics looking back up to `lookbackDays`. Games are dated by when their
+ * tournament ends, not by its first fixture, so a backtest never sees a
+ * result before it was known.
+ */
+export async function getBacktestData(
+  supabase: SupabaseClient,
+  from: string,
+  to: string,
+  lookbackDays: number
+): Promise<BacktestData> {
+  const tournaments = await getTournaments(supabase, null, to);
+  // Tournaments without an end date are treated as one-day events
+  const settledOn = new Map(
+    tournaments.map((t) => [t.id, addDays(t.end_date ?? t.tournament_date, 1)])
+  );
+
+  // Tournaments that started before the lookback but end inside it count
+  const lookbackStart = addDays(from, -lookbackDays);
+  const since = tournaments
+    .filter((t) => settledOn.get(t.id)! >= lookbackStart)
+    .reduce(
+      (earliest, t) => (t.tournament_date < earliest ? t.tournament_date : earliest),
+      lookbackStart
+    );
+
+  const [players, candles, performance] = await Promise.all([
+    getPlayers(supabase, HISTORICAL_PLAYER_STATUSES),
+    fetchAllPages<{ player_id: string; bucket: string; close_price: number }>(
+      "daily candles",
+      (start, end) =>
+        supabase
+          .from("price_candles_daily")
+          .select("player_id, bucket, close_price")
+          .gte("bucket", addDays(from, -STALE_PRICE_DAYS))
+          .lte("bucket", to)
+          .order("bucket")
+          .order("player_id")
+          .range(start, end)
+    ),
+    getPerformance(supabase, { since, until: to, sinceListing: false }),
+  ]);
+
+  const games: BacktestGame[] = performance
+    .map((g) => ({
+      ...g,
+      settledOn: settledOn.get(g.tournament_id) ?? addDays(g.match_date, 1),
+    }))
+    .sort((a, b) => (a.settledOn < b.settledOn ? -1 : a.settledOn > b.settledOn ? 1 : 0));
+
+  return {
+    players,
+    closes: candles.map((c) => ({
+      playerId: c.player_id,
+      date: c.bucket.slice(0, 10),
+      price: Number(c.close_price),
+    })),
+    performance: games,
+  };
+}
+
+/** First index in games (by settledOn) settled on or after `date` */
+function firstOnOrAfter(games: BacktestGame[], date: string): number {
+  let lo = 0;
+  let hi = games.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (games[mid].settledOn < date) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Rank players for a rebalance at the close on `date` from the games
+ * settled in the lookback window up to it, i.e. whose tournament ended
+ * before `date`. tpPer100 matches the leaderboards' undervalued table;
+ * tpRate is the share of games that paid TP.
+ */
+function rankPlayers(
+  strategy: BacktestStrategy,
+  date: string,
+  players: Player[],
+  games: BacktestGame[],
+  lastClose: Map<string, { date: string; price: number }>
+): string[] {
+  const start = firstOnOrAfter(games, addDays(date, -strategy.lookbackDays));
+  const end = firstOnOrAfter(games, addDays(date, 1));
+
+  const totals = new Map<string, { tp: number; games: number; tpGames: number }>();
+  for (let i = start; i < end; i++) {
+    const g = games[i];
+    const t = totals.get(g.player_id) || { tp: 0, games: 0, tpGames: 0 };
+    t.games++;
+    if (g.reward && g.reward > 0) {
+      t.tp += Number(g.reward);
+      t.tpGames++;
+    }
+    totals.set(g.player_id, t);
+  }
+
+  const freshSince = addDays(date, -STALE_PRICE_DAYS);
+  const scored: { id: string; score: number; tp: number }[] = [];
+  for (const player of players) {
+    if (strategy.position && player.position !== strategy.position) continue;
+    const close = lastClose.get(player.id);
+    const t = totals.get(player.id);
+    if (!close || close.date < freshSince || close.price <= 0 || !t || t.tp <= 0) continue;
+
+    let score: number;
+    if (strategy.metric === "tpPer100") {
+      if (!player.active_shares) continue;
+      score = tpPer100(t.tp, player.active_shares * close.price)!;
+    } else if (strategy.metric === "tpRate") {
+      score = t.tpGames / t.games;
+    } else {
+      score = t.tp;
+    }
+    scored.push({ id: player.id, score, tp: t.tp });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || b.tp - a.tp)
+    .slice(0, strategy.count)
+    .map((s) => s.id);
+}
+
+function isRebalanceDay(strategy: BacktestStrategy, date: string, last: string | null): boolean {
+  if (!last) return true;
+  if (strategy.rebalance === "monthly") return date.slice(0, 7) !== last.slice(0, 7);
+  if (strategy.rebalance === "weekly") return date >= addDays(last, 7);
+  return false;
+}
+
+/**
+ * Replay a strategy day by day from `from` to `to`. Each day takes in that
+ * day's closes, credits TP for games settled that day to the tokens held
+ * through their tournament's end, then rebalances at the close if due.
+ * Rebalances only see games from tournaments that have ended and closes up
+ * to the current one, so nothing from the future leaks in. Tokens with no
+ * recent close can't be traded and are valued at their last one.
+ *
+ * active_shares isn't kept historically, so TP per token uses today's
+ * count throughout.
+ */
+export function runBacktest(
+  data: BacktestData,
+  strategy: BacktestStrategy,
+  from: string,
+  to: string
+): BacktestResult {
+  const players = new Map(data.players.map((p) => [p.id, p]));
+  const lastClose = new Map<string, { date: string; price: number }>();
+  const holdings = new Map<string, number>();
+  let cash = strategy.budget;
+  let tpEarned = 0;
+  let traded = 0;
+  let costs = 0;
+  let rebalances = 0;
+  let lastRebalance: string | null = null;
+  let peak = strategy.budget;
+  let maxDrawdown = 0;
+  const points: BacktestPoint[] = [];
+
+  let closeIndex = 0;
+  let gameIndex = firstOnOrAfter(data.performance, from);
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    while (closeIndex < data.closes.length && data.closes[closeIndex].date <= date) {
+      const c = data.closes[closeIndex++];
+      lastClose.set(c.playerId, { date: c.date, price: c.price });
+    }
+
+    while (
+      gameIndex < data.performance.length &&
+      data.performance[gameIndex].settledOn <= date
+    ) {
+      const game = data.performance[gameIndex++];
+      const held = holdings.get(game.player_id);
+      const activeShares = players.get(game.player_id)?.active_shares;
+      if (held && activeShares && game.reward && game.reward > 0) {
+        tpEarned += (Number(game.reward) / activeShares) * held;
+      }
+    }
+
+    if (isRebalanceDay(strategy, date, lastRebalance)) {
+      const picks = rankPlayers(strategy, date, data.players, data.performance, lastClose);
+      const freshSince = addDays(date, -STALE_PRICE_DAYS);
+      const tradeable = (id: string) => (lastClose.get(id)?.date ?? "") >= freshSince;
+
+      let tradeableValue = cash;
+      for (const [id, quantity] of holdings) {
+        if (tradeable(id)) tradeableValue += quantity * lastClose.get(id)!.price;
+      }
+      const targetValue = picks.length > 0 ? tradeableValue / picks.length : 0;
+
+      // Sells first so their proceeds fund the buys
+      for (const [id, quantity] of holdings) {
+        if (!tradeable(id)) continue;
+        const price = lastClose.get(id)!.price;
+        const target = picks.includes(id) ? targetValue / price : 0;
+        if (quantity <= target) continue;
+
+        const value = (quantity - target) * price;
+        cash += value * (1 - strategy.transactionCost);
+        costs += value * strategy.transactionCost;
+        traded += value;
+        if (target > 0) holdings.set(id, target);
+        else holdings.delete(id);
+      }
+
+      const buys = picks
+        .map((id) => {
+          const price = lastClose.get(id)!.price;
+          return { id, price, value: targetValue - (holdings.get(id) || 0) * price };
+        })
+        .filter((b) => b.value > 0);
+      const needed = buys.reduce((sum, b) => sum + b.value * (1 + strategy.transactionCost), 0);
+      // Costs come out of the same cash, so scale buys down to what's left
+      const scale = needed > cash ? cash / needed : 1;
+
+      for (const b of buys) {
+        const value = b.value * scale;
+        cash -= value * (1 + strategy.transactionCost);
+        costs += value * strategy.transactionCost;
+        traded += value;
+        holdings.set(b.id, (holdings.get(b.id) || 0) + value / b.price);
+      }
+
+      lastRebalance = date;
+      rebalances++;
+    }
+
+    let equity = cash;
+    for (const [id, quantity] of holdings) {
+      equity += quantity * (lastClose.get(id)?.price ?? 0);
+    }
+    peak = Math.max(peak, equity);
+    const drawdown = peak > 0 ? (peak - equity) / peak : 0;
+    maxDrawdown = Math.max(maxDrawdown, drawdown);
+    points.push({ date, equity, tpEarned, drawdown });
+  }
+
+  const finalEquity = points.length > 0 ? points[points.length - 1].equity : strategy.budget;
+  const averageEquity =
+    points.length > 0 ? points.reduce((sum, p) => sum + p.equity, 0) / points.length : 0;
+
+  return {
+    strategy,
+    points,
+    finalEquity,
+    totalReturn: strategy.budget > 0 ? finalEquity / strategy.budget - 1 : 0,
+    tpEarned,
+    maxDrawdown,
+    turnover: averageEquity > 0 ? traded / averageEquity : 0,
+    costs,
+    rebalances,
+  };
+}
@@ -0,0 +1,148 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import vercelConfig from "@/vercel.json";
+import { CronGap, CronRun, CronRunStatus, PriceHealth } from "@/types";
+
+export const FETCH_PRICES_JOB = "fetch-prices";
+export const REFRESH_FAIR_VALUES_JOB = "refresh-fair-values";
+export const DELIVER_NOTIFICATIONS_JOB = "deliver-notifications";
+
+/**
+ * Minutes between runs of a cron path, read from its vercel.json schedule.
+ * Only "every N minutes" style schedules ("*\/15 * * * *") are understood;
+ * anything else falls back to hourly.
+ */
+export function cronIntervalMinutes(path: string): number {
+  const cron = vercelConfig.crons.find((c) => c.path === path);
+  const [minute, ...rest] = (cron?.schedule || "").split(" ");
+  const every = /^\*\/(\d+)$/.exec(minute);
+
+  if (every && rest.every((field) => field === "*")) {
+    return Number(every[1]);
+  }
+  return 60;
+}
+
+export const FETCH_PRICES_INTERVAL_MINUTES = cronIntervalMinutes("/api/cron/fetch-prices");
+
+/**
+ * Open a run row. Logging must never stop the job itself, so failures are
+ * reported and the job carries on without a run id.
+ */
+export async function startCronRun(supabase: SupabaseClient, job: string): Promise<string | null> {
+  const { data, error } = await supabase.from("cron_runs").insert({ job }).select("id").single();
+
+  if (error || !data) {
+    console.error(`Failed to record ${job} run start: ${error?.message}`);
+    return null;
+  }
+
+  return data.id;
+}
+
+export async function finishCronRun(
+  supabase: SupabaseClient,
+  runId: string | null,
+  result: {
+    status: Exclude<CronRunStatus, "running">;
+    tokens_fetched?: number;
+    players_matched?: number;
+    prices_inserted?: number;
+    unmatched_tokens?: string[];
+    error?: string | null;
+  }
+): Promise<void> {
+  if (!runId) return;
+
+  const { error } = await supabase
+    .from("cron_runs")
+    .update({ ...result, finished_at: new Date().toISOString() })
+    .eq("id", runId);
+
+  if (error) {
+    console.error(`Failed to record cron run ${runId}: ${error.message}`);
+  }
+}
+
+export async function listCronRuns(
+  supabase: SupabaseClient,
+  job: string,
+  since: Date
+): Promise<CronRun[]> {
+  const { data, error } = await supabase
+    .from("cron_runs")
+    .select("*")
+    .eq("job", job)
+    .gte("started_at", since.toISOString())
+    .order("started_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch cron runs: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Stretches of the window with no run at all. Gaps between consecutive runs
+ * (and the window edges) are measured in whole schedule slots, so a run
+ * that's a few minutes late doesn't count as missed.
+ */
+export function findCronGaps(
+  runs: Pick<CronRun, "started_at">[],
+  intervalMinutes: number,
+  windowStart: Date,
+  now: Date
+): CronGap[] {
+  const times = [
+    windowStart.getTime(),
+    ...runs.map((r) => new Date(r.started_at).getTime()).sort((a, b) => a - b),
+    now.getTime(),
+  ];
+  const intervalMs = intervalMinutes * 60_000;
+  const gaps: CronGap[] = [];
+
+  for (let i = 1; i < times.length; i++) {
+    const missedRuns = Math.round((times[i] - times[i - 1]) / intervalMs) - 1;
+    if (missedRuns > 0) {
+      gaps.push({
+        from: new Date(times[i - 1]).toISOString(),
+        to: new Date(times[i]).toISOString(),
+        missedRuns,
+      });
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * Prices count as stale once two scheduled runs in a row have produced
+ * nothing.
+ */
+export async function getPriceHealth(supabase: SupabaseClient, now = new Date()): Promise<PriceHealth> {
+  const staleAfterMinutes = FETCH_PRICES_INTERVAL_MINUTES * 2;
+
+  const { data, error } = await supabase
+    .from("prices")
+    .select("fetched_at")
+    .order("fetched_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch latest price: ${error.message}`);
+  }
+
+  if (!data) {
+    return { status: "stale", lastPriceAt: null, ageMinutes: null, staleAfterMinutes };
+  }
+
+  const ageMinutes = Math.floor((now.getTime() - new Date(data.fetched_at).getTime()) / 60_000);
+
+  return {
+    status: ageMinutes > staleAfterMinutes ? "stale" : "ok",
+    lastPriceAt: data.fetched_at,
+    ageMinutes,
+    staleAfterMinutes,
+  };
+}
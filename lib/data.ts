@@ -0,0 +1,497 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { LISTED_PLAYER_STATUSES } from "@/lib/player-status";
+import {
+  LatestPrice,
+  MonthlyEarners,
+  PerformanceRecord,
+  Player,
+  PlayerStatus,
+  PlayerWindowStats,
+  PositionRollup,
+  PositionScoreStats,
+  PriceVolatility,
+  TimeFilter,
+  Tournament,
+  WindowBounds,
+} from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+export const TIME_FILTERS: { value: TimeFilter; label: string }[] = [
+  { value: "1m", label: "Last Month" },
+  { value: "3m", label: "Last 3 Months" },
+  { value: "all", label: "All Time" },
+];
+
+export function parseTimeFilter(value: string | undefined): TimeFilter {
+  return TIME_FILTERS.some((f) => f.value === value) ? (value as TimeFilter) : "all";
+}
+
+export function getDateRange(filter: TimeFilter, now = new Date()): Date | null {
+  if (filter === "1m") {
+    return new Date(now.getFullYear(), now.getMonth() - 1, now.getDate());
+  }
+  if (filter === "3m") {
+    return new Date(now.getFullYear(), now.getMonth() - 3, now.getDate());
+  }
+  return null;
+}
+
+/** First match_date (YYYY-MM-DD) inside the window, or null for all time. */
+export function windowStart(filter: TimeFilter, now = new Date()): string | null {
+  const start = getDateRange(filter, now);
+  return start ? start.toISOString().split("T")[0] : null;
+}
+
+/**
+ * Read every row of a query, PAGE_SIZE at a time. The query must have a
+ * stable order or rows can be skipped or repeated between pages. `what`
+ * names the rows in the error message.
+ */
+export async function fetchAllPages<T>(
+  what: string,
+  fetchPage: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await fetchPage(offset, offset + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(`Failed to fetch ${what}: ${error.message}`);
+    }
+    if (!data || data.length === 0) break;
+
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/** Arguments for the SQL functions that take a window (schema.sql) */
+function windowArgs(bounds: WindowBounds | null) {
+  return {
+    p_since: bounds?.since ?? null,
+    p_until: bounds?.until ?? null,
+    p_since_listing: bounds?.sinceListing ?? false,
+  };
+}
+
+interface CandleClose {
+  player_id: string;
+  close_price: number;
+}
+
+export async function getPlayers(
+  supabase: SupabaseClient,
+  statuses: PlayerStatus[] = LISTED_PLAYER_STATUSES
+): Promise<Player[]> {
+  return fetchAllPages<Player>("players", (from, to) =>
+    supabase
+      .from("players")
+      .select("*")
+      .in("status", statuses)
+      .order("display_name")
+      .order("id")
+      .range(from, to)
+  );
+}
+
+export async function getPlayer(supabase: SupabaseClient, id: string): Promise<Player | null> {
+  const { data, error } = await supabase.from("players").select("*").eq("id", id).maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch player: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Latest known price per player (latest_prices view). Pass playerIds to
+ * limit the lookup.
+ */
+export async function getLatestPrices(
+  supabase: SupabaseClient,
+  playerIds?: string[]
+): Promise<Map<string, LatestPrice>> {
+  const rows = await fetchAllPages<{
+    player_id: string;
+    price_usd: number;
+    liquidity_usd: number | null;
+    volume_24h_usd: number | null;
+    fetched_at: string;
+  }>("latest prices", (from, to) => {
+    let query = supabase
+      .from("latest_prices")
+      .select("player_id, price_usd, liquidity_usd, volume_24h_usd, fetched_at");
+    if (playerIds) {
+      query = query.in("player_id", playerIds);
+    }
+    return query.order("player_id").range(from, to);
+  });
+
+  return new Map(
+    rows.map((r) => [
+      r.player_id,
+      {
+        price: r.price_usd,
+        liquidity: r.liquidity_usd,
+        volume24h: r.volume_24h_usd,
+        fetchedAt: r.fetched_at,
+      },
+    ])
+  );
+}
+
+/**
+ * Each player's last price at or before `at`, looking back at most a day
+ * (hourly candles).
+ */
+export async function getPricesAt(
+  supabase: SupabaseClient,
+  at: Date,
+  playerIds?: string[]
+): Promise<Map<string, number>> {
+  const candles = await fetchAllPages<CandleClose>("prices", (from, to) => {
+    let query = supabase
+      .from("price_candles_hourly")
+      .select("player_id, close_price")
+      .gte("bucket", new Date(at.getTime() - DAY_MS).toISOString())
+      .lte("close_at", at.toISOString());
+    if (playerIds) {
+      query = query.in("player_id", playerIds);
+    }
+    return query
+      .order("close_at", { ascending: false })
+      .order("player_id")
+      .range(from, to);
+  });
+
+  const prices = new Map<string, number>();
+  for (const c of candles) {
+    if (!prices.has(c.player_id)) {
+      prices.set(c.player_id, c.close_price);
+    }
+  }
+
+  return prices;
+}
+
+/**
+ * Spread of each player's hourly closing prices over the last `days` days
+ * (price_volatility() in schema.sql).
+ */
+export async function getPriceVolatility(
+  supabase: SupabaseClient,
+  days: number
+): Promise<Map<string, PriceVolatility>> {
+  const rows = await fetchAllPages<{
+    player_id: string;
+    first_price: number;
+    last_price: number;
+    mean_price: number;
+    price_stddev: number;
+    samples: number;
+  }>("price volatility", (from, to) =>
+    supabase.rpc("price_volatility", { p_days: days }).order("player_id").range(from, to)
+  );
+
+  return new Map(
+    rows.map((r) => [
+      r.player_id,
+      {
+        firstPrice: r.first_price,
+        lastPrice: r.last_price,
+        meanPrice: r.mean_price,
+        stddev: r.price_stddev,
+        samples: r.samples,
+      },
+    ])
+  );
+}
+
+/**
+ * Each player's ranked games per finishing position: index 0 to 4 for 1st
+ * to 5th, 5 for 6th or worse (player_ranking_distribution() in schema.sql).
+ */
+export async function getRankingDistribution(
+  supabase: SupabaseClient
+): Promise<Map<string, number[]>> {
+  const rows = await fetchAllPages<{ player_id: string; rank_bucket: number; games: number }>(
+    "ranking distribution",
+    (from, to) =>
+      supabase
+        .rpc("player_ranking_distribution")
+        .order("player_id")
+        .order("rank_bucket")
+        .range(from, to)
+  );
+
+  const distribution = new Map<string, number[]>();
+  for (const r of rows) {
+    let games = distribution.get(r.player_id);
+    if (!games) {
+      games = [0, 0, 0, 0, 0, 0];
+      distribution.set(r.player_id, games);
+    }
+    games[r.rank_bucket - 1] = Number(r.games);
+  }
+  return distribution;
+}
+
+/**
+ * Performance rows inside a window (null for all time), oldest first. Pass
+ * playerId for a single player's rows.
+ */
+export async function getPerformance(
+  supabase: SupabaseClient,
+  bounds: WindowBounds | null,
+  playerId?: string
+): Promise<PerformanceRecord[]> {
+  return fetchAllPages<PerformanceRecord>("performance", (from, to) => {
+    let query = supabase.rpc("performance_in_window", windowArgs(bounds));
+    if (playerId) {
+      query = query.eq("player_id", playerId);
+    }
+    return query
+      .order("match_date", { ascending: true })
+      .order("id")
+      .range(from, to);
+  });
+}
+
+/**
+ * Tournaments dated between `since` and `until` (null for open-ended),
+ * newest first.
+ */
+export async function getTournaments(
+  supabase: SupabaseClient,
+  since: string | null,
+  until: string | null = null
+): Promise<Tournament[]> {
+  return fetchAllPages<Tournament>("tournaments", (from, to) => {
+    let query = supabase.from("tournaments").select("*");
+    if (since) {
+      query = query.gte("tournament_date", since);
+    }
+    if (until) {
+      query = query.lte("tournament_date", until);
+    }
+    return query
+      .order("tournament_date", { ascending: false })
+      .order("created_at", { ascending: false })
+      .range(from, to);
+  });
+}
+
+/**
+ * Each player's totals for a window, read from player_stats (kept current
+ * by refresh_player_stats() in schema.sql). Pass playerIds to limit the
+ * lookup.
+ */
+export async function getPlayerStats(
+  supabase: SupabaseClient,
+  window: TimeFilter,
+  playerIds?: string[]
+): Promise<Map<string, PlayerWindowStats>> {
+  const rows = await fetchAllPages<{
+    player_id: string;
+    total_tp: number;
+    games_played: number;
+    tp_games: number;
+    tp_finishes: number;
+    total_score: number;
+    scored_games: number;
+    avg_score: number | null;
+    score_stddev: number | null;
+    avg_ranking: number | null;
+    best_ranking: number | null;
+    latest_price: number | null;
+    market_cap: number | null;
+    active_market_cap: number | null;
+    tp_per_100: number | null;
+  }>("player stats", (from, to) => {
+    let query = supabase.from("player_stats").select("*").eq("time_window", window);
+    if (playerIds) {
+      query = query.in("player_id", playerIds);
+    }
+    return query.order("player_id").range(from, to);
+  });
+
+  return new Map(
+    rows.map((r) => [
+      r.player_id,
+      {
+        totalTP: r.total_tp,
+        gamesPlayed: r.games_played,
+        tpGames: r.tp_games,
+        tpFinishes: r.tp_finishes,
+        totalScore: r.total_score,
+        scoredGames: r.scored_games,
+        avgScore: r.avg_score,
+        scoreStddev: r.score_stddev,
+        avgRanking: r.avg_ranking,
+        bestRanking: r.best_ranking,
+        latestPrice: r.latest_price,
+        marketCap: r.market_cap,
+        activeMarketCap: r.active_market_cap,
+        tpPer100: r.tp_per_100,
+      },
+    ])
+  );
+}
+
+/**
+ * Each player's totals inside any window, aggregated on request by
+ * player_performance_totals(). Price fields are left null; player_stats has
+ * the current ones.
+ */
+export async function getPerformanceTotals(
+  supabase: SupabaseClient,
+  bounds: WindowBounds,
+  playerIds?: string[],
+  statuses: PlayerStatus[] = LISTED_PLAYER_STATUSES
+): Promise<Map<string, PlayerWindowStats>> {
+  const rows = await fetchAllPages<{
+    player_id: string;
+    total_tp: number;
+    games_played: number;
+    tp_games: number;
+    tp_finishes: number;
+    total_score: number;
+    scored_games: number;
+    score_stddev: number | null;
+    avg_ranking: number | null;
+    best_ranking: number | null;
+  }>("performance totals", (from, to) => {
+    let query = supabase.rpc("player_performance_totals", {
+      ...windowArgs(bounds),
+      p_statuses: statuses,
+    });
+    if (playerIds) {
+      query = query.in("player_id", playerIds);
+    }
+    return query.order("player_id").range(from, to);
+  });
+
+  return new Map(
+    rows.map((r) => [
+      r.player_id,
+      {
+        totalTP: r.total_tp,
+        gamesPlayed: r.games_played,
+        tpGames: r.tp_games,
+        tpFinishes: r.tp_finishes,
+        totalScore: r.total_score,
+        scoredGames: r.scored_games,
+        avgScore: r.scored_games > 0 ? r.total_score / r.scored_games : null,
+        scoreStddev: r.score_stddev,
+        avgRanking: r.avg_ranking,
+        bestRanking: r.best_ranking,
+        latestPrice: null,
+        marketCap: null,
+        activeMarketCap: null,
+        tpPer100: null,
+      },
+    ])
+  );
+}
+
+/** Recompute player_stats for the given players, or everyone. Returns rows written. */
+export async function refreshPlayerStats(
+  supabase: SupabaseClient,
+  playerIds?: string[]
+): Promise<number> {
+  const { data, error } = await supabase.rpc("refresh_player_stats", {
+    p_player_ids: playerIds ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to refresh player stats: ${error.message}`);
+  }
+
+  return data ?? 0;
+}
+
+/** Empty player_stats and recompute it for every player. Returns rows written. */
+export async function rebuildPlayerStats(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc("rebuild_player_stats");
+
+  if (error) {
+    throw new Error(`Failed to rebuild player stats: ${error.message}`);
+  }
+
+  return data ?? 0;
+}
+
+/** Current market cap per position, over players that have one. */
+export async function getPositionRollups(
+  supabase: SupabaseClient,
+  statuses: PlayerStatus[] = LISTED_PLAYER_STATUSES
+): Promise<PositionRollup[]> {
+  const { data, error } = await supabase.rpc("position_rollups", { p_statuses: statuses });
+
+  if (error) {
+    throw new Error(`Failed to fetch position rollups: ${error.message}`);
+  }
+
+  return (data || []).map((r: { position: string; player_count: number; market_cap: number }) => ({
+    position: r.position,
+    playerCount: r.player_count,
+    marketCap: r.market_cap,
+  }));
+}
+
+/** Raw score average, high and low per position over TP-qualifying games. */
+export async function getPositionScoreStats(
+  supabase: SupabaseClient,
+  bounds: WindowBounds,
+  statuses: PlayerStatus[] = LISTED_PLAYER_STATUSES
+): Promise<PositionScoreStats[]> {
+  const { data, error } = await supabase.rpc("position_score_stats", {
+    ...windowArgs(bounds),
+    p_statuses: statuses,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch position score stats: ${error.message}`);
+  }
+
+  return (data || []).map(
+    (r: {
+      position: string;
+      avg_score: number;
+      highest_score: number;
+      highest_score_player: string;
+      lowest_score: number;
+      lowest_score_player: string;
+    }) => ({
+      position: r.position,
+      avgScore: r.avg_score,
+      highestScore: r.highest_score,
+      highestScorePlayer: r.highest_score_player,
+      lowestScore: r.lowest_score,
+      lowestScorePlayer: r.lowest_score_player,
+    })
+  );
+}
+
+/** Distinct players earning TP per month and position. */
+export async function getMonthlyUniqueEarners(
+  supabase: SupabaseClient,
+  bounds: WindowBounds,
+  statuses: PlayerStatus[] = LISTED_PLAYER_STATUSES
+): Promise<MonthlyEarners[]> {
+  return fetchAllPages<MonthlyEarners>("unique earners", (from, to) =>
+    supabase
+      .rpc("monthly_unique_earners", { ...windowArgs(bounds), p_statuses: statuses })
+      .order("month")
+      .order("position")
+      .range(from, to)
+  );
+}
@@ -0,0 +1,148 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getPerformance,
+  getPlayer,
+  getPlayers,
+  getPositionScoreStats,
+  getPriceVolatility,
+  getTournaments,
+} from "@/lib/data";
+import { ApiError, isUuid } from "@/lib/api-v1";
+import { getConsistencyData, getPositionStats } from "@/lib/analytics";
+import { ExportRow } from "@/lib/export";
+import { getFairValues } from "@/lib/fair-value-model";
+import {
+  getTeamData,
+  getTPLeaderboard,
+  getUndervaluedPlayers,
+  getVolatilityRankings,
+} from "@/lib/leaderboards";
+import { getDailyCandles, HOURLY_CANDLE_RETENTION_DAYS } from "@/lib/price-history";
+import { currentTPThresholds, getScoringRules } from "@/lib/scoring-rules";
+import { getWindowStats, parseTimeWindow, resolveTimeWindow } from "@/lib/time-window";
+import { ExportDataset, Player } from "@/types";
+
+const DEFAULT_VOLATILITY_DAYS = 30;
+
+/** Loads a dataset's rows from the request's query params */
+type DatasetLoader = (supabase: SupabaseClient, params: URLSearchParams) => Promise<ExportRow[]>;
+
+async function loadWindow(supabase: SupabaseClient, params: URLSearchParams) {
+  const window = parseTimeWindow(Object.fromEntries(params));
+  const bounds = await resolveTimeWindow(supabase, window);
+  const [players, windowStats] = await Promise.all([
+    getPlayers(supabase),
+    getWindowStats(supabase, window, bounds),
+  ]);
+  return { players, windowStats };
+}
+
+/** ?player=, which has to be a player we know */
+async function requirePlayer(supabase: SupabaseClient, params: URLSearchParams): Promise<Player> {
+  const id = params.get("player") || "";
+  const player = isUuid(id) ? await getPlayer(supabase, id) : null;
+  if (!player) {
+    throw new ApiError("Player not found", 404);
+  }
+  return player;
+}
+
+const DATASETS: Record<ExportDataset, DatasetLoader> = {
+  "tp-leaderboard": async (supabase, params) => {
+    const { players, windowStats } = await loadWindow(supabase, params);
+    return getTPLeaderboard(players, windowStats);
+  },
+
+  volatility: async (supabase, params) => {
+    const days = Number(params.get("days") ?? DEFAULT_VOLATILITY_DAYS);
+    if (!Number.isInteger(days) || days < 1 || days > HOURLY_CANDLE_RETENTION_DAYS) {
+      throw new ApiError(
+        `days must be a whole number from 1 to ${HOURLY_CANDLE_RETENTION_DAYS}`,
+        400
+      );
+    }
+    const [players, volatility] = await Promise.all([
+      getPlayers(supabase),
+      getPriceVolatility(supabase, days),
+    ]);
+    return getVolatilityRankings(players, volatility);
+  },
+
+  undervalued: async (supabase, params) => {
+    const { players, windowStats } = await loadWindow(supabase, params);
+    return getUndervaluedPlayers(
+      getTPLeaderboard(players, windowStats),
+      getFairValues(players, windowStats),
+      params.get("by") === "fair-value" ? "fair-value" : "tp-per-100"
+    );
+  },
+
+  teams: async (supabase, params) => {
+    const { players, windowStats } = await loadWindow(supabase, params);
+    return getTeamData(players, windowStats);
+  },
+
+  "position-stats": async (supabase, params) => {
+    const window = parseTimeWindow(Object.fromEntries(params));
+    const bounds = await resolveTimeWindow(supabase, window);
+    const [scoreStats, scoringRules] = await Promise.all([
+      getPositionScoreStats(supabase, bounds),
+      getScoringRules(supabase),
+    ]);
+    return getPositionStats(scoreStats, currentTPThresholds(scoringRules));
+  },
+
+  consistency: async (supabase, params) => {
+    const { players, windowStats } = await loadWindow(supabase, params);
+    return getConsistencyData(players, windowStats);
+  },
+
+  "player-prices": async (supabase, params) => {
+    const player = await requirePlayer(supabase, params);
+    const candles = await getDailyCandles(supabase, player.id);
+    return candles.map((c) => ({
+      date: c.bucket.slice(0, 10),
+      open: c.open_price,
+      high: c.high_price,
+      low: c.low_price,
+      close: c.close_price,
+      minHolders: c.min_holders,
+      maxHolders: c.max_holders,
+      marketCap: c.last_marketcap_usd,
+      liquidity: c.last_liquidity_usd,
+      volume24h: c.last_volume_24h_usd,
+    }));
+  },
+
+  "player-performance": async (supabase, params) => {
+    const player = await requirePlayer(supabase, params);
+    const [performance, tournaments] = await Promise.all([
+      getPerformance(supabase, null, player.id),
+      getTournaments(supabase, null),
+    ]);
+    const tournamentNames = new Map(tournaments.map((t) => [t.id, t.name]));
+    return performance.map((p) => ({
+      date: p.match_date,
+      tournament: tournamentNames.get(p.tournament_id) ?? p.tournament_id,
+      rawScore: p.raw_score,
+      ranking: p.ranking,
+      tp: p.reward,
+    }));
+  },
+};
+
+export function isExportDataset(value: string): value is ExportDataset {
+  return Object.hasOwn(DATASETS, value);
+}
+
+/**
+ * Compute a dataset as the matching page shows it. Window datasets take the
+ * page's window params; player datasets take ?player=.
+ */
+export async function loadExportDataset(
+  supabase: SupabaseClient,
+  dataset: ExportDataset,
+  params: URLSearchParams
+): Promise<ExportRow[]> {
+  return DATASETS[dataset](supabase, params);
+}
@@ -0,0 +1,107 @@
+import * as XLSX from "xlsx";
+import { ExportFormat } from "@/types";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "xlsx", "json"];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json",
+};
+
+/** Any flat object; each key becomes a column */
+export type ExportRow = object;
+
+export interface ExportFile {
+  body: string | Uint8Array<ArrayBuffer>;
+  contentType: string;
+  filename: string;
+}
+
+/** ?format=, or null when it's missing or not one we write */
+export function parseExportFormat(value: string | null): ExportFormat | null {
+  return EXPORT_FORMATS.find((f) => f === value) ?? null;
+}
+
+function field(row: ExportRow, column: string): unknown {
+  return (row as Record<string, unknown>)[column];
+}
+
+/** Columns in first-seen order, so sparse rows still line up */
+function columnsOf(rows: ExportRow[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) columns.add(key);
+  }
+  return [...columns];
+}
+
+/** Spreadsheet cells hold scalars; anything nested goes in as JSON */
+function cellValue(value: unknown): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function csvField(value: unknown): string {
+  const cell = cellValue(value);
+  if (cell === null) return "";
+
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: ExportRow[]): string {
+  const columns = columnsOf(rows);
+  const lines = [
+    columns.map(csvField).join(","),
+    ...rows.map((row) => columns.map((c) => csvField(field(row, c))).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+function toXlsx(rows: ExportRow[], sheetName: string): Uint8Array<ArrayBuffer> {
+  const columns = columnsOf(rows);
+  const sheet = XLSX.utils.json_to_sheet(
+    rows.map((row) => Object.fromEntries(columns.map((c) => [c, cellValue(field(row, c))]))),
+    { header: columns }
+  );
+  const workbook = XLSX.utils.book_new();
+  // Sheet names are capped at 31 characters
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName.slice(0, 31));
+
+  const buffer: Buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+  return new Uint8Array(buffer);
+}
+
+/** Write `rows` as `format`; `name` becomes the file name and sheet name */
+export function serializeRows(rows: ExportRow[], format: ExportFormat, name: string): ExportFile {
+  let body: string | Uint8Array<ArrayBuffer>;
+  switch (format) {
+    case "csv":
+      body = toCsv(rows);
+      break;
+    case "xlsx":
+      body = toXlsx(rows, name);
+      break;
+    case "json":
+      body = JSON.stringify(rows);
+      break;
+  }
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    filename: `${name}.${format}`,
+  };
+}
+
+/** Headers that make browsers save `file` rather than show it */
+export function downloadHeaders(file: ExportFile): Record<string, string> {
+  return {
+    "Content-Type": file.contentType,
+    "Content-Disposition": `attachment; filename="${file.filename}"`,
+  };
+}
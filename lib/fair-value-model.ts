@@ -0,0 +1,106 @@
+import { FairValueModel, Player, PlayerFairValue, PlayerWindowStats } from "@/types";
+
+/** Fewer priced TP earners than this and a position gets no fit */
+const MIN_SAMPLES = 5;
+
+/**
+ * Least-squares fit of y = coefficient · x ^ exponent on log-log axes.
+ * Points where either value isn't positive are skipped; null when what's
+ * left can't define a line.
+ */
+export function fitPowerRegression(
+  points: { x: number; y: number }[]
+): Omit<FairValueModel, "position"> | null {
+  const valid = points.filter((p) => p.x > 0 && p.y > 0);
+  const n = valid.length;
+  if (n < 2) return null;
+  // Every x the same. Checked up front as rounding in the sums below can
+  // leave the denominator just off zero
+  if (valid.every((p) => p.x === valid[0].x)) return null;
+
+  const logs = valid.map((p) => ({ x: Math.log(p.x), y: Math.log(p.y) }));
+  let sumX = 0, sumY = 0, sumXY = 0, sumX2 = 0;
+  for (const p of logs) {
+    sumX += p.x;
+    sumY += p.y;
+    sumXY += p.x * p.y;
+    sumX2 += p.x * p.x;
+  }
+
+  const denominator = n * sumX2 - sumX * sumX;
+  if (denominator <= 0) return null;
+
+  const exponent = (n * sumXY - sumX * sumY) / denominator;
+  const logCoefficient = (sumY - exponent * sumX) / n;
+
+  const meanY = sumY / n;
+  let totalSquares = 0, residualSquares = 0;
+  for (const p of logs) {
+    totalSquares += (p.y - meanY) ** 2;
+    residualSquares += (p.y - logCoefficient - exponent * p.x) ** 2;
+  }
+
+  return {
+    coefficient: Math.exp(logCoefficient),
+    exponent,
+    rSquared: totalSquares > 0 ? 1 - residualSquares / totalSquares : 1,
+    samples: n,
+  };
+}
+
+export function fairPrice(model: FairValueModel, totalTP: number): number {
+  return model.coefficient * totalTP ** model.exponent;
+}
+
+/** Price against TP earned in a window, fitted separately for each position */
+export function fitFairValueModels(
+  players: Player[],
+  stats: Map<string, PlayerWindowStats>
+): FairValueModel[] {
+  const pointsByPosition = new Map<string, { x: number; y: number }[]>();
+  for (const player of players) {
+    const s = stats.get(player.id);
+    if (!player.position || !s?.latestPrice || s.totalTP <= 0) continue;
+
+    const points = pointsByPosition.get(player.position) || [];
+    points.push({ x: s.totalTP, y: s.latestPrice });
+    pointsByPosition.set(player.position, points);
+  }
+
+  return [...pointsByPosition.entries()].flatMap(([position, points]) => {
+    if (points.length < MIN_SAMPLES) return [];
+    const fit = fitPowerRegression(points);
+    return fit ? [{ position, ...fit }] : [];
+  });
+}
+
+/**
+ * Fair price and residual of each player with TP and a price, under their
+ * position's fit. Fits `stats` itself unless given models.
+ */
+export function getFairValues(
+  players: Player[],
+  stats: Map<string, PlayerWindowStats>,
+  models: FairValueModel[] = fitFairValueModels(players, stats)
+): Map<string, PlayerFairValue> {
+  const modelByPosition = new Map(models.map((m) => [m.position, m]));
+  const values = new Map<string, PlayerFairValue>();
+
+  for (const player of players) {
+    const s = stats.get(player.id);
+    const model = player.position ? modelByPosition.get(player.position) : undefined;
+    if (!model || !s?.latestPrice || s.totalTP <= 0) continue;
+
+    const fair = fairPrice(model, s.totalTP);
+    if (!isFinite(fair) || fair <= 0) continue;
+
+    values.set(player.id, {
+      totalTP: s.totalTP,
+      price: s.latestPrice,
+      fairPrice: fair,
+      residual: (s.latestPrice / fair - 1) * 100,
+    });
+  }
+
+  return values;
+}
@@ -0,0 +1,91 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchAllPages, getPlayers, getPlayerStats, TIME_FILTERS } from "@/lib/data";
+import { fitFairValueModels, getFairValues } from "@/lib/fair-value-model";
+import { FairValuePoint, TimeFilter } from "@/types";
+
+/**
+ * Fit each player_stats window and store the day's models and fair values.
+ * The refresh-fair-values cron runs this hourly on the stats the price cron
+ * refreshes. Returns the number of fair values written.
+ */
+export async function refreshFairValues(
+  supabase: SupabaseClient,
+  date = new Date().toISOString().slice(0, 10)
+): Promise<number> {
+  const players = await getPlayers(supabase);
+  let written = 0;
+
+  for (const { value: window } of TIME_FILTERS) {
+    const stats = await getPlayerStats(supabase, window);
+    const models = fitFairValueModels(players, stats);
+    const values = getFairValues(players, stats, models);
+
+    if (models.length > 0) {
+      const { error } = await supabase.from("fair_value_models").upsert(
+        models.map((m) => ({
+          model_date: date,
+          time_window: window,
+          position: m.position,
+          coefficient: m.coefficient,
+          exponent: m.exponent,
+          r_squared: m.rSquared,
+          sample_count: m.samples,
+          fitted_at: new Date().toISOString(),
+        }))
+      );
+      if (error) {
+        throw new Error(`Failed to save fair value models: ${error.message}`);
+      }
+    }
+
+    if (values.size > 0) {
+      const { error } = await supabase.from("player_fair_values").upsert(
+        [...values.entries()].map(([playerId, v]) => ({
+          player_id: playerId,
+          value_date: date,
+          time_window: window,
+          total_tp: v.totalTP,
+          price_usd: v.price,
+          fair_price_usd: v.fairPrice,
+          residual_pct: v.residual,
+        }))
+      );
+      if (error) {
+        throw new Error(`Failed to save fair values: ${error.message}`);
+      }
+    }
+
+    written += values.size;
+  }
+
+  return written;
+}
+
+/** A player's stored fair values, oldest first */
+export async function getFairValueHistory(
+  supabase: SupabaseClient,
+  playerId: string,
+  window: TimeFilter = "all"
+): Promise<FairValuePoint[]> {
+  const rows = await fetchAllPages<{
+    value_date: string;
+    price_usd: number;
+    fair_price_usd: number;
+    residual_pct: number;
+  }>("fair values", (from, to) =>
+    supabase
+      .from("player_fair_values")
+      .select("value_date, price_usd, fair_price_usd, residual_pct")
+      .eq("player_id", playerId)
+      .eq("time_window", window)
+      .order("value_date")
+      .range(from, to)
+  );
+
+  return rows.map((r) => ({
+    date: r.value_date,
+    price: r.price_usd,
+    fairPrice: r.fair_price_usd,
+    residual: r.residual_pct,
+  }));
+}
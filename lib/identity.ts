@@ -0,0 +1,332 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchAllPages } from "@/lib/data";
+import { levenshteinDistance, normalizeName } from "@/lib/utils";
+import {
+  IdentityCandidate,
+  IdentityResolution,
+  IdentityReviewItem,
+  IdentitySource,
+} from "@/types";
+
+interface IndexedPlayer {
+  id: string;
+  display_name: string;
+  normalized: string;
+  parts: string[];
+}
+
+interface IndexedAlias {
+  player_id: string;
+  source: string;
+  confidence: number;
+}
+
+export interface IdentityIndex {
+  players: IndexedPlayer[];
+  byName: Map<string, IndexedPlayer[]>;
+  aliases: Map<string, IndexedAlias[]>;
+}
+
+// A fuzzy match is only accepted when it is strong and clearly ahead of the
+// runner-up; anything weaker goes to the review queue
+const AUTO_MATCH_SCORE = 0.8;
+const AUTO_MATCH_MARGIN = 0.15;
+const MIN_CANDIDATE_SCORE = 0.4;
+const MAX_CANDIDATES = 5;
+
+export function buildIdentityIndex(
+  players: { id: string; display_name: string }[],
+  aliases: { normalized_alias: string; source: string; player_id: string; confidence: number }[]
+): IdentityIndex {
+  const indexed = players.map((p) => {
+    const normalized = normalizeName(p.display_name);
+    return { id: p.id, display_name: p.display_name, normalized, parts: normalized.split(" ") };
+  });
+
+  const byName = new Map<string, IndexedPlayer[]>();
+  indexed.forEach((p) => byName.set(p.normalized, [...(byName.get(p.normalized) || []), p]));
+
+  const aliasMap = new Map<string, IndexedAlias[]>();
+  aliases.forEach((a) => {
+    aliasMap.set(a.normalized_alias, [
+      ...(aliasMap.get(a.normalized_alias) || []),
+      { player_id: a.player_id, source: a.source, confidence: Number(a.confidence) },
+    ]);
+  });
+
+  return { players: indexed, byName, aliases: aliasMap };
+}
+
+export async function loadIdentityIndex(supabase: SupabaseClient): Promise<IdentityIndex> {
+  const [players, aliases] = await Promise.all([
+    fetchAllPages<{ id: string; display_name: string }>("players", (from, to) =>
+      supabase.from("players").select("id, display_name").order("id").range(from, to)
+    ),
+    fetchAllPages<{
+      normalized_alias: string;
+      source: string;
+      player_id: string;
+      confidence: number;
+    }>("player aliases", (from, to) =>
+      supabase
+        .from("player_aliases")
+        .select("normalized_alias, source, player_id, confidence")
+        .order("id")
+        .range(from, to)
+    ),
+  ]);
+
+  return buildIdentityIndex(players, aliases);
+}
+
+function scoreCandidate(
+  target: string,
+  targetParts: string[],
+  player: IndexedPlayer
+): { score: number; reason: string } | null {
+  // Short names get less typo room ("rodri" vs "pedri" is distance 2)
+  const maxDistance = target.length >= 8 ? 2 : 1;
+  const distance = levenshteinDistance(target, player.normalized);
+  if (distance <= maxDistance) {
+    return { score: 0.95 - distance * 0.05, reason: `Edit distance ${distance}` };
+  }
+
+  const [shorter, longer] =
+    targetParts.length <= player.parts.length
+      ? [targetParts, player.parts]
+      : [player.parts, targetParts];
+
+  // "Lamine Yamal" vs "Lamine Yamal Nasraoui Ebana"
+  if (shorter.every((part) => longer.includes(part))) {
+    return { score: 0.8, reason: "All name parts match" };
+  }
+
+  if (shorter.every((part) => longer.some((l) => l.startsWith(part) || part.startsWith(l)))) {
+    return { score: 0.7, reason: "Name parts match as prefixes" };
+  }
+
+  const shared = shorter.filter((part) => longer.includes(part)).length;
+  if (shared > 0) {
+    return {
+      score: Math.min(0.3 + 0.1 * shared, 0.6),
+      reason: `${shared} shared name part${shared > 1 ? "s" : ""}`,
+    };
+  }
+
+  return null;
+}
+
+function fuzzyCandidates(index: IdentityIndex, normalized: string): IdentityCandidate[] {
+  const parts = normalized.split(" ");
+  const candidates: IdentityCandidate[] = [];
+  for (const player of index.players) {
+    const scored = scoreCandidate(normalized, parts, player);
+    if (scored && scored.score >= MIN_CANDIDATE_SCORE) {
+      candidates.push({ player_id: player.id, display_name: player.display_name, ...scored });
+    }
+  }
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Resolve an external name to a player.
+ *
+ * Order: alias for this source, alias from any source, exact normalized
+ * display name, then scored fuzzy candidates. Ties and weak matches come
+ * back as "ambiguous" with their candidates instead of picking one.
+ */
+export function resolvePlayerIdentity(
+  index: IdentityIndex,
+  name: string,
+  source: IdentitySource
+): IdentityResolution {
+  const normalized = normalizeName(name);
+  const playerNames = new Map(index.players.map((p) => [p.id, p.display_name]));
+
+  const aliases = index.aliases.get(normalized) || [];
+  const sourceAliases = aliases.filter((a) => a.source === source);
+  const aliasHits = sourceAliases.length > 0 ? sourceAliases : aliases;
+  const aliasPlayers = [...new Set(aliasHits.map((a) => a.player_id))];
+
+  if (aliasPlayers.length === 1) {
+    return {
+      status: "matched",
+      playerId: aliasPlayers[0],
+      confidence: Math.max(...aliasHits.map((a) => a.confidence)),
+      method: "alias",
+    };
+  }
+  if (aliasPlayers.length > 1) {
+    return {
+      status: "ambiguous",
+      candidates: aliasHits.map((a) => ({
+        player_id: a.player_id,
+        display_name: playerNames.get(a.player_id) || a.player_id,
+        score: a.confidence,
+        reason: `Alias from ${a.source}`,
+      })),
+    };
+  }
+
+  const exact = index.byName.get(normalized) || [];
+  if (exact.length === 1) {
+    return { status: "matched", playerId: exact[0].id, confidence: 1, method: "exact" };
+  }
+  if (exact.length > 1) {
+    return {
+      status: "ambiguous",
+      candidates: exact.map((p) => ({
+        player_id: p.id,
+        display_name: p.display_name,
+        score: 1,
+        reason: "Duplicate display name",
+      })),
+    };
+  }
+
+  const candidates = fuzzyCandidates(index, normalized);
+  if (candidates.length === 0) {
+    return { status: "unmatched" };
+  }
+
+  const [best, runnerUp] = candidates;
+  if (
+    best.score >= AUTO_MATCH_SCORE &&
+    (!runnerUp || best.score - runnerUp.score >= AUTO_MATCH_MARGIN)
+  ) {
+    return { status: "matched", playerId: best.player_id, confidence: best.score, method: "fuzzy" };
+  }
+
+  return { status: "ambiguous", candidates: candidates.slice(0, MAX_CANDIDATES) };
+}
+
+/**
+ * Resolve a name for an import that writes rows to the matched player.
+ *
+ * Same as resolvePlayerIdentity, except a fuzzy match comes back as
+ * "ambiguous" so it goes to the review queue: "Silva" resembling "Bernardo
+ * Silva" isn't enough to write someone's results to him. Once the match is
+ * confirmed it's stored as an alias and resolves on its own.
+ */
+export function resolveImportIdentity(
+  index: IdentityIndex,
+  name: string,
+  source: IdentitySource
+): IdentityResolution {
+  const resolution = resolvePlayerIdentity(index, name, source);
+  if (resolution.status !== "matched" || resolution.method !== "fuzzy") {
+    return resolution;
+  }
+  return {
+    status: "ambiguous",
+    candidates: fuzzyCandidates(index, normalizeName(name)).slice(0, MAX_CANDIDATES),
+  };
+}
+
+export async function recordPlayerAlias(
+  supabase: SupabaseClient,
+  alias: { alias: string; source: IdentitySource; playerId: string; confidence?: number }
+): Promise<void> {
+  const { error } = await supabase.from("player_aliases").upsert(
+    {
+      alias: alias.alias,
+      normalized_alias: normalizeName(alias.alias),
+      source: alias.source,
+      player_id: alias.playerId,
+      confidence: alias.confidence ?? 1,
+    },
+    { onConflict: "normalized_alias,source" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to record alias "${alias.alias}": ${error.message}`);
+  }
+}
+
+/**
+ * Queue names that could not be resolved for an admin to link by hand.
+ * Names already queued (pending, resolved or dismissed) are left alone.
+ */
+export async function enqueueIdentityReviews(
+  supabase: SupabaseClient,
+  items: {
+    alias: string;
+    source: IdentitySource;
+    candidates: IdentityCandidate[];
+    context?: Record<string, string | null>;
+  }[]
+): Promise<void> {
+  if (items.length === 0) return;
+
+  const { error } = await supabase.from("identity_review_queue").upsert(
+    items.map((item) => ({
+      alias: item.alias,
+      normalized_alias: normalizeName(item.alias),
+      source: item.source,
+      candidates: item.candidates,
+      context: item.context || null,
+    })),
+    { onConflict: "normalized_alias,source", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw new Error(`Failed to queue identity reviews: ${error.message}`);
+  }
+}
+
+export async function getPendingIdentityReviews(
+  supabase: SupabaseClient
+): Promise<IdentityReviewItem[]> {
+  const { data, error } = await supabase
+    .from("identity_review_queue")
+    .select("*")
+    .eq("status", "pending")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch identity reviews: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Close a review item. Linking records a confirmed alias so the same name
+ * resolves automatically next time.
+ */
+export async function resolveIdentityReview(
+  supabase: SupabaseClient,
+  reviewId: string,
+  playerId: string | null
+): Promise<void> {
+  const { data: item, error } = await supabase
+    .from("identity_review_queue")
+    .select("*")
+    .eq("id", reviewId)
+    .single();
+
+  if (error || !item) {
+    throw new Error(`Review item ${reviewId} not found`);
+  }
+
+  if (playerId) {
+    await recordPlayerAlias(supabase, {
+      alias: item.alias,
+      source: item.source,
+      playerId,
+    });
+  }
+
+  const { error: updateError } = await supabase
+    .from("identity_review_queue")
+    .update({
+      status: playerId ? "resolved" : "dismissed",
+      resolved_player_id: playerId,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq("id", reviewId);
+
+  if (updateError) {
+    throw new Error(`Failed to update review item: ${updateError.message}`);
+  }
+}
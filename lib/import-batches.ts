@@ -0,0 +1,66 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ImportBatch, ImportBatchInfo, ImportRollbackResult } from "@/types";
+
+// Raised when the database refuses a rollback (already rolled back, or a
+// later batch touched the same rows)
+export class ImportRollbackError extends Error {}
+
+/**
+ * Open a batch for scripts that write players directly. Any write that sets
+ * import_batch_id to the returned id is recorded and can be rolled back.
+ * Performance imports open their batch inside the import_performance RPC.
+ */
+export async function createImportBatch(
+  supabase: SupabaseClient,
+  batch: ImportBatchInfo
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("import_batches")
+    .insert({ source: batch.source, file_name: batch.fileName, created_by: batch.createdBy })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create import batch: ${error?.message}`);
+  }
+
+  return data.id;
+}
+
+export async function listImportBatches(
+  supabase: SupabaseClient,
+  limit = 50
+): Promise<ImportBatch[]> {
+  const { data, error } = await supabase
+    .from("import_batch_summaries")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch import batches: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function rollbackImportBatch(
+  supabase: SupabaseClient,
+  batchId: string,
+  rolledBackBy: string | null
+): Promise<ImportRollbackResult> {
+  const { data, error } = await supabase.rpc("rollback_import_batch", {
+    p_batch_id: batchId,
+    p_rolled_back_by: rolledBackBy,
+  });
+
+  if (error) {
+    // P0001 is RAISE EXCEPTION inside rollback_import_batch
+    if (error.code === "P0001") {
+      throw new ImportRollbackError(error.message);
+    }
+    throw new Error(`Rollback failed: ${error.message}`);
+  }
+
+  return data as ImportRollbackResult;
+}
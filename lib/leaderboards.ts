@@ -0,0 +1,135 @@
+import { tpPer100 } from "@/lib/utils";
+import {
+  Player,
+  PlayerFairValue,
+  PlayerTPData,
+  PlayerVolatility,
+  PlayerWindowStats,
+  PriceVolatility,
+  TeamData,
+  UndervaluedPlayer,
+  UndervaluedRanking,
+} from "@/types";
+
+export function getTPLeaderboard(
+  players: Player[],
+  windowStats: Map<string, PlayerWindowStats>
+): PlayerTPData[] {
+  return players
+    .map((player) => {
+      const stats = windowStats.get(player.id);
+
+      return {
+        id: player.id,
+        name: player.display_name,
+        team: player.team_name || "Unknown",
+        position: player.position || "Unknown",
+        totalTP: stats?.totalTP || 0,
+        gamesPlayed: stats?.gamesPlayed || 0,
+        tpGames: stats?.tpGames || 0,
+        price: stats?.latestPrice || 0,
+        activeShares: player.active_shares || 0,
+      };
+    })
+    .filter((p) => p.totalTP > 0)
+    .sort((a, b) => b.totalTP - a.totalTP);
+}
+
+/**
+ * Leaderboard players with a price and shares, by TP per $100 or, with
+ * fair values, by residual (only players with a fair value).
+ */
+export function getUndervaluedPlayers(
+  leaderboard: PlayerTPData[],
+  fairValues: Map<string, PlayerFairValue> = new Map(),
+  by: UndervaluedRanking = "tp-per-100"
+): UndervaluedPlayer[] {
+  const players = leaderboard
+    .filter((p) => p.price > 0 && p.activeShares > 0)
+    .map((p) => ({
+      ...p,
+      tpPer100: tpPer100(p.totalTP, p.activeShares * p.price)!,
+      fairPrice: fairValues.get(p.id)?.fairPrice ?? null,
+      residual: fairValues.get(p.id)?.residual ?? null,
+    }));
+
+  if (by === "fair-value") {
+    return players
+      .filter((p) => p.residual !== null)
+      .sort((a, b) => a.residual! - b.residual!);
+  }
+  return players.sort((a, b) => b.tpPer100 - a.tpPer100);
+}
+
+export function getVolatilityRankings(
+  players: Player[],
+  volatility: Map<string, PriceVolatility>
+): PlayerVolatility[] {
+  const volatilityData: PlayerVolatility[] = [];
+
+  for (const player of players) {
+    const v = volatility.get(player.id);
+    if (!v || v.samples < 2) continue;
+
+    volatilityData.push({
+      id: player.id,
+      name: player.display_name,
+      team: player.team_name || "Unknown",
+      position: player.position || "Unknown",
+      price: v.lastPrice,
+      volatility: (v.stddev / v.meanPrice) * 100,
+      priceChange: ((v.lastPrice - v.firstPrice) / v.firstPrice) * 100,
+    });
+  }
+
+  return volatilityData.sort((a, b) => b.volatility - a.volatility);
+}
+
+/**
+ * Team totals for a window; tpPer100 is TP per $100 of the team's priced
+ * tokens, so players without a price count in neither half
+ */
+export function getTeamData(
+  players: Player[],
+  windowStats: Map<string, PlayerWindowStats>
+): TeamData[] {
+  const teamData = new Map<string, TeamData>();
+  const pricedTP = new Map<string, number>();
+
+  for (const player of players) {
+    if (!player.team_name) continue;
+
+    let team = teamData.get(player.team_name);
+    if (!team) {
+      team = {
+        team: player.team_name,
+        totalTP: 0,
+        totalMarketCap: 0,
+        totalCirculatingShares: 0,
+        totalActiveMarketCap: 0,
+        playerCount: 0,
+        tpPer100: 0,
+      };
+      teamData.set(player.team_name, team);
+    }
+
+    const stats = windowStats.get(player.id);
+    team.totalTP += stats?.totalTP || 0;
+    team.totalMarketCap += stats?.marketCap || 0;
+    team.totalCirculatingShares += player.circulating_shares || 0;
+    team.totalActiveMarketCap += stats?.activeMarketCap || 0;
+    team.playerCount++;
+
+    // TP per $100 only counts TP from players whose tokens are in the cap
+    if (stats?.activeMarketCap) {
+      pricedTP.set(team.team, (pricedTP.get(team.team) || 0) + stats.totalTP);
+    }
+  }
+
+  return [...teamData.values()]
+    .map((t) => ({
+      ...t,
+      tpPer100: tpPer100(pricedTP.get(t.team) || 0, t.totalActiveMarketCap) ?? 0,
+    }))
+    .sort((a, b) => b.totalTP - a.totalTP);
+}
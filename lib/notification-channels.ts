@@ -0,0 +1,195 @@
+import { promises as dns } from "dns";
+import { promises as fs } from "fs";
+import path from "path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isPrivateAddress, webhookUrlError } from "@/lib/notifications";
+import { NotificationChannelName, NotificationSettings, UserNotification } from "@/types";
+
+/** Deliveries still failing after this many tries are given up on */
+const MAX_DELIVERY_ATTEMPTS = 3;
+
+/**
+ * Also how long before its deadline deliverPendingNotifications stops
+ * starting deliveries, so a slow webhook can't run the
+ * deliver-notifications cron past its time budget.
+ */
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * A way out for notifications besides the in-app bell, which reads the
+ * notifications table directly.
+ */
+export interface NotificationChannel {
+  name: Exclude<NotificationChannelName, "in_app">;
+  send(notification: UserNotification, settings: NotificationSettings): Promise<void>;
+}
+
+/**
+ * POSTs the notification as JSON to the user's webhook URL. Settings are
+ * written straight to the table, so the URL is checked again here, along
+ * with every address its host resolves to.
+ */
+export function createWebhookChannel(
+  lookup: (host: string) => Promise<string[]> = async (host) =>
+    (await dns.lookup(host, { all: true })).map((a) => a.address)
+): NotificationChannel {
+  return {
+    name: "webhook",
+    async send(notification, settings) {
+      if (!settings.webhook_url) {
+        throw new Error("No webhook URL set");
+      }
+
+      const urlError = webhookUrlError(settings.webhook_url);
+      if (urlError) {
+        throw new Error(urlError);
+      }
+      const host = new URL(settings.webhook_url).hostname.replace(/^\[|\]$/g, "");
+      if ((await lookup(host)).some(isPrivateAddress)) {
+        throw new Error("Webhook URL resolves to a private or local address");
+      }
+
+      const response = await fetch(settings.webhook_url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        // A redirect could send the request on to a private address
+        redirect: "error",
+        body: JSON.stringify({
+          title: notification.title,
+          body: notification.body,
+          player_id: notification.player_id,
+          created_at: notification.created_at,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Webhook returned ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Stands in for an SMTP sender until we have one: writes each message as
+ * an .eml file under `outboxDir`.
+ */
+export function createSmtpStandInChannel(outboxDir: string): NotificationChannel {
+  return {
+    name: "email",
+    async send(notification, settings) {
+      if (!settings.email) {
+        throw new Error("No email address set");
+      }
+
+      const message = [
+        `To: ${settings.email}`,
+        `Subject: ${notification.title}`,
+        `Date: ${new Date(notification.created_at).toUTCString()}`,
+        "Content-Type: text/plain; charset=utf-8",
+        "",
+        notification.body,
+        "",
+      ].join("\r\n");
+
+      await fs.mkdir(outboxDir, { recursive: true });
+      await fs.writeFile(path.join(outboxDir, `${notification.id}.eml`), message);
+    },
+  };
+}
+
+/**
+ * Email goes out only when EMAIL_OUTBOX_DIR is set. Without it email
+ * deliveries fail with "No email channel configured" rather than sending
+ * nothing.
+ */
+export function defaultNotificationChannels(): NotificationChannel[] {
+  const outboxDir = process.env.EMAIL_OUTBOX_DIR;
+  return [createWebhookChannel(), ...(outboxDir ? [createSmtpStandInChannel(outboxDir)] : [])];
+}
+
+/**
+ * Work through the pending outbox rows. A failed delivery stays pending
+ * for the next run until it has been tried MAX_DELIVERY_ATTEMPTS times.
+ * No delivery is started that a slow webhook could keep running past
+ * `deadline` (ms since the epoch); those wait for the next run untried.
+ * Returns how many were sent.
+ */
+export async function deliverPendingNotifications(
+  supabase: SupabaseClient,
+  channels: NotificationChannel[],
+  deadline = Infinity
+): Promise<number> {
+  const { data: deliveries, error } = await supabase
+    .from("notification_deliveries")
+    .select(
+      "notification_id, channel, attempts, notifications(id, user_id, rule_id, player_id, title, body, read_at, created_at)"
+    )
+    .eq("status", "pending")
+    .limit(100);
+
+  if (error) {
+    throw new Error(`Failed to fetch pending deliveries: ${error.message}`);
+  }
+  if (!deliveries || deliveries.length === 0) return 0;
+
+  const rows = deliveries as unknown as {
+    notification_id: string;
+    channel: NotificationChannel["name"];
+    attempts: number;
+    notifications: UserNotification & { user_id: string };
+  }[];
+
+  const userIds = [...new Set(rows.map((d) => d.notifications.user_id))];
+  const { data: settingsRows, error: settingsError } = await supabase
+    .from("notification_settings")
+    .select("user_id, webhook_url, email")
+    .in("user_id", userIds);
+
+  if (settingsError) {
+    throw new Error(`Failed to fetch notification settings: ${settingsError.message}`);
+  }
+
+  const settings = new Map((settingsRows || []).map((s) => [s.user_id, s]));
+  let sent = 0;
+
+  for (const delivery of rows) {
+    if (Date.now() + WEBHOOK_TIMEOUT_MS > deadline) break;
+
+    const channel = channels.find((c) => c.name === delivery.channel);
+    const attempts = delivery.attempts + 1;
+    let update: Record<string, unknown>;
+
+    try {
+      if (!channel) {
+        throw new Error(`No ${delivery.channel} channel configured`);
+      }
+      await channel.send(
+        delivery.notifications,
+        settings.get(delivery.notifications.user_id) || { webhook_url: null, email: null }
+      );
+      update = { status: "sent", attempts, last_error: null, sent_at: new Date().toISOString() };
+      sent++;
+    } catch (err) {
+      update = {
+        status: attempts >= MAX_DELIVERY_ATTEMPTS ? "failed" : "pending",
+        attempts,
+        last_error: err instanceof Error ? err.message : "Unknown error",
+      };
+    }
+
+    const { error: updateError } = await supabase
+      .from("notification_deliveries")
+      .update(update)
+      .eq("notification_id", delivery.notification_id)
+      .eq("channel", delivery.channel);
+
+    if (updateError) {
+      console.error(
+        `Failed to record delivery of ${delivery.notification_id}: ${updateError.message}`
+      );
+    }
+  }
+
+  return sent;
+}
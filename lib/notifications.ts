@@ -0,0 +1,142 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { NotificationSettings, UserNotification } from "@/types";
+
+/** The signed-in user's latest notifications, newest first */
+export async function getNotifications(
+  supabase: SupabaseClient,
+  limit = 20
+): Promise<UserNotification[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("id, rule_id, player_id, title, body, read_at, created_at")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch notifications: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function markNotificationsRead(
+  supabase: SupabaseClient,
+  ids: string[]
+): Promise<void> {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .in("id", ids);
+
+  if (error) {
+    throw new Error(`Failed to mark notifications read: ${error.message}`);
+  }
+}
+
+export async function getNotificationSettings(
+  supabase: SupabaseClient
+): Promise<NotificationSettings> {
+  const { data, error } = await supabase
+    .from("notification_settings")
+    .select("webhook_url, email")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch notification settings: ${error.message}`);
+  }
+
+  return data || { webhook_url: null, email: null };
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * on the public internet. Takes the bracket-less form of IPv6 addresses.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase();
+
+  // IPv4-mapped IPv6, written either way
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join("."));
+  }
+
+  const octets = ip.split(".");
+  if (octets.length === 4 && octets.every((o) => /^\d{1,3}$/.test(o))) {
+    const [a, b] = octets.map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+
+  if (ip.includes(":")) {
+    return (
+      ip === "::" ||
+      ip === "::1" ||
+      /^f[cd][0-9a-f]{0,2}:/.test(ip) ||
+      /^fe[89ab][0-9a-f]?:/.test(ip)
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Why a webhook URL can't be used, or null if it can: it must be https and
+ * must not point at this machine or a private network.
+ */
+export function webhookUrlError(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Webhook URL is not a valid URL";
+  }
+
+  if (url.protocol !== "https:") {
+    return "Webhook URL must use https";
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".local") ||
+    host.endsWith(".internal") ||
+    isPrivateAddress(host)
+  ) {
+    return "Webhook URL must not point at a private or local address";
+  }
+
+  return null;
+}
+
+export async function saveNotificationSettings(
+  supabase: SupabaseClient,
+  settings: NotificationSettings
+): Promise<void> {
+  const urlError = settings.webhook_url ? webhookUrlError(settings.webhook_url) : null;
+  if (urlError) {
+    throw new Error(urlError);
+  }
+
+  const { error } = await supabase
+    .from("notification_settings")
+    .upsert({ ...settings, updated_at: new Date().toISOString() }, { onConflict: "user_id" });
+
+  if (error) {
+    throw new Error(`Failed to save notification settings: ${error.message}`);
+  }
+}
@@ -0,0 +1,185 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { recordPlayerAlias } from "@/lib/identity";
+import { IdentityCandidate, PendingToken, TeneroToken } from "@/types";
+
+/**
+ * Upsert tokens the cron couldn't link. Status is left alone on conflict so
+ * ignored tokens stay ignored; the name, price and match suggestions are
+ * refreshed every run.
+ */
+export async function recordPendingTokens(
+  supabase: SupabaseClient,
+  items: { token: TeneroToken; candidates: IdentityCandidate[] }[]
+): Promise<void> {
+  if (items.length === 0) return;
+
+  const now = new Date().toISOString();
+  const { error } = await supabase.from("pending_tokens").upsert(
+    items.map(({ token, candidates }) => ({
+      token_address: token.address,
+      token_symbol: token.symbol,
+      token_name: token.name,
+      last_price_usd: token.price_usd,
+      candidates,
+      last_seen_at: now,
+    })),
+    { onConflict: "token_address" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to record pending tokens: ${error.message}`);
+  }
+}
+
+/**
+ * Close pending rows for tokens that got linked some other way (the cron
+ * resolving them after an alias was added, or a script).
+ */
+export async function markPendingTokensLinked(
+  supabase: SupabaseClient,
+  links: { address: string; playerId: string }[]
+): Promise<void> {
+  for (const link of links) {
+    const { error } = await supabase
+      .from("pending_tokens")
+      .update({
+        status: "linked",
+        player_id: link.playerId,
+        resolved_at: new Date().toISOString(),
+        resolved_by: "cron",
+      })
+      .eq("token_address", link.address)
+      .eq("status", "pending");
+
+    if (error) {
+      throw new Error(`Failed to close pending token ${link.address}: ${error.message}`);
+    }
+  }
+}
+
+export async function getPendingTokens(supabase: SupabaseClient): Promise<PendingToken[]> {
+  const { data, error } = await supabase
+    .from("pending_tokens")
+    .select("*")
+    .eq("status", "pending")
+    .order("first_seen_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch pending tokens: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+async function getPendingToken(supabase: SupabaseClient, id: string): Promise<PendingToken> {
+  const { data, error } = await supabase.from("pending_tokens").select("*").eq("id", id).single();
+
+  if (error || !data) {
+    throw new Error(`Pending token ${id} not found`);
+  }
+  if (data.status !== "pending") {
+    throw new Error(`${data.token_name} was already ${data.status}`);
+  }
+
+  return data;
+}
+
+async function closePendingToken(
+  supabase: SupabaseClient,
+  id: string,
+  status: "linked" | "created" | "ignored",
+  playerId: string | null,
+  resolvedBy: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("pending_tokens")
+    .update({
+      status,
+      player_id: playerId,
+      resolved_at: new Date().toISOString(),
+      resolved_by: resolvedBy,
+    })
+    .eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to update pending token: ${error.message}`);
+  }
+}
+
+/**
+ * Attach a pending token to an existing player that has no token yet, and
+ * remember the token name as a Tenero alias for that player.
+ */
+export async function linkPendingToken(
+  supabase: SupabaseClient,
+  id: string,
+  playerId: string,
+  resolvedBy: string
+): Promise<void> {
+  const pending = await getPendingToken(supabase, id);
+
+  const { data: linked, error } = await supabase
+    .from("players")
+    .update({ token_address: pending.token_address, token_symbol: pending.token_symbol })
+    .eq("id", playerId)
+    .is("token_address", null)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to link token: ${error.message}`);
+  }
+  if (!linked || linked.length === 0) {
+    throw new Error("That player already has a token");
+  }
+
+  await recordPlayerAlias(supabase, { alias: pending.token_name, source: "tenero", playerId });
+  await closePendingToken(supabase, id, "linked", playerId, resolvedBy);
+}
+
+/**
+ * Create a new player for a pending token. Returns the new player's id.
+ */
+export async function createPlayerFromPendingToken(
+  supabase: SupabaseClient,
+  id: string,
+  player: { display_name: string; team_name: string | null; position: string | null },
+  resolvedBy: string
+): Promise<string> {
+  const pending = await getPendingToken(supabase, id);
+
+  const { data: created, error } = await supabase
+    .from("players")
+    .insert({
+      display_name: player.display_name,
+      team_name: player.team_name,
+      position: player.position,
+      token_address: pending.token_address,
+      token_symbol: pending.token_symbol,
+    })
+    .select("id")
+    .single();
+
+  if (error || !created) {
+    throw new Error(`Failed to create player: ${error?.message}`);
+  }
+
+  if (player.display_name !== pending.token_name) {
+    await recordPlayerAlias(supabase, {
+      alias: pending.token_name,
+      source: "tenero",
+      playerId: created.id,
+    });
+  }
+  await closePendingToken(supabase, id, "created", created.id, resolvedBy);
+
+  return created.id;
+}
+
+export async function ignorePendingToken(
+  supabase: SupabaseClient,
+  id: string,
+  resolvedBy: string
+): Promise<void> {
+  await getPendingToken(supabase, id);
+  await closePendingToken(supabase, id, "ignored", null, resolvedBy);
+}
@@ -0,0 +1,480 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createHash } from "crypto";
+import * as XLSX from "xlsx";
+import { fetchAllPages } from "@/lib/data";
+import { normalizeName } from "@/lib/utils";
+import { enqueueIdentityReviews, loadIdentityIndex, resolveImportIdentity } from "@/lib/identity";
+import {
+  AmbiguousPlayer,
+  IdentityResolution,
+  IdentitySource,
+  ImportBatchInfo,
+  ImportRowIssue,
+  NewPlayer,
+  ParsedRow,
+  PerformanceDiffRow,
+  PerformanceField,
+  PerformanceImportDiff,
+  PerformanceImportReport,
+  PerformanceValues,
+  PlayerMatch,
+} from "@/types";
+
+type Metric = "raw score" | "ranking" | "reward";
+
+const METRICS: Metric[] = ["raw score", "ranking", "reward"];
+
+export class PerformanceImportError extends Error {}
+
+/**
+ * Convert a date header (M/D/YYYY, M/D/YY or YYYY-MM-DD) to YYYY-MM-DD
+ */
+export function parseMatchDate(value: string): string | null {
+  const trimmed = value.trim();
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    const [, year, month, day] = iso;
+    return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  }
+
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (us) {
+    const [, month, day, rawYear] = us;
+    const year = rawYear.length === 2 ? `20${rawYear}` : rawYear;
+    return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  }
+
+  return null;
+}
+
+/**
+ * Read the first sheet of a CSV or XLSX file into a grid of strings
+ */
+export function readSheetRows(buffer: Buffer): string[][] {
+  // raw: true keeps CSV cells as typed (no date/number reformatting)
+  const workbook = XLSX.read(buffer, { type: "buffer", raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new PerformanceImportError("File contains no sheets");
+  }
+
+  const data: unknown[][] = XLSX.utils.sheet_to_json(sheet, {
+    header: 1,
+    raw: false,
+    defval: "",
+  });
+  return data.map((row) => row.map((cell) => String(cell ?? "").trim()));
+}
+
+/**
+ * Parse the pivoted "Raw Score / Ranking / Reward" layout.
+ *
+ * Each player occupies three rows: the first carries name, team and position,
+ * and every row carries a metric label followed by one value per date column.
+ * The header row is the first row containing date columns; in the workbook
+ * export it is preceded by a "Day of Start Date" label row.
+ */
+export function parsePerformanceSheet(data: string[][]): {
+  rows: ParsedRow[];
+  issues: ImportRowIssue[];
+} {
+  const headerIdx = data.findIndex((row) => row.some((cell) => parseMatchDate(cell)));
+  if (headerIdx === -1) {
+    throw new PerformanceImportError("No date columns found in header row");
+  }
+
+  const headers = data[headerIdx].map((h) => h.toLowerCase());
+  const nameIdx = Math.max(
+    headers.findIndex((h) => h.includes("display") || h.includes("name")),
+    0
+  );
+  const teamIdx = headers.findIndex((h) => h.includes("team"));
+  const positionIdx = headers.findIndex((h) => h.includes("position"));
+
+  const dateColumns: { index: number; date: string }[] = [];
+  data[headerIdx].forEach((header, index) => {
+    const date = parseMatchDate(header);
+    if (date) dateColumns.push({ index, date });
+  });
+
+  const rows: ParsedRow[] = [];
+  const issues: ImportRowIssue[] = [];
+  const rowByKey = new Map<string, ParsedRow>();
+  const seenPlayers = new Set<string>();
+
+  let currentPlayer: { name: string; team: string; position: string } | null = null;
+  let duplicatePlayer = false;
+
+  for (let i = headerIdx + 1; i < data.length; i++) {
+    const values = data[i];
+
+    if (values[nameIdx]) {
+      currentPlayer = {
+        name: values[nameIdx],
+        team: teamIdx >= 0 ? values[teamIdx] || "" : "",
+        position: positionIdx >= 0 ? values[positionIdx] || "" : "",
+      };
+
+      const playerKey = normalizeName(currentPlayer.name);
+      duplicatePlayer = seenPlayers.has(playerKey);
+      seenPlayers.add(playerKey);
+
+      if (duplicatePlayer) {
+        issues.push({
+          display_name: currentPlayer.name,
+          match_date: null,
+          reason: "Player appears more than once in file",
+        });
+      }
+    }
+
+    if (!currentPlayer || duplicatePlayer) continue;
+
+    const metric = values
+      .map((v) => v.toLowerCase())
+      .find((v): v is Metric => METRICS.includes(v as Metric));
+    if (!metric) continue;
+
+    for (const { index, date } of dateColumns) {
+      const raw = values[index];
+      if (!raw) continue;
+
+      const numValue = Number(raw.replace(/,/g, ""));
+      if (!Number.isFinite(numValue)) {
+        issues.push({
+          display_name: currentPlayer.name,
+          match_date: date,
+          reason: `Invalid ${metric} value "${raw}"`,
+        });
+        continue;
+      }
+      // Raw scores can be negative; rankings start at 1 and rewards are never negative
+      if ((metric === "ranking" && numValue < 1) || (metric === "reward" && numValue < 0)) {
+        issues.push({
+          display_name: currentPlayer.name,
+          match_date: date,
+          reason: `Out of range ${metric} value "${raw}"`,
+        });
+        continue;
+      }
+
+      const key = `${currentPlayer.name}|${date}`;
+      let row = rowByKey.get(key);
+      if (!row) {
+        row = {
+          display_name: currentPlayer.name,
+          team_name: currentPlayer.team,
+          position: currentPlayer.position,
+          match_date: date,
+          raw_score: null,
+          ranking: null,
+          reward: null,
+        };
+        rowByKey.set(key, row);
+        rows.push(row);
+      }
+
+      if (metric === "raw score") row.raw_score = Math.round(numValue);
+      if (metric === "ranking") row.ranking = Math.round(numValue);
+      if (metric === "reward") row.reward = Math.round(numValue * 100) / 100;
+    }
+  }
+
+  // A reward with no score or ranking is a DNP placeholder, not a game played
+  return {
+    rows: rows.filter((r) => r.raw_score !== null || r.ranking !== null),
+    issues,
+  };
+}
+
+interface ExistingPerformance {
+  player_id: string;
+  match_date: string;
+  raw_score: number | null;
+  ranking: number | null;
+  reward: number | null;
+}
+
+function sameValue(a: number | null, b: number | null): boolean {
+  if (a === null || b === null) return a === b;
+  return Number(a) === Number(b);
+}
+
+async function fetchExistingPerformance(
+  supabase: SupabaseClient,
+  playerIds: string[],
+  tournamentIds: string[]
+): Promise<Map<string, ExistingPerformance>> {
+  const existing = new Map<string, ExistingPerformance>();
+  if (tournamentIds.length === 0) return existing;
+  // Chunk player ids to keep the PostgREST query string short
+  const chunkSize = 100;
+
+  for (let i = 0; i < playerIds.length; i += chunkSize) {
+    const chunk = playerIds.slice(i, i + chunkSize);
+    // A chunk of players across every file date is well over one page
+    const rows = await fetchAllPages<ExistingPerformance>("existing performance", (from, to) =>
+      supabase
+        .from("performance")
+        .select("player_id, match_date, raw_score, ranking, reward")
+        .in("player_id", chunk)
+        .in("tournament_id", tournamentIds)
+        .order("id")
+        .range(from, to)
+    );
+
+    rows.forEach((p) => existing.set(`${p.player_id}|${p.match_date}`, p));
+  }
+
+  return existing;
+}
+
+const PERFORMANCE_FIELDS: PerformanceField[] = ["raw_score", "ranking", "reward"];
+
+/**
+ * The tournament each date's rows go into: the earliest one on that date,
+ * as in import_performance. Dates missing from the map get a new tournament.
+ */
+async function fetchTournamentsByDate(
+  supabase: SupabaseClient,
+  matchDates: string[]
+): Promise<Map<string, string>> {
+  const { data, error } = await supabase
+    .from("tournaments")
+    .select("id, tournament_date")
+    .in("tournament_date", matchDates)
+    .order("created_at")
+    .order("id");
+
+  if (error) {
+    throw new Error(`Failed to fetch tournaments: ${error.message}`);
+  }
+
+  const byDate = new Map<string, string>();
+  data?.forEach((t) => {
+    if (!byDate.has(t.tournament_date)) byDate.set(t.tournament_date, t.id);
+  });
+  return byDate;
+}
+
+/**
+ * Compare parsed rows with what is stored, without writing anything.
+ *
+ * The fingerprint covers every write the diff implies, so a commit can check
+ * that the database has not moved since the admin reviewed the preview.
+ */
+export async function diffPerformanceImport(
+  supabase: SupabaseClient,
+  parsed: { rows: ParsedRow[]; issues: ImportRowIssue[] },
+  options: { createPlayers: boolean; source: IdentitySource }
+): Promise<PerformanceImportDiff> {
+  const index = await loadIdentityIndex(supabase);
+
+  const newPlayers = new Map<string, NewPlayer>();
+  const missingPlayers = new Set<string>();
+  const ambiguousPlayers = new Map<string, AmbiguousPlayer>();
+  const resolutions = new Map<string, IdentityResolution>();
+  const unmatchedRows: ImportRowIssue[] = [];
+  const matched: { row: ParsedRow; playerId: string | null; match: PlayerMatch | null }[] = [];
+  const playerNames = new Map(index.players.map((p) => [p.id, p.display_name]));
+
+  for (const row of parsed.rows) {
+    const key = normalizeName(row.display_name);
+    let resolution = resolutions.get(key);
+    if (!resolution) {
+      resolution = resolveImportIdentity(index, row.display_name, options.source);
+      resolutions.set(key, resolution);
+    }
+
+    if (resolution.status === "matched") {
+      matched.push({
+        row,
+        playerId: resolution.playerId,
+        match: {
+          display_name: playerNames.get(resolution.playerId)!,
+          method: resolution.method,
+        },
+      });
+      continue;
+    }
+
+    if (resolution.status === "ambiguous") {
+      // Never auto-create over a possible existing player
+      if (!ambiguousPlayers.has(key)) {
+        ambiguousPlayers.set(key, {
+          display_name: row.display_name,
+          team_name: row.team_name || null,
+          position: row.position || null,
+          candidates: resolution.candidates,
+        });
+      }
+      unmatchedRows.push({
+        display_name: row.display_name,
+        match_date: row.match_date,
+        reason: `Ambiguous match: ${resolution.candidates.map((c) => c.display_name).join(", ")}`,
+      });
+      continue;
+    }
+
+    missingPlayers.add(row.display_name);
+
+    if (options.createPlayers) {
+      if (!newPlayers.has(key)) {
+        newPlayers.set(key, {
+          display_name: row.display_name,
+          team_name: row.team_name || null,
+          position: row.position || null,
+        });
+      }
+      matched.push({ row, playerId: null, match: null });
+    } else {
+      unmatchedRows.push({
+        display_name: row.display_name,
+        match_date: row.match_date,
+        reason: "No player with this name",
+      });
+    }
+  }
+
+  const existingPlayerIds = matched
+    .map((m) => m.playerId)
+    .filter((id): id is string => id !== null);
+  const fileDates = [...new Set(parsed.rows.map((r) => r.match_date))];
+
+  const tournamentsByDate = await fetchTournamentsByDate(supabase, fileDates);
+  const existing = await fetchExistingPerformance(
+    supabase,
+    [...new Set(existingPlayerIds)],
+    [...tournamentsByDate.values()]
+  );
+
+  const rows: PerformanceDiffRow[] = matched.map(({ row, playerId, match }) => {
+    const after: PerformanceValues = {
+      raw_score: row.raw_score,
+      ranking: row.ranking,
+      reward: row.reward,
+    };
+    const current = playerId ? existing.get(`${playerId}|${row.match_date}`) : undefined;
+
+    if (!current) {
+      return {
+        kind: "insert",
+        display_name: playerId
+          ? row.display_name
+          : newPlayers.get(normalizeName(row.display_name))!.display_name,
+        player_id: playerId,
+        match,
+        match_date: row.match_date,
+        before: null,
+        after,
+        changedFields: PERFORMANCE_FIELDS.filter((f) => after[f] !== null),
+      };
+    }
+
+    const before: PerformanceValues = {
+      raw_score: current.raw_score,
+      ranking: current.ranking,
+      reward: current.reward,
+    };
+    const changedFields = PERFORMANCE_FIELDS.filter((f) => !sameValue(before[f], after[f]));
+
+    return {
+      kind: changedFields.length > 0 ? "update" : "unchanged",
+      display_name: row.display_name,
+      player_id: playerId,
+      match,
+      match_date: row.match_date,
+      before,
+      after,
+      changedFields,
+    };
+  });
+
+  const newPlayerList = [...newPlayers.values()];
+  const fingerprint = createHash("sha256")
+    .update(
+      JSON.stringify({
+        players: newPlayerList,
+        rows: rows
+          .filter((r) => r.kind !== "unchanged")
+          .map((r) => [r.player_id ?? r.display_name, r.match_date, r.before, r.after]),
+      })
+    )
+    .digest("hex");
+
+  return {
+    rows,
+    newMatchDates: fileDates.filter((d) => !tournamentsByDate.has(d)).sort(),
+    newPlayers: newPlayerList,
+    missingPlayers: [...missingPlayers].sort(),
+    ambiguousPlayers: [...ambiguousPlayers.values()],
+    unmatchedRows,
+    skippedRows: parsed.issues,
+    fingerprint,
+  };
+}
+
+/**
+ * Apply a diff through the import_performance RPC, so player creation and
+ * the upsert happen in one transaction under a new import batch. Names that
+ * could not be resolved are queued for review afterwards.
+ */
+export async function applyPerformanceImport(
+  supabase: SupabaseClient,
+  diff: PerformanceImportDiff,
+  batch: ImportBatchInfo
+): Promise<PerformanceImportReport> {
+  const { source } = batch;
+  const changes = diff.rows.filter((r) => r.kind !== "unchanged");
+  let batchId: string | null = null;
+
+  if (changes.length > 0 || diff.newPlayers.length > 0) {
+    const { data, error } = await supabase.rpc("import_performance", {
+      p_batch: { source, file_name: batch.fileName, created_by: batch.createdBy },
+      p_new_players: diff.newPlayers,
+      p_rows: changes.map((r) => ({
+        player_id: r.player_id,
+        display_name: r.player_id ? null : r.display_name,
+        match_date: r.match_date,
+        ...r.after,
+      })),
+    });
+
+    if (error) {
+      throw new Error(`Import failed: ${error.message}`);
+    }
+    batchId = data as string;
+  }
+
+  const created = new Set(diff.newPlayers.map((p) => p.display_name));
+  await enqueueIdentityReviews(supabase, [
+    ...diff.ambiguousPlayers.map((p) => ({
+      alias: p.display_name,
+      source,
+      candidates: p.candidates,
+      context: { team_name: p.team_name, position: p.position },
+    })),
+    ...diff.missingPlayers
+      .filter((name) => !created.has(name))
+      .map((name) => ({ alias: name, source, candidates: [] })),
+  ]);
+
+  const skippedRows: ImportRowIssue[] = [
+    ...diff.skippedRows,
+    ...diff.rows
+      .filter((r) => r.kind === "unchanged")
+      .map((r) => ({ display_name: r.display_name, match_date: r.match_date, reason: "Unchanged" })),
+  ];
+
+  return {
+    batchId,
+    inserted: changes.filter((r) => r.kind === "insert").length,
+    updated: changes.filter((r) => r.kind === "update").length,
+    skipped: skippedRows.length,
+    unmatched: diff.unmatchedRows.length,
+    createdPlayers: diff.newPlayers.map((p) => p.display_name),
+    skippedRows,
+    unmatchedRows: diff.unmatchedRows,
+  };
+}
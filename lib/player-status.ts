@@ -0,0 +1,36 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PlayerStatus } from "@/types";
+
+/** Players shown on the market pages (players, leaderboards, analytics, teams, compare). */
+export const LISTED_PLAYER_STATUSES: PlayerStatus[] = ["active", "inactive"];
+
+/** Delisted players keep their history, so /historical still lists them. */
+export const HISTORICAL_PLAYER_STATUSES: PlayerStatus[] = ["active", "inactive", "delisted"];
+
+/**
+ * Move players to a new status. Players already in that status are left
+ * alone so their effective date doesn't reset; the status history trigger
+ * records each change. Returns the ids that actually changed.
+ */
+export async function setPlayerStatus(
+  supabase: SupabaseClient,
+  playerIds: string[],
+  status: PlayerStatus,
+  reason: string,
+  effectiveAt: string = new Date().toISOString()
+): Promise<string[]> {
+  if (playerIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("players")
+    .update({ status, status_effective_at: effectiveAt, status_reason: reason })
+    .in("id", playerIds)
+    .neq("status", status)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to mark players ${status}: ${error.message}`);
+  }
+
+  return (data || []).map((p) => p.id);
+}
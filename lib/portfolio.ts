@@ -0,0 +1,306 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchAllPages, getLatestPrices } from "@/lib/data";
+import type { BalanceProvider } from "@/lib/wallet-balances";
+import {
+  LatestPrice,
+  PerformanceRecord,
+  Player,
+  PortfolioAllocation,
+  PortfolioHolding,
+  PortfolioSummary,
+  PortfolioTransaction,
+  PortfolioWallet,
+  TradeSide,
+  WalletBalance,
+  WalletImportReport,
+} from "@/types";
+
+/** The signed-in user's trades, oldest first (RLS hides everyone else's) */
+export async function getPortfolioTransactions(
+  supabase: SupabaseClient
+): Promise<PortfolioTransaction[]> {
+  const { data, error } = await supabase
+    .from("portfolio_transactions")
+    .select("id, player_id, side, quantity, price_usd, traded_on, wallet_address, created_at")
+    .order("traded_on")
+    .order("created_at");
+
+  if (error) {
+    throw new Error(`Failed to fetch portfolio: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function addPortfolioTransaction(
+  supabase: SupabaseClient,
+  trade: {
+    player_id: string;
+    side: TradeSide;
+    quantity: number;
+    price_usd: number;
+    traded_on: string;
+  }
+): Promise<void> {
+  const { error } = await supabase.from("portfolio_transactions").insert(trade);
+
+  if (error) {
+    throw new Error(`Failed to record trade: ${error.message}`);
+  }
+}
+
+export async function getPortfolioWallets(supabase: SupabaseClient): Promise<PortfolioWallet[]> {
+  const { data, error } = await supabase
+    .from("portfolio_wallets")
+    .select("address, label, last_imported_at, created_at")
+    .order("created_at");
+
+  if (error) {
+    throw new Error(`Failed to fetch wallets: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function deletePortfolioTransaction(
+  supabase: SupabaseClient,
+  id: string
+): Promise<void> {
+  const { error } = await supabase.from("portfolio_transactions").delete().eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to delete trade: ${error.message}`);
+  }
+}
+
+interface Position {
+  quantity: number;
+  costBasis: number;
+  realizedPnl: number;
+}
+
+/**
+ * Replay trades (oldest first) at average cost. Sells beyond the tokens
+ * held only close what is there.
+ */
+function replay(trades: PortfolioTransaction[]): Position {
+  const position: Position = { quantity: 0, costBasis: 0, realizedPnl: 0 };
+
+  for (const trade of trades) {
+    const quantity = Number(trade.quantity);
+    const price = Number(trade.price_usd);
+
+    if (trade.side === "buy") {
+      position.quantity += quantity;
+      position.costBasis += quantity * price;
+      continue;
+    }
+
+    const sold = Math.min(quantity, position.quantity);
+    const avgCost = position.quantity > 0 ? position.costBasis / position.quantity : 0;
+    position.realizedPnl += sold * (price - avgCost);
+    position.costBasis -= sold * avgCost;
+    position.quantity -= sold;
+  }
+
+  return position;
+}
+
+function allocations(
+  holdings: PortfolioHolding[],
+  key: (h: PortfolioHolding) => string
+): PortfolioAllocation[] {
+  const totals = new Map<string, number>();
+  for (const h of holdings) {
+    if (h.marketValue <= 0) continue;
+    totals.set(key(h), (totals.get(key(h)) || 0) + h.marketValue);
+  }
+
+  const total = [...totals.values()].reduce((sum, v) => sum + v, 0);
+  return [...totals.entries()]
+    .map(([label, value]) => ({ label, value, share: total > 0 ? value / total : 0 }))
+    .sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Holdings, P&L and allocation for a user's trades. TP earned follows the
+ * ROI calculator on /compare: each game's reward split over the player's
+ * active shares, times the tokens held at the end of the match date.
+ */
+export function buildPortfolio(
+  transactions: PortfolioTransaction[],
+  players: Map<string, Player>,
+  prices: Map<string, LatestPrice>,
+  performances: Map<string, PerformanceRecord[]>
+): PortfolioSummary {
+  const tradesByPlayer = new Map<string, PortfolioTransaction[]>();
+  for (const t of transactions) {
+    tradesByPlayer.set(t.player_id, [...(tradesByPlayer.get(t.player_id) || []), t]);
+  }
+
+  const holdings: PortfolioHolding[] = [];
+  for (const [playerId, trades] of tradesByPlayer) {
+    const player = players.get(playerId);
+    const position = replay(trades);
+    const currentPrice = prices.get(playerId)?.price ?? null;
+    const marketValue = position.quantity * (currentPrice ?? 0);
+
+    let tpEarned = 0;
+    const activeShares = player?.active_shares;
+    if (activeShares) {
+      for (const game of performances.get(playerId) || []) {
+        if (!game.reward || game.reward <= 0) continue;
+        const held = replay(trades.filter((t) => t.traded_on <= game.match_date)).quantity;
+        tpEarned += (game.reward / activeShares) * held;
+      }
+    }
+
+    holdings.push({
+      playerId,
+      name: player?.display_name ?? "Unknown player",
+      team: player?.team_name ?? null,
+      position: player?.position ?? null,
+      quantity: position.quantity,
+      costBasis: position.costBasis,
+      currentPrice,
+      marketValue,
+      unrealizedPnl: currentPrice !== null ? marketValue - position.costBasis : 0,
+      realizedPnl: position.realizedPnl,
+      tpEarned,
+    });
+  }
+
+  holdings.sort((a, b) => b.marketValue - a.marketValue);
+  const sum = (f: (h: PortfolioHolding) => number) => holdings.reduce((s, h) => s + f(h), 0);
+
+  return {
+    holdings,
+    marketValue: sum((h) => h.marketValue),
+    costBasis: sum((h) => h.costBasis),
+    unrealizedPnl: sum((h) => h.unrealizedPnl),
+    realizedPnl: sum((h) => h.realizedPnl),
+    tpEarned: sum((h) => h.tpEarned),
+    byPosition: allocations(holdings, (h) => h.position || "Unknown"),
+    byTeam: allocations(holdings, (h) => h.team || "Unknown"),
+  };
+}
+
+/**
+ * Bring a wallet's positions in line with its on-chain balances. Tokens
+ * matching a player's token_address get a buy or sell at today's price for
+ * the difference from the trades earlier imports of this wallet wrote;
+ * positions the wallet no longer holds are sold off. Players without a
+ * price are skipped and reported, since a trade at $0 would corrupt cost
+ * basis; the next import picks them up. Manual trades and
+ * other wallets are left alone. Runs with the service role, so userId is
+ * set explicitly.
+ */
+export async function importWallet(
+  supabase: SupabaseClient,
+  userId: string,
+  wallet: string,
+  provider: BalanceProvider
+): Promise<WalletImportReport> {
+  const address = wallet.toLowerCase();
+  const balances = await provider.getBalances(address);
+
+  const [players, { data: existing, error }] = await Promise.all([
+    fetchAllPages<{ id: string; display_name: string; token_address: string }>(
+      "token players",
+      (from, to) =>
+        supabase
+          .from("players")
+          .select("id, display_name, token_address")
+          .not("token_address", "is", null)
+          .order("id")
+          .range(from, to)
+    ),
+    supabase
+      .from("portfolio_transactions")
+      .select("id, player_id, side, quantity, price_usd, traded_on, wallet_address, created_at")
+      .eq("user_id", userId)
+      .eq("wallet_address", address)
+      .order("traded_on")
+      .order("created_at"),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch wallet trades: ${error.message}`);
+  }
+
+  const playerByToken = new Map(players.map((p) => [p.token_address.toLowerCase(), p.id]));
+  const target = new Map<string, number>();
+  const unknownTokens: WalletBalance[] = [];
+  for (const balance of balances) {
+    const playerId = playerByToken.get(balance.tokenAddress.toLowerCase());
+    if (playerId) {
+      target.set(playerId, (target.get(playerId) || 0) + balance.quantity);
+    } else {
+      unknownTokens.push(balance);
+    }
+  }
+
+  const tradesByPlayer = new Map<string, PortfolioTransaction[]>();
+  for (const t of (existing || []) as PortfolioTransaction[]) {
+    tradesByPlayer.set(t.player_id, [...(tradesByPlayer.get(t.player_id) || []), t]);
+  }
+
+  const playerIds = [...new Set([...target.keys(), ...tradesByPlayer.keys()])];
+  const prices = await getLatestPrices(supabase, playerIds);
+  const today = new Date().toISOString().slice(0, 10);
+  const names = new Map(players.map((p) => [p.id, p.display_name]));
+  const unpricedPlayers: WalletImportReport["unpricedPlayers"] = [];
+
+  const adjustments = playerIds.flatMap((playerId) => {
+    const held = replay(tradesByPlayer.get(playerId) || []).quantity;
+    const diff = (target.get(playerId) || 0) - held;
+    // Balances come back as floats; ignore dust
+    if (Math.abs(diff) < 1e-6) return [];
+
+    const price = prices.get(playerId)?.price;
+    if (!price) {
+      unpricedPlayers.push({ playerId, name: names.get(playerId) ?? playerId });
+      return [];
+    }
+
+    return [
+      {
+        user_id: userId,
+        player_id: playerId,
+        side: diff > 0 ? "buy" : "sell",
+        quantity: Math.abs(diff),
+        price_usd: price,
+        traded_on: today,
+        wallet_address: address,
+      },
+    ];
+  });
+
+  if (adjustments.length > 0) {
+    const { error: insertError } = await supabase
+      .from("portfolio_transactions")
+      .insert(adjustments);
+    if (insertError) {
+      throw new Error(`Failed to record wallet trades: ${insertError.message}`);
+    }
+  }
+
+  const { error: walletError } = await supabase
+    .from("portfolio_wallets")
+    .upsert(
+      { user_id: userId, address, last_imported_at: new Date().toISOString() },
+      { onConflict: "user_id,address" }
+    );
+  if (walletError) {
+    throw new Error(`Failed to save wallet: ${walletError.message}`);
+  }
+
+  return {
+    wallet: address,
+    provider: provider.name,
+    matched: target.size,
+    adjustments: adjustments.length,
+    unknownTokens,
+    unpricedPlayers,
+  };
+}
@@ -0,0 +1,8 @@
+export const POSITIONS = ["Forward", "Midfielder", "Defender", "Goalkeeper"];
+
+export const POSITION_COLORS: Record<string, string> = {
+  Forward: "#22C55E",
+  Midfielder: "#3B82F6",
+  Defender: "#F97316",
+  Goalkeeper: "#A855F7",
+};
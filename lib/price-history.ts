@@ -0,0 +1,111 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchAllPages } from "@/lib/data";
+import { PriceCandle, PricePoint, PriceResolution } from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Retention windows enforced by cleanup_old_prices() in schema.sql */
+export const RAW_PRICE_RETENTION_DAYS = 7;
+export const HOURLY_CANDLE_RETENTION_DAYS = 180;
+
+/**
+ * Longest range read at each resolution. Kept under Supabase's default
+ * 1000-row limit: 7 days of 15-minute ticks is 672 rows, 31 days of hourly
+ * candles 744.
+ */
+const MAX_RAW_DAYS = RAW_PRICE_RETENTION_DAYS;
+const MAX_HOURLY_DAYS = 31;
+
+const CANDLE_TABLES: Record<Exclude<PriceResolution, "raw">, string> = {
+  hourly: "price_candles_hourly",
+  daily: "price_candles_daily",
+};
+
+/**
+ * Pick the finest resolution that covers a range starting at `since`
+ * (null for all time).
+ */
+export function priceResolutionFor(since: Date | null, now = new Date()): PriceResolution {
+  if (!since) return "daily";
+
+  const days = (now.getTime() - since.getTime()) / DAY_MS;
+  if (days <= MAX_RAW_DAYS) return "raw";
+  if (days <= MAX_HOURLY_DAYS) return "hourly";
+  return "daily";
+}
+
+/**
+ * A player's price series since `since`, oldest first, read from raw ticks
+ * or candle closes depending on the range.
+ */
+export async function getPriceSeries(
+  supabase: SupabaseClient,
+  playerId: string,
+  since: Date | null
+): Promise<{ resolution: PriceResolution; points: PricePoint[] }> {
+  const resolution = priceResolutionFor(since);
+
+  if (resolution === "raw") {
+    const { data, error } = await supabase
+      .from("prices")
+      .select("price_usd, liquidity_usd, volume_24h_usd, fetched_at")
+      .eq("player_id", playerId)
+      .gte("fetched_at", since!.toISOString())
+      .order("fetched_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch prices: ${error.message}`);
+    }
+
+    return {
+      resolution,
+      points: (data || []).map((p) => ({
+        date: p.fetched_at,
+        price: p.price_usd,
+        liquidity: p.liquidity_usd,
+        volume: p.volume_24h_usd,
+      })),
+    };
+  }
+
+  let query = supabase
+    .from(CANDLE_TABLES[resolution])
+    .select("bucket, close_price, last_liquidity_usd, last_volume_24h_usd")
+    .eq("player_id", playerId)
+    .order("bucket", { ascending: true });
+
+  if (since) {
+    query = query.gte("bucket", since.toISOString());
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch ${resolution} candles: ${error.message}`);
+  }
+
+  return {
+    resolution,
+    points: (data || []).map((c) => ({
+      date: c.bucket,
+      price: c.close_price,
+      liquidity: c.last_liquidity_usd,
+      volume: c.last_volume_24h_usd,
+    })),
+  };
+}
+
+/** A player's whole history as daily candles, oldest first */
+export async function getDailyCandles(
+  supabase: SupabaseClient,
+  playerId: string
+): Promise<PriceCandle[]> {
+  return fetchAllPages<PriceCandle>("daily candles", (from, to) =>
+    supabase
+      .from("price_candles_daily")
+      .select("*")
+      .eq("player_id", playerId)
+      .order("bucket")
+      .range(from, to)
+  );
+}
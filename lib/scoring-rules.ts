@@ -0,0 +1,70 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { POSITIONS } from "@/lib/positions";
+import { ScoringRule } from "@/types";
+
+/** Every rule, by position and newest first */
+export async function getScoringRules(supabase: SupabaseClient): Promise<ScoringRule[]> {
+  const { data, error } = await supabase
+    .from("scoring_rules")
+    .select("*")
+    .order("position")
+    .order("effective_from", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch scoring rules: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * The rank a player in `position` had to finish inside on `date` to earn
+ * TP, as tp_rank_threshold() in schema.sql. Null when no rule covers it.
+ */
+export function tpThresholdOn(
+  rules: ScoringRule[],
+  position: string,
+  date: string
+): number | null {
+  let match: ScoringRule | null = null;
+  for (const rule of rules) {
+    if (rule.position !== position || rule.effective_from > date) continue;
+    if (!match || rule.effective_from > match.effective_from) match = rule;
+  }
+  return match?.rank_threshold ?? null;
+}
+
+/** Each position's threshold in force today */
+export function currentTPThresholds(
+  rules: ScoringRule[],
+  now = new Date()
+): Record<string, number | null> {
+  const today = now.toISOString().slice(0, 10);
+  return Object.fromEntries(POSITIONS.map((p) => [p, tpThresholdOn(rules, p, today)]));
+}
+
+export async function addScoringRule(
+  supabase: SupabaseClient,
+  rule: { position: string; rank_threshold: number; effective_from: string },
+  createdBy: string
+): Promise<ScoringRule> {
+  const { data, error } = await supabase
+    .from("scoring_rules")
+    .insert({ ...rule, created_by: createdBy })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to add scoring rule: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function deleteScoringRule(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from("scoring_rules").delete().eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to delete scoring rule: ${error.message}`);
+  }
+}
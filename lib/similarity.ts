@@ -0,0 +1,130 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getPlayer, getPlayers, getPlayerStats, getRankingDistribution } from "@/lib/data";
+import { Player, PlayerFeatures, PlayerWindowStats, SimilarPlayer } from "@/types";
+
+/** Fewer scored games than this and a player's averages are mostly noise */
+const MIN_SCORED_GAMES = 3;
+
+/** Squared distance added between players of different positions */
+const POSITION_PENALTY = 4;
+
+const RANK_BUCKETS = 6;
+
+/**
+ * The dimensions compared and how much each counts once in standard
+ * deviations. The six ranking shares together weigh as much as two stats.
+ */
+const DIMENSIONS: { weight: number; value: (f: PlayerFeatures) => number }[] = [
+  { weight: 1, value: (f) => f.avgScore },
+  { weight: 1, value: (f) => f.scoreStddev },
+  { weight: 1, value: (f) => f.tpRate },
+  { weight: 1, value: (f) => f.avgRanking },
+  ...Array.from({ length: RANK_BUCKETS }, (_, i) => ({
+    weight: 2 / RANK_BUCKETS,
+    value: (f: PlayerFeatures) => f.rankShares[i],
+  })),
+  // Prices span orders of magnitude, so compare them as ratios
+  { weight: 1, value: (f) => Math.log(f.price) },
+  { weight: 1, value: (f) => f.tpPer100 },
+];
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+}
+
+/**
+ * Feature vectors from all-time stats. Players need a price and
+ * MIN_SCORED_GAMES scored games to be compared at all.
+ */
+export function buildPlayerFeatures(
+  players: Player[],
+  stats: Map<string, PlayerWindowStats>,
+  rankingDistribution: Map<string, number[]>
+): PlayerFeatures[] {
+  return players.flatMap((player) => {
+    const s = stats.get(player.id);
+    if (
+      !s ||
+      s.scoredGames < MIN_SCORED_GAMES ||
+      s.avgScore === null ||
+      s.avgRanking === null ||
+      !s.latestPrice
+    ) {
+      return [];
+    }
+
+    const ranks = rankingDistribution.get(player.id) ?? new Array(RANK_BUCKETS).fill(0);
+    const rankedGames = ranks.reduce((sum, n) => sum + n, 0);
+
+    return {
+      id: player.id,
+      name: player.display_name,
+      team: player.team_name || "Unknown",
+      position: player.position || "Unknown",
+      avgScore: s.avgScore,
+      scoreStddev: s.scoreStddev ?? 0,
+      tpRate: s.gamesPlayed > 0 ? (s.tpGames / s.gamesPlayed) * 100 : 0,
+      avgRanking: s.avgRanking,
+      rankShares: ranks.map((n) => (rankedGames > 0 ? n / rankedGames : 0)),
+      price: s.latestPrice,
+      tpPer100: s.tpPer100 ?? 0,
+    };
+  });
+}
+
+/**
+ * The `limit` players nearest `target`, nearest first. Each dimension is
+ * scaled by its spread across `features` so no one stat dominates.
+ */
+export function findSimilarPlayers(
+  features: PlayerFeatures[],
+  target: PlayerFeatures,
+  limit: number,
+  excludeIds: string[] = []
+): SimilarPlayer[] {
+  const spreads = DIMENSIONS.map((d) => standardDeviation(features.map(d.value)));
+
+  return features
+    .filter((f) => f.id !== target.id && !excludeIds.includes(f.id))
+    .map((f) => {
+      let squared = f.position === target.position ? 0 : POSITION_PENALTY;
+      DIMENSIONS.forEach((d, i) => {
+        if (spreads[i] === 0) return;
+        squared += d.weight * ((d.value(f) - d.value(target)) / spreads[i]) ** 2;
+      });
+      return { ...f, distance: Math.sqrt(squared) };
+    })
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit);
+}
+
+/**
+ * The listed players most like `playerId`. target is null when the player
+ * hasn't played enough to compare.
+ */
+export async function getComparablePlayers(
+  supabase: SupabaseClient,
+  playerId: string,
+  limit: number,
+  excludeIds: string[] = []
+): Promise<{ target: PlayerFeatures | null; similar: SimilarPlayer[] }> {
+  const [players, stats, rankingDistribution] = await Promise.all([
+    getPlayers(supabase),
+    getPlayerStats(supabase, "all"),
+    getRankingDistribution(supabase),
+  ]);
+
+  // Delisted players still get comparables from the listed ones
+  const features = buildPlayerFeatures(players, stats, rankingDistribution);
+  let target = features.find((f) => f.id === playerId) ?? null;
+  if (!target) {
+    const player = await getPlayer(supabase, playerId);
+    target = player ? buildPlayerFeatures([player], stats, rankingDistribution)[0] ?? null : null;
+  }
+
+  return {
+    target,
+    similar: target ? findSimilarPlayers(features, target, limit, excludeIds) : [],
+  };
+}
@@ -24,6 +24,7 @@ export const supabase = {
   from: (...args: Parameters<SupabaseClient["from"]>) => getSupabase().from(...args),
   auth: {
     getUser: () => getSupabase().auth.getUser(),
+    getSession: () => getSupabase().auth.getSession(),
     signInWithPassword: (credentials: { email: string; password: string }) =>
       getSupabase().auth.signInWithPassword(credentials),
     signOut: () => getSupabase().auth.signOut(),
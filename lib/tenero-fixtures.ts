@@ -0,0 +1,41 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { TeneroTransport } from "@/lib/tenero";
+
+/**
+ * File a Tenero response is stored under, relative to the fixtures dir:
+ *   /tokens               -> tokens.json
+ *   /tokens?cursor=abc    -> tokens.cursor-abc.json
+ *   /tokens/<address>     -> token-<address>.json
+ */
+export function fixtureFileName(url: string): string {
+  const { pathname, searchParams } = new URL(url);
+  const safe = (value: string) => value.replace(/[^A-Za-z0-9_-]/g, "_");
+
+  const [, address] = pathname.split("/tokens");
+  if (address && address !== "/") {
+    return `token-${safe(address.slice(1))}.json`;
+  }
+
+  const cursor = searchParams.get("cursor");
+  return cursor ? `tokens.cursor-${safe(cursor)}.json` : "tokens.json";
+}
+
+/**
+ * Serve recorded responses from disk instead of the network. Requests with
+ * no recorded file get a 404, like an unknown token would.
+ * Record fixtures with scripts/record-tenero-fixtures.ts.
+ */
+export function createFixtureTransport(dir: string): TeneroTransport {
+  return async (url) => {
+    try {
+      const body = await fs.readFile(path.join(dir, fixtureFileName(url)), "utf8");
+      return new Response(body, {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch {
+      return new Response(JSON.stringify({ error: "No fixture recorded" }), { status: 404 });
+    }
+  };
+}
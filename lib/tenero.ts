@@ -1,47 +1,257 @@
 import { TeneroToken } from "@/types";
+import { createFixtureTransport } from "@/lib/tenero-fixtures";
 
 const TENERO_API_BASE = "https://api.tenero.io/v1/sportsfun";
 
-export async function fetchAllTeneroTokens(): Promise<TeneroToken[]> {
-  const allTokens: TeneroToken[] = [];
-  let cursor: string | null = null;
+/**
+ * Anything that answers a GET like fetch does. Swapped out for recorded
+ * fixtures in tests and local dev (see lib/tenero-fixtures.ts).
+ */
+export type TeneroTransport = (url: string, init: { signal: AbortSignal }) => Promise<Response>;
 
-  while (true) {
-    const url: string = cursor
-      ? `${TENERO_API_BASE}/tokens?cursor=${cursor}`
-      : `${TENERO_API_BASE}/tokens`;
+export interface TeneroClientOptions {
+  transport?: TeneroTransport;
+  baseUrl?: string;
+  /** Retries per request after the first attempt (429, 5xx, timeouts, network errors) */
+  maxRetries?: number;
+  /** Per-request timeout */
+  timeoutMs?: number;
+  /** First retry delay; doubles on each retry */
+  backoffMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface TeneroTokenIssue {
+  address: string | null;
+  reason: string;
+}
+
+export interface TeneroFetchResult {
+  tokens: TeneroToken[];
+  /** Rows dropped because they failed validation */
+  invalid: TeneroTokenIssue[];
+  /** False when a page failed after all retries; tokens holds what was fetched */
+  complete: boolean;
+  /** Cursor of the page that failed, to resume from */
+  cursor: string | null;
+  error: string | null;
+}
+
+export class TeneroError extends Error {
+  constructor(
+    message: string,
+    public status: number | null
+  ) {
+    super(message);
+  }
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function finiteNumber(value: unknown): number | null {
+  const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Check a token row from the API. Returns the reason it was rejected so a
+ * row with, say, a missing price is reported instead of stored as null.
+ */
+export function parseTeneroToken(row: unknown): TeneroToken | string {
+  if (!row || typeof row !== "object") return "Row is not an object";
+  const r = row as Record<string, unknown>;
+
+  if (typeof r.address !== "string" || !r.address) return "Missing address";
+  if (typeof r.symbol !== "string" || !r.symbol) return "Missing symbol";
+  if (typeof r.name !== "string" || !r.name) return "Missing name";
+
+  const price = finiteNumber(r.price_usd);
+  if (price === null || price < 0) return "Missing or invalid price_usd";
+  const marketcap = finiteNumber(r.marketcap_usd);
+  if (marketcap === null) return "Missing or invalid marketcap_usd";
+  const holders = finiteNumber(r.holder_count);
+  if (holders === null) return "Missing or invalid holder_count";
+
+  // Market snapshot fields are optional: missing or malformed becomes null
+  const count = (value: unknown) => {
+    const n = finiteNumber(value);
+    return n === null ? null : Math.round(n);
+  };
+
+  return {
+    address: r.address,
+    symbol: r.symbol,
+    name: r.name,
+    price_usd: price,
+    marketcap_usd: marketcap,
+    holder_count: Math.round(holders),
+    total_liquidity_usd: finiteNumber(r.total_liquidity_usd),
+    volume_24h_usd: finiteNumber(r.volume_24h_usd),
+    buy_count_24h: count(r.buy_count_24h),
+    sell_count_24h: count(r.sell_count_24h),
+    circulating_supply: finiteNumber(r.circulating_supply),
+  };
+}
+
+// USDC and unnamed rows are not player tokens
+function isPlayerToken(row: unknown): boolean {
+  const r = row as Record<string, unknown> | null;
+  return !!r && r.symbol !== "USDC" && !!r.name;
+}
+
+function defaultTransport(): TeneroTransport {
+  if (process.env.TENERO_FIXTURES_DIR) {
+    return createFixtureTransport(process.env.TENERO_FIXTURES_DIR);
+  }
 
-    const response = await fetch(url, {
+  return (url, init) =>
+    fetch(url, {
       headers: {
         "Content-Type": "application/json",
       },
+      signal: init.signal,
       next: { revalidate: 0 }, // No caching for price data
     });
+}
+
+export function createTeneroClient(options: TeneroClientOptions = {}) {
+  const transport = options.transport ?? defaultTransport();
+  const baseUrl = options.baseUrl ?? TENERO_API_BASE;
+  const maxRetries = options.maxRetries ?? 3;
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  const backoffMs = options.backoffMs ?? 500;
+  const sleep = options.sleep ?? ((ms: number) => new Promise((r) => setTimeout(r, ms)));
+
+  // The longest backoff wait. A Retry-After beyond it would outlast the
+  // cron calling us, so the request gives up instead
+  const maxWaitMs = backoffMs * 2 ** Math.max(0, maxRetries - 1);
+
+  /**
+   * GET a URL, retrying rate limits, server errors, timeouts and network
+   * failures with exponential backoff. Retry-After is honoured on 429s up
+   * to the longest backoff; a longer one fails the request at once.
+   * Other statuses are returned to the caller as-is.
+   */
+  async function request(url: string): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      let response: Response | null = null;
+      let failure: string;
+
+      try {
+        response = await transport(url, { signal: controller.signal });
+        if (!isRetryable(response.status)) return response;
+        failure = `Tenero API error: ${response.status}`;
+      } catch (error) {
+        failure = controller.signal.aborted
+          ? `Tenero API timed out after ${timeoutMs}ms`
+          : `Tenero API request failed: ${error instanceof Error ? error.message : error}`;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (attempt >= maxRetries) {
+        throw new TeneroError(failure, response?.status ?? null);
+      }
+
+      const retryAfter = Number(response?.headers.get("retry-after"));
+      if (retryAfter * 1000 > maxWaitMs) {
+        throw new TeneroError(
+          `Tenero API rate limited; asked to retry after ${retryAfter}s`,
+          response?.status ?? null
+        );
+      }
+      await sleep(retryAfter > 0 ? retryAfter * 1000 : backoffMs * 2 ** attempt);
+    }
+  }
+
+  /**
+   * Walk every page of /tokens. A page that still fails after its retries
+   * ends the walk but keeps the tokens already fetched; pass the returned
+   * cursor back in to resume from that page.
+   */
+  async function fetchAllTokens(
+    resume: { cursor?: string | null } = {}
+  ): Promise<TeneroFetchResult> {
+    const tokens: TeneroToken[] = [];
+    const invalid: TeneroTokenIssue[] = [];
+    let cursor = resume.cursor ?? null;
+
+    while (true) {
+      const url = cursor
+        ? `${baseUrl}/tokens?cursor=${encodeURIComponent(cursor)}`
+        : `${baseUrl}/tokens`;
 
+      let data;
+      try {
+        const response = await request(url);
+        if (!response.ok) {
+          throw new TeneroError(`Tenero API error: ${response.status}`, response.status);
+        }
+        data = await response.json();
+      } catch (error) {
+        return {
+          tokens,
+          invalid,
+          complete: false,
+          cursor,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+
+      const rows: unknown[] = data.data?.rows || [];
+      for (const row of rows.filter(isPlayerToken)) {
+        const parsed = parseTeneroToken(row);
+        if (typeof parsed === "string") {
+          const address = (row as Record<string, unknown>).address;
+          invalid.push({ address: typeof address === "string" ? address : null, reason: parsed });
+        } else {
+          tokens.push(parsed);
+        }
+      }
+
+      cursor = data.data?.next || null;
+      if (!cursor) break;
+    }
+
+    return { tokens, invalid, complete: true, cursor: null, error: null };
+  }
+
+  /**
+   * Look up a single token. Returns null for unknown addresses and throws
+   * when the API can't be reached or the row fails validation.
+   */
+  async function fetchTokenByAddress(address: string): Promise<TeneroToken | null> {
+    const response = await request(`${baseUrl}/tokens/${encodeURIComponent(address)}`);
+
+    if (response.status === 404) return null;
     if (!response.ok) {
-      throw new Error(`Tenero API error: ${response.status}`);
+      throw new TeneroError(`Tenero API error: ${response.status}`, response.status);
     }
 
     const data = await response.json();
-    const tokens = data.data?.rows || [];
+    const parsed = parseTeneroToken(data.data ?? data);
+    if (typeof parsed === "string") {
+      throw new TeneroError(`Invalid token ${address}: ${parsed}`, response.status);
+    }
 
-    // Filter out USDC and other non-player tokens
-    const playerTokens = tokens.filter(
-      (t: TeneroToken) => t.symbol !== "USDC" && t.name
-    );
+    return parsed;
+  }
 
-    allTokens.push(...playerTokens);
+  return { request, fetchAllTokens, fetchTokenByAddress };
+}
 
-    cursor = data.data?.next;
-    if (!cursor) break;
-  }
+export type TeneroClient = ReturnType<typeof createTeneroClient>;
 
-  return allTokens;
+export async function fetchAllTeneroTokens(
+  resume: { cursor?: string | null } = {}
+): Promise<TeneroFetchResult> {
+  return createTeneroClient().fetchAllTokens(resume);
 }
 
-export async function fetchTokenByAddress(
-  address: string
-): Promise<TeneroToken | null> {
-  const tokens = await fetchAllTeneroTokens();
-  return tokens.find((t) => t.address === address) || null;
+export async function fetchTokenByAddress(address: string): Promise<TeneroToken | null> {
+  return createTeneroClient().fetchTokenByAddress(address);
 }
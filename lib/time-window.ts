@@ -0,0 +1,255 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getPerformanceTotals,
+  getPlayerStats,
+  getTournaments,
+  parseTimeFilter,
+  TIME_FILTERS,
+  windowStart,
+} from "@/lib/data";
+import { HISTORICAL_PLAYER_STATUSES } from "@/lib/player-status";
+import { tpPer100 } from "@/lib/utils";
+import { PlayerWindowStats, TimeWindow, WindowBounds } from "@/types";
+
+/** Seasons run August to July; season 2024 is 2024/25. */
+const SEASON_START_MONTH = 8;
+
+const TOURNAMENT_COUNTS = [5, 10, 20];
+
+/** Search params a TimeWindow is encoded in */
+export interface TimeWindowParams {
+  filter?: string;
+  from?: string;
+  to?: string;
+  last?: string;
+  month?: string;
+  season?: string;
+  since?: string;
+}
+
+export const TIME_WINDOW_PARAM_KEYS: (keyof TimeWindowParams)[] = [
+  "filter",
+  "from",
+  "to",
+  "last",
+  "month",
+  "season",
+  "since",
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+function isDate(value: string | undefined): value is string {
+  return !!value && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
+
+/**
+ * Read a window from search params, taking the first of: from/to dates,
+ * last (tournament count), month (YYYY-MM), season (first year),
+ * since=listing, filter (1m/3m/all). Anything unreadable is all time.
+ */
+export function parseTimeWindow(params: TimeWindowParams): TimeWindow {
+  const from = isDate(params.from) ? params.from : null;
+  const to = isDate(params.to) ? params.to : null;
+  if (from || to) {
+    return { kind: "range", from, to };
+  }
+
+  const count = Number(params.last);
+  if (Number.isInteger(count) && count > 0) {
+    return { kind: "tournaments", count };
+  }
+
+  if (params.month && MONTH_PATTERN.test(params.month)) {
+    return { kind: "month", month: params.month };
+  }
+
+  const season = Number(params.season);
+  if (Number.isInteger(season) && season > 1900) {
+    return { kind: "season", season };
+  }
+
+  if (params.since === "listing") {
+    return { kind: "listing" };
+  }
+
+  return { kind: "preset", filter: parseTimeFilter(params.filter) };
+}
+
+/** The search params that encode `window`; all time encodes as none. */
+export function timeWindowParams(window: TimeWindow): Record<string, string> {
+  switch (window.kind) {
+    case "preset":
+      return window.filter === "all" ? {} : { filter: window.filter };
+    case "range": {
+      const params: Record<string, string> = {};
+      if (window.from) params.from = window.from;
+      if (window.to) params.to = window.to;
+      return params;
+    }
+    case "tournaments":
+      return { last: String(window.count) };
+    case "month":
+      return { month: window.month };
+    case "season":
+      return { season: String(window.season) };
+    case "listing":
+      return { since: "listing" };
+  }
+}
+
+/**
+ * `path` with `window` and any other params in the query string. Params
+ * that are undefined are left out.
+ */
+export function timeWindowHref(
+  path: string,
+  window: TimeWindow,
+  params: Record<string, string | undefined> = {}
+): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, value);
+  }
+  for (const [key, value] of Object.entries(timeWindowParams(window))) {
+    query.set(key, value);
+  }
+
+  const qs = query.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
+export function sameTimeWindow(a: TimeWindow, b: TimeWindow): boolean {
+  return (
+    new URLSearchParams(timeWindowParams(a)).toString() ===
+    new URLSearchParams(timeWindowParams(b)).toString()
+  );
+}
+
+function seasonOf(date: Date): number {
+  return date.getUTCMonth() + 1 >= SEASON_START_MONTH
+    ? date.getUTCFullYear()
+    : date.getUTCFullYear() - 1;
+}
+
+function monthOf(date: Date, monthsBack = 0): string {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - monthsBack, 1));
+  return d.toISOString().slice(0, 7);
+}
+
+export function describeTimeWindow(window: TimeWindow): string {
+  switch (window.kind) {
+    case "preset":
+      return TIME_FILTERS.find((f) => f.value === window.filter)?.label || "All Time";
+    case "range":
+      return `${window.from ?? "Start"} to ${window.to ?? "Today"}`;
+    case "tournaments":
+      return `Last ${window.count} Tournaments`;
+    case "month":
+      return new Date(`${window.month}-01T00:00:00Z`).toLocaleDateString("en-US", {
+        month: "long",
+        year: "numeric",
+        timeZone: "UTC",
+      });
+    case "season":
+      return `${window.season}/${String(window.season + 1).slice(-2)} Season`;
+    case "listing":
+      return "Since Listing";
+  }
+}
+
+/** Windows offered next to the 1m/3m/all buttons */
+export function timeWindowPresets(now = new Date()): TimeWindow[] {
+  const season = seasonOf(now);
+  return [
+    ...TOURNAMENT_COUNTS.map((count): TimeWindow => ({ kind: "tournaments", count })),
+    { kind: "month", month: monthOf(now) },
+    { kind: "month", month: monthOf(now, 1) },
+    { kind: "season", season },
+    { kind: "season", season: season - 1 },
+    { kind: "listing" },
+  ];
+}
+
+/** match_date bounds for `window`. "Last N tournaments" looks the tournaments up. */
+export async function resolveTimeWindow(
+  supabase: SupabaseClient,
+  window: TimeWindow,
+  now = new Date()
+): Promise<WindowBounds> {
+  switch (window.kind) {
+    case "preset":
+      return { since: windowStart(window.filter, now), until: null, sinceListing: false };
+    case "range":
+      return { since: window.from, until: window.to, sinceListing: false };
+    case "tournaments": {
+      const tournaments = await getTournaments(supabase, null);
+      const nth = tournaments[Math.min(window.count, tournaments.length) - 1];
+      const since = nth?.tournament_date ?? null;
+      return { since, until: null, sinceListing: false };
+    }
+    case "month": {
+      const [year, month] = window.month.split("-").map(Number);
+      const lastDay = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+      return { since: `${window.month}-01`, until: lastDay, sinceListing: false };
+    }
+    case "season": {
+      const start = String(SEASON_START_MONTH).padStart(2, "0");
+      const end = new Date(Date.UTC(window.season + 1, SEASON_START_MONTH - 1, 0))
+        .toISOString()
+        .slice(0, 10);
+      return { since: `${window.season}-${start}-01`, until: end, sinceListing: false };
+    }
+    case "listing":
+      return { since: null, until: null, sinceListing: true };
+  }
+}
+
+/**
+ * Each player's totals for `window`: read from player_stats for the
+ * presets, otherwise aggregated for `bounds` and given current prices from
+ * the all-time row.
+ */
+export async function getWindowStats(
+  supabase: SupabaseClient,
+  window: TimeWindow,
+  bounds: WindowBounds,
+  playerIds?: string[]
+): Promise<Map<string, PlayerWindowStats>> {
+  if (window.kind === "preset") {
+    return getPlayerStats(supabase, window.filter, playerIds);
+  }
+
+  // Pages pick which players to show; historical ones include delisted
+  const [totals, allTime] = await Promise.all([
+    getPerformanceTotals(supabase, bounds, playerIds, HISTORICAL_PLAYER_STATUSES),
+    getPlayerStats(supabase, "all", playerIds),
+  ]);
+
+  // Like player_stats, players without games in the window get zero rows
+  const stats = new Map<string, PlayerWindowStats>();
+  for (const [playerId, current] of allTime) {
+    const t = totals.get(playerId);
+    const totalTP = t?.totalTP ?? 0;
+
+    stats.set(playerId, {
+      totalTP,
+      gamesPlayed: t?.gamesPlayed ?? 0,
+      tpGames: t?.tpGames ?? 0,
+      tpFinishes: t?.tpFinishes ?? 0,
+      totalScore: t?.totalScore ?? 0,
+      scoredGames: t?.scoredGames ?? 0,
+      avgScore: t?.avgScore ?? null,
+      scoreStddev: t?.scoreStddev ?? null,
+      avgRanking: t?.avgRanking ?? null,
+      bestRanking: t?.bestRanking ?? null,
+      latestPrice: current.latestPrice,
+      marketCap: current.marketCap,
+      activeMarketCap: current.activeMarketCap,
+      tpPer100: tpPer100(totalTP, current.activeMarketCap),
+    });
+  }
+
+  return stats;
+}
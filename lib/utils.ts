@@ -49,41 +49,6 @@ export function levenshteinDistance(a: string, b: string): number {
   return matrix[b.length][a.length];
 }
 
-/**
- * Find the best matching name from a list
- */
-export function findBestMatch(
-  target: string,
-  candidates: string[]
-): { match: string; distance: number } | null {
-  const normalizedTarget = normalizeName(target);
-
-  let bestMatch: string | null = null;
-  let bestDistance = Infinity;
-
-  for (const candidate of candidates) {
-    const normalizedCandidate = normalizeName(candidate);
-
-    // Exact match
-    if (normalizedCandidate === normalizedTarget) {
-      return { match: candidate, distance: 0 };
-    }
-
-    const distance = levenshteinDistance(normalizedTarget, normalizedCandidate);
-    if (distance < bestDistance) {
-      bestDistance = distance;
-      bestMatch = candidate;
-    }
-  }
-
-  // Only accept matches with distance < 3 (allowing for minor typos)
-  if (bestMatch && bestDistance < 3) {
-    return { match: bestMatch, distance: bestDistance };
-  }
-
-  return null;
-}
-
 /**
  * Format USD price
  */
@@ -123,3 +88,13 @@ export function formatDate(dateStr: string): string {
     year: "numeric",
   });
 }
+
+/**
+ * TP per $100 of tokens, the one "TP per dollar" figure on the site. TP is
+ * paid out per active share, so $100 of tokens earns totalTP × 100 over the
+ * value of the active shares (active_shares × price). Null when that value
+ * isn't positive. player_stats.tp_per_100 uses the same formula.
+ */
+export function tpPer100(totalTP: number, activeMarketCap: number | null | undefined): number | null {
+  return activeMarketCap && activeMarketCap > 0 ? (totalTP * 100) / activeMarketCap : null;
+}
@@ -0,0 +1,83 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { WalletBalance } from "@/types";
+
+const BLOCKSCOUT_API_BASE = "https://base.blockscout.com";
+
+/**
+ * Where wallet imports read token balances from. Swapped for recorded
+ * fixtures in tests and local dev (createFixtureBalanceProvider).
+ */
+export interface BalanceProvider {
+  name: string;
+  getBalances(wallet: string): Promise<WalletBalance[]>;
+}
+
+export function isWalletAddress(value: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+/**
+ * ERC-20 balances from a Blockscout explorer's
+ * /api/v2/addresses/<wallet>/token-balances endpoint.
+ */
+export function createBlockscoutProvider(baseUrl = BLOCKSCOUT_API_BASE): BalanceProvider {
+  return {
+    name: "blockscout",
+    async getBalances(wallet) {
+      const response = await fetch(`${baseUrl}/api/v2/addresses/${wallet}/token-balances`, {
+        headers: { Accept: "application/json" },
+        cache: "no-store",
+      });
+
+      // Blockscout 404s addresses it has never seen
+      if (response.status === 404) return [];
+      if (!response.ok) {
+        throw new Error(`Blockscout API error: ${response.status}`);
+      }
+
+      const rows: unknown = await response.json();
+      if (!Array.isArray(rows)) {
+        throw new Error("Blockscout API returned an unexpected response");
+      }
+
+      return rows.flatMap((row): WalletBalance[] => {
+        const token = row?.token;
+        const address = token?.address_hash ?? token?.address;
+        if (typeof address !== "string" || token?.type !== "ERC-20") return [];
+
+        const decimals = Number(token.decimals ?? 18);
+        const quantity = Number(row.value) / 10 ** decimals;
+        if (!Number.isFinite(quantity) || quantity <= 0) return [];
+
+        return [{ tokenAddress: address, symbol: token.symbol ?? null, quantity }];
+      });
+    },
+  };
+}
+
+/**
+ * Balances recorded on disk as wallet-<address>.json (a WalletBalance
+ * array). Wallets with no file are an error rather than empty, so a typo
+ * doesn't sell everything.
+ */
+export function createFixtureBalanceProvider(dir: string): BalanceProvider {
+  return {
+    name: "fixture",
+    async getBalances(wallet) {
+      const file = path.join(dir, `wallet-${wallet.toLowerCase()}.json`);
+      try {
+        return JSON.parse(await fs.readFile(file, "utf8")) as WalletBalance[];
+      } catch {
+        throw new Error(`No balance fixture recorded for ${wallet}`);
+      }
+    },
+  };
+}
+
+export function defaultBalanceProvider(): BalanceProvider {
+  if (process.env.WALLET_FIXTURES_DIR) {
+    return createFixtureBalanceProvider(process.env.WALLET_FIXTURES_DIR);
+  }
+  return createBlockscoutProvider(process.env.BLOCKSCOUT_API_URL || BLOCKSCOUT_API_BASE);
+}
@@ -16,6 +16,43 @@ CREATE TABLE IF NOT EXISTS players (
 CREATE INDEX IF NOT EXISTS idx_players_display_name ON players(display_name);
 CREATE INDEX IF NOT EXISTS idx_players_token_address ON players(token_address);
 
+-- Lifecycle status. Players are never deleted to hide them: delisted tokens
+-- keep their price history and excluded-sport players their rows.
+ALTER TABLE players ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+  CHECK (status IN ('active', 'inactive', 'delisted', 'excluded-sport'));
+ALTER TABLE players ADD COLUMN IF NOT EXISTS status_effective_at TIMESTAMPTZ DEFAULT now();
+ALTER TABLE players ADD COLUMN IF NOT EXISTS status_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_players_status ON players(status);
+
+-- Every status a player has held, with the date it took effect
+CREATE TABLE IF NOT EXISTS player_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  effective_at TIMESTAMPTZ NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_status_history_player ON player_status_history(player_id, effective_at DESC);
+
+CREATE OR REPLACE FUNCTION record_player_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO player_status_history (player_id, status, effective_at, reason)
+    VALUES (NEW.id, NEW.status, COALESCE(NEW.status_effective_at, now()), NEW.status_reason);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS players_status_history ON players;
+CREATE TRIGGER players_status_history
+  AFTER INSERT OR UPDATE OF status ON players
+  FOR EACH ROW EXECUTE FUNCTION record_player_status();
+
 -- Prices table (time series)
 CREATE TABLE IF NOT EXISTS prices (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -30,6 +67,181 @@ CREATE TABLE IF NOT EXISTS prices (
 CREATE INDEX IF NOT EXISTS idx_prices_player_time ON prices(player_id, fetched_at DESC);
 CREATE INDEX IF NOT EXISTS idx_prices_fetched_at ON prices(fetched_at DESC);
 
+-- Market snapshot fields captured alongside each price (nullable: older
+-- rows and tokens Tenero reports without them)
+ALTER TABLE prices ADD COLUMN IF NOT EXISTS liquidity_usd DECIMAL(18, 2);
+ALTER TABLE prices ADD COLUMN IF NOT EXISTS volume_24h_usd DECIMAL(18, 2);
+ALTER TABLE prices ADD COLUMN IF NOT EXISTS buy_count_24h INTEGER;
+ALTER TABLE prices ADD COLUMN IF NOT EXISTS sell_count_24h INTEGER;
+ALTER TABLE prices ADD COLUMN IF NOT EXISTS circulating_supply DECIMAL(24, 6);
+
+-- OHLC rollups of prices. Raw ticks are only kept for a short window (see
+-- cleanup_old_prices); charts over longer ranges read these instead.
+-- open_at/close_at are the tick times behind open/close, so late or
+-- out-of-order inserts still land in the right place.
+CREATE TABLE IF NOT EXISTS price_candles_hourly (
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  bucket TIMESTAMPTZ NOT NULL,
+  open_price DECIMAL(18, 8) NOT NULL,
+  high_price DECIMAL(18, 8) NOT NULL,
+  low_price DECIMAL(18, 8) NOT NULL,
+  close_price DECIMAL(18, 8) NOT NULL,
+  open_at TIMESTAMPTZ NOT NULL,
+  close_at TIMESTAMPTZ NOT NULL,
+  min_holders INTEGER,
+  max_holders INTEGER,
+  last_marketcap_usd DECIMAL(18, 2),
+  last_liquidity_usd DECIMAL(18, 2),
+  last_volume_24h_usd DECIMAL(18, 2),
+  sample_count INTEGER NOT NULL DEFAULT 1,
+  PRIMARY KEY (player_id, bucket)
+);
+
+CREATE TABLE IF NOT EXISTS price_candles_daily (LIKE price_candles_hourly INCLUDING ALL);
+
+CREATE INDEX IF NOT EXISTS idx_price_candles_hourly_bucket ON price_candles_hourly(bucket);
+CREATE INDEX IF NOT EXISTS idx_price_candles_daily_bucket ON price_candles_daily(bucket);
+
+-- Fold one tick into its hourly and daily candles (buckets are UTC)
+CREATE OR REPLACE FUNCTION rollup_price()
+RETURNS TRIGGER AS $$
+DECLARE
+  rollup RECORD;
+BEGIN
+  IF NEW.price_usd IS NULL OR NEW.player_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR rollup IN SELECT * FROM (VALUES ('price_candles_hourly', 'hour'), ('price_candles_daily', 'day')) AS r(tbl, unit) LOOP
+    EXECUTE format($sql$
+      INSERT INTO %I AS c (
+        player_id, bucket, open_price, high_price, low_price, close_price, open_at, close_at,
+        min_holders, max_holders, last_marketcap_usd, last_liquidity_usd, last_volume_24h_usd
+      )
+      VALUES (
+        ($1).player_id, date_trunc(%L, ($1).fetched_at, 'UTC'),
+        ($1).price_usd, ($1).price_usd, ($1).price_usd, ($1).price_usd, ($1).fetched_at, ($1).fetched_at,
+        ($1).holder_count, ($1).holder_count, ($1).marketcap_usd, ($1).liquidity_usd, ($1).volume_24h_usd
+      )
+      ON CONFLICT (player_id, bucket) DO UPDATE SET
+        open_price = CASE WHEN EXCLUDED.open_at < c.open_at THEN EXCLUDED.open_price ELSE c.open_price END,
+        open_at = LEAST(c.open_at, EXCLUDED.open_at),
+        high_price = GREATEST(c.high_price, EXCLUDED.high_price),
+        low_price = LEAST(c.low_price, EXCLUDED.low_price),
+        close_price = CASE WHEN EXCLUDED.close_at >= c.close_at THEN EXCLUDED.close_price ELSE c.close_price END,
+        last_marketcap_usd = CASE WHEN EXCLUDED.close_at >= c.close_at
+          THEN COALESCE(EXCLUDED.last_marketcap_usd, c.last_marketcap_usd) ELSE c.last_marketcap_usd END,
+        last_liquidity_usd = CASE WHEN EXCLUDED.close_at >= c.close_at
+          THEN COALESCE(EXCLUDED.last_liquidity_usd, c.last_liquidity_usd) ELSE c.last_liquidity_usd END,
+        last_volume_24h_usd = CASE WHEN EXCLUDED.close_at >= c.close_at
+          THEN COALESCE(EXCLUDED.last_volume_24h_usd, c.last_volume_24h_usd) ELSE c.last_volume_24h_usd END,
+        close_at = GREATEST(c.close_at, EXCLUDED.close_at),
+        min_holders = LEAST(c.min_holders, EXCLUDED.min_holders),
+        max_holders = GREATEST(c.max_holders, EXCLUDED.max_holders),
+        sample_count = c.sample_count + 1
+    $sql$, rollup.tbl, rollup.unit) USING NEW;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prices_rollup ON prices;
+CREATE TRIGGER prices_rollup
+  AFTER INSERT ON prices
+  FOR EACH ROW EXECUTE FUNCTION rollup_price();
+
+-- Build candles for raw ticks that predate the trigger. Buckets that already
+-- exist are left alone, so this is safe to re-run.
+CREATE OR REPLACE FUNCTION backfill_price_candles()
+RETURNS void AS $$
+DECLARE
+  rollup RECORD;
+BEGIN
+  FOR rollup IN SELECT * FROM (VALUES ('price_candles_hourly', 'hour'), ('price_candles_daily', 'day')) AS r(tbl, unit) LOOP
+    EXECUTE format($sql$
+      INSERT INTO %I (
+        player_id, bucket, open_price, high_price, low_price, close_price, open_at, close_at,
+        min_holders, max_holders, last_marketcap_usd, last_liquidity_usd, last_volume_24h_usd, sample_count
+      )
+      SELECT
+        player_id,
+        date_trunc(%L, fetched_at, 'UTC') AS bucket,
+        (array_agg(price_usd ORDER BY fetched_at))[1],
+        max(price_usd),
+        min(price_usd),
+        (array_agg(price_usd ORDER BY fetched_at DESC))[1],
+        min(fetched_at),
+        max(fetched_at),
+        min(holder_count),
+        max(holder_count),
+        (array_agg(marketcap_usd ORDER BY fetched_at DESC) FILTER (WHERE marketcap_usd IS NOT NULL))[1],
+        (array_agg(liquidity_usd ORDER BY fetched_at DESC) FILTER (WHERE liquidity_usd IS NOT NULL))[1],
+        (array_agg(volume_24h_usd ORDER BY fetched_at DESC) FILTER (WHERE volume_24h_usd IS NOT NULL))[1],
+        count(*)
+      FROM prices
+      WHERE price_usd IS NOT NULL AND player_id IS NOT NULL
+      GROUP BY player_id, bucket
+      ON CONFLICT (player_id, bucket) DO NOTHING
+    $sql$, rollup.tbl, rollup.unit);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT backfill_price_candles();
+
+-- One row per cron invocation, so silent failures and missed runs show up
+CREATE TABLE IF NOT EXISTS cron_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'partial', 'failed')),
+  started_at TIMESTAMPTZ DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  tokens_fetched INTEGER,
+  players_matched INTEGER,
+  prices_inserted INTEGER,
+  unmatched_tokens TEXT[] NOT NULL DEFAULT '{}',
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_cron_runs_job_started ON cron_runs(job, started_at DESC);
+
+-- Tenero tokens no player claims yet. The cron keeps them fresh with the
+-- best name matches; an admin links each to a player or creates one.
+CREATE TABLE IF NOT EXISTS pending_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token_address TEXT NOT NULL UNIQUE,
+  token_symbol TEXT,
+  token_name TEXT NOT NULL,
+  last_price_usd DECIMAL(18, 8),
+  candidates JSONB NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'linked', 'created', 'ignored')),
+  player_id UUID REFERENCES players(id) ON DELETE SET NULL,
+  first_seen_at TIMESTAMPTZ DEFAULT now(),
+  last_seen_at TIMESTAMPTZ DEFAULT now(),
+  resolved_at TIMESTAMPTZ,
+  resolved_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_tokens_status ON pending_tokens(status, first_seen_at);
+
+-- One row per event. external_id is the Sport.fun tournament id; events
+-- imported from CSV have none and are named after their date.
+CREATE TABLE IF NOT EXISTS tournaments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  external_id TEXT UNIQUE,
+  name TEXT NOT NULL,
+  tournament_date DATE NOT NULL, -- first fixture
+  end_date DATE,
+  competition TEXT,
+  game_type TEXT,
+  entrants INTEGER,
+  tp_pool DECIMAL(18, 2),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournaments_date ON tournaments(tournament_date DESC);
+
 -- Performance table
 CREATE TABLE IF NOT EXISTS performance (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -37,17 +249,178 @@ CREATE TABLE IF NOT EXISTS performance (
   match_date DATE NOT NULL,
   raw_score INTEGER,
   ranking INTEGER,
-  reward DECIMAL(18, 2),
-  UNIQUE(player_id, match_date)
+  reward DECIMAL(18, 2)
 );
 
 -- Create index for performance lookups
 CREATE INDEX IF NOT EXISTS idx_perf_player_date ON performance(player_id, match_date DESC);
 
+-- Each row belongs to a tournament; match_date is a copy of its
+-- tournament_date for the window filters. Rows from before the tournaments
+-- table get one tournament per distinct match_date.
+ALTER TABLE performance ADD COLUMN IF NOT EXISTS tournament_id UUID REFERENCES tournaments(id) ON DELETE CASCADE;
+
+INSERT INTO tournaments (name, tournament_date)
+SELECT DISTINCT 'Tournament ' || pf.match_date, pf.match_date
+FROM performance pf
+WHERE pf.tournament_id IS NULL
+  AND NOT EXISTS (SELECT 1 FROM tournaments t WHERE t.tournament_date = pf.match_date);
+
+UPDATE performance pf SET tournament_id = (
+  SELECT t.id FROM tournaments t
+  WHERE t.tournament_date = pf.match_date
+  ORDER BY t.created_at, t.id
+  LIMIT 1
+)
+WHERE pf.tournament_id IS NULL;
+
+ALTER TABLE performance ALTER COLUMN tournament_id SET NOT NULL;
+ALTER TABLE performance DROP CONSTRAINT IF EXISTS performance_player_id_match_date_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_perf_player_tournament ON performance(player_id, tournament_id);
+CREATE INDEX IF NOT EXISTS idx_perf_tournament ON performance(tournament_id);
+
+-- One row per import run (upload page or script). Players and performance
+-- rows written by an import carry its id so the run can be rolled back.
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source TEXT NOT NULL,
+  file_name TEXT,
+  created_by TEXT,
+  status TEXT NOT NULL DEFAULT 'applied' CHECK (status IN ('applied', 'rolled_back')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  rolled_back_at TIMESTAMPTZ,
+  rolled_back_by TEXT
+);
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+ALTER TABLE performance ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+-- The batch that created the tournament, so rolling it back can remove it
+ALTER TABLE tournaments ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+
+-- The state of each row before a batch first touched it.
+-- previous is NULL when the batch inserted the row.
+CREATE TABLE IF NOT EXISTS import_batch_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES import_batches(id) ON DELETE CASCADE,
+  table_name TEXT NOT NULL CHECK (table_name IN ('players', 'performance', 'tournaments')),
+  row_id UUID NOT NULL,
+  previous JSONB,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(batch_id, table_name, row_id)
+);
+
+-- Tournaments an import updates are recorded too (by import_performance)
+ALTER TABLE import_batch_changes DROP CONSTRAINT IF EXISTS import_batch_changes_table_name_check;
+ALTER TABLE import_batch_changes ADD CONSTRAINT import_batch_changes_table_name_check
+  CHECK (table_name IN ('players', 'performance', 'tournaments'));
+
+CREATE INDEX IF NOT EXISTS idx_import_batch_changes_row ON import_batch_changes(table_name, row_id);
+
+-- Record a change whenever a write sets a new import_batch_id. Rollbacks set
+-- import.rollback so restoring an older batch id isn't recorded again.
+CREATE OR REPLACE FUNCTION record_import_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.import_batch_id IS NULL
+    OR (TG_OP = 'UPDATE' AND NEW.import_batch_id IS NOT DISTINCT FROM OLD.import_batch_id)
+    OR current_setting('import.rollback', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO import_batch_changes (batch_id, table_name, row_id, previous)
+  VALUES (
+    NEW.import_batch_id,
+    TG_TABLE_NAME,
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END
+  )
+  ON CONFLICT (batch_id, table_name, row_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS players_import_change ON players;
+CREATE TRIGGER players_import_change
+  AFTER INSERT OR UPDATE ON players
+  FOR EACH ROW EXECUTE FUNCTION record_import_change();
+
+DROP TRIGGER IF EXISTS performance_import_change ON performance;
+CREATE TRIGGER performance_import_change
+  AFTER INSERT OR UPDATE ON performance
+  FOR EACH ROW EXECUTE FUNCTION record_import_change();
+
+-- Import history for the admin dashboard
+CREATE OR REPLACE VIEW import_batch_summaries WITH (security_invoker = true) AS
+SELECT
+  b.*,
+  COUNT(c.id) FILTER (WHERE c.table_name = 'performance' AND c.previous IS NULL) AS performance_inserted,
+  COUNT(c.id) FILTER (WHERE c.table_name = 'performance' AND c.previous IS NOT NULL) AS performance_updated,
+  COUNT(c.id) FILTER (WHERE c.table_name = 'players' AND c.previous IS NULL) AS players_created,
+  COUNT(c.id) FILTER (WHERE c.table_name = 'players' AND c.previous IS NOT NULL) AS players_updated
+FROM import_batches b
+LEFT JOIN import_batch_changes c ON c.batch_id = b.id
+GROUP BY b.id;
+
+-- Alternate names a player is known by in each external source
+-- (Tenero token names, the sport API, uploaded sheets)
+CREATE TABLE IF NOT EXISTS player_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alias TEXT NOT NULL,
+  normalized_alias TEXT NOT NULL,
+  source TEXT NOT NULL,
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+  confidence DECIMAL(4, 3) DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(normalized_alias, source)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_aliases_player ON player_aliases(player_id);
+
+-- Names no source could resolve confidently, waiting for an admin to link
+CREATE TABLE IF NOT EXISTS identity_review_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alias TEXT NOT NULL,
+  normalized_alias TEXT NOT NULL,
+  source TEXT NOT NULL,
+  candidates JSONB NOT NULL DEFAULT '[]',
+  context JSONB,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'resolved', 'dismissed')),
+  resolved_player_id UUID REFERENCES players(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  resolved_at TIMESTAMPTZ,
+  UNIQUE(normalized_alias, source)
+);
+
+CREATE INDEX IF NOT EXISTS idx_identity_review_status ON identity_review_queue(status, created_at);
+
+-- Token names Tenero uses for players we store under their short name
+INSERT INTO player_aliases (alias, normalized_alias, source, player_id)
+SELECT a.alias, a.normalized_alias, 'tenero', p.id
+FROM (VALUES
+  ('Pedro González López', 'pedro gonzalez lopez', 'Pedri'),
+  ('Raphael Dias Belloli', 'raphael dias belloli', 'Raphinha'),
+  ('Vítor Machado Ferreira', 'vitor machado ferreira', 'Vitinha')
+) AS a(alias, normalized_alias, display_name)
+JOIN players p ON p.display_name = a.display_name
+ON CONFLICT (normalized_alias, source) DO NOTHING;
+
 -- Enable Row Level Security (RLS)
 ALTER TABLE players ENABLE ROW LEVEL SECURITY;
 ALTER TABLE prices ENABLE ROW LEVEL SECURITY;
 ALTER TABLE performance ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournaments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_candles_hourly ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_candles_daily ENABLE ROW LEVEL SECURITY;
+-- Aliases, the review queue, import history, cron runs, pending tokens and
+-- status history are admin-only (service role, no public policy)
+ALTER TABLE player_aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE identity_review_queue ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_batch_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cron_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pending_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE player_status_history ENABLE ROW LEVEL SECURITY;
 
 -- Public read access policies
 CREATE POLICY "Public read access for players"
@@ -62,18 +435,965 @@ CREATE POLICY "Public read access for performance"
   ON performance FOR SELECT
   USING (true);
 
+CREATE POLICY "Public read access for tournaments"
+  ON tournaments FOR SELECT
+  USING (true);
+
+CREATE POLICY "Public read access for hourly candles"
+  ON price_candles_hourly FOR SELECT
+  USING (true);
+
+CREATE POLICY "Public read access for daily candles"
+  ON price_candles_daily FOR SELECT
+  USING (true);
+
 -- Service role has full access (for cron jobs and admin operations)
 -- Note: Service role bypasses RLS by default
 
--- Optional: Create a function to clean up old price data (keep last 90 days)
+-- Retention, run by the price cron. Raw ticks are kept for 7 days and
+-- hourly candles for 180; daily candles are kept forever. Every tick is
+-- already in its candles by the time it is deleted (prices_rollup trigger).
+-- Keep in sync with lib/price-history.ts.
 CREATE OR REPLACE FUNCTION cleanup_old_prices()
 RETURNS void AS $$
 BEGIN
   DELETE FROM prices
-  WHERE fetched_at < now() - interval '90 days';
+  WHERE fetched_at < now() - interval '7 days';
+
+  DELETE FROM price_candles_hourly
+  WHERE bucket < now() - interval '180 days';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Atomic performance import used by /api/admin/performance-import and the
+-- import scripts. Opens an import batch, creates missing players and upserts
+-- their rows in a single transaction. Rows for new players carry
+-- display_name instead of player_id. Returns the batch id.
+--
+-- p_tournament (external_id, name, tournament_date, end_date, competition,
+-- game_type, entrants, tp_pool) puts every row in that tournament, creating
+-- or updating it by external_id. Without it each row goes to the earliest
+-- tournament on its match_date, and dates with none get a new one.
+DROP FUNCTION IF EXISTS import_performance(JSONB, JSONB);
+DROP FUNCTION IF EXISTS import_performance(JSONB, JSONB, JSONB);
+CREATE OR REPLACE FUNCTION import_performance(
+  p_batch JSONB,
+  p_new_players JSONB,
+  p_rows JSONB,
+  p_tournament JSONB DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_batch_id UUID;
+  v_tournament_id UUID;
+  v_tournament_date DATE;
+BEGIN
+  INSERT INTO import_batches (source, file_name, created_by)
+  VALUES (p_batch->>'source', p_batch->>'file_name', p_batch->>'created_by')
+  RETURNING id INTO v_batch_id;
+
+  INSERT INTO players (display_name, team_name, position, import_batch_id)
+  SELECT x.display_name, x.team_name, x.position, v_batch_id
+  FROM jsonb_to_recordset(p_new_players) AS x(display_name TEXT, team_name TEXT, position TEXT);
+
+  IF p_tournament IS NOT NULL THEN
+    v_tournament_date := (p_tournament->>'tournament_date')::DATE;
+
+    SELECT id INTO v_tournament_id FROM tournaments WHERE external_id = p_tournament->>'external_id';
+    IF v_tournament_id IS NULL THEN
+      -- Adopt a tournament backfilled or imported from CSV for the same date
+      SELECT id INTO v_tournament_id
+      FROM tournaments
+      WHERE external_id IS NULL AND tournament_date = v_tournament_date
+      ORDER BY created_at, id
+      LIMIT 1;
+    END IF;
+
+    IF v_tournament_id IS NULL THEN
+      INSERT INTO tournaments (external_id, name, tournament_date, end_date, competition, game_type, entrants, tp_pool, import_batch_id)
+      VALUES (
+        p_tournament->>'external_id',
+        p_tournament->>'name',
+        v_tournament_date,
+        (p_tournament->>'end_date')::DATE,
+        p_tournament->>'competition',
+        p_tournament->>'game_type',
+        (p_tournament->>'entrants')::INTEGER,
+        (p_tournament->>'tp_pool')::DECIMAL(18, 2),
+        v_batch_id
+      )
+      RETURNING id INTO v_tournament_id;
+    ELSE
+      -- Keep its metadata from before this batch so a rollback restores it
+      INSERT INTO import_batch_changes (batch_id, table_name, row_id, previous)
+      SELECT v_batch_id, 'tournaments', t.id, to_jsonb(t)
+      FROM tournaments t
+      WHERE t.id = v_tournament_id
+      ON CONFLICT (batch_id, table_name, row_id) DO NOTHING;
+
+      UPDATE tournaments SET
+        external_id = p_tournament->>'external_id',
+        name = p_tournament->>'name',
+        tournament_date = v_tournament_date,
+        end_date = (p_tournament->>'end_date')::DATE,
+        competition = p_tournament->>'competition',
+        game_type = p_tournament->>'game_type',
+        entrants = (p_tournament->>'entrants')::INTEGER,
+        tp_pool = (p_tournament->>'tp_pool')::DECIMAL(18, 2)
+      WHERE id = v_tournament_id;
+
+      UPDATE performance SET match_date = v_tournament_date
+      WHERE tournament_id = v_tournament_id AND match_date <> v_tournament_date;
+    END IF;
+  ELSE
+    INSERT INTO tournaments (name, tournament_date, import_batch_id)
+    SELECT DISTINCT 'Tournament ' || r.match_date, r.match_date, v_batch_id
+    FROM jsonb_to_recordset(p_rows) AS r(match_date DATE)
+    WHERE NOT EXISTS (SELECT 1 FROM tournaments t WHERE t.tournament_date = r.match_date);
+  END IF;
+
+  INSERT INTO performance (player_id, tournament_id, match_date, raw_score, ranking, reward, import_batch_id)
+  SELECT
+    COALESCE(r.player_id, p.id),
+    COALESCE(v_tournament_id, (
+      SELECT t.id FROM tournaments t
+      WHERE t.tournament_date = r.match_date
+      ORDER BY t.created_at, t.id
+      LIMIT 1
+    )),
+    COALESCE(v_tournament_date, r.match_date),
+    r.raw_score,
+    r.ranking,
+    r.reward,
+    v_batch_id
+  FROM jsonb_to_recordset(p_rows) AS r(
+    player_id UUID,
+    display_name TEXT,
+    match_date DATE,
+    raw_score INTEGER,
+    ranking INTEGER,
+    reward DECIMAL(18, 2)
+  )
+  LEFT JOIN players p ON r.player_id IS NULL AND p.display_name = r.display_name
+  ON CONFLICT (player_id, tournament_id) DO UPDATE SET
+    raw_score = EXCLUDED.raw_score,
+    ranking = EXCLUDED.ranking,
+    reward = EXCLUDED.reward,
+    import_batch_id = EXCLUDED.import_batch_id;
+
+  PERFORM refresh_player_stats(ARRAY(
+    SELECT DISTINCT player_id FROM performance WHERE import_batch_id = v_batch_id
+  ));
+
+  RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Undo an import batch: overwritten rows get their previous values back,
+-- inserted rows are deleted, and players and tournaments it created are
+-- removed unless another import has since given them performance rows. Batches have to be
+-- rolled back newest first when they touched the same rows. Tournaments it
+-- updated get their old metadata back, and their games their old date.
+CREATE OR REPLACE FUNCTION rollback_import_batch(p_batch_id UUID, p_rolled_back_by TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_batch import_batches%ROWTYPE;
+  v_performance_restored INTEGER;
+  v_performance_deleted INTEGER;
+  v_players_restored INTEGER;
+  v_players_deleted INTEGER;
+  v_players_kept INTEGER;
+  v_player_ids UUID[];
+BEGIN
+  SELECT * INTO v_batch FROM import_batches WHERE id = p_batch_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found', p_batch_id;
+  END IF;
+  IF v_batch.status <> 'applied' THEN
+    RAISE EXCEPTION 'Import batch % has already been rolled back', p_batch_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM import_batch_changes c
+    JOIN import_batch_changes later ON later.table_name = c.table_name AND later.row_id = c.row_id
+    JOIN import_batches lb ON lb.id = later.batch_id
+    WHERE c.batch_id = p_batch_id
+      AND lb.status = 'applied'
+      AND lb.created_at > v_batch.created_at
+  ) THEN
+    RAISE EXCEPTION 'A later import changed the same rows; roll that one back first';
+  END IF;
+
+  -- Players whose stats change, read before their inserted rows are deleted
+  v_player_ids := ARRAY(
+    SELECT DISTINCT perf.player_id
+    FROM import_batch_changes c
+    JOIN performance perf
+      ON (c.table_name = 'performance' AND perf.id = c.row_id)
+      OR (c.table_name = 'tournaments' AND perf.tournament_id = c.row_id)
+    WHERE c.batch_id = p_batch_id
+  );
+
+  PERFORM set_config('import.rollback', 'on', true);
+
+  UPDATE performance p SET
+    raw_score = r.raw_score,
+    ranking = r.ranking,
+    reward = r.reward,
+    import_batch_id = r.import_batch_id
+  FROM import_batch_changes c, jsonb_populate_record(NULL::performance, c.previous) r
+  WHERE c.batch_id = p_batch_id
+    AND c.table_name = 'performance'
+    AND c.previous IS NOT NULL
+    AND p.id = c.row_id;
+  GET DIAGNOSTICS v_performance_restored = ROW_COUNT;
+
+  UPDATE tournaments t SET
+    external_id = r.external_id,
+    name = r.name,
+    tournament_date = r.tournament_date,
+    end_date = r.end_date,
+    competition = r.competition,
+    game_type = r.game_type,
+    entrants = r.entrants,
+    tp_pool = r.tp_pool
+  FROM import_batch_changes c, jsonb_populate_record(NULL::tournaments, c.previous) r
+  WHERE c.batch_id = p_batch_id
+    AND c.table_name = 'tournaments'
+    AND t.id = c.row_id;
+
+  -- The import moved the tournament's games to its new date; move them back
+  UPDATE performance p SET match_date = t.tournament_date
+  FROM import_batch_changes c
+  JOIN tournaments t ON t.id = c.row_id
+  WHERE c.batch_id = p_batch_id
+    AND c.table_name = 'tournaments'
+    AND p.tournament_id = t.id
+    AND p.match_date <> t.tournament_date;
+
+  DELETE FROM performance
+  WHERE id IN (
+    SELECT row_id FROM import_batch_changes
+    WHERE batch_id = p_batch_id AND table_name = 'performance' AND previous IS NULL
+  );
+  GET DIAGNOSTICS v_performance_deleted = ROW_COUNT;
+
+  UPDATE players p SET
+    display_name = r.display_name,
+    team_name = r.team_name,
+    position = r.position,
+    token_symbol = r.token_symbol,
+    token_address = r.token_address,
+    import_batch_id = r.import_batch_id
+  FROM import_batch_changes c, jsonb_populate_record(NULL::players, c.previous) r
+  WHERE c.batch_id = p_batch_id
+    AND c.table_name = 'players'
+    AND c.previous IS NOT NULL
+    AND p.id = c.row_id;
+  GET DIAGNOSTICS v_players_restored = ROW_COUNT;
+
+  DELETE FROM players p
+  WHERE p.id IN (
+    SELECT row_id FROM import_batch_changes
+    WHERE batch_id = p_batch_id AND table_name = 'players' AND previous IS NULL
+  )
+  AND NOT EXISTS (SELECT 1 FROM performance perf WHERE perf.player_id = p.id);
+  GET DIAGNOSTICS v_players_deleted = ROW_COUNT;
+
+  DELETE FROM tournaments t
+  WHERE t.import_batch_id = p_batch_id
+    AND NOT EXISTS (SELECT 1 FROM performance perf WHERE perf.tournament_id = t.id);
+
+  SELECT COUNT(*) INTO v_players_kept
+  FROM import_batch_changes c
+  JOIN players p ON p.id = c.row_id
+  WHERE c.batch_id = p_batch_id AND c.table_name = 'players' AND c.previous IS NULL;
+
+  UPDATE import_batches SET
+    status = 'rolled_back',
+    rolled_back_at = now(),
+    rolled_back_by = p_rolled_back_by
+  WHERE id = p_batch_id;
+
+  PERFORM refresh_player_stats(v_player_ids);
+
+  RETURN jsonb_build_object(
+    'performance_restored', v_performance_restored,
+    'performance_deleted', v_performance_deleted,
+    'players_restored', v_players_restored,
+    'players_deleted', v_players_deleted,
+    'players_kept', v_players_kept
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- The import preview reads the tournaments table for known dates
+DROP FUNCTION IF EXISTS existing_match_dates(DATE[]);
+
+-- Aggregations used by the public pages, so renders read one row per
+-- player/team/position instead of every performance row.
+-- A window is the match_dates from p_since to p_until (NULL for open-ended);
+-- with p_since_listing each player's games before their token listed are
+-- left out too (see WindowBounds in lib/time-window.ts).
+-- p_statuses defaults to LISTED_PLAYER_STATUSES in lib/player-status.ts.
+
+-- Set by scripts/fetch-active-shares.js
+ALTER TABLE players ADD COLUMN IF NOT EXISTS active_shares DECIMAL(24, 6);
+ALTER TABLE players ADD COLUMN IF NOT EXISTS circulating_shares DECIMAL(24, 6);
+
+-- Latest known price per player (the close of its newest daily candle)
+CREATE OR REPLACE VIEW latest_prices WITH (security_invoker = true) AS
+SELECT DISTINCT ON (player_id)
+  player_id,
+  close_price AS price_usd,
+  last_marketcap_usd AS marketcap_usd,
+  last_liquidity_usd AS liquidity_usd,
+  last_volume_24h_usd AS volume_24h_usd,
+  close_at AS fetched_at
+FROM price_candles_daily
+ORDER BY player_id, bucket DESC;
+
+-- Games that earn TP by finishing position, per position. A rule applies
+-- from effective_from until the position's next rule; edited at
+-- /admin/scoring-rules.
+CREATE TABLE IF NOT EXISTS scoring_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  position TEXT NOT NULL,
+  rank_threshold INTEGER NOT NULL CHECK (rank_threshold > 0),
+  effective_from DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  created_by TEXT,
+  UNIQUE(position, effective_from)
+);
+
+ALTER TABLE scoring_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access for scoring rules"
+  ON scoring_rules FOR SELECT
+  USING (true);
+
+-- The original rules: top 5, top 3 for goalkeepers
+INSERT INTO scoring_rules (position, rank_threshold, effective_from)
+VALUES
+  ('Forward', 5, '2000-01-01'),
+  ('Midfielder', 5, '2000-01-01'),
+  ('Defender', 5, '2000-01-01'),
+  ('Goalkeeper', 3, '2000-01-01')
+ON CONFLICT (position, effective_from) DO NOTHING;
+
+-- The TP rank threshold in force for a position on p_date
+DROP FUNCTION IF EXISTS tp_rank_threshold(TEXT);
+CREATE OR REPLACE FUNCTION tp_rank_threshold(p_position TEXT, p_date DATE)
+RETURNS INTEGER AS $$
+  SELECT rank_threshold
+  FROM scoring_rules
+  WHERE position = p_position AND effective_from <= p_date
+  ORDER BY effective_from DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- A player's listing date is the day of their first price
+CREATE OR REPLACE FUNCTION performance_in_window(
+  p_since DATE DEFAULT NULL,
+  p_until DATE DEFAULT NULL,
+  p_since_listing BOOLEAN DEFAULT false
+)
+RETURNS SETOF performance AS $$
+  SELECT pf.*
+  FROM performance pf
+  WHERE (p_since IS NULL OR pf.match_date >= p_since)
+    AND (p_until IS NULL OR pf.match_date <= p_until)
+    AND (NOT p_since_listing OR pf.match_date >= (
+      SELECT MIN(c.bucket)::date FROM price_candles_daily c WHERE c.player_id = pf.player_id
+    ));
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS player_performance_totals(DATE, TEXT[]);
+CREATE OR REPLACE FUNCTION player_performance_totals(
+  p_since DATE DEFAULT NULL,
+  p_until DATE DEFAULT NULL,
+  p_since_listing BOOLEAN DEFAULT false,
+  p_statuses TEXT[] DEFAULT ARRAY['active', 'inactive']
+)
+RETURNS TABLE (
+  player_id UUID,
+  total_tp NUMERIC,
+  games_played BIGINT,
+  tp_games BIGINT,
+  tp_finishes BIGINT,
+  total_score BIGINT,
+  scored_games BIGINT,
+  score_stddev DOUBLE PRECISION,
+  avg_ranking NUMERIC,
+  best_ranking INTEGER
+) AS $$
+  SELECT
+    pf.player_id,
+    COALESCE(SUM(pf.reward) FILTER (WHERE pf.reward > 0), 0),
+    COUNT(*),
+    COUNT(*) FILTER (WHERE pf.reward > 0),
+    COUNT(*) FILTER (WHERE pf.ranking <= tp_rank_threshold(p.position, pf.match_date)),
+    COALESCE(SUM(pf.raw_score), 0),
+    COUNT(pf.raw_score),
+    stddev_pop(pf.raw_score),
+    AVG(pf.ranking),
+    MIN(pf.ranking)
+  FROM performance_in_window(p_since, p_until, p_since_listing) pf
+  JOIN players p ON p.id = pf.player_id
+  WHERE p.status = ANY(p_statuses)
+  GROUP BY pf.player_id;
+$$ LANGUAGE sql STABLE;
+
+-- Per-player totals for each TIME_FILTERS window in lib/data.ts, kept
+-- current by refresh_player_stats() so renders don't aggregate performance.
+-- The price cron refreshes every player; imports and rollbacks refresh the
+-- players they touched in the same transaction.
+CREATE TABLE IF NOT EXISTS player_stats (
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  time_window TEXT NOT NULL CHECK (time_window IN ('1m', '3m', 'all')),
+  window_start DATE,
+  total_tp DECIMAL(18, 2) NOT NULL DEFAULT 0,
+  games_played INTEGER NOT NULL DEFAULT 0,
+  tp_games INTEGER NOT NULL DEFAULT 0,
+  tp_finishes INTEGER NOT NULL DEFAULT 0,
+  total_score BIGINT NOT NULL DEFAULT 0,
+  scored_games INTEGER NOT NULL DEFAULT 0,
+  avg_score NUMERIC,
+  score_stddev NUMERIC,
+  avg_ranking NUMERIC,
+  best_ranking INTEGER,
+  latest_price DECIMAL(18, 8),
+  market_cap NUMERIC,
+  active_market_cap NUMERIC,
+  tp_per_100 NUMERIC,
+  refreshed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (player_id, time_window)
+);
+
+-- TP per dollar is TP per $100 of tokens: TP is paid out per active share,
+-- so it's measured against price × active_shares (tpPer100 in lib/utils.ts).
+-- tp_per_dollar measured it per $1 of circulating market cap.
+ALTER TABLE player_stats ADD COLUMN IF NOT EXISTS active_market_cap NUMERIC;
+ALTER TABLE player_stats ADD COLUMN IF NOT EXISTS tp_per_100 NUMERIC;
+ALTER TABLE player_stats DROP COLUMN IF EXISTS tp_per_dollar;
+
+CREATE INDEX IF NOT EXISTS idx_player_stats_window_tp ON player_stats(time_window, total_tp DESC);
+
+ALTER TABLE player_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access for player stats"
+  ON player_stats FOR SELECT
+  USING (true);
+
+-- Recompute player_stats for the given players, or every player when NULL.
+-- Returns the number of rows written.
+CREATE OR REPLACE FUNCTION refresh_player_stats(p_player_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_today DATE := (now() AT TIME ZONE 'UTC')::date;
+  v_window RECORD;
+  v_rows INTEGER;
+  v_total INTEGER := 0;
+BEGIN
+  FOR v_window IN
+    SELECT * FROM (VALUES
+      ('1m', (v_today - INTERVAL '1 month')::date),
+      ('3m', (v_today - INTERVAL '3 months')::date),
+      ('all', NULL::date)
+    ) AS w(time_window, window_start)
+  LOOP
+    INSERT INTO player_stats (
+      player_id, time_window, window_start,
+      total_tp, games_played, tp_games, tp_finishes, total_score, scored_games,
+      avg_score, score_stddev, avg_ranking, best_ranking,
+      latest_price, market_cap, active_market_cap, tp_per_100, refreshed_at
+    )
+    SELECT
+      p.id,
+      v_window.time_window,
+      v_window.window_start,
+      COALESCE(t.total_tp, 0),
+      COALESCE(t.games_played, 0),
+      COALESCE(t.tp_games, 0),
+      COALESCE(t.tp_finishes, 0),
+      COALESCE(t.total_score, 0),
+      COALESCE(t.scored_games, 0),
+      t.total_score::NUMERIC / NULLIF(t.scored_games, 0),
+      t.score_stddev,
+      t.avg_ranking,
+      t.best_ranking,
+      lp.price_usd,
+      lp.price_usd * p.circulating_shares,
+      lp.price_usd * p.active_shares,
+      COALESCE(t.total_tp, 0) * 100 / NULLIF(lp.price_usd * p.active_shares, 0),
+      now()
+    FROM players p
+    LEFT JOIN latest_prices lp ON lp.player_id = p.id
+    LEFT JOIN player_performance_totals(
+      v_window.window_start,
+      p_statuses => ARRAY['active', 'inactive', 'delisted', 'excluded-sport']
+    ) t ON t.player_id = p.id
+    WHERE p_player_ids IS NULL OR p.id = ANY(p_player_ids)
+    ON CONFLICT (player_id, time_window) DO UPDATE SET
+      window_start = EXCLUDED.window_start,
+      total_tp = EXCLUDED.total_tp,
+      games_played = EXCLUDED.games_played,
+      tp_games = EXCLUDED.tp_games,
+      tp_finishes = EXCLUDED.tp_finishes,
+      total_score = EXCLUDED.total_score,
+      scored_games = EXCLUDED.scored_games,
+      avg_score = EXCLUDED.avg_score,
+      score_stddev = EXCLUDED.score_stddev,
+      avg_ranking = EXCLUDED.avg_ranking,
+      best_ranking = EXCLUDED.best_ranking,
+      latest_price = EXCLUDED.latest_price,
+      market_cap = EXCLUDED.market_cap,
+      active_market_cap = EXCLUDED.active_market_cap,
+      tp_per_100 = EXCLUDED.tp_per_100,
+      refreshed_at = EXCLUDED.refreshed_at;
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    v_total := v_total + v_rows;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Full rebuild from the admin dashboard
+CREATE OR REPLACE FUNCTION rebuild_player_stats()
+RETURNS INTEGER AS $$
+BEGIN
+  TRUNCATE player_stats;
+  RETURN refresh_player_stats();
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT refresh_player_stats();
+
+-- Team totals are summed from window stats in app/teams/page.tsx
+DROP FUNCTION IF EXISTS team_rollups(DATE, TEXT[]);
+DROP FUNCTION IF EXISTS team_rollups(TEXT, TEXT[]);
+
+-- Market cap per position, counting only players with a price
+CREATE OR REPLACE FUNCTION position_rollups(
+  p_statuses TEXT[] DEFAULT ARRAY['active', 'inactive']
+)
+RETURNS TABLE (position TEXT, player_count BIGINT, market_cap NUMERIC) AS $$
+  SELECT
+    p.position,
+    COUNT(*) FILTER (WHERE s.market_cap > 0),
+    COALESCE(SUM(s.market_cap) FILTER (WHERE s.market_cap > 0), 0)
+  FROM players p
+  LEFT JOIN player_stats s ON s.player_id = p.id AND s.time_window = 'all'
+  WHERE p.status = ANY(p_statuses) AND p.position IS NOT NULL
+  GROUP BY p.position;
+$$ LANGUAGE sql STABLE;
+
+-- Raw scores in TP-qualifying games per position, with who posted the
+-- highest and lowest
+DROP FUNCTION IF EXISTS position_score_stats(DATE, TEXT[]);
+CREATE OR REPLACE FUNCTION position_score_stats(
+  p_since DATE DEFAULT NULL,
+  p_until DATE DEFAULT NULL,
+  p_since_listing BOOLEAN DEFAULT false,
+  p_statuses TEXT[] DEFAULT ARRAY['active', 'inactive']
+)
+RETURNS TABLE (
+  position TEXT,
+  avg_score NUMERIC,
+  highest_score INTEGER,
+  highest_score_player TEXT,
+  lowest_score INTEGER,
+  lowest_score_player TEXT
+) AS $$
+  WITH qualifying AS (
+    SELECT p.position, p.display_name, pf.raw_score
+    FROM performance_in_window(p_since, p_until, p_since_listing) pf
+    JOIN players p ON p.id = pf.player_id
+    WHERE p.status = ANY(p_statuses)
+      AND p.position IS NOT NULL
+      AND pf.raw_score IS NOT NULL AND pf.raw_score <> 0
+      AND pf.ranking <= tp_rank_threshold(p.position, pf.match_date)
+  )
+  SELECT
+    q.position,
+    AVG(q.raw_score),
+    MAX(q.raw_score),
+    (array_agg(q.display_name ORDER BY q.raw_score DESC))[1],
+    MIN(q.raw_score),
+    (array_agg(q.display_name ORDER BY q.raw_score ASC))[1]
+  FROM qualifying q
+  GROUP BY q.position;
+$$ LANGUAGE sql STABLE;
+
+-- Distinct players earning TP each month, per position, next to the number
+-- of tournaments held that month
+DROP FUNCTION IF EXISTS monthly_unique_earners(DATE, TEXT[]);
+DROP FUNCTION IF EXISTS monthly_unique_earners(DATE, DATE, BOOLEAN, TEXT[]);
+CREATE OR REPLACE FUNCTION monthly_unique_earners(
+  p_since DATE DEFAULT NULL,
+  p_until DATE DEFAULT NULL,
+  p_since_listing BOOLEAN DEFAULT false,
+  p_statuses TEXT[] DEFAULT ARRAY['active', 'inactive']
+)
+RETURNS TABLE (month TEXT, position TEXT, earners BIGINT, tournaments BIGINT) AS $$
+  WITH games AS (
+    SELECT pf.player_id, pf.tournament_id, pf.reward, to_char(t.tournament_date, 'YYYY-MM') AS month
+    FROM performance_in_window(p_since, p_until, p_since_listing) pf
+    JOIN tournaments t ON t.id = pf.tournament_id
+  ),
+  months AS (
+    SELECT g.month, COUNT(DISTINCT g.tournament_id) AS tournaments
+    FROM games g
+    GROUP BY g.month
+  )
+  SELECT
+    m.month,
+    p.position,
+    COUNT(DISTINCT g.player_id) FILTER (WHERE g.reward > 0),
+    m.tournaments
+  FROM games g
+  JOIN months m ON m.month = g.month
+  JOIN players p ON p.id = g.player_id
+  WHERE p.status = ANY(p_statuses)
+    AND p.position IS NOT NULL
+  GROUP BY m.month, p.position, m.tournaments;
+$$ LANGUAGE sql STABLE;
+
+-- Tournaments are read from the tournaments table in lib/data.ts
+DROP FUNCTION IF EXISTS tournament_dates(DATE);
+DROP FUNCTION IF EXISTS tournament_dates(DATE, DATE);
+
+-- Spread of hourly closing prices over the last p_days days
+CREATE OR REPLACE FUNCTION price_volatility(p_days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  player_id UUID,
+  first_price NUMERIC,
+  last_price NUMERIC,
+  mean_price NUMERIC,
+  price_stddev NUMERIC,
+  samples BIGINT
+) AS $$
+  SELECT
+    player_id,
+    (array_agg(close_price ORDER BY bucket))[1],
+    (array_agg(close_price ORDER BY bucket DESC))[1],
+    AVG(close_price),
+    stddev_pop(close_price),
+    COUNT(*)
+  FROM price_candles_hourly
+  WHERE bucket >= now() - make_interval(days => p_days)
+  GROUP BY player_id;
+$$ LANGUAGE sql STABLE;
+
+-- Ranked games per finishing position, 1st to 5th and then 6th or worse as 6
+CREATE OR REPLACE FUNCTION player_ranking_distribution()
+RETURNS TABLE (
+  player_id UUID,
+  rank_bucket INTEGER,
+  games BIGINT
+) AS $$
+  SELECT player_id, LEAST(ranking, 6), COUNT(*)
+  FROM performance
+  WHERE ranking >= 1
+  GROUP BY player_id, LEAST(ranking, 6);
+$$ LANGUAGE sql STABLE;
+
+-- Token trades users record on /portfolio. user_id defaults to the signed-in
+-- user and RLS keeps each user's rows to themselves.
+CREATE TABLE IF NOT EXISTS portfolio_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+  quantity DECIMAL(24, 6) NOT NULL CHECK (quantity > 0),
+  price_usd DECIMAL(18, 8) NOT NULL CHECK (price_usd >= 0),
+  traded_on DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_transactions_user ON portfolio_transactions(user_id, traded_on);
+
+ALTER TABLE portfolio_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their own transactions"
+  ON portfolio_transactions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users add their own transactions"
+  ON portfolio_transactions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users delete their own transactions"
+  ON portfolio_transactions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Trades written by a wallet import carry the wallet, so re-importing it
+-- only adjusts that wallet's positions
+ALTER TABLE portfolio_transactions ADD COLUMN IF NOT EXISTS wallet_address TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_transactions_wallet ON portfolio_transactions(user_id, wallet_address);
+
+-- Wallets a user has imported into /portfolio
+CREATE TABLE IF NOT EXISTS portfolio_wallets (
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  address TEXT NOT NULL,
+  label TEXT,
+  last_imported_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (user_id, address)
+);
+
+ALTER TABLE portfolio_wallets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their own wallets"
+  ON portfolio_wallets FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Players a user follows on /alerts
+CREATE TABLE IF NOT EXISTS watchlist_items (
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (user_id, player_id)
+);
+
+ALTER TABLE watchlist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their own watchlist"
+  ON watchlist_items FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users add to their own watchlist"
+  ON watchlist_items FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users remove from their own watchlist"
+  ON watchlist_items FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Alert rules, evaluated after each fetch-prices run (lib/alerts.ts).
+-- threshold is the price level, percent move, holder change or top-N rank
+-- depending on kind; window_minutes applies to price_move and
+-- holder_change. state is what the last evaluation saw, so crossings and
+-- new games fire once.
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('price_cross', 'price_move', 'holder_change', 'tp_earned', 'top_rank')),
+  threshold DECIMAL(18, 8),
+  window_minutes INTEGER CHECK (window_minutes > 0),
+  channels TEXT[] NOT NULL DEFAULT ARRAY['in_app'],
+  active BOOLEAN NOT NULL DEFAULT true,
+  state JSONB,
+  last_fired_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_user ON alert_rules(user_id);
+CREATE INDEX IF NOT EXISTS idx_alert_rules_active ON alert_rules(active) WHERE active;
+
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their own alert rules"
+  ON alert_rules FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users add their own alert rules"
+  ON alert_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users update their own alert rules"
+  ON alert_rules FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users delete their own alert rules"
+  ON alert_rules FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Where a user's webhook and email alerts go
+CREATE TABLE IF NOT EXISTS notification_settings (
+  user_id UUID PRIMARY KEY DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  webhook_url TEXT,
+  email TEXT,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE notification_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their own notification settings"
+  ON notification_settings FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users add their own notification settings"
+  ON notification_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users update their own notification settings"
+  ON notification_settings FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Fired alerts. Every notification shows in the in-app bell; the
+-- deliveries below are the outbox for its other channels. Only the
+-- service role writes these apart from marking them read.
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES alert_rules(id) ON DELETE SET NULL,
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users mark their own notifications read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  notification_id UUID NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('webhook', 'email')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  PRIMARY KEY (notification_id, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_pending ON notification_deliveries(status) WHERE status = 'pending';
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Keys for the public /api/v1 routes. Only a SHA-256 of each key is
+-- stored; key_prefix lets admins tell them apart. Admin-only (no policies).
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute > 0),
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Requests per key per minute, for rate limiting
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  window_start TIMESTAMPTZ NOT NULL,
+  requests INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, window_start)
+);
+
+ALTER TABLE api_key_usage ENABLE ROW LEVEL SECURITY;
+
+-- Count one request against the key with this hash. Returns no row for an
+-- unknown or revoked key; otherwise the key's limit and this minute's count
+-- including the request. Counts older than an hour are dropped as it goes.
+CREATE OR REPLACE FUNCTION consume_api_request(p_key_hash TEXT)
+RETURNS TABLE (
+  api_key_id UUID,
+  request_limit INTEGER,
+  request_count INTEGER,
+  resets_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_key api_keys%ROWTYPE;
+  v_window TIMESTAMPTZ := date_trunc('minute', now());
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_key FROM api_keys k WHERE k.key_hash = p_key_hash AND k.revoked_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO api_key_usage AS u (key_id, window_start, requests)
+  VALUES (v_key.id, v_window, 1)
+  ON CONFLICT (key_id, window_start) DO UPDATE SET requests = u.requests + 1
+  RETURNING u.requests INTO v_count;
+
+  UPDATE api_keys SET last_used_at = now() WHERE id = v_key.id;
+  DELETE FROM api_key_usage u
+  WHERE u.key_id = v_key.id AND u.window_start < v_window - INTERVAL '1 hour';
+
+  RETURN QUERY SELECT v_key.id, v_key.rate_limit_per_minute, v_count, v_window + INTERVAL '1 minute';
 END;
 $$ LANGUAGE plpgsql;
 
+-- Daily fair-value fits of price = a * total_tp ^ b per position and
+-- player_stats window (lib/fair-value.ts). The refresh-fair-values cron
+-- rewrites the day's rows hourly, so each day keeps its last fit.
+CREATE TABLE IF NOT EXISTS fair_value_models (
+  model_date DATE NOT NULL,
+  time_window TEXT NOT NULL CHECK (time_window IN ('1m', '3m', 'all')),
+  position TEXT NOT NULL,
+  coefficient DOUBLE PRECISION NOT NULL,
+  exponent DOUBLE PRECISION NOT NULL,
+  r_squared DOUBLE PRECISION,
+  sample_count INTEGER NOT NULL,
+  fitted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (model_date, time_window, position)
+);
+
+ALTER TABLE fair_value_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access for fair value models"
+  ON fair_value_models FOR SELECT
+  USING (true);
+
+-- Each player's fair price under that day's fit; residual_pct is how far
+-- the price is above it (negative = undervalued)
+CREATE TABLE IF NOT EXISTS player_fair_values (
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  value_date DATE NOT NULL,
+  time_window TEXT NOT NULL CHECK (time_window IN ('1m', '3m', 'all')),
+  total_tp DECIMAL(18, 2) NOT NULL,
+  price_usd DECIMAL(18, 8) NOT NULL,
+  fair_price_usd DECIMAL(18, 8) NOT NULL,
+  residual_pct DOUBLE PRECISION NOT NULL,
+  PRIMARY KEY (player_id, time_window, value_date)
+);
+
+ALTER TABLE player_fair_values ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access for player fair values"
+  ON player_fair_values FOR SELECT
+  USING (true);
+
 -- Optional: Create authenticated user policies for write operations
 -- Uncomment these if you want to allow authenticated users to modify data
 
@@ -0,0 +1,360 @@
+/**
+ * Fetch tournament data from pro.sport.fun API and insert into Supabase
+ *
+ * Usage:
+ *   1. Log into pro.sport.fun in your browser
+ *   2. Open DevTools > Application > Local Storage > pro.sport.fun
+ *   3. Copy the "identity_token" value
+ *   4. Run: SPORT_TOKEN="your_token_here" npm run fetch-tournament-data
+ *
+ * Or for a specific tournament:
+ *   SPORT_TOKEN="..." TOURNAMENT_ID="c5b07d6d-..." npm run fetch-tournament-data
+ *
+ * API names go through the shared identity resolver; names it can't place
+ * confidently are queued for review at /admin/identity instead of skipped
+ * silently.
+ */
+
+import { config } from "dotenv";
+import { createClient } from "@supabase/supabase-js";
+import { enqueueIdentityReviews, loadIdentityIndex, resolveImportIdentity } from "../lib/identity";
+import { IdentityCandidate, IdentitySource } from "../types";
+
+config({ path: ".env.local" });
+
+// Config
+const SPORT_API_BASE = "https://pro.sport.fun/api/football/v1";
+const POSITIONS = ["Forward", "Midfielder", "Defender", "Goalkeeper"];
+
+// Source name for player aliases, review items and import batches. Names the
+// API uses that differ from our display names are linked at /admin/identity
+const SOURCE: IdentitySource = "sport-api";
+
+interface APIPlayer {
+  id: string;
+  knownName?: string | null;
+  firstName: string;
+  lastName: string;
+  position?: string;
+  team?: { name?: string } | null;
+}
+
+interface APITournament {
+  id: string;
+  name?: string | null;
+  status: string;
+  fixturesRemaining: number;
+  startDate: string;
+  endDate: string;
+  prizePool: number;
+  type?: string | null;
+  competition?: { name?: string } | null;
+}
+
+interface APIStanding {
+  playerId: string;
+  rawScore: number;
+  ranking: number;
+  reward: number | null;
+}
+
+interface UnmatchedPlayer {
+  apiId: string;
+  apiName: string;
+  position?: string;
+  team?: string;
+  candidates: IdentityCandidate[];
+}
+
+// Get environment variables
+const SPORT_TOKEN = process.env.SPORT_TOKEN;
+const TOURNAMENT_ID = process.env.TOURNAMENT_ID; // Optional: specific tournament
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!SPORT_TOKEN) {
+  console.error("❌ Missing SPORT_TOKEN environment variable");
+  console.error("   Get it from: pro.sport.fun > DevTools > Application > Local Storage > identity_token");
+  process.exit(1);
+}
+
+if (!SUPABASE_URL || !SUPABASE_KEY) {
+  console.error("❌ Missing Supabase environment variables");
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+
+// Helper to fetch from Sport API
+async function sportFetch<T>(endpoint: string): Promise<T> {
+  const url = `${SPORT_API_BASE}${endpoint}`;
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${SPORT_TOKEN}`,
+    },
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`API error ${response.status}: ${text}`);
+  }
+
+  const json = await response.json();
+  return json.data;
+}
+
+// Fetch all players from API
+async function fetchAPIPlayers(): Promise<APIPlayer[]> {
+  console.log("📥 Fetching players from API...");
+  const players = await sportFetch<APIPlayer[]>("/players/?limit=2000");
+  console.log(`   Found ${players.length} players in API`);
+  return players;
+}
+
+// Map API player IDs to DB player IDs through the identity resolver
+async function createPlayerMapping(apiPlayers: APIPlayer[]) {
+  console.log("🔗 Matching API players to database players...");
+  const index = await loadIdentityIndex(supabase);
+  console.log(`   Found ${index.players.length} players in database`);
+
+  const mapping = new Map<string, string>(); // API player ID -> DB player ID
+  const unmatched: UnmatchedPlayer[] = []; // API players we couldn't match
+
+  for (const apiPlayer of apiPlayers) {
+    const apiName = apiPlayer.knownName || `${apiPlayer.firstName} ${apiPlayer.lastName}`;
+    const resolution = resolveImportIdentity(index, apiName, SOURCE);
+
+    if (resolution.status === "matched") {
+      mapping.set(apiPlayer.id, resolution.playerId);
+      continue;
+    }
+
+    unmatched.push({
+      apiId: apiPlayer.id,
+      apiName,
+      position: apiPlayer.position,
+      team: apiPlayer.team?.name,
+      candidates: resolution.status === "ambiguous" ? resolution.candidates : [],
+    });
+  }
+
+  console.log(`   ✅ Matched ${mapping.size} players`);
+
+  return { mapping, unmatched };
+}
+
+// Fetch all tournaments
+async function fetchTournaments(): Promise<APITournament[]> {
+  console.log("📥 Fetching tournaments...");
+  const tournaments = await sportFetch<APITournament[]>("/tournaments");
+  console.log(`   Found ${tournaments.length} tournaments`);
+  return tournaments;
+}
+
+// Fetch fixtures for a tournament and return the first fixture date
+async function fetchFirstFixtureDate(tournamentId: string): Promise<string | null> {
+  const fixtures = await sportFetch<{ date: string }[]>(
+    `/tournaments/${tournamentId}/fixtures?limit=100`
+  );
+
+  if (!fixtures || fixtures.length === 0) {
+    return null;
+  }
+
+  // Sort by date and get the first one
+  fixtures.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  return fixtures[0].date.split("T")[0];
+}
+
+// Check if tournament data already exists in database
+async function tournamentExists(tournamentId: string): Promise<boolean> {
+  const { data: tournament } = await supabase
+    .from("tournaments")
+    .select("id")
+    .eq("external_id", tournamentId)
+    .maybeSingle();
+
+  if (!tournament) return false;
+
+  const { count } = await supabase
+    .from("performance")
+    .select("*", { count: "exact", head: true })
+    .eq("tournament_id", tournament.id);
+
+  return (count ?? 0) > 0;
+}
+
+// Fetch standings for a position
+async function fetchStandings(tournamentId: string, position: string): Promise<APIStanding[]> {
+  return sportFetch<APIStanding[]>(`/tournaments/${tournamentId}/standings/${position}?limit=100`);
+}
+
+// Main function
+async function main() {
+  console.log("🏆 Sport.fun Tournament Data Fetcher\n");
+
+  try {
+    // Create player ID mapping
+    const apiPlayers = await fetchAPIPlayers();
+    const { mapping: playerMapping, unmatched } = await createPlayerMapping(apiPlayers);
+
+    // Report unmatched and ambiguous players
+    if (unmatched.length > 0) {
+      console.log(`\n⚠️  ${unmatched.length} API players could not be matched to database:`);
+      unmatched.forEach((p) => {
+        const candidates = p.candidates.map((c) => c.display_name).join(", ");
+        console.log(
+          `   - "${p.apiName}" (${p.position}, ${p.team})${candidates ? ` could be: ${candidates}` : ""}`
+        );
+      });
+      try {
+        await enqueueIdentityReviews(
+          supabase,
+          unmatched.map((p) => ({
+            alias: p.apiName,
+            source: SOURCE,
+            candidates: p.candidates,
+            context: { team_name: p.team || null, position: p.position || null },
+          }))
+        );
+        console.log("\n   Queued for review: link them at /admin/identity if they should be included.\n");
+      } catch (error) {
+        console.error(`   ❌ ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    // Fetch tournaments
+    const tournaments = await fetchTournaments();
+
+    // Filter to completed tournaments only
+    let tournamentsToProcess: APITournament[];
+    if (TOURNAMENT_ID) {
+      tournamentsToProcess = tournaments.filter((t) => t.id === TOURNAMENT_ID);
+      if (tournamentsToProcess.length === 0) {
+        console.error(`❌ Tournament ${TOURNAMENT_ID} not found`);
+        process.exit(1);
+      }
+    } else {
+      // Only fully completed tournaments
+      tournamentsToProcess = tournaments.filter(
+        (t) => t.status === "Completed" && t.fixturesRemaining === 0
+      );
+    }
+
+    console.log(`\n📊 Found ${tournamentsToProcess.length} completed tournaments to check...\n`);
+
+    let totalInserted = 0;
+    let tournamentsSkipped = 0;
+
+    for (const tournament of tournamentsToProcess) {
+      const tournamentLabel = `${tournament.startDate.split("T")[0]} to ${tournament.endDate.split("T")[0]}`;
+
+      // Get the first fixture date for this tournament
+      const firstFixtureDate = await fetchFirstFixtureDate(tournament.id);
+
+      if (!firstFixtureDate) {
+        console.log(`⏭️  Tournament ${tournamentLabel}: No fixtures found, skipping`);
+        tournamentsSkipped++;
+        continue;
+      }
+
+      // Check if this tournament already exists in database
+      const exists = await tournamentExists(tournament.id);
+      if (exists) {
+        console.log(`⏭️  Tournament ${tournamentLabel} (${firstFixtureDate}): Already in database, skipping`);
+        tournamentsSkipped++;
+        continue;
+      }
+
+      console.log(`\n🏆 Tournament: ${tournamentLabel}`);
+      console.log(`   ID: ${tournament.id}`);
+      console.log(`   First fixture date: ${firstFixtureDate}`);
+      console.log(`   Prize Pool: ${tournament.prizePool.toLocaleString()} TP`);
+
+      // Collect all standings data
+      const records: { player_id: string; raw_score: number; ranking: number; reward: number }[] = [];
+      const unmatchedInTournament = new Set<string>();
+      let entrants = 0;
+
+      for (const position of POSITIONS) {
+        process.stdout.write(`   📥 Fetching ${position} standings... `);
+        const standings = await fetchStandings(tournament.id, position);
+        console.log(`${standings.length} entries`);
+        entrants += standings.length;
+
+        for (const standing of standings) {
+          const dbPlayerId = playerMapping.get(standing.playerId);
+
+          if (!dbPlayerId) {
+            unmatchedInTournament.add(standing.playerId);
+            continue;
+          }
+
+          records.push({
+            player_id: dbPlayerId,
+            raw_score: Math.round(standing.rawScore),
+            ranking: standing.ranking,
+            reward: standing.reward || 0,
+          });
+        }
+      }
+
+      if (unmatchedInTournament.size > 0) {
+        console.log(`   ⚠️  Skipped ${unmatchedInTournament.size} unmatched players in this tournament`);
+      }
+
+      if (records.length > 0) {
+        console.log(`   💾 Inserting ${records.length} records...`);
+
+        // One import batch per tournament, written atomically, so a bad
+        // tournament can be rolled back from /admin/imports
+        const { data: batchId, error } = await supabase.rpc("import_performance", {
+          p_batch: {
+            source: SOURCE,
+            file_name: `Tournament ${tournamentLabel} (${tournament.id})`,
+            created_by: process.env.USER || "fetch-tournament-data script",
+          },
+          p_new_players: [],
+          p_rows: records,
+          // Dated by its first fixture, like the rows before tournaments had ids
+          p_tournament: {
+            external_id: tournament.id,
+            name: tournament.name || `Tournament ${tournamentLabel}`,
+            tournament_date: firstFixtureDate,
+            end_date: tournament.endDate.split("T")[0],
+            competition: tournament.competition?.name || null,
+            game_type: tournament.type || null,
+            entrants,
+            tp_pool: tournament.prizePool,
+          },
+        });
+
+        if (error) {
+          console.error(`   ❌ Error inserting records: ${error.message}`);
+          continue;
+        }
+
+        totalInserted += records.length;
+        console.log(`   ✅ Inserted ${records.length} records (import batch ${batchId})`);
+      } else {
+        console.log("   ⚠️  No records to insert (all players unmatched?)");
+      }
+    }
+
+    console.log("\n" + "=".repeat(50));
+    console.log("✅ Done!");
+    console.log(`   Tournaments processed: ${tournamentsToProcess.length - tournamentsSkipped}`);
+    console.log(`   Tournaments skipped (already imported): ${tournamentsSkipped}`);
+    console.log(`   Records inserted: ${totalInserted}`);
+
+    if (unmatched.length > 0) {
+      console.log(`\n⚠️  Remember: ${unmatched.length} players couldn't be matched.`);
+      console.log("   Link them at /admin/identity and re-run to include them.");
+    }
+  } catch (error) {
+    console.error("❌ Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
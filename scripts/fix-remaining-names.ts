@@ -1,8 +1,11 @@
 /**
  * Fix remaining player names that don't auto-match.
+ * The Tenero full name is kept as an alias so token matching still works.
  */
 
 import { createClient } from "@supabase/supabase-js";
+import { recordPlayerAlias } from "../lib/identity";
+import { createImportBatch } from "../lib/import-batches";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -24,6 +27,12 @@ const manualMappings: Record<string, string> = {
 async function main() {
   console.log("Fixing remaining player names...\n");
 
+  const batchId = await createImportBatch(supabase, {
+    source: "manual",
+    fileName: null,
+    createdBy: process.env.USER || "fix-remaining-names script",
+  });
+
   for (const [excelName, teneroName] of Object.entries(manualMappings)) {
     const { data: player } = await supabase
       .from("players")
@@ -34,12 +43,17 @@ async function main() {
     if (player) {
       const { error } = await supabase
         .from("players")
-        .update({ display_name: excelName })
+        .update({ display_name: excelName, import_batch_id: batchId })
         .eq("id", player.id);
 
       if (error) {
         console.log(`  Error updating ${teneroName}: ${error.message}`);
       } else {
+        await recordPlayerAlias(supabase, {
+          alias: teneroName,
+          source: "tenero",
+          playerId: player.id,
+        });
         console.log(`  "${teneroName}" → "${excelName}"`);
       }
     } else {
@@ -47,7 +61,7 @@ async function main() {
     }
   }
 
-  console.log("\nDone!");
+  console.log(`\nDone! Import batch ${batchId}`);
 }
 
 main().catch(console.error);
@@ -14,6 +14,7 @@
  */
 
 import { createClient } from "@supabase/supabase-js";
+import { createImportBatch } from "../lib/import-batches";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -99,6 +100,12 @@ async function main() {
     existingPlayers?.map((p) => [normalizeName(p.display_name), p]) || []
   );
 
+  const batchId = await createImportBatch(supabase, {
+    source: "tenero",
+    fileName: null,
+    createdBy: process.env.USER || "import-initial-data script",
+  });
+
   let created = 0;
   let updated = 0;
   let skipped = 0;
@@ -117,6 +124,7 @@ async function main() {
           .update({
             token_symbol: token.symbol,
             token_address: token.address,
+            import_batch_id: batchId,
           })
           .eq("id", existing.id);
 
@@ -135,6 +143,7 @@ async function main() {
         display_name: token.name,
         token_symbol: token.symbol,
         token_address: token.address,
+        import_batch_id: batchId,
       });
 
       if (error) {
@@ -150,6 +159,7 @@ async function main() {
   console.log(`Created: ${created}`);
   console.log(`Updated: ${updated}`);
   console.log(`Skipped (already linked): ${skipped}`);
+  console.log(`Import batch: ${batchId}`);
 
   // Now fetch initial prices
   console.log("\nFetching initial prices...");
@@ -26,21 +26,20 @@ def supabase_get(table, select="*"):
     with urllib.request.urlopen(req) as resp:
         return json.loads(resp.read().decode())
 
-def supabase_upsert(table, data):
-    url = f"{SUPABASE_URL}/rest/v1/{table}"
-    body = json.dumps(data).encode("utf-8")
+def supabase_rpc(function, params):
+    url = f"{SUPABASE_URL}/rest/v1/rpc/{function}"
+    body = json.dumps(params).encode("utf-8")
     req = urllib.request.Request(url, data=body, method="POST", headers={
         "apikey": SUPABASE_KEY,
         "Authorization": f"Bearer {SUPABASE_KEY}",
         "Content-Type": "application/json",
-        "Prefer": "resolution=merge-duplicates"
     })
     try:
         with urllib.request.urlopen(req) as resp:
-            return resp.status
+            return resp.status, json.loads(resp.read().decode())
     except urllib.error.HTTPError as e:
         print(f"Error: {e.code} - {e.read().decode()[:200]}")
-        return e.code
+        return e.code, None
 
 def normalize_name(name):
     if pd.isna(name):
@@ -177,17 +176,22 @@ def main():
         print("No records to insert!")
         return
 
-    batch_size = 200
-    inserted = 0
-
-    for i in range(0, len(performance_records), batch_size):
-        batch = performance_records[i:i + batch_size]
-        status = supabase_upsert("performance", batch)
-        if status in (200, 201):
-            inserted += len(batch)
-            print(f"  Inserted batch {i // batch_size + 1}: {len(batch)} records")
+    # import_performance files each match date under its tournament (creating
+    # one for new dates) and records an import batch for /admin/imports
+    status, batch_id = supabase_rpc("import_performance", {
+        "p_batch": {
+            "source": "import-script",
+            "file_name": "all scores.xlsx",
+            "created_by": os.environ.get("USER") or "import-performance.py",
+        },
+        "p_new_players": [],
+        "p_rows": performance_records,
+    })
+    if status != 200:
+        print("Import failed!")
+        return
 
-    print(f"\nDone! Inserted {inserted} performance records.")
+    print(f"\nDone! Imported {len(performance_records)} performance records (import batch {batch_id}).")
 
 if __name__ == "__main__":
     main()
@@ -0,0 +1,54 @@
+/**
+ * Record live Tenero responses as fixtures for offline runs.
+ * Usage: npx tsx scripts/record-tenero-fixtures.ts [dir] [--address <token address>]
+ *
+ * Then point the app or scripts at them with TENERO_FIXTURES_DIR=<dir>.
+ * Without --address the first token's address is recorded as the
+ * single-token fixture.
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { createTeneroClient, TeneroTransport } from "../lib/tenero";
+import { fixtureFileName } from "../lib/tenero-fixtures";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const addressFlag = args.indexOf("--address");
+  const address = addressFlag >= 0 ? args[addressFlag + 1] : null;
+  const positional = args.filter((arg) => !arg.startsWith("--") && arg !== address);
+  const dir = positional[0] || "fixtures/tenero";
+
+  await fs.mkdir(dir, { recursive: true });
+
+  const recording: TeneroTransport = async (url, init) => {
+    const response = await fetch(url, { signal: init.signal });
+    if (response.ok) {
+      const file = path.join(dir, fixtureFileName(url));
+      await fs.writeFile(file, await response.clone().text());
+      console.log(`  Recorded ${file}`);
+    }
+    return response;
+  };
+
+  const client = createTeneroClient({ transport: recording });
+
+  console.log("Recording token pages...");
+  const result = await client.fetchAllTokens();
+  console.log(`${result.tokens.length} tokens, ${result.invalid.length} invalid`);
+
+  if (!result.complete) {
+    console.error(`Stopped early at cursor ${result.cursor}: ${result.error}`);
+  }
+
+  const tokenAddress = address || result.tokens[0]?.address;
+  if (tokenAddress) {
+    console.log(`\nRecording single token ${tokenAddress}...`);
+    const token = await client.fetchTokenByAddress(tokenAddress);
+    console.log(token ? `  ${token.name} (${token.symbol})` : "  Not found");
+  }
+
+  console.log(`\nDone! Use TENERO_FIXTURES_DIR=${dir}`);
+}
+
+main().catch(console.error);
@@ -1,9 +1,11 @@
 /**
- * Remove all players that don't have performance data (NFL players).
- * Only keeps players that appear in the Excel spreadsheet.
+ * Mark all players that don't have performance data (NFL players) as
+ * excluded-sport. Their rows and prices are kept; the site only lists
+ * players by status.
  */
 
 import { createClient } from "@supabase/supabase-js";
+import { LISTED_PLAYER_STATUSES, setPlayerStatus } from "../lib/player-status";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -16,12 +18,13 @@ if (!supabaseUrl || !supabaseKey) {
 const supabase = createClient(supabaseUrl, supabaseKey);
 
 async function main() {
-  console.log("Finding NFL players to remove...\n");
+  console.log("Finding NFL players to exclude...\n");
 
-  // Get all players
+  // Get all players not already excluded
   const { data: allPlayers } = await supabase
     .from("players")
-    .select("id, display_name");
+    .select("id, display_name")
+    .neq("status", "excluded-sport");
 
   if (!allPlayers) {
     console.log("No players found");
@@ -52,52 +55,34 @@ async function main() {
     (p) => !playerIdsWithPerformance.has(p.id)
   );
 
-  console.log(`Total players in database: ${allPlayers.length}`);
+  console.log(`Players not yet excluded: ${allPlayers.length}`);
   console.log(`Players with performance data: ${playerIdsWithPerformance.size}`);
-  console.log(`NFL players to remove: ${nflPlayers.length}\n`);
+  console.log(`NFL players to exclude: ${nflPlayers.length}\n`);
 
   if (nflPlayers.length === 0) {
-    console.log("No NFL players to remove!");
+    console.log("No NFL players to exclude!");
     return;
   }
 
-  console.log("NFL players being removed:");
+  console.log("NFL players being excluded:");
   nflPlayers.forEach((p) => console.log(`  - ${p.display_name}`));
 
-  // Delete prices for NFL players first (foreign key constraint)
-  const nflPlayerIds = nflPlayers.map((p) => p.id);
-
-  console.log("\nDeleting price records for NFL players...");
-  const { error: pricesError } = await supabase
-    .from("prices")
-    .delete()
-    .in("player_id", nflPlayerIds);
-
-  if (pricesError) {
-    console.error(`Error deleting prices: ${pricesError.message}`);
-    return;
-  }
-
-  // Delete NFL players
-  console.log("Deleting NFL players...");
-  const { error: playersError } = await supabase
-    .from("players")
-    .delete()
-    .in("id", nflPlayerIds);
-
-  if (playersError) {
-    console.error(`Error deleting players: ${playersError.message}`);
-    return;
-  }
+  const excluded = await setPlayerStatus(
+    supabase,
+    nflPlayers.map((p) => p.id),
+    "excluded-sport",
+    "No football performance data"
+  );
 
-  console.log(`\nDone! Removed ${nflPlayers.length} NFL players.`);
+  console.log(`\nDone! Excluded ${excluded.length} NFL players.`);
 
   // Verify
   const { count } = await supabase
     .from("players")
-    .select("*", { count: "exact", head: true });
+    .select("*", { count: "exact", head: true })
+    .in("status", LISTED_PLAYER_STATUSES);
 
-  console.log(`Remaining players in database: ${count}`);
+  console.log(`Listed players in database: ${count}`);
 }
 
 main().catch(console.error);
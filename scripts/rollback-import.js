@@ -1,3 +1,15 @@
+/**
+ * Roll back an import batch, restoring the rows it overwrote.
+ *
+ * Usage:
+ *   node scripts/rollback-import.js            # list recent batches
+ *   node scripts/rollback-import.js <batch-id> # roll one back
+ *
+ * Same as the Rollback button at /admin/imports.
+ */
+
+require('dotenv').config({ path: '.env.local' });
+
 const { createClient } = require('@supabase/supabase-js');
 
 const supabase = createClient(
@@ -5,59 +17,51 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY
 );
 
-async function rollback() {
-  console.log('🗑️  Rolling back imported data...\n');
-
-  // Delete performance records from Jan 13, 2026 onwards (the 4 tournaments we imported)
-  const { data: deletedPerf, error: perfError } = await supabase
-    .from('performance')
-    .delete()
-    .gte('match_date', '2026-01-13')
-    .select('id');
+async function listBatches() {
+  const { data: batches, error } = await supabase
+    .from('import_batch_summaries')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(20);
 
-  if (perfError) {
-    console.error('❌ Error deleting performance records:', perfError.message);
-  } else {
-    console.log('✅ Deleted', deletedPerf.length, 'performance records');
+  if (error) {
+    console.error('❌ Error fetching import batches:', error.message);
+    process.exit(1);
   }
 
-  // Get all players and check which ones have no performance records
-  const { data: playersToCheck } = await supabase
-    .from('players')
-    .select('id, display_name');
-
-  let deletedCount = 0;
-  for (const player of playersToCheck || []) {
-    const { count } = await supabase
-      .from('performance')
-      .select('*', { count: 'exact', head: true })
-      .eq('player_id', player.id);
-
-    // If player has no performance records left, they were added by the script
-    if (count === 0) {
-      const { error } = await supabase
-        .from('players')
-        .delete()
-        .eq('id', player.id);
-
-      if (!error) deletedCount++;
-    }
+  console.log('📋 Recent import batches:\n');
+  for (const b of batches) {
+    console.log(
+      `   ${b.id}  ${b.created_at.split('T')[0]}  ${b.status.padEnd(11)}  ${b.source}` +
+      `  ${b.file_name || '-'}  +${b.performance_inserted} ~${b.performance_updated} rows, +${b.players_created} players`
+    );
   }
+}
 
-  console.log('✅ Deleted', deletedCount, 'players (who had no remaining performance records)');
+async function rollback(batchId) {
+  console.log(`🗑️  Rolling back import batch ${batchId}...\n`);
 
-  // Verify final counts
-  const { count: playerCount } = await supabase
-    .from('players')
-    .select('*', { count: 'exact', head: true });
+  const { data: result, error } = await supabase.rpc('rollback_import_batch', {
+    p_batch_id: batchId,
+    p_rolled_back_by: process.env.USER || 'rollback-import script',
+  });
 
-  const { count: perfCount } = await supabase
-    .from('performance')
-    .select('*', { count: 'exact', head: true });
+  if (error) {
+    console.error('❌ Rollback failed:', error.message);
+    process.exit(1);
+  }
 
-  console.log('\n📊 Database now has:');
-  console.log('   Players:', playerCount);
-  console.log('   Performance records:', perfCount);
+  console.log('✅ Restored', result.performance_restored, 'performance records');
+  console.log('✅ Deleted', result.performance_deleted, 'performance records');
+  console.log('✅ Restored', result.players_restored, 'players');
+  console.log('✅ Deleted', result.players_deleted, 'players');
+  if (result.players_kept > 0) {
+    console.log('⚠️  Kept', result.players_kept, 'created players that other imports still use');
+  }
 }
 
-rollback();
+const batchId = process.argv[2];
+(batchId ? rollback(batchId) : listBatches()).catch((error) => {
+  console.error('❌ Error:', error.message);
+  process.exit(1);
+});
@@ -1,10 +1,19 @@
 /**
  * Update player display names to use shorter names from Excel sheet.
- * Uses strict matching to avoid false positives.
+ * Matching goes through the shared identity resolver; names it can't place
+ * confidently are queued for review instead of guessed.
  */
 
 import { createClient } from "@supabase/supabase-js";
 import * as XLSX from "xlsx";
+import {
+  enqueueIdentityReviews,
+  loadIdentityIndex,
+  recordPlayerAlias,
+  resolvePlayerIdentity,
+} from "../lib/identity";
+import { createImportBatch } from "../lib/import-batches";
+import { IdentityCandidate } from "../types";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -16,43 +25,6 @@ if (!supabaseUrl || !supabaseKey) {
 
 const supabase = createClient(supabaseUrl, supabaseKey);
 
-function normalizeName(name: string): string {
-  return name
-    .toLowerCase()
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "") // Remove accents
-    .replace(/[^a-z\s]/g, "") // Remove non-letters
-    .trim();
-}
-
-// Check if shortName is a shortened version of fullName
-function isShortVersion(shortName: string, fullName: string): boolean {
-  const shortNorm = normalizeName(shortName);
-  const fullNorm = normalizeName(fullName);
-
-  // Exact match
-  if (shortNorm === fullNorm) return true;
-
-  // Short name is contained in full name (e.g., "Lamine Yamal" in "Lamine Yamal Nasraoui Ebana")
-  if (fullNorm.includes(shortNorm)) return true;
-
-  // Check if all parts of short name are in full name
-  const shortParts = shortNorm.split(" ");
-  const fullParts = fullNorm.split(" ");
-
-  // All parts of short name must exist in full name
-  const allPartsMatch = shortParts.every((part) =>
-    fullParts.some((fp) => fp === part || fp.startsWith(part) || part.startsWith(fp))
-  );
-
-  // And the short name should have fewer or equal parts
-  if (allPartsMatch && shortParts.length <= fullParts.length) {
-    return true;
-  }
-
-  return false;
-}
-
 async function main() {
   console.log("Loading Excel file...");
   const workbook = XLSX.readFile("all scores.xlsx");
@@ -75,49 +47,75 @@ async function main() {
 
   // Get all players from database
   console.log("Fetching players from database...");
-  const { data: dbPlayers } = await supabase
-    .from("players")
-    .select("id, display_name, team_name, position");
+  const index = await loadIdentityIndex(supabase);
+  console.log(`Found ${index.players.length} players in database`);
 
-  if (!dbPlayers) {
-    console.log("No players in database");
-    return;
-  }
-  console.log(`Found ${dbPlayers.length} players in database`);
+  const namesById = new Map(index.players.map((p) => [p.id, p.display_name]));
 
   // Match and update
   const updates: { id: string; oldName: string; newName: string; team?: string; position?: string }[] = [];
+  const reviews: { alias: string; candidates: IdentityCandidate[]; team: string; position: string }[] = [];
   const usedDbPlayers = new Set<string>();
 
   for (const excel of excelNames) {
-    for (const db of dbPlayers) {
-      if (usedDbPlayers.has(db.id)) continue;
-
-      // Only match if excel name is a shortened version of db name
-      if (isShortVersion(excel.name, db.display_name)) {
-        // Only update if names are actually different
-        if (db.display_name !== excel.name) {
-          updates.push({
-            id: db.id,
-            oldName: db.display_name,
-            newName: excel.name,
-            team: excel.team || undefined,
-            position: excel.position || undefined,
-          });
-          usedDbPlayers.add(db.id);
-        }
-        break;
-      }
+    const resolution = resolvePlayerIdentity(index, excel.name, "import-script");
+
+    if (resolution.status === "ambiguous") {
+      reviews.push({
+        alias: excel.name,
+        candidates: resolution.candidates,
+        team: excel.team,
+        position: excel.position,
+      });
+      continue;
+    }
+    if (resolution.status !== "matched" || usedDbPlayers.has(resolution.playerId)) continue;
+
+    usedDbPlayers.add(resolution.playerId);
+    const oldName = namesById.get(resolution.playerId)!;
+
+    // Only update if names are actually different
+    if (oldName !== excel.name) {
+      updates.push({
+        id: resolution.playerId,
+        oldName,
+        newName: excel.name,
+        team: excel.team || undefined,
+        position: excel.position || undefined,
+      });
     }
   }
 
+  if (reviews.length > 0) {
+    console.log(`\nQueued ${reviews.length} ambiguous names for review:`);
+    reviews.forEach((r) => console.log(`  - ${r.alias}`));
+    await enqueueIdentityReviews(
+      supabase,
+      reviews.map((r) => ({
+        alias: r.alias,
+        source: "import-script",
+        candidates: r.candidates,
+        context: { team_name: r.team || null, position: r.position || null },
+      }))
+    );
+  }
+
   console.log(`\nFound ${updates.length} names to update:\n`);
 
+  const batchId =
+    updates.length > 0
+      ? await createImportBatch(supabase, {
+          source: "import-script",
+          fileName: "all scores.xlsx",
+          createdBy: process.env.USER || "update-names script",
+        })
+      : null;
+
   let updated = 0;
   for (const update of updates) {
     console.log(`  "${update.oldName}" → "${update.newName}"`);
 
-    const updateData: any = { display_name: update.newName };
+    const updateData: any = { display_name: update.newName, import_batch_id: batchId };
     if (update.team) updateData.team_name = update.team;
     if (update.position) updateData.position = update.position;
 
@@ -129,11 +127,20 @@ async function main() {
     if (error) {
       console.error(`    Error: ${error.message}`);
     } else {
+      // The old name is the one Tenero uses for the token
+      await recordPlayerAlias(supabase, {
+        alias: update.oldName,
+        source: "tenero",
+        playerId: update.id,
+      });
       updated++;
     }
   }
 
   console.log(`\nDone! Updated ${updated} player names.`);
+  if (batchId) {
+    console.log(`Import batch ${batchId} (roll back from /admin/imports)`);
+  }
 }
 
 main().catch(console.error);
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { getBacktestData, runBacktest } from "@/lib/backtest";
+import { BacktestStrategy } from "@/types";
+import { MemorySupabase } from "./memory-supabase";
+
+const FROM = "2026-03-01";
+const TO = "2026-03-31";
+
+function days(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let d = new Date(from); d <= new Date(to); d.setUTCDate(d.getUTCDate() + 1)) {
+    dates.push(d.toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+function tournament(id: string, start: string, end: string | null) {
+  return { id, tournament_date: start, end_date: end, created_at: `${start}T00:00:00Z` };
+}
+
+function game(id: string, playerId: string, tournamentId: string, date: string, reward: number) {
+  return {
+    id,
+    player_id: playerId,
+    tournament_id: tournamentId,
+    match_date: date,
+    raw_score: 100,
+    ranking: reward > 0 ? 1 : 10,
+    reward,
+  };
+}
+
+/**
+ * B won a tournament that ended in February. A wins one that starts on
+ * 2 March but only ends on the 9th, and another from the 20th to the 22nd.
+ */
+function setup() {
+  const db = new MemorySupabase({
+    players: ["a", "b"].map((id) => ({
+      id,
+      display_name: id.toUpperCase(),
+      position: "FWD",
+      active_shares: 100,
+      status: "active",
+    })),
+    price_candles_daily: days("2026-02-20", TO).flatMap((date) => [
+      { player_id: "a", bucket: date, close_price: 1 },
+      { player_id: "b", bucket: date, close_price: 1 },
+    ]),
+    tournaments: [
+      tournament("t0", "2026-02-20", "2026-02-21"),
+      tournament("t1", "2026-03-02", "2026-03-09"),
+      tournament("t2", "2026-03-20", "2026-03-22"),
+    ],
+    performance: [
+      game("g1", "b", "t0", "2026-02-20", 100),
+      game("g2", "a", "t0", "2026-02-20", 0),
+      game("g3", "a", "t1", "2026-03-02", 500),
+      game("g4", "b", "t1", "2026-03-02", 0),
+      game("g5", "a", "t2", "2026-03-20", 200),
+    ],
+  });
+  db.setRpc("performance_in_window", (args) =>
+    db
+      .table("performance")
+      .filter(
+        (p) =>
+          (!args.p_since || (p.match_date as string) >= (args.p_since as string)) &&
+          (!args.p_until || (p.match_date as string) <= (args.p_until as string))
+      )
+  );
+  return db;
+}
+
+const strategy: BacktestStrategy = {
+  name: "Top TP",
+  metric: "totalTP",
+  count: 1,
+  position: null,
+  lookbackDays: 30,
+  rebalance: "weekly",
+  budget: 1000,
+  transactionCost: 0,
+};
+
+describe("backtests", () => {
+  it("dates each game by the day after its tournament ends", async () => {
+    const data = await getBacktestData(setup().client, FROM, TO, 30);
+
+    expect(data.performance.map((g) => [g.player_id, g.settledOn])).toEqual([
+      ["b", "2026-02-22"],
+      ["a", "2026-02-22"],
+      ["a", "2026-03-10"],
+      ["b", "2026-03-10"],
+      ["a", "2026-03-23"],
+    ]);
+  });
+
+  it("doesn't rank on a tournament that hasn't finished", async () => {
+    const data = await getBacktestData(setup().client, FROM, TO, 30);
+    const result = runBacktest(data, strategy, FROM, TO);
+    const tpOn = (date: string) => result.points.find((p) => p.date === date)!.tpEarned;
+
+    // The 8 March rebalance can't see A's win from the tournament still
+    // running, so B is held when it settles and A's TP isn't earned
+    expect(tpOn("2026-03-10")).toBe(0);
+
+    // By the 15th it has ended, A is bought, and A's next win pays 2 TP a
+    // token on the 1000 tokens held
+    expect(tpOn("2026-03-22")).toBe(0);
+    expect(tpOn("2026-03-23")).toBe(2000);
+    expect(result.tpEarned).toBe(2000);
+  });
+});
@@ -0,0 +1,337 @@
+import { describe, expect, it } from "vitest";
+import {
+  fetchAllPages,
+  getLatestPrices,
+  getMonthlyUniqueEarners,
+  getPerformance,
+  getPerformanceTotals,
+  getPlayerStats,
+  getPositionRollups,
+  getPositionScoreStats,
+} from "@/lib/data";
+import { MAX_ROWS, MemorySupabase } from "./memory-supabase";
+
+const ids = (count: number, prefix = "p") =>
+  Array.from({ length: count }, (_, i) => `${prefix}${String(i).padStart(5, "0")}`);
+
+/** performance_in_window() from schema.sql over the stand-in's tables */
+function performanceInWindow(db: MemorySupabase) {
+  return (args: Record<string, unknown>) => {
+    const since = args.p_since as string | null;
+    const until = args.p_until as string | null;
+    const listedFrom = new Map<string, string>();
+    for (const c of db.table("price_candles_daily")) {
+      const day = String(c.bucket).slice(0, 10);
+      const current = listedFrom.get(c.player_id as string);
+      if (!current || day < current) listedFrom.set(c.player_id as string, day);
+    }
+
+    return db.table("performance").filter((p) => {
+      const date = p.match_date as string;
+      if (since && date < since) return false;
+      if (until && date > until) return false;
+      if (args.p_since_listing) {
+        const listed = listedFrom.get(p.player_id as string);
+        if (!listed || date < listed) return false;
+      }
+      return true;
+    });
+  };
+}
+
+/** performance_in_window() returns whole rows; PerformanceRecord leaves out the id */
+const idsOf = (rows: object[]) => rows.map((r) => (r as { id: string }).id);
+
+function performanceRow(id: string, playerId: string, matchDate: string) {
+  return {
+    id,
+    player_id: playerId,
+    tournament_id: `t-${matchDate}`,
+    match_date: matchDate,
+    raw_score: 100,
+    ranking: 3,
+    reward: 10,
+  };
+}
+
+describe("fetchAllPages", () => {
+  it("reads every page of a query larger than one response", async () => {
+    const db = new MemorySupabase({ items: ids(2500).map((id) => ({ id })) });
+
+    const rows = await fetchAllPages<{ id: string }>("items", (from, to) =>
+      db.client.from("items").select("id").order("id").range(from, to)
+    );
+
+    expect(rows).toHaveLength(2500);
+    expect(new Set(rows.map((r) => r.id)).size).toBe(2500);
+    expect(db.queries.map((q) => q.range)).toEqual([
+      [0, 999],
+      [1000, 1999],
+      [2000, 2999],
+    ]);
+  });
+
+  it("stops on an empty page when the rows fill whole pages", async () => {
+    const db = new MemorySupabase({ items: ids(MAX_ROWS * 2).map((id) => ({ id })) });
+
+    const rows = await fetchAllPages<{ id: string }>("items", (from, to) =>
+      db.client.from("items").select("id").order("id").range(from, to)
+    );
+
+    expect(rows).toHaveLength(MAX_ROWS * 2);
+    expect(db.queries).toHaveLength(3);
+  });
+
+  it("names the rows when a page fails", async () => {
+    const db = new MemorySupabase();
+    db.fail("items", "permission denied");
+
+    await expect(
+      fetchAllPages("items", (from, to) => db.client.from("items").select("*").range(from, to))
+    ).rejects.toThrow("Failed to fetch items: permission denied");
+  });
+});
+
+describe("getLatestPrices", () => {
+  it("maps the latest_prices view by player", async () => {
+    const db = new MemorySupabase({
+      latest_prices: [
+        {
+          player_id: "a",
+          price_usd: 1.5,
+          liquidity_usd: 2000,
+          volume_24h_usd: null,
+          fetched_at: "2026-10-01T00:00:00Z",
+        },
+      ],
+    });
+
+    const prices = await getLatestPrices(db.client);
+
+    expect(prices.get("a")).toEqual({
+      price: 1.5,
+      liquidity: 2000,
+      volume24h: null,
+      fetchedAt: "2026-10-01T00:00:00Z",
+    });
+  });
+
+  it("reads past the first page and can be limited to some players", async () => {
+    const players = ids(1200);
+    const db = new MemorySupabase({
+      latest_prices: players.map((id, i) => ({
+        player_id: id,
+        price_usd: i,
+        liquidity_usd: null,
+        volume_24h_usd: null,
+        fetched_at: "2026-10-01T00:00:00Z",
+      })),
+    });
+
+    expect((await getLatestPrices(db.client)).size).toBe(1200);
+
+    const some = await getLatestPrices(db.client, [players[5], players[1100]]);
+    expect([...some.keys()]).toEqual([players[5], players[1100]]);
+    expect(some.get(players[1100])?.price).toBe(1100);
+  });
+});
+
+describe("getPerformance", () => {
+  const rows = [
+    performanceRow("r1", "a", "2026-01-10"),
+    performanceRow("r2", "a", "2026-02-10"),
+    performanceRow("r3", "b", "2026-02-10"),
+    performanceRow("r4", "a", "2026-03-10"),
+  ];
+
+  function setup() {
+    const db = new MemorySupabase({
+      performance: [...rows].reverse(),
+      price_candles_daily: [{ player_id: "a", bucket: "2026-02-01T00:00:00Z" }],
+    });
+    db.setRpc("performance_in_window", performanceInWindow(db));
+    return db;
+  }
+
+  it("returns every row, oldest first, for all time", async () => {
+    const result = await getPerformance(setup().client, null);
+    expect(idsOf(result)).toEqual(["r1", "r2", "r3", "r4"]);
+  });
+
+  it("keeps both window bounds inclusive", async () => {
+    const result = await getPerformance(setup().client, {
+      since: "2026-02-10",
+      until: "2026-02-10",
+      sinceListing: false,
+    });
+    expect(idsOf(result)).toEqual(["r2", "r3"]);
+  });
+
+  it("leaves out games from before a player listed", async () => {
+    const result = await getPerformance(setup().client, {
+      since: null,
+      until: null,
+      sinceListing: true,
+    });
+    // b has no candles, so none of its games count
+    expect(idsOf(result)).toEqual(["r2", "r4"]);
+  });
+
+  it("limits the rows to one player", async () => {
+    const result = await getPerformance(
+      setup().client,
+      { since: "2026-02-01", until: null, sinceListing: false },
+      "a"
+    );
+    expect(idsOf(result)).toEqual(["r2", "r4"]);
+  });
+
+  it("pages through windows larger than one response", async () => {
+    const db = new MemorySupabase({
+      performance: ids(2100).map((id, i) =>
+        performanceRow(id, "a", `2026-0${1 + (i % 9)}-01`)
+      ),
+    });
+    db.setRpc("performance_in_window", performanceInWindow(db));
+
+    const result = await getPerformance(db.client, null);
+    expect(result).toHaveLength(2100);
+    expect(result.map((r) => r.match_date)).toEqual(
+      [...result.map((r) => r.match_date)].sort()
+    );
+  });
+});
+
+describe("rollup readers", () => {
+  it("reads player_stats for one window", async () => {
+    const stats = (playerId: string, window: string, totalTP: number) => ({
+      player_id: playerId,
+      time_window: window,
+      total_tp: totalTP,
+      games_played: 4,
+      tp_games: 2,
+      tp_finishes: 1,
+      total_score: 400,
+      scored_games: 4,
+      avg_score: 100,
+      score_stddev: 5,
+      avg_ranking: 3.5,
+      best_ranking: 1,
+      latest_price: 2,
+      market_cap: 2000,
+      active_market_cap: 1000,
+      tp_per_100: 10,
+    });
+    const db = new MemorySupabase({
+      player_stats: [stats("a", "all", 100), stats("a", "1m", 40), stats("b", "all", 60)],
+    });
+
+    const all = await getPlayerStats(db.client, "all");
+    expect([...all.keys()]).toEqual(["a", "b"]);
+    expect(all.get("a")).toMatchObject({ totalTP: 100, avgRanking: 3.5, marketCap: 2000 });
+
+    const month = await getPlayerStats(db.client, "1m", ["a", "b"]);
+    expect([...month.keys()]).toEqual(["a"]);
+    expect(month.get("a")?.totalTP).toBe(40);
+  });
+
+  it("derives the average score of performance totals and leaves prices empty", async () => {
+    const db = new MemorySupabase({}, {
+      player_performance_totals: () => [
+        {
+          player_id: "a",
+          total_tp: 30,
+          games_played: 5,
+          tp_games: 2,
+          tp_finishes: 2,
+          total_score: 450,
+          scored_games: 3,
+          score_stddev: 12,
+          avg_ranking: 4,
+          best_ranking: 2,
+        },
+        {
+          player_id: "b",
+          total_tp: 0,
+          games_played: 1,
+          tp_games: 0,
+          tp_finishes: 0,
+          total_score: 0,
+          scored_games: 0,
+          score_stddev: null,
+          avg_ranking: null,
+          best_ranking: null,
+        },
+      ],
+    });
+
+    const totals = await getPerformanceTotals(db.client, {
+      since: "2026-01-01",
+      until: null,
+      sinceListing: false,
+    });
+
+    expect(totals.get("a")).toMatchObject({ avgScore: 150, latestPrice: null, tpPer100: null });
+    expect(totals.get("b")?.avgScore).toBeNull();
+  });
+
+  it("passes the window and statuses to the SQL functions", async () => {
+    const calls: Record<string, unknown>[] = [];
+    const record = (rows: unknown[]) => (args: Record<string, unknown>) => {
+      calls.push(args);
+      return rows;
+    };
+    const db = new MemorySupabase({}, {
+      position_rollups: record([{ position: "FWD", player_count: 3, market_cap: 9000 }]),
+      position_score_stats: record([
+        {
+          position: "FWD",
+          avg_score: 120,
+          highest_score: 300,
+          highest_score_player: "A",
+          lowest_score: -10,
+          lowest_score_player: "B",
+        },
+      ]),
+      monthly_unique_earners: record([
+        { month: "2026-02", position: "MID", earners: 4, tournaments: 2 },
+        { month: "2026-01", position: "FWD", earners: 5, tournaments: 3 },
+      ]),
+    });
+    const bounds = { since: "2026-01-01", until: "2026-03-01", sinceListing: true };
+
+    expect(await getPositionRollups(db.client)).toEqual([
+      { position: "FWD", playerCount: 3, marketCap: 9000 },
+    ]);
+    expect(await getPositionScoreStats(db.client, bounds, ["active"])).toEqual([
+      {
+        position: "FWD",
+        avgScore: 120,
+        highestScore: 300,
+        highestScorePlayer: "A",
+        lowestScore: -10,
+        lowestScorePlayer: "B",
+      },
+    ]);
+    expect((await getMonthlyUniqueEarners(db.client, bounds)).map((m) => m.month)).toEqual([
+      "2026-01",
+      "2026-02",
+    ]);
+
+    expect(calls[1]).toEqual({
+      p_since: "2026-01-01",
+      p_until: "2026-03-01",
+      p_since_listing: true,
+      p_statuses: ["active"],
+    });
+  });
+
+  it("reports a failed rollup", async () => {
+    const db = new MemorySupabase({}, { position_rollups: () => [] });
+    db.fail("position_rollups", "timeout");
+
+    await expect(getPositionRollups(db.client)).rejects.toThrow(
+      "Failed to fetch position rollups: timeout"
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { tpPer100 } from "@/lib/utils";
+import { Player, PlayerWindowStats } from "@/types";
+
+/** An active FWD with 100 active of 200 circulating shares, unless overridden */
+export function player(id: string, overrides: Partial<Player> = {}): Player {
+  return {
+    id,
+    display_name: id,
+    team_name: "Team",
+    position: "FWD",
+    token_symbol: null,
+    token_address: null,
+    active_shares: 100,
+    circulating_shares: 200,
+    status: "active",
+    status_effective_at: null,
+    status_reason: null,
+    created_at: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+/**
+ * Window stats for ten scored games. Market caps and TP per $100 follow
+ * from the price and active shares; all are null without a price.
+ */
+export function stats(
+  totalTP: number,
+  price: number | null,
+  activeShares = 100,
+  overrides: Partial<PlayerWindowStats> = {}
+): PlayerWindowStats {
+  const activeMarketCap = price === null ? null : price * activeShares;
+  return {
+    totalTP,
+    gamesPlayed: 10,
+    tpGames: 4,
+    tpFinishes: 4,
+    totalScore: 1000,
+    scoredGames: 10,
+    avgScore: 100,
+    scoreStddev: 10,
+    avgRanking: 5,
+    bestRanking: 1,
+    latestPrice: price,
+    marketCap: price === null ? null : price * activeShares * 2,
+    activeMarketCap,
+    tpPer100: tpPer100(totalTP, activeMarketCap),
+    ...overrides,
+  };
+}
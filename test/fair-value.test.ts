@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { fitFairValueModels, fitPowerRegression, getFairValues } from "@/lib/fair-value-model";
+import { FairValueModel } from "@/types";
+import { player, stats } from "./factories";
+
+/** Points exactly on price = 0.02 · TP ^ 0.5 */
+const onCurve = (tps: number[]) => tps.map((x) => ({ x, y: 0.02 * Math.sqrt(x) }));
+
+describe("fitPowerRegression", () => {
+  it("recovers an exact power law", () => {
+    const fit = fitPowerRegression(onCurve([100, 400, 900, 1600]))!;
+
+    expect(fit.coefficient).toBeCloseTo(0.02, 10);
+    expect(fit.exponent).toBeCloseTo(0.5, 10);
+    expect(fit.rSquared).toBeCloseTo(1, 10);
+    expect(fit.samples).toBe(4);
+  });
+
+  it("needs at least two points", () => {
+    expect(fitPowerRegression([])).toBeNull();
+    expect(fitPowerRegression([{ x: 100, y: 1 }])).toBeNull();
+  });
+
+  it("skips points with zero or negative TP or price", () => {
+    const invalid = [
+      { x: 0, y: 1 },
+      { x: -50, y: 1 },
+      { x: 100, y: 0 },
+      { x: 100, y: -1 },
+    ];
+
+    expect(fitPowerRegression([...invalid, { x: 400, y: 0.4 }])).toBeNull();
+
+    const fit = fitPowerRegression([...invalid, ...onCurve([100, 400])])!;
+    expect(fit.samples).toBe(2);
+    expect(fit.exponent).toBeCloseTo(0.5, 10);
+  });
+
+  it("has no fit when every point has the same TP", () => {
+    expect(
+      fitPowerRegression([
+        { x: 500, y: 0.2 },
+        { x: 500, y: 0.4 },
+        { x: 500, y: 0.6 },
+      ])
+    ).toBeNull();
+  });
+
+  it("is a flat, perfect fit when every price is the same", () => {
+    const fit = fitPowerRegression([
+      { x: 100, y: 0.5 },
+      { x: 200, y: 0.5 },
+      { x: 400, y: 0.5 },
+    ])!;
+
+    expect(fit.exponent).toBeCloseTo(0, 10);
+    expect(fit.coefficient).toBeCloseTo(0.5, 10);
+    expect(fit.rSquared).toBe(1);
+  });
+});
+
+describe("fitFairValueModels", () => {
+  it("fits each position with at least five priced TP earners", () => {
+    const tps = [100, 200, 400, 800, 1600];
+    const players = [
+      ...tps.map((_, i) => player(`fwd-${i}`)),
+      ...tps.slice(0, 4).map((_, i) => player(`mid-${i}`, { position: "MID" })),
+    ];
+    const windowStats = new Map([
+      ...tps.map((tp, i) => [`fwd-${i}`, stats(tp, 0.02 * Math.sqrt(tp))] as const),
+      ...tps.slice(0, 4).map((tp, i) => [`mid-${i}`, stats(tp, 0.01 * tp)] as const),
+    ]);
+
+    const models = fitFairValueModels(players, windowStats);
+
+    expect(models.map((m) => m.position)).toEqual(["FWD"]);
+    expect(models[0].exponent).toBeCloseTo(0.5, 10);
+    expect(models[0].samples).toBe(5);
+  });
+
+  it("doesn't count players without TP, a price or a position towards the five", () => {
+    const players = [
+      ...[100, 200, 400, 800].map((_, i) => player(`fwd-${i}`)),
+      player("no-tp"),
+      player("unpriced"),
+      player("no-position", { position: null }),
+    ];
+    const windowStats = new Map([
+      ...[100, 200, 400, 800].map((tp, i) => [`fwd-${i}`, stats(tp, 0.02 * Math.sqrt(tp))] as const),
+      ["no-tp", stats(0, 0.5)] as const,
+      ["unpriced", stats(300, null)] as const,
+      ["no-position", stats(300, 0.4)] as const,
+    ]);
+
+    expect(fitFairValueModels(players, windowStats)).toEqual([]);
+  });
+});
+
+describe("getFairValues", () => {
+  const model: FairValueModel = {
+    position: "FWD",
+    coefficient: 0.02,
+    exponent: 0.5,
+    rSquared: 1,
+    samples: 5,
+  };
+
+  it("prices each player on their position's curve", () => {
+    const players = [player("cheap"), player("dear"), player("keeper", { position: "GK" })];
+    const windowStats = new Map([
+      ["cheap", stats(400, 0.2)],
+      ["dear", stats(400, 0.8)],
+      ["keeper", stats(400, 0.4)],
+    ]);
+
+    const values = getFairValues(players, windowStats, [model]);
+
+    // 400 TP is worth $0.40 on this curve
+    expect(values.get("cheap")).toEqual({ totalTP: 400, price: 0.2, fairPrice: 0.4, residual: -50 });
+    expect(values.get("dear")?.residual).toBeCloseTo(100, 10);
+    expect(values.has("keeper")).toBe(false);
+  });
+
+  it("leaves out players with no TP", () => {
+    const values = getFairValues([player("a")], new Map([["a", stats(0, 0.3)]]), [model]);
+
+    expect(values.size).toBe(0);
+  });
+});
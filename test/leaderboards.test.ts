@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { getTeamData, getUndervaluedPlayers } from "@/lib/leaderboards";
+import { tpPer100 } from "@/lib/utils";
+import { PlayerTPData } from "@/types";
+import { player, stats } from "./factories";
+
+describe("tpPer100", () => {
+  it("is what $100 of tokens earns when TP is paid out per active share", () => {
+    // 1000 TP over 500 active shares is 2 TP a share; $100 buys 50 shares at $2
+    expect(tpPer100(1000, 500 * 2)).toBe(100);
+    expect(tpPer100(1000, 0)).toBeNull();
+    expect(tpPer100(1000, null)).toBeNull();
+  });
+
+  it("is the same figure on the undervalued leaderboard and per team", () => {
+    const entry: PlayerTPData = {
+      id: "a",
+      name: "a",
+      team: "Team",
+      position: "FWD",
+      totalTP: 1000,
+      gamesPlayed: 10,
+      tpGames: 4,
+      price: 2,
+      activeShares: 500,
+    };
+    expect(getUndervaluedPlayers([entry])[0].tpPer100).toBe(100);
+
+    const players = [player("a", { active_shares: 500 }), player("b")];
+    const windowStats = new Map([
+      ["a", stats(1000, 2, 500)],
+      ["b", stats(50, 0.5, 100)],
+    ]);
+    const [team] = getTeamData(players, windowStats);
+
+    // $1050 of active tokens earned 1050 TP between them
+    expect(team.totalActiveMarketCap).toBe(1050);
+    expect(team.tpPer100).toBe(100);
+  });
+
+  it("leaves unpriced players' TP out of a team's TP per $100", () => {
+    const players = [player("a", { active_shares: 500 }), player("unpriced")];
+    const windowStats = new Map([
+      ["a", stats(1000, 2, 500)],
+      ["unpriced", stats(400, null)],
+    ]);
+    const [team] = getTeamData(players, windowStats);
+
+    // Every player's TP counts towards the total, but only $1000 of tokens
+    // are priced and they earned 1000 TP
+    expect(team.totalTP).toBe(1400);
+    expect(team.totalActiveMarketCap).toBe(1000);
+    expect(team.tpPer100).toBe(100);
+  });
+});
@@ -0,0 +1,313 @@
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type Row = Record<string, unknown>;
+
+/** Rows an RPC returns for its arguments, or a scalar result */
+type RpcHandler = (args: Record<string, unknown>) => Row[] | unknown;
+
+/** PostgREST's default max-rows: an unranged query never returns more */
+export const MAX_ROWS = 1000;
+
+interface Filter {
+  column: string;
+  test: (value: unknown) => boolean;
+}
+
+interface QueryResult {
+  data: unknown;
+  error: { message: string } | null;
+}
+
+interface QueryLog {
+  target: string;
+  range: [number, number] | null;
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+/** A select list split on its top-level commas, so embeds stay whole */
+function selectList(columns: string): string[] {
+  const parts = [""];
+  let depth = 0;
+  for (const char of columns) {
+    if (char === "," && depth === 0) {
+      parts.push("");
+      continue;
+    }
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    parts[parts.length - 1] += char;
+  }
+  return parts.map((p) => p.trim());
+}
+
+/**
+ * Picks the selected columns. An embedded resource like
+ * `notifications(id, title)` is read from a field of that name, so tables
+ * hold embeds already joined.
+ */
+function project(row: Row, columns: string): Row {
+  if (columns.trim() === "*") return { ...row };
+  return Object.fromEntries(
+    selectList(columns).map((c) => {
+      const column = c.split("(")[0];
+      return [column, row[column] ?? null];
+    })
+  );
+}
+
+/**
+ * A chainable query over an in-memory table, read with `await` like the
+ * PostgREST builder. Filters, ordering and ranges apply to select and RPC
+ * results; writes apply straight to the table.
+ */
+class MemoryQuery implements PromiseLike<QueryResult> {
+  private filters: Filter[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private rangeBounds: [number, number] | null = null;
+  private columns = "*";
+  private singleMode: "one" | "maybe" | null = null;
+  private write: (() => Row[]) | null = null;
+
+  constructor(
+    private readonly db: MemorySupabase,
+    private readonly target: string,
+    private readonly source: () => Row[] | unknown
+  ) {}
+
+  select(columns = "*") {
+    this.columns = columns;
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push({ column, test: (v) => v === value });
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push({ column, test: (v) => v !== value });
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push({ column, test: (v) => values.includes(v) });
+    return this;
+  }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push({ column, test: (v) => (v ?? null) === value });
+    return this;
+  }
+
+  not(column: string, operator: "is" | "eq", value: unknown) {
+    this.filters.push({ column, test: (v) => (operator === "is" ? (v ?? null) : v) !== value });
+    return this;
+  }
+
+  gt(column: string, value: unknown) {
+    this.filters.push({ column, test: (v) => v !== null && compare(v, value) > 0 });
+    return this;
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push({ column, test: (v) => v !== null && compare(v, value) >= 0 });
+    return this;
+  }
+
+  lt(column: string, value: unknown) {
+    this.filters.push({ column, test: (v) => v !== null && compare(v, value) < 0 });
+    return this;
+  }
+
+  lte(column: string, value: unknown) {
+    this.filters.push({ column, test: (v) => v !== null && compare(v, value) <= 0 });
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.rangeBounds = [from, to];
+    return this;
+  }
+
+  limit(count: number) {
+    this.rangeBounds = [0, count - 1];
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = "maybe";
+    return this;
+  }
+
+  single() {
+    this.singleMode = "one";
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.write = () => {
+      const generated = this.db.generatedIds.has(this.target);
+      const inserted = [rows]
+        .flat()
+        .map((r) => (generated && r.id === undefined ? { id: randomUUID(), ...r } : { ...r }));
+      this.db.table(this.target).push(...inserted);
+      return inserted;
+    };
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    const keys = (options.onConflict ?? "id").split(",").map((k) => k.trim());
+    this.write = () => {
+      const table = this.db.table(this.target);
+      return [rows].flat().map((row) => {
+        const existing = table.find((r) => keys.every((k) => r[k] === row[k]));
+        if (!existing) {
+          table.push({ ...row });
+          return row;
+        }
+        if (!options.ignoreDuplicates) Object.assign(existing, row);
+        return existing;
+      });
+    };
+    return this;
+  }
+
+  update(values: Row) {
+    this.write = () => {
+      const updated = this.matching(this.db.table(this.target));
+      updated.forEach((r) => Object.assign(r, values));
+      return updated;
+    };
+    return this;
+  }
+
+  delete() {
+    this.write = () => {
+      const table = this.db.table(this.target);
+      const deleted = this.matching(table);
+      this.db.setTable(this.target, table.filter((r) => !deleted.includes(r)));
+      return deleted;
+    };
+    return this;
+  }
+
+  private matching(rows: Row[]): Row[] {
+    return rows.filter((row) => this.filters.every((f) => f.test(row[f.column] ?? null)));
+  }
+
+  private execute(): QueryResult {
+    const failure = this.db.failures.get(this.target);
+    if (failure) return { data: null, error: { message: failure } };
+
+    this.db.queries.push({ target: this.target, range: this.rangeBounds });
+
+    let rows: Row[];
+    if (this.write) {
+      rows = this.write();
+    } else {
+      const source = this.source();
+      if (!Array.isArray(source)) return { data: source, error: null };
+
+      rows = this.matching(source as Row[]);
+      if (this.orders.length > 0) {
+        rows = [...rows].sort((a, b) => {
+          for (const { column, ascending } of this.orders) {
+            const order = compare(a[column], b[column]);
+            if (order !== 0) return ascending ? order : -order;
+          }
+          return 0;
+        });
+      }
+
+      const [from, to] = this.rangeBounds ?? [0, MAX_ROWS - 1];
+      rows = rows.slice(from, Math.min(to + 1, from + MAX_ROWS));
+    }
+    const data = rows.map((r) => project(r, this.columns));
+
+    if (this.singleMode) {
+      if (data.length > 1 || (this.singleMode === "one" && data.length === 0)) {
+        return { data: null, error: { message: `Expected one row, got ${data.length}` } };
+      }
+      return { data: data[0] ?? null, error: null };
+    }
+    return { data, error: null };
+  }
+
+  then<TResult1, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * An in-memory stand-in for the Supabase client, covering the parts of the
+ * query builder lib/ uses. Every read is capped at MAX_ROWS like PostgREST,
+ * so a query that forgets to page loses rows here too.
+ */
+export class MemorySupabase {
+  readonly queries: QueryLog[] = [];
+  readonly failures = new Map<string, string>();
+  readonly generatedIds = new Set<string>();
+  private tables = new Map<string, Row[]>();
+  private rpcs = new Map<string, RpcHandler>();
+
+  constructor(tables: Record<string, Row[]> = {}, rpcs: Record<string, RpcHandler> = {}) {
+    Object.entries(tables).forEach(([name, rows]) => this.tables.set(name, rows));
+    Object.entries(rpcs).forEach(([name, handler]) => this.rpcs.set(name, handler));
+  }
+
+  table(name: string): Row[] {
+    if (!this.tables.has(name)) this.tables.set(name, []);
+    return this.tables.get(name)!;
+  }
+
+  setTable(name: string, rows: Row[]) {
+    this.tables.set(name, rows);
+  }
+
+  setRpc(name: string, handler: RpcHandler) {
+    this.rpcs.set(name, handler);
+  }
+
+  /** Make every query against `target` (table or RPC) fail with `message` */
+  fail(target: string, message: string) {
+    this.failures.set(target, message);
+  }
+
+  /** Give rows inserted into `table` a uuid id, like `DEFAULT gen_random_uuid()` */
+  generateIds(table: string) {
+    this.generatedIds.add(table);
+  }
+
+  from(name: string) {
+    return new MemoryQuery(this, name, () => this.table(name));
+  }
+
+  rpc(name: string, args: Record<string, unknown> = {}) {
+    const handler = this.rpcs.get(name);
+    if (!handler) throw new Error(`No RPC handler for ${name}`);
+    return new MemoryQuery(this, name, () => handler(args));
+  }
+
+  /** The stand-in typed as the real client, for passing to lib/ functions */
+  get client(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+}
@@ -0,0 +1,235 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { evaluateAlerts } from "@/lib/alerts";
+import {
+  createWebhookChannel,
+  defaultNotificationChannels,
+  deliverPendingNotifications,
+} from "@/lib/notification-channels";
+import { webhookUrlError } from "@/lib/notifications";
+import { UserNotification } from "@/types";
+import { MemorySupabase } from "./memory-supabase";
+
+const notification: UserNotification = {
+  id: "n1",
+  rule_id: "r1",
+  player_id: "a",
+  title: "A crossed above $1.00",
+  body: "A moved from $0.90 to $1.20.",
+  read_at: null,
+  created_at: "2026-03-01T12:00:00Z",
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("webhookUrlError", () => {
+  it("accepts public https URLs", () => {
+    expect(webhookUrlError("https://hooks.example.com/alerts?key=1")).toBeNull();
+    expect(webhookUrlError("https://8.8.8.8/hook")).toBeNull();
+  });
+
+  it("rejects other schemes and anything that isn't a URL", () => {
+    expect(webhookUrlError("http://hooks.example.com/")).toBe("Webhook URL must use https");
+    expect(webhookUrlError("file:///etc/passwd")).toBe("Webhook URL must use https");
+    expect(webhookUrlError("hooks.example.com")).toBe("Webhook URL is not a valid URL");
+  });
+
+  it("rejects loopback, private and link-local hosts however they're written", () => {
+    for (const url of [
+      "https://localhost/",
+      "https://api.localhost/",
+      "https://127.0.0.1:8080/",
+      "https://0x7f.1/",
+      "https://2130706433/",
+      "https://10.1.2.3/",
+      "https://172.20.0.1/",
+      "https://192.168.1.1/",
+      "https://169.254.169.254/latest/meta-data",
+      "https://[::1]/",
+      "https://[::ffff:127.0.0.1]/",
+      "https://[fd00::1]/",
+      "https://[fe80::1]/",
+    ]) {
+      expect(webhookUrlError(url), url).toBe(
+        "Webhook URL must not point at a private or local address"
+      );
+    }
+  });
+});
+
+describe("webhook channel", () => {
+  const settings = { webhook_url: "https://hooks.example.com/alerts", email: null };
+
+  it("posts with a timeout and without following redirects", async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+    vi.stubGlobal("fetch", fetch);
+
+    await createWebhookChannel(async () => ["93.184.216.34"]).send(notification, settings);
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe(settings.webhook_url);
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+    expect(init.redirect).toBe("error");
+    expect(JSON.parse(init.body)).toMatchObject({ title: notification.title, player_id: "a" });
+  });
+
+  it("refuses a host that resolves to a private address", async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+
+    const send = createWebhookChannel(async () => ["93.184.216.34", "10.0.0.5"]).send(
+      notification,
+      settings
+    );
+
+    await expect(send).rejects.toThrow("Webhook URL resolves to a private or local address");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("refuses a stored URL that wouldn't pass validation", async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+
+    const send = createWebhookChannel(async () => []).send(notification, {
+      ...settings,
+      webhook_url: "http://127.0.0.1/",
+    });
+
+    await expect(send).rejects.toThrow("Webhook URL must use https");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("email channel", () => {
+  it("is left out unless an outbox directory is set", () => {
+    vi.stubEnv("EMAIL_OUTBOX_DIR", "");
+    expect(defaultNotificationChannels().map((c) => c.name)).toEqual(["webhook"]);
+
+    vi.stubEnv("EMAIL_OUTBOX_DIR", "outbox/email");
+    expect(defaultNotificationChannels().map((c) => c.name)).toEqual(["webhook", "email"]);
+  });
+});
+
+describe("deliverPendingNotifications", () => {
+  function outbox() {
+    return new MemorySupabase({
+      notification_deliveries: ["n1", "n2"].map((id) => ({
+        notification_id: id,
+        channel: "webhook",
+        status: "pending",
+        attempts: 0,
+        notifications: { ...notification, id, user_id: "user-1" },
+      })),
+      notification_settings: [
+        { user_id: "user-1", webhook_url: "https://hooks.example.com/alerts", email: null },
+      ],
+    });
+  }
+
+  it("sends each pending delivery and records it", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(null, { status: 204 })));
+    const db = outbox();
+
+    const sent = await deliverPendingNotifications(db.client, [
+      createWebhookChannel(async () => ["93.184.216.34"]),
+    ]);
+
+    expect(sent).toBe(2);
+    expect(db.table("notification_deliveries").map((d) => d.status)).toEqual(["sent", "sent"]);
+  });
+
+  it("leaves deliveries untried once there's no time left for them", async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+    const db = outbox();
+
+    const sent = await deliverPendingNotifications(
+      db.client,
+      [createWebhookChannel(async () => ["93.184.216.34"])],
+      Date.now() + 5_000
+    );
+
+    expect(sent).toBe(0);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(db.table("notification_deliveries").map((d) => [d.status, d.attempts])).toEqual([
+      ["pending", 0],
+      ["pending", 0],
+    ]);
+  });
+});
+
+describe("evaluateAlerts", () => {
+  function rule(id: string, previousPrice: number) {
+    return {
+      id,
+      user_id: "user-1",
+      player_id: "a",
+      kind: "price_cross",
+      threshold: 1,
+      window_minutes: null,
+      channels: ["in_app", "webhook"],
+      active: true,
+      state: { price: previousPrice },
+      last_fired_at: null,
+      created_at: "2026-02-01T00:00:00Z",
+    };
+  }
+
+  function market() {
+    const db = new MemorySupabase({
+      alert_rules: [rule("r1", 0.9), rule("r2", 1.3)],
+      players: [{ id: "a", display_name: "A", status: "active" }],
+      latest_prices: [
+        {
+          player_id: "a",
+          price_usd: 1.2,
+          liquidity_usd: null,
+          volume_24h_usd: null,
+          fetched_at: "2026-03-01T12:00:00Z",
+        },
+      ],
+      notifications: [],
+      notification_deliveries: [],
+    });
+    db.generateIds("notifications");
+    return db;
+  }
+
+  it("carries on past a rule whose notification can't be queued", async () => {
+    const db = market();
+    db.fail("notifications", "insert failed");
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await evaluateAlerts(db.client, new Date("2026-03-01T12:05:00Z"));
+
+    expect(result).toEqual({ evaluated: 2, fired: 0 });
+    expect(errors).toHaveBeenCalledWith(
+      "Failed to notify for alert rule r1: Failed to queue notification: insert failed"
+    );
+    const [r1, r2] = db.table("alert_rules");
+    // r1 keeps the price it last saw so it fires again next run; r2 still updates
+    expect(r1.state).toEqual({ price: 0.9 });
+    expect(r1.last_fired_at).toBeNull();
+    expect(r2.state).toEqual({ price: 1.2 });
+    errors.mockRestore();
+  });
+
+  it("removes the notification when its deliveries can't be queued", async () => {
+    const db = market();
+    db.fail("notification_deliveries", "insert failed");
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await evaluateAlerts(db.client, new Date("2026-03-01T12:05:00Z"));
+
+    expect(result.fired).toBe(0);
+    expect(errors).toHaveBeenCalledWith(
+      "Failed to notify for alert rule r1: Failed to queue deliveries: insert failed"
+    );
+    // Nothing left in the bell to duplicate when r1 fires again next run
+    expect(db.table("notifications")).toEqual([]);
+    expect(db.table("alert_rules")[0].state).toEqual({ price: 0.9 });
+    errors.mockRestore();
+  });
+});
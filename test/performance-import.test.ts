@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { buildIdentityIndex, resolvePlayerIdentity } from "@/lib/identity";
+import { diffPerformanceImport } from "@/lib/performance-import";
+import { ParsedRow } from "@/types";
+import { MAX_ROWS, MemorySupabase } from "./memory-supabase";
+
+const PLAYERS = 40;
+const DATES = 40;
+
+const playerId = (p: number) => `player-${String(p).padStart(3, "0")}`;
+const playerName = (p: number) => `Player ${String.fromCharCode(65 + (p % 26))}${p}`;
+const matchDate = (d: number) =>
+  new Date(Date.UTC(2026, 0, 1 + d * 3)).toISOString().slice(0, 10);
+
+/** Every player with a stored game on every date: more rows than one response */
+function storedData() {
+  const performance = [];
+  for (let p = 0; p < PLAYERS; p++) {
+    for (let d = 0; d < DATES; d++) {
+      performance.push({
+        id: `perf-${p}-${d}`,
+        player_id: playerId(p),
+        tournament_id: `tournament-${d}`,
+        match_date: matchDate(d),
+        raw_score: 100 + p + d,
+        ranking: 1 + (d % 8),
+        reward: d % 8 < 3 ? 25 : 0,
+      });
+    }
+  }
+
+  return new MemorySupabase({
+    players: Array.from({ length: PLAYERS }, (_, p) => ({
+      id: playerId(p),
+      display_name: playerName(p),
+    })),
+    player_aliases: [],
+    tournaments: Array.from({ length: DATES }, (_, d) => ({
+      id: `tournament-${d}`,
+      tournament_date: matchDate(d),
+      created_at: `${matchDate(d)}T00:00:00Z`,
+    })),
+    performance,
+  });
+}
+
+/** The file an admin would upload for what is stored */
+function parsedFile(db: MemorySupabase): { rows: ParsedRow[]; issues: [] } {
+  const names = new Map(db.table("players").map((p) => [p.id, p.display_name as string]));
+  return {
+    rows: db.table("performance").map((r) => ({
+      display_name: names.get(r.player_id)!,
+      team_name: "",
+      position: "",
+      match_date: r.match_date as string,
+      raw_score: r.raw_score as number,
+      ranking: r.ranking as number,
+      reward: r.reward as number,
+    })),
+    issues: [],
+  };
+}
+
+const options = { createPlayers: false, source: "upload" } as const;
+
+describe("diffPerformanceImport", () => {
+  it("compares against every stored row when there are more than one response holds", async () => {
+    const db = storedData();
+    expect(db.table("performance").length).toBeGreaterThan(MAX_ROWS);
+
+    const diff = await diffPerformanceImport(db.client, parsedFile(db), options);
+
+    expect(diff.rows).toHaveLength(PLAYERS * DATES);
+    expect(diff.rows.every((r) => r.kind === "unchanged")).toBe(true);
+    expect(diff.newMatchDates).toEqual([]);
+  });
+
+  it("finds a changed row past the first response", async () => {
+    const db = storedData();
+    const file = parsedFile(db);
+    const last = file.rows[file.rows.length - 1];
+    last.raw_score = last.raw_score! + 50;
+
+    const diff = await diffPerformanceImport(db.client, file, options);
+
+    const changed = diff.rows.filter((r) => r.kind !== "unchanged");
+    expect(changed).toHaveLength(1);
+    expect(changed[0]).toMatchObject({
+      kind: "update",
+      display_name: last.display_name,
+      match_date: last.match_date,
+      changedFields: ["raw_score"],
+    });
+  });
+
+  it("gives a commit the preview's fingerprint until stored data moves", async () => {
+    const db = storedData();
+    const file = parsedFile(db);
+    file.rows[0].ranking = 2;
+    file.rows[file.rows.length - 1].reward = 99;
+
+    const preview = await diffPerformanceImport(db.client, file, options);
+    const commit = await diffPerformanceImport(db.client, file, options);
+    expect(commit.fingerprint).toBe(preview.fingerprint);
+
+    // Someone else edits a row the file also changes, after the preview
+    const stored = db.table("performance");
+    stored[stored.length - 1].reward = 50;
+
+    const moved = await diffPerformanceImport(db.client, file, options);
+    expect(moved.fingerprint).not.toBe(preview.fingerprint);
+  });
+
+  it("sends a fuzzy name match to review and shows who each row is written to", async () => {
+    const players = [
+      { id: "silva", display_name: "Bernardo Silva" },
+      { id: "rodri", display_name: "Rodri" },
+    ];
+    const aliases = [
+      { normalized_alias: "rodrigo hernandez", source: "upload", player_id: "rodri", confidence: 1 },
+    ];
+    const db = new MemorySupabase({
+      players,
+      player_aliases: aliases,
+      tournaments: [],
+      performance: [],
+    });
+    const row = (display_name: string): ParsedRow => ({
+      display_name,
+      team_name: "",
+      position: "",
+      match_date: "2026-03-01",
+      raw_score: 100,
+      ranking: 1,
+      reward: 25,
+    });
+
+    // A lone surname is a confident fuzzy match everywhere else
+    const index = buildIdentityIndex(players, aliases);
+    expect(resolvePlayerIdentity(index, "Silva", "upload")).toMatchObject({
+      status: "matched",
+      playerId: "silva",
+      method: "fuzzy",
+    });
+
+    const diff = await diffPerformanceImport(
+      db.client,
+      { rows: [row("Silva"), row("Rodrigo Hernandez"), row("Bernardo Silva")], issues: [] },
+      options
+    );
+
+    expect(diff.ambiguousPlayers).toMatchObject([
+      { display_name: "Silva", candidates: [{ player_id: "silva" }] },
+    ]);
+    expect(diff.unmatchedRows.map((r) => r.display_name)).toEqual(["Silva"]);
+    expect(diff.rows.map((r) => [r.display_name, r.player_id, r.match])).toEqual([
+      ["Rodrigo Hernandez", "rodri", { display_name: "Rodri", method: "alias" }],
+      ["Bernardo Silva", "silva", { display_name: "Bernardo Silva", method: "exact" }],
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { importWallet } from "@/lib/portfolio";
+import { BalanceProvider } from "@/lib/wallet-balances";
+import { MemorySupabase } from "./memory-supabase";
+
+const WALLET = "0x00000000000000000000000000000000000000aa";
+
+const provider = (balances: Record<string, number>): BalanceProvider => ({
+  name: "test",
+  getBalances: async () =>
+    Object.entries(balances).map(([tokenAddress, quantity]) => ({
+      tokenAddress,
+      symbol: null,
+      quantity,
+    })),
+});
+
+function setup() {
+  return new MemorySupabase({
+    players: [
+      { id: "priced", display_name: "Priced Player", token_address: "0xPRICED" },
+      { id: "unpriced", display_name: "New Listing", token_address: "0xUNPRICED" },
+    ],
+    latest_prices: [
+      {
+        player_id: "priced",
+        price_usd: 2.5,
+        liquidity_usd: null,
+        volume_24h_usd: null,
+        fetched_at: "2026-10-01T00:00:00Z",
+      },
+    ],
+    portfolio_transactions: [],
+    portfolio_wallets: [],
+  });
+}
+
+describe("importWallet", () => {
+  it("books trades at the latest price", async () => {
+    const db = setup();
+
+    const report = await importWallet(db.client, "user", WALLET, provider({ "0xpriced": 40 }));
+
+    expect(report).toMatchObject({ matched: 1, adjustments: 1, unpricedPlayers: [] });
+    expect(db.table("portfolio_transactions")).toEqual([
+      expect.objectContaining({ player_id: "priced", side: "buy", quantity: 40, price_usd: 2.5 }),
+    ]);
+  });
+
+  it("skips and reports players with no price instead of trading at $0", async () => {
+    const db = setup();
+
+    const report = await importWallet(
+      db.client,
+      "user",
+      WALLET,
+      provider({ "0xpriced": 40, "0xunpriced": 10 })
+    );
+
+    expect(report.adjustments).toBe(1);
+    expect(report.unpricedPlayers).toEqual([{ playerId: "unpriced", name: "New Listing" }]);
+    expect(db.table("portfolio_transactions").map((t) => t.player_id)).toEqual(["priced"]);
+
+    // Once it has a price, the next import records the position
+    db.table("latest_prices").push({
+      player_id: "unpriced",
+      price_usd: 0.8,
+      liquidity_usd: null,
+      volume_24h_usd: null,
+      fetched_at: "2026-10-02T00:00:00Z",
+    });
+    const next = await importWallet(
+      db.client,
+      "user",
+      WALLET,
+      provider({ "0xpriced": 40, "0xunpriced": 10 })
+    );
+
+    expect(next).toMatchObject({ adjustments: 1, unpricedPlayers: [] });
+    expect(db.table("portfolio_transactions")).toContainEqual(
+      expect.objectContaining({ player_id: "unpriced", quantity: 10, price_usd: 0.8 })
+    );
+  });
+});
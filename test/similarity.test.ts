@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { buildPlayerFeatures, findSimilarPlayers } from "@/lib/similarity";
+import { PlayerFeatures } from "@/types";
+import { player, stats } from "./factories";
+
+function feature(id: string, overrides: Partial<PlayerFeatures> = {}): PlayerFeatures {
+  return {
+    id,
+    name: id,
+    team: "Team",
+    position: "FWD",
+    avgScore: 100,
+    scoreStddev: 10,
+    tpRate: 40,
+    avgRanking: 5,
+    rankShares: [0.2, 0.2, 0.2, 0.2, 0.1, 0.1],
+    price: 1,
+    tpPer100: 50,
+    ...overrides,
+  };
+}
+
+const ids = (players: { id: string }[]) => players.map((p) => p.id);
+
+describe("buildPlayerFeatures", () => {
+  it("turns rank counts into shares and TP games into a rate", () => {
+    const [features] = buildPlayerFeatures(
+      [player("a", { team_name: null })],
+      new Map([["a", stats(1000, 2, 100, { tpGames: 3, scoreStddev: null })]]),
+      new Map([["a", [2, 1, 1, 0, 0, 4]]])
+    );
+
+    expect(features).toEqual({
+      id: "a",
+      name: "a",
+      team: "Unknown",
+      position: "FWD",
+      avgScore: 100,
+      scoreStddev: 0,
+      tpRate: 30,
+      avgRanking: 5,
+      rankShares: [0.25, 0.125, 0.125, 0, 0, 0.5],
+      price: 2,
+      // 1000 TP over $200 of active tokens
+      tpPer100: 500,
+    });
+  });
+
+  it("gives players with no ranked games or TP per $100 zeros", () => {
+    const [features] = buildPlayerFeatures(
+      [player("a", { active_shares: 0 })],
+      new Map([["a", stats(0, 2, 0)]]),
+      new Map()
+    );
+
+    expect(features.rankShares).toEqual([0, 0, 0, 0, 0, 0]);
+    expect(features.tpPer100).toBe(0);
+  });
+
+  it("leaves out players without a price or enough scored games", () => {
+    const players = ["ok", "no-stats", "unpriced", "zero-price", "two-games", "no-score"].map(
+      (id) => player(id)
+    );
+    const windowStats = new Map([
+      ["ok", stats(100, 1)],
+      ["unpriced", stats(100, null)],
+      ["zero-price", stats(100, 0)],
+      ["two-games", stats(100, 1, 100, { scoredGames: 2 })],
+      ["no-score", stats(100, 1, 100, { avgScore: null })],
+    ]);
+
+    expect(ids(buildPlayerFeatures(players, windowStats, new Map()))).toEqual(["ok"]);
+  });
+});
+
+describe("findSimilarPlayers", () => {
+  it("ranks nearest first, leaving out the target and excluded players", () => {
+    const target = feature("target");
+    const features = [
+      target,
+      feature("far", { avgScore: 140 }),
+      feature("near", { avgScore: 105 }),
+      feature("middle", { avgScore: 120 }),
+      feature("excluded", { avgScore: 101 }),
+    ];
+
+    const similar = findSimilarPlayers(features, target, 10, ["excluded"]);
+
+    expect(ids(similar)).toEqual(["near", "middle", "far"]);
+    expect(ids(findSimilarPlayers(features, target, 2, ["excluded"]))).toEqual(["near", "middle"]);
+  });
+
+  it("measures each dimension in standard deviations across the pool", () => {
+    const target = feature("target");
+    const features = [target, feature("a", { avgScore: 110 }), feature("b", { avgScore: 130 })];
+    // Population standard deviation of the three scores
+    const mean = (100 + 110 + 130) / 3;
+    const spread = Math.sqrt([100, 110, 130].reduce((sum, v) => sum + (v - mean) ** 2, 0) / 3);
+
+    const [a, b] = findSimilarPlayers(features, target, 2);
+
+    expect(a.distance).toBeCloseTo(10 / spread, 10);
+    expect(b.distance).toBeCloseTo(30 / spread, 10);
+
+    // Scaling a stat up doesn't change anyone's distance
+    const scaled = features.map((f) => ({ ...f, avgScore: f.avgScore * 1000 }));
+    const [scaledA] = findSimilarPlayers(scaled, scaled[0], 1);
+    expect(scaledA.distance).toBeCloseTo(a.distance, 10);
+  });
+
+  it("compares prices as ratios", () => {
+    const target = feature("target", { price: 1 });
+    const features = [
+      target,
+      feature("half", { price: 0.5 }),
+      feature("double", { price: 2 }),
+      feature("triple", { price: 3 }),
+    ];
+
+    const [half, double] = findSimilarPlayers(features, target, 2);
+
+    expect(half.distance).toBeCloseTo(double.distance, 10);
+  });
+
+  it("puts players of other positions behind otherwise identical ones", () => {
+    const target = feature("target");
+    const features = [target, feature("keeper", { position: "GK" }), feature("forward")];
+
+    const similar = findSimilarPlayers(features, target, 2);
+
+    expect(ids(similar)).toEqual(["forward", "keeper"]);
+    expect(similar[0].distance).toBe(0);
+    expect(similar[1].distance).toBe(2);
+  });
+});
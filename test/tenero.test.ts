@@ -0,0 +1,209 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { createTeneroClient, parseTeneroToken, TeneroError, TeneroTransport } from "@/lib/tenero";
+import { createFixtureTransport, fixtureFileName } from "@/lib/tenero-fixtures";
+
+const FIXTURES = path.join(__dirname, "fixtures/tenero");
+const BASE = "https://api.tenero.test";
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+/** A transport that answers from a list of responses in turn, recording each URL */
+function scripted(...responses: (Response | Error | "hang")[]) {
+  const urls: string[] = [];
+  const transport: TeneroTransport = (url, init) => {
+    urls.push(url);
+    const next = responses.shift();
+    if (!next) throw new Error(`Unexpected request to ${url}`);
+    if (next === "hang") {
+      return new Promise((_, reject) =>
+        init.signal.addEventListener("abort", () => reject(new Error("aborted")))
+      );
+    }
+    return next instanceof Error ? Promise.reject(next) : Promise.resolve(next);
+  };
+  return { transport, urls };
+}
+
+function client(transport: TeneroTransport, sleeps: number[] = [], backoffMs = 100) {
+  return createTeneroClient({
+    transport,
+    baseUrl: BASE,
+    maxRetries: 2,
+    timeoutMs: 20,
+    backoffMs,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+    },
+  });
+}
+
+const page = (rows: unknown[], next: string | null = null) => json({ data: { rows, next } });
+const token = (address: string) => ({
+  address,
+  symbol: address.toUpperCase(),
+  name: `Player ${address}`,
+  price_usd: 1,
+  marketcap_usd: 1000,
+  holder_count: 10,
+});
+
+describe("Tenero client against recorded fixtures", () => {
+  const fixtureClient = () =>
+    createTeneroClient({ transport: createFixtureTransport(FIXTURES), baseUrl: BASE });
+
+  it("walks every page and reports rows that fail validation", async () => {
+    const result = await fixtureClient().fetchAllTokens();
+
+    expect(result.complete).toBe(true);
+    expect(result.tokens.map((t) => t.symbol)).toEqual(["MBAPPE", "SALAH"]);
+    expect(result.invalid).toEqual([
+      {
+        address: "0x1a2b000000000000000000000000000000000002",
+        reason: "Missing or invalid price_usd",
+      },
+    ]);
+
+    const [mbappe, salah] = result.tokens;
+    expect(mbappe).toMatchObject({ price_usd: 0.4215, marketcap_usd: 421500, buy_count_24h: 214 });
+    // Optional fields that are missing or malformed come back as null
+    expect(salah).toMatchObject({ volume_24h_usd: null, buy_count_24h: 96, sell_count_24h: null });
+  });
+
+  it("looks up one token, and null for one that isn't recorded", async () => {
+    const salah = await fixtureClient().fetchTokenByAddress(
+      "0x1a2b000000000000000000000000000000000003"
+    );
+    expect(salah?.name).toBe("Mohamed Salah");
+
+    expect(await fixtureClient().fetchTokenByAddress("0xunknown")).toBeNull();
+  });
+
+  it("names fixture files after the request", () => {
+    expect(fixtureFileName(`${BASE}/tokens`)).toBe("tokens.json");
+    expect(fixtureFileName(`${BASE}/tokens?cursor=a/b`)).toBe("tokens.cursor-a_b.json");
+    expect(fixtureFileName(`${BASE}/tokens/0xabc`)).toBe("token-0xabc.json");
+  });
+});
+
+describe("Tenero retries", () => {
+  it("retries server errors with exponential backoff", async () => {
+    const sleeps: number[] = [];
+    const { transport, urls } = scripted(json({}, 502), json({}, 503), page([token("a")]));
+
+    const result = await client(transport, sleeps).fetchAllTokens();
+
+    expect(result.complete).toBe(true);
+    expect(result.tokens).toHaveLength(1);
+    expect(urls).toHaveLength(3);
+    expect(sleeps).toEqual([100, 200]);
+  });
+
+  it("waits as long as Retry-After asks on a 429, up to the longest backoff", async () => {
+    const sleeps: number[] = [];
+    const { transport } = scripted(json({}, 429, { "Retry-After": "1" }), page([token("a")]));
+
+    // Backoff of 500ms doubling once: the longest wait is 1s
+    const result = await client(transport, sleeps, 500).fetchAllTokens();
+
+    expect(result.complete).toBe(true);
+    expect(sleeps).toEqual([1000]);
+  });
+
+  it("stops instead of waiting out a longer Retry-After, keeping the cursor", async () => {
+    const sleeps: number[] = [];
+    const { transport, urls } = scripted(
+      page([token("a")], "two"),
+      json({}, 429, { "Retry-After": "120" })
+    );
+
+    const result = await client(transport, sleeps, 500).fetchAllTokens();
+
+    expect(result).toMatchObject({
+      complete: false,
+      cursor: "two",
+      error: "Tenero API rate limited; asked to retry after 120s",
+    });
+    expect(result.tokens).toHaveLength(1);
+    expect(urls).toHaveLength(2);
+    expect(sleeps).toEqual([]);
+  });
+
+  it("retries timeouts and network errors", async () => {
+    const { transport, urls } = scripted("hang", new Error("ECONNRESET"), page([token("a")]));
+
+    const result = await client(transport).fetchAllTokens();
+
+    expect(result.complete).toBe(true);
+    expect(urls).toHaveLength(3);
+  });
+
+  it("does not retry other client errors", async () => {
+    const { transport, urls } = scripted(json({}, 400));
+
+    const result = await client(transport).fetchAllTokens();
+
+    expect(result).toMatchObject({ complete: false, error: "Tenero API error: 400" });
+    expect(urls).toHaveLength(1);
+  });
+
+  it("throws from a single-token lookup once retries run out", async () => {
+    const { transport } = scripted(json({}, 500), json({}, 500), json({}, 500));
+
+    const lookup = client(transport).fetchTokenByAddress("a");
+
+    await expect(lookup).rejects.toBeInstanceOf(TeneroError);
+    await expect(lookup).rejects.toMatchObject({ status: 500 });
+  });
+});
+
+describe("Tenero resume", () => {
+  it("keeps the tokens fetched before a page fails and resumes from that page", async () => {
+    const first = scripted(
+      page([token("a")], "two"),
+      "hang",
+      "hang",
+      "hang"
+    );
+
+    const partial = await client(first.transport).fetchAllTokens();
+
+    expect(partial).toMatchObject({
+      complete: false,
+      cursor: "two",
+      error: "Tenero API timed out after 20ms",
+    });
+    expect(partial.tokens.map((t) => t.address)).toEqual(["a"]);
+
+    const second = scripted(page([token("b")], "three"), page([token("c")]));
+    const rest = await client(second.transport).fetchAllTokens({ cursor: partial.cursor });
+
+    expect(second.urls).toEqual([`${BASE}/tokens?cursor=two`, `${BASE}/tokens?cursor=three`]);
+    expect(rest.complete).toBe(true);
+    expect(rest.tokens.map((t) => t.address)).toEqual(["b", "c"]);
+  });
+});
+
+describe("parseTeneroToken", () => {
+  it("rejects rows without the required fields", () => {
+    expect(parseTeneroToken(null)).toBe("Row is not an object");
+    expect(parseTeneroToken({ ...token("a"), address: "" })).toBe("Missing address");
+    expect(parseTeneroToken({ ...token("a"), price_usd: -1 })).toBe(
+      "Missing or invalid price_usd"
+    );
+    expect(parseTeneroToken({ ...token("a"), marketcap_usd: "lots" })).toBe(
+      "Missing or invalid marketcap_usd"
+    );
+    expect(parseTeneroToken({ ...token("a"), holder_count: undefined })).toBe(
+      "Missing or invalid holder_count"
+    );
+  });
+
+  it("reads numeric strings", () => {
+    expect(parseTeneroToken({ ...token("a"), price_usd: "0.25", holder_count: "12.4" })).toMatchObject({
+      price_usd: 0.25,
+      holder_count: 12,
+    });
+  });
+});
@@ -1,3 +1,5 @@
+export type PlayerStatus = "active" | "inactive" | "delisted" | "excluded-sport";
+
 export interface Player {
   id: string;
   display_name: string;
@@ -7,6 +9,9 @@ export interface Player {
   token_address: string | null;
   active_shares: number | null;
   circulating_shares: number | null;
+  status: PlayerStatus;
+  status_effective_at: string | null;
+  status_reason: string | null;
   created_at: string;
 }
 
@@ -16,18 +21,450 @@ export interface Price {
   price_usd: number;
   marketcap_usd: number | null;
   holder_count: number | null;
+  liquidity_usd: number | null;
+  volume_24h_usd: number | null;
+  buy_count_24h: number | null;
+  sell_count_24h: number | null;
+  circulating_supply: number | null;
   fetched_at: string;
 }
 
+export type PriceResolution = "raw" | "hourly" | "daily";
+
+export interface PriceCandle {
+  player_id: string;
+  bucket: string;
+  open_price: number;
+  high_price: number;
+  low_price: number;
+  close_price: number;
+  open_at: string;
+  close_at: string;
+  min_holders: number | null;
+  max_holders: number | null;
+  last_marketcap_usd: number | null;
+  last_liquidity_usd: number | null;
+  last_volume_24h_usd: number | null;
+  sample_count: number;
+}
+
+/** One point of a price series, from raw ticks or candle closes */
+export interface PricePoint {
+  date: string;
+  price: number;
+  liquidity: number | null;
+  volume: number | null;
+}
+
+/** One event; external_id is the Sport.fun id for tournaments fetched from the API */
+export interface Tournament {
+  id: string;
+  external_id: string | null;
+  name: string;
+  tournament_date: string;
+  end_date: string | null;
+  competition: string | null;
+  game_type: string | null;
+  entrants: number | null;
+  tp_pool: number | null;
+  created_at: string;
+}
+
 export interface Performance {
   id: string;
   player_id: string;
-  match_date: string;
+  tournament_id: string;
+  match_date: string; // the tournament's date
   raw_score: number | null;
   ranking: number | null;
   reward: number | null;
 }
 
+export type PerformanceRecord = Omit<Performance, "id">;
+
+export type TimeFilter = "1m" | "3m" | "all";
+
+/**
+ * The tournaments a stats page covers, read from its URL
+ * (lib/time-window.ts). Presets are precomputed in player_stats; the other
+ * kinds are aggregated on request.
+ */
+export type TimeWindow =
+  | { kind: "preset"; filter: TimeFilter }
+  | { kind: "range"; from: string | null; to: string | null }
+  | { kind: "tournaments"; count: number }
+  | { kind: "month"; month: string } // YYYY-MM
+  | { kind: "season"; season: number } // first year, 2024 = 2024/25
+  | { kind: "listing" };
+
+/** A TimeWindow as match_date bounds (YYYY-MM-DD, null for open-ended) */
+export interface WindowBounds {
+  since: string | null;
+  until: string | null;
+  /** Leave out each player's games from before their token listed */
+  sinceListing: boolean;
+}
+
+export interface LatestPrice {
+  price: number;
+  liquidity: number | null;
+  volume24h: number | null;
+  fetchedAt: string;
+}
+
+export interface PerformanceTotals {
+  totalTP: number;
+  gamesPlayed: number;
+  tpGames: number;
+  /** Sum of raw_score over the scoredGames games that have one */
+  totalScore: number;
+  scoredGames: number;
+}
+
+/** One row of player_stats in schema.sql: a player's totals for a window */
+export interface PlayerWindowStats extends PerformanceTotals {
+  /** Games finishing inside the position's TP rank threshold */
+  tpFinishes: number;
+  avgScore: number | null;
+  scoreStddev: number | null;
+  avgRanking: number | null;
+  bestRanking: number | null;
+  latestPrice: number | null;
+  /** Price × circulating shares */
+  marketCap: number | null;
+  /** Price × active shares, the tokens TP is paid out to */
+  activeMarketCap: number | null;
+  /** TP per $100 of tokens (tpPer100 in lib/utils.ts) */
+  tpPer100: number | null;
+}
+
+export interface PositionRollup {
+  position: string;
+  playerCount: number;
+  marketCap: number;
+}
+
+export interface PositionScoreStats {
+  position: string;
+  avgScore: number;
+  highestScore: number;
+  highestScorePlayer: string;
+  lowestScore: number;
+  lowestScorePlayer: string;
+}
+
+/** PositionScoreStats with the position's current TP rank threshold */
+export interface PositionStats extends PositionScoreStats {
+  tpThreshold: number;
+}
+
+export interface MonthlyEarners {
+  /** YYYY-MM */
+  month: string;
+  position: string;
+  earners: number;
+  /** Tournaments held that month */
+  tournaments: number;
+}
+
+/** A position's TP rank threshold from effective_from until its next rule */
+export interface ScoringRule {
+  id: string;
+  position: string;
+  rank_threshold: number;
+  effective_from: string;
+  created_at: string;
+  created_by: string | null;
+}
+
+/** A player's row on the TP leaderboard (lib/leaderboards.ts) */
+export interface PlayerTPData {
+  id: string;
+  name: string;
+  team: string;
+  position: string;
+  totalTP: number;
+  gamesPlayed: number;
+  tpGames: number;
+  price: number;
+  activeShares: number;
+}
+
+export interface PlayerVolatility {
+  id: string;
+  name: string;
+  team: string;
+  position: string;
+  price: number;
+  volatility: number;
+  priceChange: number;
+}
+
+export interface TeamData {
+  team: string;
+  totalTP: number;
+  totalMarketCap: number;
+  totalCirculatingShares: number;
+  totalActiveMarketCap: number;
+  playerCount: number;
+  /** TP per $100 of the team's tokens (tpPer100 in lib/utils.ts) */
+  tpPer100: number;
+}
+
+/**
+ * How /leaderboards ranks undervalued players: TP per $100 of tokens,
+ * or how far below its fair value (lib/fair-value.ts) the price is
+ */
+export type UndervaluedRanking = "tp-per-100" | "fair-value";
+
+/** tpPer100 is TP per $100 of tokens (tpPer100 in lib/utils.ts) */
+export interface UndervaluedPlayer extends PlayerTPData {
+  tpPer100: number;
+  fairPrice: number | null;
+  /** % above fair price; negative is undervalued */
+  residual: number | null;
+}
+
+/** Raw score spread over a window; players with 3+ scored games only */
+export interface PlayerConsistency {
+  id: string;
+  name: string;
+  position: string;
+  avgScore: number;
+  stdDev: number;
+  gamesPlayed: number;
+}
+
+/** price = coefficient · totalTP ^ exponent for one position (lib/fair-value.ts) */
+export interface FairValueModel {
+  position: string;
+  coefficient: number;
+  exponent: number;
+  /** Fit of the log-log regression, 0 to 1 */
+  rSquared: number;
+  samples: number;
+}
+
+export interface PlayerFairValue {
+  totalTP: number;
+  price: number;
+  fairPrice: number;
+  /** % the price is above fair value; negative is undervalued */
+  residual: number;
+}
+
+/** A day of player_fair_values */
+export interface FairValuePoint {
+  date: string;
+  price: number;
+  fairPrice: number;
+  residual: number;
+}
+
+/** A player as a point in the similarity search (lib/similarity.ts) */
+export interface PlayerFeatures {
+  id: string;
+  name: string;
+  team: string;
+  position: string;
+  avgScore: number;
+  scoreStddev: number;
+  /** % of games that earned TP */
+  tpRate: number;
+  avgRanking: number;
+  /** Share of ranked games finishing 1st to 5th, then 6th or worse */
+  rankShares: number[];
+  price: number;
+  /** All-time TP per $100 of tokens */
+  tpPer100: number;
+}
+
+export interface SimilarPlayer extends PlayerFeatures {
+  /** Normalized distance to the player searched for; 0 is identical */
+  distance: number;
+}
+
+export interface PriceVolatility {
+  firstPrice: number;
+  lastPrice: number;
+  meanPrice: number;
+  stddev: number;
+  samples: number;
+}
+
+export type TradeSide = "buy" | "sell";
+
+export interface PortfolioTransaction {
+  id: string;
+  player_id: string;
+  side: TradeSide;
+  quantity: number;
+  price_usd: number;
+  traded_on: string;
+  /** Set on trades a wallet import wrote */
+  wallet_address: string | null;
+  created_at: string;
+}
+
+export interface PortfolioWallet {
+  address: string;
+  label: string | null;
+  last_imported_at: string | null;
+  created_at: string;
+}
+
+/** A token balance held by a wallet, in whole tokens */
+export interface WalletBalance {
+  tokenAddress: string;
+  symbol: string | null;
+  quantity: number;
+}
+
+export interface WalletImportReport {
+  wallet: string;
+  provider: string;
+  /** Wallet tokens that matched a player's token_address */
+  matched: number;
+  /** Trades written to bring the wallet's positions in line */
+  adjustments: number;
+  /** Balances for tokens no player has */
+  unknownTokens: WalletBalance[];
+  /** Players whose position changed but who have no price; left for a later import */
+  unpricedPlayers: { playerId: string; name: string }[];
+}
+
+/** One player's position in a portfolio, at average cost */
+export interface PortfolioHolding {
+  playerId: string;
+  name: string;
+  team: string | null;
+  position: string | null;
+  quantity: number;
+  /** Cost of the tokens still held */
+  costBasis: number;
+  currentPrice: number | null;
+  marketValue: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  /** reward / active shares per token held on each match date */
+  tpEarned: number;
+}
+
+export interface PortfolioAllocation {
+  label: string;
+  value: number;
+  share: number;
+}
+
+export interface PortfolioSummary {
+  holdings: PortfolioHolding[];
+  marketValue: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  tpEarned: number;
+  byPosition: PortfolioAllocation[];
+  byTeam: PortfolioAllocation[];
+}
+
+export interface WatchlistItem {
+  player_id: string;
+  created_at: string;
+}
+
+export type AlertKind = "price_cross" | "price_move" | "holder_change" | "tp_earned" | "top_rank";
+
+export type NotificationChannelName = "in_app" | "webhook" | "email";
+
+/** A user's alert on one player, evaluated after each price fetch (lib/alerts.ts) */
+export interface AlertRule {
+  id: string;
+  player_id: string;
+  kind: AlertKind;
+  /** Price level, percent move, holder change or top-N rank, by kind */
+  threshold: number | null;
+  /** Lookback for price_move and holder_change */
+  window_minutes: number | null;
+  channels: NotificationChannelName[];
+  active: boolean;
+  /** What the last evaluation saw (last price, game date or rank) */
+  state: { price?: number; matchDate?: string; rank?: number | null } | null;
+  last_fired_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationSettings {
+  webhook_url: string | null;
+  email: string | null;
+}
+
+export interface UserNotification {
+  id: string;
+  rule_id: string | null;
+  player_id: string | null;
+  title: string;
+  body: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+/** What a backtest ranks players by (lib/backtest.ts) */
+export type BacktestMetric = "tpPer100" | "tpRate" | "totalTP";
+
+export type RebalanceCadence = "weekly" | "monthly" | "never";
+
+export interface BacktestStrategy {
+  name: string;
+  metric: BacktestMetric;
+  /** Players held after each rebalance, equal-weighted */
+  count: number;
+  /** Only pick players in this position */
+  position: string | null;
+  /** Games the metric is scored over, counted back from the rebalance */
+  lookbackDays: number;
+  rebalance: RebalanceCadence;
+  /** Starting cash in USD */
+  budget: number;
+  /** Charged on every trade, as a fraction of its value (0.01 = 1%) */
+  transactionCost: number;
+}
+
+/** A game and the day its result is known: the day after its tournament ends */
+export interface BacktestGame extends PerformanceRecord {
+  settledOn: string;
+}
+
+/** Daily closes and games a backtest replays */
+export interface BacktestData {
+  players: Player[];
+  /** Oldest first */
+  closes: { playerId: string; date: string; price: number }[];
+  /** By settledOn, oldest first */
+  performance: BacktestGame[];
+}
+
+export interface BacktestPoint {
+  date: string;
+  equity: number;
+  /** Cumulative */
+  tpEarned: number;
+  /** Fraction below the running peak */
+  drawdown: number;
+}
+
+export interface BacktestResult {
+  strategy: BacktestStrategy;
+  points: BacktestPoint[];
+  finalEquity: number;
+  totalReturn: number;
+  tpEarned: number;
+  maxDrawdown: number;
+  /** Value traded over average equity */
+  turnover: number;
+  costs: number;
+  rebalances: number;
+}
+
 export interface TeneroToken {
   address: string;
   symbol: string;
@@ -35,11 +472,236 @@ export interface TeneroToken {
   price_usd: number;
   marketcap_usd: number;
   holder_count: number;
-  total_liquidity_usd: number;
+  total_liquidity_usd: number | null;
+  volume_24h_usd: number | null;
+  buy_count_24h: number | null;
+  sell_count_24h: number | null;
+  circulating_supply: number | null;
 }
 
 export interface PlayerWithLatestPrice extends Player {
   latest_price: number | null;
   latest_marketcap: number | null;
+  latest_liquidity: number | null;
+  latest_volume_24h: number | null;
   price_change_24h: number | null;
+  /** All-time fair value residual, % over (+) or under (-) */
+  fair_value_residual: number | null;
+}
+
+export interface ParsedRow {
+  display_name: string;
+  team_name: string;
+  position: string;
+  match_date: string; // YYYY-MM-DD
+  raw_score: number | null;
+  ranking: number | null;
+  reward: number | null;
+}
+
+export interface ImportRowIssue {
+  display_name: string;
+  match_date: string | null;
+  reason: string;
+}
+
+export interface PerformanceImportReport {
+  batchId: string | null;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  unmatched: number;
+  createdPlayers: string[];
+  skippedRows: ImportRowIssue[];
+  unmatchedRows: ImportRowIssue[];
+}
+
+export type PerformanceField = "raw_score" | "ranking" | "reward";
+
+export interface PerformanceValues {
+  raw_score: number | null;
+  ranking: number | null;
+  reward: number | null;
+}
+
+export interface PlayerMatch {
+  display_name: string; // the stored player's name, which may differ from the sheet's
+  method: "alias" | "exact" | "fuzzy";
+}
+
+export interface PerformanceDiffRow {
+  kind: "insert" | "update" | "unchanged";
+  display_name: string;
+  player_id: string | null; // null when the player will be created
+  match: PlayerMatch | null;
+  match_date: string;
+  before: PerformanceValues | null;
+  after: PerformanceValues;
+  changedFields: PerformanceField[];
+}
+
+export interface NewPlayer {
+  display_name: string;
+  team_name: string | null;
+  position: string | null;
+}
+
+export interface AmbiguousPlayer {
+  display_name: string;
+  team_name: string | null;
+  position: string | null;
+  candidates: IdentityCandidate[];
+}
+
+export interface PerformanceImportDiff {
+  rows: PerformanceDiffRow[];
+  newMatchDates: string[];
+  newPlayers: NewPlayer[];
+  missingPlayers: string[];
+  ambiguousPlayers: AmbiguousPlayer[];
+  unmatchedRows: ImportRowIssue[];
+  skippedRows: ImportRowIssue[];
+  fingerprint: string;
+}
+
+export type IdentitySource = "upload" | "import-script" | "sport-api" | "tenero" | "manual";
+
+export interface PlayerAlias {
+  id: string;
+  alias: string;
+  normalized_alias: string;
+  source: IdentitySource;
+  player_id: string;
+  confidence: number;
+  created_at: string;
+}
+
+export interface IdentityCandidate {
+  player_id: string;
+  display_name: string;
+  score: number;
+  reason: string;
+}
+
+export type IdentityResolution =
+  | { status: "matched"; playerId: string; confidence: number; method: PlayerMatch["method"] }
+  | { status: "ambiguous"; candidates: IdentityCandidate[] }
+  | { status: "unmatched" };
+
+export interface IdentityReviewItem {
+  id: string;
+  alias: string;
+  normalized_alias: string;
+  source: IdentitySource;
+  candidates: IdentityCandidate[];
+  context: Record<string, string | null> | null;
+  status: "pending" | "resolved" | "dismissed";
+  resolved_player_id: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export interface ImportBatchInfo {
+  source: IdentitySource;
+  fileName: string | null;
+  createdBy: string | null;
+}
+
+export interface ImportBatch {
+  id: string;
+  source: IdentitySource;
+  file_name: string | null;
+  created_by: string | null;
+  status: "applied" | "rolled_back";
+  created_at: string;
+  rolled_back_at: string | null;
+  rolled_back_by: string | null;
+  performance_inserted: number;
+  performance_updated: number;
+  players_created: number;
+  players_updated: number;
+}
+
+export interface ImportRollbackResult {
+  performance_restored: number;
+  performance_deleted: number;
+  players_restored: number;
+  players_deleted: number;
+  players_kept: number;
 }
+
+export type CronRunStatus = "running" | "success" | "partial" | "failed";
+
+export interface CronRun {
+  id: string;
+  job: string;
+  status: CronRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  tokens_fetched: number | null;
+  players_matched: number | null;
+  prices_inserted: number | null;
+  unmatched_tokens: string[];
+  error: string | null;
+}
+
+export interface CronGap {
+  /** Last run before the gap, or the start of the window */
+  from: string;
+  /** First run after the gap, or now */
+  to: string;
+  missedRuns: number;
+}
+
+export interface PriceHealth {
+  status: "ok" | "stale";
+  lastPriceAt: string | null;
+  ageMinutes: number | null;
+  staleAfterMinutes: number;
+}
+
+export interface PendingToken {
+  id: string;
+  token_address: string;
+  token_symbol: string | null;
+  token_name: string;
+  last_price_usd: number | null;
+  candidates: IdentityCandidate[];
+  status: "pending" | "linked" | "created" | "ignored";
+  player_id: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+}
+
+/** An /api/v1 key as admins see it; the key itself is only shown once */
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  rate_limit_per_minute: number;
+  created_by: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+/** One page of an /api/v1 list; pass next_cursor back as ?cursor= for the next */
+export interface ApiPage<T> {
+  data: T[];
+  next_cursor: string | null;
+}
+
+export type ExportFormat = "csv" | "xlsx" | "json";
+
+/** Datasets served by /api/export/[dataset] (lib/export-datasets.ts) */
+export type ExportDataset =
+  | "tp-leaderboard"
+  | "volatility"
+  | "undervalued"
+  | "teams"
+  | "position-stats"
+  | "consistency"
+  | "player-prices"
+  | "player-performance";